@@ -0,0 +1,112 @@
+/**
+ * Address Parser Check
+ * Runs the compiled address parser (dist/utils/address-parser.js) against
+ * address lists as typed or pasted into the recipient fields: quoted and
+ * unquoted display names, comments, groups and semicolon separated lists.
+ *
+ * Usage: npm test (builds first), or node scripts/check-address-parser.mjs after npm run build:ts
+ */
+
+import assert from 'node:assert/strict';
+import { formatAddress, formatAddressList, isValidAddress, parseAddressList, toAddresses } from '../dist/utils/address-parser.js';
+import { runChecks } from './check-runner.mjs';
+
+const checks = [];
+function check(name, run) {
+  checks.push({ name, run });
+}
+
+/**
+ * Parse an address list into [name, email] pairs (empty name when there is none)
+ */
+function parse(text) {
+  return parseAddressList(text).map(address => [address.name || '', address.email]);
+}
+
+check('plain addresses separated by commas', () => {
+  assert.deepEqual(parse('a@example.com, b@example.com'), [['', 'a@example.com'], ['', 'b@example.com']]);
+});
+
+check('display names with angle addresses', () => {
+  assert.deepEqual(parse('Jane Doe <jane@example.com>, <bob@example.com>'), [
+    ['Jane Doe', 'jane@example.com'],
+    ['', 'bob@example.com']
+  ]);
+});
+
+check('quoted display name with a comma', () => {
+  assert.deepEqual(parse('"Doe, Jane" <jane@example.com>, bob@example.com'), [
+    ['Doe, Jane', 'jane@example.com'],
+    ['', 'bob@example.com']
+  ]);
+});
+
+check('unquoted "Last, First <address>" stays one recipient', () => {
+  assert.deepEqual(parse('Müller, Hans <hans@example.com>, Doe, Jane <jane@example.com>'), [
+    ['Müller, Hans', 'hans@example.com'],
+    ['Doe, Jane', 'jane@example.com']
+  ]);
+});
+
+check('comments give the display name', () => {
+  assert.deepEqual(parse('jane@example.com (Jane Doe)'), [['Jane Doe', 'jane@example.com']]);
+});
+
+check('semicolon separated list (Outlook)', () => {
+  assert.deepEqual(parse('Jane Doe <jane@example.com>; bob@example.com;'), [
+    ['Jane Doe', 'jane@example.com'],
+    ['', 'bob@example.com']
+  ]);
+});
+
+check('group names are not recipients', () => {
+  assert.deepEqual(parse('Team: a@example.com, b@example.com;, c@example.com'), [
+    ['', 'a@example.com'],
+    ['', 'b@example.com'],
+    ['', 'c@example.com']
+  ]);
+});
+
+check('duplicates are dropped, case-insensitively', () => {
+  assert.deepEqual(parse('Jane <jane@example.com>, JANE@example.com'), [['Jane', 'jane@example.com']]);
+});
+
+check('empty input', () => {
+  assert.deepEqual(parse(''), []);
+  assert.deepEqual(parse(' , ; '), []);
+});
+
+check('address validation', () => {
+  assert.equal(isValidAddress('jane@example.com'), true);
+  assert.equal(isValidAddress('jane@localhost'), false);
+  assert.equal(isValidAddress('jane example.com'), false);
+  assert.equal(isValidAddress('Jane <jane@example.com>'), false);
+});
+
+check('formatting quotes display names with specials', () => {
+  assert.equal(formatAddress({ name: 'Doe, Jane', email: 'jane@example.com' }), '"Doe, Jane" <jane@example.com>');
+  assert.equal(formatAddress({ name: 'Say "hi"', email: 'hi@example.com' }), '"Say \\"hi\\"" <hi@example.com>');
+  assert.equal(formatAddress({ name: 'Jane Doe', email: 'jane@example.com' }), 'Jane Doe <jane@example.com>');
+  assert.equal(formatAddress({ name: 'jane@example.com', email: 'jane@example.com' }), 'jane@example.com');
+});
+
+check('formatted lists parse back to the same recipients', () => {
+  const addresses = [
+    { name: 'Doe, Jane', email: 'jane@example.com' },
+    { name: 'Say "hi"', email: 'hi@example.com' },
+    { email: 'bob@example.com' }
+  ];
+  assert.deepEqual(parse(formatAddressList(addresses)), addresses.map(address => [address.name || '', address.email]));
+});
+
+check('address fields of loaded messages are normalized', () => {
+  assert.deepEqual(toAddresses('"Doe, Jane" <jane@example.com>, bob@example.com').map(address => address.email), ['jane@example.com', 'bob@example.com']);
+  assert.deepEqual(toAddresses({ name: 'Jane', email: 'jane@example.com' }), [{ name: 'Jane', email: 'jane@example.com' }]);
+  assert.deepEqual(toAddresses([{ email: 'jane@example.com' }, { email: '' }]), [{ email: 'jane@example.com' }]);
+  assert.deepEqual(toAddresses(undefined), []);
+});
+
+runChecks('address parser', checks).catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,160 @@
+/**
+ * IMAP Fetch Check
+ * Runs the compiled IMAP fetch service (dist/email/imap-fetch-service.js)
+ * against a local in-memory IMAP server (hoodiecrow-imap) and checks full
+ * fetches, older pages, delta fetches (including a delta with more new
+ * messages than one fetch takes), message sources and the folder list.
+ *
+ * Usage: npm test (builds first), or node scripts/check-imap-fetch.mjs after npm run build:ts
+ */
+
+import assert from 'node:assert/strict';
+import hoodiecrow from 'hoodiecrow-imap';
+import { fetchImapEmails, fetchImapMessageSource, listImapFolders } from '../dist/email/imap-fetch-service.js';
+import { runChecks } from './check-runner.mjs';
+
+const PAGE_SIZE = 3;
+
+/**
+ * RFC 5322 message numbered n
+ */
+function rawMessage(n) {
+  const date = new Date(Date.UTC(2025, 0, n, 12, 0, 0)).toUTCString().replace('GMT', '+0000');
+  return [
+    'From: Sender <sender@example.com>',
+    'To: Receiver <receiver@example.com>',
+    `Subject: Message ${n}`,
+    `Message-ID: <message-${n}@example.com>`,
+    `Date: ${date}`,
+    '',
+    `Body of message ${n}`
+  ].join('\r\n');
+}
+
+const server = hoodiecrow({
+  storage: {
+    INBOX: { messages: [1, 2, 3, 4, 5].map(n => ({ raw: rawMessage(n) })) },
+    '': {
+      separator: '/',
+      folders: {
+        Sent: { 'special-use': '\\Sent' }
+      }
+    }
+  }
+});
+
+const checks = [];
+function check(name, run) {
+  checks.push({ name, run });
+}
+
+let config;
+
+check('fetch returns the newest messages, newest first', async () => {
+  const result = await fetchImapEmails(config, { maxResults: PAGE_SIZE });
+  assert.equal(result.folder, 'INBOX');
+  assert.equal(result.totalMessages, 5);
+  assert.deepEqual(result.emails.map(email => email.subject), ['Message 5', 'Message 4', 'Message 3']);
+  assert.deepEqual(result.emails.map(email => email.uid), [5, 4, 3]);
+});
+
+check('parsed message fields', async () => {
+  const [email] = (await fetchImapEmails(config, { maxResults: 1 })).emails;
+  assert.equal(email.messageId, '<message-5@example.com>');
+  assert.match(email.from, /sender@example\.com/);
+  assert.match(email.text, /Body of message 5/);
+});
+
+check('empty mailbox', async () => {
+  const result = await fetchImapEmails(config, { folder: 'Sent' });
+  assert.equal(result.totalMessages, 0);
+  assert.deepEqual(result.emails, []);
+});
+
+check('full fetch reports the mailbox state', async () => {
+  const result = await fetchImapEmails(config, { maxResults: PAGE_SIZE });
+  assert.equal(result.isDelta, false);
+  assert.equal(result.highestUid, 5);
+  assert.ok(result.uidValidity > 0);
+  assert.equal(result.oldestUid, 3);
+  assert.equal(result.hasMore, true);
+});
+
+check('older page continues below the oldest UID', async () => {
+  const { uidValidity } = await fetchImapEmails(config, { maxResults: 1 });
+  const result = await fetchImapEmails(config, { maxResults: PAGE_SIZE, beforeUid: 3, uidValidity });
+  assert.deepEqual(result.emails.map(email => email.subject), ['Message 2', 'Message 1']);
+  assert.equal(result.oldestUid, 1);
+  assert.equal(result.hasMore, false);
+});
+
+check('delta without new messages', async () => {
+  const { uidValidity } = await fetchImapEmails(config, { maxResults: 1 });
+  const result = await fetchImapEmails(config, { maxResults: PAGE_SIZE, sinceUid: 5, uidValidity });
+  assert.equal(result.isDelta, true);
+  assert.equal(result.emails.length, 0);
+  assert.equal(result.existingUids.length, 5);
+});
+
+check('truncated delta advances the cursor to the highest UID fetched', async () => {
+  const { uidValidity } = await fetchImapEmails(config, { maxResults: 1 });
+  [6, 7, 8, 9].forEach(n => server.appendMessage('INBOX', [], new Date(), rawMessage(n)));
+
+  const result = await fetchImapEmails(config, { maxResults: PAGE_SIZE, sinceUid: 5, uidValidity });
+  assert.equal(result.isDelta, true);
+  assert.deepEqual(result.emails.map(email => email.subject), ['Message 9', 'Message 8', 'Message 7']);
+  assert.equal(result.highestUid, 9);
+  assert.equal(result.oldestUid, 7);
+  assert.equal(result.hasMore, true);
+  assert.equal(result.existingUids.length, 9);
+
+  // The new message left out is loaded as the next older page
+  const page = await fetchImapEmails(config, { maxResults: 1, beforeUid: result.oldestUid, uidValidity });
+  assert.deepEqual(page.emails.map(email => email.subject), ['Message 6']);
+});
+
+check('changed UIDVALIDITY forces a full fetch', async () => {
+  const result = await fetchImapEmails(config, { maxResults: PAGE_SIZE, sinceUid: 5, uidValidity: -1 });
+  assert.equal(result.isDelta, false);
+  assert.equal(result.emails.length, PAGE_SIZE);
+});
+
+check('message source', async () => {
+  const source = (await fetchImapMessageSource(config, 'INBOX', 2)).toString('utf8');
+  assert.match(source, /^Subject: Message 2$/m);
+  assert.match(source, /Body of message 2/);
+});
+
+check('folder list', async () => {
+  const folders = await listImapFolders(config);
+  const sent = folders.find(folder => folder.id === 'Sent');
+  assert.ok(folders.some(folder => folder.id === 'INBOX'), 'INBOX listed');
+  assert.equal(sent?.role, 'sent');
+});
+
+/**
+ * Start the server on a free port, run the checks in order and report
+ */
+async function main() {
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.server.address();
+  config = {
+    email: 'testuser',
+    password: 'testpass',
+    imapHost: '127.0.0.1',
+    imapPort: port,
+    imapSecure: false
+  };
+
+  try {
+    // The service logs every fetch; keep the report readable
+    await runChecks('IMAP fetch', checks, { quiet: true });
+  } finally {
+    await new Promise(resolve => server.close(resolve));
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,112 @@
+/**
+ * Reply Recipients Check
+ * Runs the compiled reply recipient rules (dist/email/reply-recipients.js)
+ * against sample messages: Reply-To, reply-all with and without
+ * Mail-Followup-To, replies to our own messages, List-Post and the address
+ * objects of IMAP (mailparser) headers.
+ *
+ * Usage: npm test (builds first), or node scripts/check-reply-recipients.mjs after npm run build:ts
+ */
+
+import assert from 'node:assert/strict';
+import { getHeaderAddresses, resolveReplyRecipients } from '../dist/email/reply-recipients.js';
+import { runChecks } from './check-runner.mjs';
+
+const OWN = new Set(['me@example.com']);
+
+const checks = [];
+function check(name, run) {
+  checks.push({ name, run });
+}
+
+/**
+ * Message from Alice to us and Bob, copied to Carol
+ */
+function message(headers = {}, fields = {}) {
+  return {
+    id: 'message-1',
+    subject: 'Budget',
+    from: { name: 'Alice', email: 'alice@example.com' },
+    to: [{ email: 'me@example.com' }, { name: 'Bob', email: 'bob@example.com' }],
+    cc: [{ email: 'carol@example.com' }],
+    headers,
+    ...fields
+  };
+}
+
+/**
+ * Recipient addresses of a reply, as { to, cc } address strings
+ */
+function recipients(email, mode) {
+  const result = resolveReplyRecipients(email, mode, OWN);
+  return result && {
+    to: result.to.map(address => address.email),
+    cc: result.cc.map(address => address.email)
+  };
+}
+
+check('reply goes to the sender', () => {
+  assert.deepEqual(recipients(message(), 'reply'), { to: ['alice@example.com'], cc: [] });
+});
+
+check('reply goes to Reply-To instead of From', () => {
+  const email = message({ 'reply-to': 'Team <team@example.com>' });
+  assert.deepEqual(recipients(email, 'reply'), { to: ['team@example.com'], cc: [] });
+});
+
+check('reply-all copies To and Cc, without our own address', () => {
+  assert.deepEqual(recipients(message(), 'reply-all'), {
+    to: ['alice@example.com'],
+    cc: ['bob@example.com', 'carol@example.com']
+  });
+});
+
+check('reply-all leaves out duplicates, case-insensitively', () => {
+  const email = message({}, { cc: [{ email: 'BOB@example.com' }, { email: 'alice@example.com' }] });
+  assert.deepEqual(recipients(email, 'reply-all'), { to: ['alice@example.com'], cc: ['bob@example.com'] });
+});
+
+check('reply-all goes to Mail-Followup-To when set', () => {
+  const email = message({ 'mail-followup-to': 'list@example.com, me@example.com' });
+  assert.deepEqual(recipients(email, 'reply-all'), { to: ['list@example.com'], cc: [] });
+});
+
+check('replying to our own message goes to its recipients', () => {
+  const email = message({}, { from: { email: 'me@example.com' } });
+  assert.deepEqual(recipients(email, 'reply'), { to: ['bob@example.com'], cc: [] });
+  assert.deepEqual(recipients(email, 'reply-all'), { to: ['bob@example.com'], cc: ['carol@example.com'] });
+});
+
+check('a message to ourselves is answered to its sender', () => {
+  const email = message({}, { from: { email: 'me@example.com' }, to: [{ email: 'me@example.com' }], cc: [] });
+  assert.deepEqual(recipients(email, 'reply'), { to: ['me@example.com'], cc: [] });
+});
+
+check('reply to list goes to List-Post', () => {
+  const email = message({ 'list-post': '<mailto:dev@lists.example.com>' });
+  assert.deepEqual(recipients(email, 'reply-list'), { to: ['dev@lists.example.com'], cc: [] });
+  assert.equal(recipients(message(), 'reply-list'), null);
+});
+
+check('address headers parsed by mailparser (IMAP), with groups', () => {
+  const email = message({
+    'reply-to': {
+      value: [
+        { name: 'Team', group: [{ address: 'a@example.com', name: '' }, { address: 'b@example.com', name: 'B' }] },
+        { address: 'c@example.com', name: '' }
+      ],
+      text: 'Team: a@example.com, B <b@example.com>;, c@example.com'
+    }
+  });
+  assert.deepEqual(getHeaderAddresses(email, 'reply-to').map(address => address.email), ['a@example.com', 'b@example.com', 'c@example.com']);
+});
+
+check('address fields held as strings (older caches)', () => {
+  const email = message({}, { from: 'Alice <alice@example.com>', to: 'me@example.com, Bob <bob@example.com>', cc: '' });
+  assert.deepEqual(recipients(email, 'reply-all'), { to: ['alice@example.com'], cc: ['bob@example.com'] });
+});
+
+runChecks('reply recipients', checks).catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,40 @@
+/**
+ * Check Runner
+ * Shared by the check scripts: runs named checks in order, prints "ok" or
+ * "not ok" (with the failure) per check and a summary, and sets the exit code.
+ */
+
+/**
+ * Run checks in order and report
+ * @param {string} title - What is checked, for the summary line
+ * @param {{ name: string, run: () => unknown }[]} checks - Checks
+ * @param {{ quiet?: boolean }} [options] - quiet: hide console.log output of the code under test
+ * @returns {Promise<number>} Number of failed checks
+ */
+export async function runChecks(title, checks, options = {}) {
+  const log = console.log;
+  if (options.quiet) {
+    console.log = () => {};
+  }
+
+  let failed = 0;
+  try {
+    for (const { name, run } of checks) {
+      try {
+        await run();
+        log(`ok - ${name}`);
+      } catch (error) {
+        failed++;
+        log(`not ok - ${name}\n  ${error.stack || error}`);
+      }
+    }
+  } finally {
+    console.log = log;
+  }
+
+  console.log(`\n${checks.length - failed} of ${checks.length} ${title} checks passed`);
+  if (failed > 0) {
+    process.exitCode = 1;
+  }
+  return failed;
+}
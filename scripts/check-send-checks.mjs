@@ -0,0 +1,102 @@
+/**
+ * Send Checks Check
+ * Runs the compiled pre-send checks (dist/email/send-checks.js) against sample
+ * messages: forgotten attachments, empty subjects, recipients outside the
+ * organisation's domains, long To/Cc lists, and card (Luhn) and IBAN numbers.
+ *
+ * Usage: npm test (builds first), or node scripts/check-send-checks.mjs after npm run build:ts
+ */
+
+import assert from 'node:assert/strict';
+import { getSendChecks, parseDomains, runSendChecks } from '../dist/email/send-checks.js';
+import { runChecks } from './check-runner.mjs';
+
+const SETTINGS = { disabled: [], organisationDomains: ['example.com'], maxVisibleRecipients: 3 };
+
+const checks = [];
+function check(name, run) {
+  checks.push({ name, run });
+}
+
+/**
+ * Message that passes every check, with the given fields changed
+ */
+function message(fields = {}) {
+  return {
+    to: [{ email: 'jane@example.com' }],
+    cc: [],
+    bcc: [],
+    subject: 'Budget',
+    text: 'Hi Jane, see you tomorrow.',
+    attachments: [],
+    account: null,
+    ...fields
+  };
+}
+
+/**
+ * Run one check by id
+ * @returns Warning text, or null when the message passes
+ */
+function runCheck(id, input, settings = SETTINGS) {
+  const sendCheck = getSendChecks().find(candidate => candidate.id === id);
+  assert.ok(sendCheck, `check ${id} registered`);
+  return sendCheck.run(input, settings);
+}
+
+check('a plain message passes every check', () => {
+  getSendChecks().forEach(sendCheck => assert.equal(sendCheck.run(message(), SETTINGS), null, sendCheck.id));
+});
+
+check('attachment mentioned but not attached', () => {
+  assert.ok(runCheck('missing-attachment', message({ text: 'The report is attached.' })));
+  const attachment = { filename: 'report.pdf', contentType: 'application/pdf', size: 1, content: 'AA==' };
+  assert.equal(runCheck('missing-attachment', message({ text: 'The report is attached.', attachments: [attachment] })), null);
+});
+
+check('empty subject', () => {
+  assert.ok(runCheck('empty-subject', message({ subject: '  ' })));
+});
+
+check('card numbers are found only with a valid Luhn checksum', () => {
+  assert.match(runCheck('sensitive-data', message({ text: 'Card: 4111 1111 1111 1111' })), /card number ending in 1111/);
+  assert.match(runCheck('sensitive-data', message({ text: 'Card: 4111-1111-1111-1111' })), /card number/);
+  assert.equal(runCheck('sensitive-data', message({ text: 'Card: 4111 1111 1111 1112' })), null);
+  assert.equal(runCheck('sensitive-data', message({ text: 'Order 1234567890123' })), null);
+});
+
+check('IBANs are found only with valid check digits', () => {
+  assert.match(runCheck('sensitive-data', message({ text: 'IBAN DE89 3704 0044 0532 0130 00' })), /IBAN ending in 3000/);
+  assert.match(runCheck('sensitive-data', message({ text: 'IBAN GB82WEST12345698765432' })), /IBAN ending in 5432/);
+  assert.equal(runCheck('sensitive-data', message({ text: 'IBAN DE88 3704 0044 0532 0130 00' })), null);
+});
+
+check('recipients outside the organisation domains', () => {
+  const inside = message({ to: [{ email: 'jane@example.com' }], cc: [{ email: 'bob@mail.example.com' }] });
+  assert.equal(runCheck('external-recipients', inside), null);
+
+  const outside = message({ bcc: [{ email: 'eve@example.org' }, { email: 'mallory@notexample.com' }] });
+  assert.match(runCheck('external-recipients', outside), /2 recipients are outside your organisation: eve@example\.org, mallory@notexample\.com/);
+  assert.equal(runCheck('external-recipients', outside, { ...SETTINGS, organisationDomains: [] }), null);
+});
+
+check('long To and Cc lists', () => {
+  const to = ['a', 'b', 'c', 'd'].map(name => ({ email: `${name}@example.com` }));
+  assert.match(runCheck('visible-recipients', message({ to })), /4 recipients/);
+  assert.equal(runCheck('visible-recipients', message({ to: [], bcc: to })), null);
+});
+
+check('domain lists', () => {
+  assert.deepEqual(parseDomains('Example.com, @example.org; *.corp.example.net example.com'), ['example.com', 'example.org', 'corp.example.net']);
+  assert.deepEqual(parseDomains(' '), []);
+});
+
+check('runSendChecks reports each warning with its check', () => {
+  const warnings = runSendChecks(message({ subject: '', text: 'See the attached file.' }));
+  assert.deepEqual(warnings.map(warning => warning.checkId), ['missing-attachment', 'empty-subject']);
+});
+
+runChecks('pre-send', checks).catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
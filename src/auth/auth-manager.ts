@@ -9,6 +9,7 @@ import { UIThemeManager } from '../ui/ui-theme-manager.js';
 import { EventManager } from '../managers/event-manager.js';
 import { IMAPEmailManager } from '../email/imap-email-manager.js';
 import type { IpcRenderer } from 'electron';
+import type { EmailConfig, MailAccount } from '../../types/config';
 
 // Get ipcRenderer from window
 const ipcRenderer = (window as any).require('electron').ipcRenderer as IpcRenderer;
@@ -27,6 +28,12 @@ interface TokenLoadResult {
     token?: GoogleOAuthCredentials;
 }
 
+interface AccountAddResult {
+    success: boolean;
+    account?: MailAccount;
+    error?: string;
+}
+
 interface TokenSaveResult {
     success: boolean;
 }
@@ -66,8 +73,43 @@ export class AuthManager {
         void _eventManager;
         console.log('AuthManager initialized with dependencies');
         
-        // Try to load stored token
+        // Try to load stored tokens
         this.loadStoredGoogleToken();
+        this.restoreAccounts();
+    }
+
+    /**
+     * Load the configured accounts and show their mail, starting from the local store
+     */
+    static async restoreAccounts(): Promise<void> {
+        if (!this.imapEmailManager) {
+            return;
+        }
+
+        try {
+            const accounts = await this.imapEmailManager.loadAccounts();
+            if (accounts.length > 0) {
+                console.log(`AuthManager: Restoring ${accounts.length} accounts`);
+                await this.imapEmailManager.loadEmails();
+            }
+        } catch (error) {
+            console.error('AuthManager: Error restoring accounts:', error);
+        }
+    }
+
+    /**
+     * Register an account in the main process and refresh the account list
+     * @param channel - IPC channel that adds the account
+     * @param params - Credentials of the account
+     * @returns The added account
+     */
+    private static async addAccount(channel: string, params: Record<string, unknown>): Promise<MailAccount> {
+        const result: AccountAddResult = await ipcRenderer.invoke(channel, params);
+        if (!result.success || !result.account) {
+            throw new Error(result.error || 'Failed to add account');
+        }
+        await this.imapEmailManager?.loadAccounts();
+        return result.account;
     }
 
 
@@ -218,17 +260,16 @@ export class AuthManager {
                 // Store the token and set credentials
                 await this.saveGoogleToken(result.token);
                 this.currentToken = result.token;
+                const account = await this.addAccount('add-gmail-account', { token: result.token });
                 
-                // Set Google auth in IMAP manager if available
+                // Show the new account in IMAP manager if available
                 if (this.imapEmailManager) {
-                    this.imapEmailManager.setGoogleAuth(result.token);
-                    
                     // **CRITICAL: Directly trigger email loading in the same module**
                     console.log('AuthManager: Triggering email loading...');
                     this.uiThemeManager.updateOAuthProgress(90, 'Loading emails...');
                     
                     try {
-                        const emailResult = await this.imapEmailManager.loadEmails();
+                        const emailResult = await this.imapEmailManager.switchAccount(account.id);
                         
                                                  if (emailResult.success) {
                             console.log(`AuthManager: Successfully loaded ${emailResult.emails.length} emails in ${Object.keys(emailResult.conversations).length} conversations`);
@@ -293,6 +334,96 @@ export class AuthManager {
         }
     }
 
+    /**
+     * Handle Microsoft SSO authentication flow
+     * The main process stores the token with the account and refreshes it, so
+     * only the resulting account is needed here.
+     */
+    static async handleMicrosoftSSO(): Promise<void> {
+        console.log('AuthManager: Microsoft SSO requested');
+
+        const uiManager = this.uiThemeManager;
+        if (!uiManager) {
+            console.error('UI Theme Manager not initialized');
+            return;
+        }
+
+        try {
+            uiManager.showOAuthLoadingModal('microsoft');
+            uiManager.updateOAuthProgress(25, 'Opening sign-in window...');
+
+            const result = await ipcRenderer.invoke('microsoft-sso');
+            if (!result.success) {
+                console.error('AuthManager: Microsoft OAuth failed:', result.error);
+                uiManager.hideOAuthLoadingModal();
+                uiManager.showNotification('Microsoft authentication failed: ' + result.error, 'error');
+                return;
+            }
+
+            console.log('AuthManager: Microsoft OAuth successful');
+            uiManager.updateOAuthProgress(75, 'Verifying permissions...');
+            const account: MailAccount = result.account;
+            await this.imapEmailManager?.loadAccounts();
+
+            if (!this.imapEmailManager) {
+                console.warn('AuthManager: IMAPEmailManager not available');
+                uiManager.updateOAuthProgress(100, 'Authentication complete');
+                setTimeout(() => {
+                    uiManager.hideOAuthLoadingModal();
+                    uiManager.showNotification('Successfully connected to Microsoft!', 'success');
+                }, 500);
+                return;
+            }
+
+            console.log('AuthManager: Triggering email loading...');
+            uiManager.updateOAuthProgress(90, 'Loading emails...');
+            const emailResult = await this.imapEmailManager.switchAccount(account.id);
+
+            if (emailResult.success) {
+                console.log(`AuthManager: Successfully loaded ${emailResult.emails.length} Outlook emails`);
+                uiManager.updateOAuthProgress(100, 'Complete!');
+                setTimeout(() => {
+                    uiManager.hideOAuthLoadingModal();
+                    uiManager.showNotification(
+                        `Successfully connected! Loaded ${emailResult.emails.length} emails.`,
+                        'success'
+                    );
+                }, 500);
+            } else {
+                console.error('AuthManager: Email loading failed:', emailResult.error);
+                uiManager.hideOAuthLoadingModal();
+                uiManager.showNotification('Failed to load emails: ' + emailResult.error, 'error');
+            }
+
+        } catch (error) {
+            console.error('AuthManager: Microsoft OAuth error:', error);
+            uiManager.hideOAuthLoadingModal();
+            uiManager.showNotification('Authentication failed: ' + (error as Error).message, 'error');
+        }
+    }
+
+    /**
+     * Add an IMAP/SMTP account from the settings form and show its inbox
+     * @param config - Server settings and credentials
+     * @returns True if the account was added
+     */
+    static async handleImapAccount(config: EmailConfig): Promise<boolean> {
+        const uiManager = this.uiThemeManager;
+        try {
+            const account = await this.addAccount('add-imap-account', { config });
+            console.log(`AuthManager: Added IMAP account ${account.email}`);
+            uiManager?.showNotification(`Added ${account.email}`, 'success');
+            if (this.imapEmailManager) {
+                await this.imapEmailManager.switchAccount(account.id);
+            }
+            return true;
+        } catch (error) {
+            console.error('AuthManager: Error adding IMAP account:', error);
+            uiManager?.showNotification('Failed to add account: ' + (error as Error).message, 'error');
+            return false;
+        }
+    }
+
     /**
      * Load stored Google OAuth token
      * @returns True if token loaded successfully
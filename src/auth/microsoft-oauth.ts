@@ -0,0 +1,296 @@
+/**
+ * Microsoft OAuth Module
+ * Runs in the Electron main process. Implements the OAuth 2.0 authorization code
+ * flow with PKCE for Microsoft identity platform (personal and work/school
+ * accounts) using a loopback redirect, and keeps the Microsoft token fresh.
+ *
+ * Tokens are persisted through a MicrosoftTokenStorage (one per account) and
+ * refreshed here, so the renderer never needs to hold or refresh them; Graph
+ * handlers call getAccessToken().
+ */
+
+import * as http from 'http';
+import * as crypto from 'crypto';
+import type { AddressInfo } from 'net';
+import type { OAuthProviderConfig, MicrosoftAuthToken } from '../../types/config';
+
+const AUTHORITY = 'https://login.microsoftonline.com/common/oauth2/v2.0';
+// Scopes required on top of the configured Graph scopes
+const REQUIRED_SCOPES = ['openid', 'profile', 'offline_access'];
+const AUTH_TIMEOUT_MS = 5 * 60 * 1000;
+// Refresh tokens this long before they expire
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * Persistence for one account's Microsoft token
+ */
+export interface MicrosoftTokenStorage {
+  load(): Promise<MicrosoftAuthToken | null>;
+  save(token: MicrosoftAuthToken): Promise<void>;
+}
+
+/**
+ * A started authorization: open authUrl in a window, then await result
+ */
+export interface MicrosoftAuthorization {
+  authUrl: string;
+  result: Promise<MicrosoftAuthToken>;
+  cancel: (reason?: string) => void;
+}
+
+/**
+ * Create a PKCE code verifier and its S256 challenge
+ * @returns Verifier and challenge (base64url)
+ */
+export function createPkcePair(): { verifier: string; challenge: string } {
+  const verifier = crypto.randomBytes(32).toString('base64url');
+  const challenge = crypto.createHash('sha256').update(verifier).digest('base64url');
+  return { verifier, challenge };
+}
+
+/**
+ * Render the page shown in the sign-in window after the redirect
+ */
+function callbackPage(success: boolean, message: string): string {
+  const color = success ? '#0078D4' : '#d93025';
+  const title = success ? '✓ Authorization Successful!' : '✗ Authorization Failed';
+  const safeMessage = message.replace(/[<>&"]/g, char => `&#${char.charCodeAt(0)};`);
+  return `
+    <html>
+      <body style="font-family: Arial, sans-serif; text-align: center; padding: 50px;">
+        <h2 style="color: ${color};">${title}</h2>
+        <p>${safeMessage}</p>
+        <p>You can close this window and return to the app.</p>
+      </body>
+    </html>
+  `;
+}
+
+/**
+ * Microsoft Auth Service - PKCE sign-in and token refresh for one account
+ */
+export class MicrosoftAuthService {
+  private config: OAuthProviderConfig;
+  private storage: MicrosoftTokenStorage;
+  private token: MicrosoftAuthToken | null = null;
+  private tokenLoaded: boolean = false;
+  private refreshPromise: Promise<MicrosoftAuthToken> | null = null;
+
+  constructor(config: OAuthProviderConfig, storage: MicrosoftTokenStorage) {
+    this.config = config;
+    this.storage = storage;
+  }
+
+  /**
+   * Check whether a client ID has been configured
+   */
+  isConfigured(): boolean {
+    return !!this.config.clientId && this.config.clientId !== 'MISSING';
+  }
+
+  /**
+   * Load the stored token
+   * @returns Stored token, or null if not signed in
+   */
+  async loadToken(): Promise<MicrosoftAuthToken | null> {
+    if (this.tokenLoaded) {
+      return this.token;
+    }
+    try {
+      this.token = await this.storage.load();
+    } catch (error) {
+      console.error('MicrosoftAuth: Failed to read stored token:', error);
+      this.token = null;
+    }
+    this.tokenLoaded = true;
+    return this.token;
+  }
+
+  /**
+   * Store a token
+   * @param token - Microsoft token
+   */
+  async saveToken(token: MicrosoftAuthToken): Promise<void> {
+    await this.storage.save(token);
+    this.token = token;
+    this.tokenLoaded = true;
+  }
+
+  /**
+   * Start the authorization code flow on a loopback redirect
+   * Microsoft accepts any port for http://localhost redirect URIs registered
+   * for "Mobile and desktop applications", so an ephemeral port is used.
+   * The resulting token is not stored; the caller decides which account it belongs to.
+   * @returns Authorization URL and a promise for the resulting token
+   */
+  async startAuthorization(): Promise<MicrosoftAuthorization> {
+    if (!this.isConfigured()) {
+      throw new Error('Microsoft OAuth client ID not configured. Please update OAUTH_CONFIG.microsoft in config.ts.');
+    }
+
+    const { verifier, challenge } = createPkcePair();
+    const state = crypto.randomBytes(16).toString('hex');
+    let settle: { resolve: (code: string) => void; reject: (error: Error) => void } | null = null;
+    const codePromise = new Promise<string>((resolve, reject) => {
+      settle = { resolve, reject };
+    });
+
+    const server = http.createServer((req, res) => {
+      const url = new URL(req.url || '', 'http://localhost');
+      if (url.pathname !== '/callback') {
+        res.writeHead(404);
+        res.end('Not Found');
+        return;
+      }
+
+      const code = url.searchParams.get('code');
+      const error = url.searchParams.get('error_description') || url.searchParams.get('error');
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+
+      if (url.searchParams.get('state') !== state) {
+        res.end(callbackPage(false, 'Invalid state parameter'));
+        settle?.reject(new Error('OAuth state mismatch'));
+      } else if (code) {
+        res.end(callbackPage(true, 'Finishing sign-in...'));
+        settle?.resolve(code);
+      } else {
+        res.end(callbackPage(false, error || 'Unknown error'));
+        settle?.reject(new Error(error || 'Microsoft authorization failed'));
+      }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(0, '127.0.0.1', () => resolve());
+    });
+    const port = (server.address() as AddressInfo).port;
+    const redirectUri = `http://localhost:${port}/callback`;
+    console.log(`MicrosoftAuth: Callback server listening on ${redirectUri}`);
+
+    const timeout = setTimeout(() => settle?.reject(new Error('OAuth flow timed out')), AUTH_TIMEOUT_MS);
+    const close = () => {
+      clearTimeout(timeout);
+      server.close();
+    };
+
+    const authUrl = new URL(`${AUTHORITY}/authorize`);
+    authUrl.searchParams.append('client_id', this.config.clientId);
+    authUrl.searchParams.append('response_type', 'code');
+    authUrl.searchParams.append('redirect_uri', redirectUri);
+    authUrl.searchParams.append('response_mode', 'query');
+    authUrl.searchParams.append('scope', this.getScopes());
+    authUrl.searchParams.append('state', state);
+    authUrl.searchParams.append('code_challenge', challenge);
+    authUrl.searchParams.append('code_challenge_method', 'S256');
+    authUrl.searchParams.append('prompt', this.config.prompt || 'select_account');
+
+    const result = codePromise
+      .then(code => this.exchangeCode(code, redirectUri, verifier))
+      .finally(close);
+
+    return {
+      authUrl: authUrl.toString(),
+      result,
+      cancel: (reason?: string) => settle?.reject(new Error(reason || 'OAuth flow cancelled'))
+    };
+  }
+
+  /**
+   * Get a token that is valid for at least a few more minutes, refreshing it if needed
+   * @returns Valid Microsoft token
+   */
+  async getAccessToken(): Promise<MicrosoftAuthToken> {
+    const token = await this.loadToken();
+    if (!token) {
+      throw new Error('Not signed in to Microsoft');
+    }
+    if (token.expires_at && Date.now() < token.expires_at - REFRESH_MARGIN_MS) {
+      return token;
+    }
+    return this.refreshToken();
+  }
+
+  /**
+   * Exchange the stored refresh token for a new access token
+   * Concurrent callers share one refresh request.
+   * @returns Refreshed token
+   */
+  async refreshToken(): Promise<MicrosoftAuthToken> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async performRefresh(): Promise<MicrosoftAuthToken> {
+    const current = await this.loadToken();
+    if (!current?.refresh_token) {
+      throw new Error('No Microsoft refresh token available. Please sign in again.');
+    }
+
+    console.log('MicrosoftAuth: Refreshing access token...');
+    const params = new URLSearchParams();
+    params.append('client_id', this.config.clientId);
+    params.append('grant_type', 'refresh_token');
+    params.append('refresh_token', current.refresh_token);
+    params.append('scope', this.getScopes());
+
+    // Microsoft may rotate the refresh token; keep the old one if it does not
+    const token = await this.requestToken(params);
+    const refreshed = { ...token, refresh_token: token.refresh_token || current.refresh_token };
+    await this.saveToken(refreshed);
+    return refreshed;
+  }
+
+  private async exchangeCode(code: string, redirectUri: string, verifier: string): Promise<MicrosoftAuthToken> {
+    console.log('MicrosoftAuth: Exchanging authorization code for token...');
+    const params = new URLSearchParams();
+    params.append('client_id', this.config.clientId);
+    params.append('grant_type', 'authorization_code');
+    params.append('code', code);
+    params.append('redirect_uri', redirectUri);
+    params.append('code_verifier', verifier);
+    params.append('scope', this.getScopes());
+    return this.requestToken(params);
+  }
+
+  /**
+   * POST to the token endpoint
+   * @param params - Grant parameters
+   * @returns Token with an absolute expiry
+   */
+  private async requestToken(params: URLSearchParams): Promise<MicrosoftAuthToken> {
+    // Confidential (web) registrations also need the secret; public desktop clients must not send one
+    if (this.config.clientSecret && this.config.clientSecret !== 'MISSING') {
+      params.append('client_secret', this.config.clientSecret);
+    }
+
+    const response = await fetch(`${AUTHORITY}/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: params
+    });
+    const data: any = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      console.error('MicrosoftAuth: Token request failed:', response.status, data.error);
+      throw new Error(data.error_description || data.error || `Token request failed with status ${response.status}`);
+    }
+
+    return {
+      access_token: data.access_token,
+      refresh_token: data.refresh_token,
+      token_type: 'Bearer',
+      expires_in: data.expires_in,
+      expires_at: Date.now() + (data.expires_in * 1000),
+      scope: data.scope,
+      id_token: data.id_token
+    };
+  }
+
+  private getScopes(): string {
+    return Array.from(new Set([...REQUIRED_SCOPES, ...(this.config.scopes || [])])).join(' ');
+  }
+}
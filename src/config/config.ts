@@ -81,7 +81,7 @@ export const DOMPURIFY_CONFIG: DOMPurifyConfig = {
         ALLOWED_ATTR: [
             'href', 'src', 'alt', 'title', 'width', 'height', 'style', 'class', 'id', 'target',
             'border', 'cellpadding', 'cellspacing', 'align', 'valign', 'bgcolor', 'color', 'face', 'size', 'loading',
-            'data-action', 'data-attachment-index', 'type', 'data-attachment'
+            'data-action', 'data-attachment-index', 'type', 'data-attachment', 'data-signature-id'
         ],
         FORBID_TAGS: ['script', 'object', 'embed', 'form', 'input'],
         FORBID_ATTR: ['onerror', 'onload', 'onclick', 'onmouseover', 'onfocus', 'onblur']
@@ -182,7 +182,11 @@ export const APP_CONFIG: AppConfig = {
         defaultTheme: 'light',
         animationsEnabled: true,
         compactMode: false,
-        showPreviewPane: true
+        showPreviewPane: true,
+        undoSendSeconds: 10, // 5-30, the user's choice is kept in localStorage
+        replyPosition: 'top', // 'top' or 'bottom' of the quoted text, also kept in localStorage
+        organisationDomains: [], // Send checks warn about recipients outside these domains
+        maxVisibleRecipients: 10 // Send checks suggest Bcc above this many To and Cc recipients
     }
 };
 
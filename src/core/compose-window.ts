@@ -0,0 +1,175 @@
+/**
+ * Compose Window Renderer
+ * Entry point of a compose window (public/compose.html), opened by the main
+ * process with open-compose-window. The window runs a composer of its own, so
+ * its message, draft autosave and send status are independent of the main
+ * window and of other compose windows. A draft id in the query (?draft=...)
+ * continues that draft; otherwise the window starts a new message.
+ *
+ * The window closes once its message is sent, scheduled or closed (kept as a
+ * draft); messages it puts into the outbox are announced in the main window.
+ */
+
+import { uiThemeManager } from '../ui/ui-theme-manager.js';
+import { getEmailComposer } from '../email/email-composer.js';
+import { mountComposeForm } from '../ui/compose-form.js';
+import { DOMPURIFY_CONFIG } from '../config/config.js';
+import { SafeHTML } from '../utils/safe-html.js';
+import { getIpcRenderer } from '../utils/ipc-renderer.js';
+import type { ComposeState } from '../../types/email';
+
+// Set once the message is saved or sent, so the window may close
+let closing = false;
+// Message of the window while it is saved on closing, restored if that fails
+let closingState: ComposeState | null = null;
+
+// Closed from the title bar: keep the message as a draft (also on the server) first.
+// Registered before the composer, whose own handler would save the draft locally only.
+window.addEventListener('beforeunload', (event: BeforeUnloadEvent) => {
+    if (closing) {
+        return;
+    }
+    event.returnValue = false;
+    closeCompose();
+});
+
+/**
+ * Close the message, keeping it as a draft; the window closes once it is saved
+ */
+function closeCompose(): void {
+    closingState = composer.getComposeState();
+    composer.closeCompose();
+}
+
+/**
+ * Close the window once the draft saves in progress are done. If a save failed,
+ * the window stays open with the message unless the user discards it.
+ */
+function closeWindow(): void {
+    composer.whenSaved()
+        .then(() => true)
+        .catch((error: Error) => {
+            console.error('Compose window: Failed to save the draft:', error);
+            uiThemeManager.showNotification(`Failed to save the draft: ${error.message}`, 'error');
+            return confirm('The draft could not be saved. Close the window and discard the message?');
+        })
+        .then(close => {
+            if (close) {
+                closing = true;
+                window.close();
+            } else if (closingState) {
+                composer.loadComposeState(closingState);
+            }
+            closingState = null;
+        });
+}
+
+// UI helpers the composer modules look up globally; the compose form fills the
+// window, so "hiding" it closes the window
+(globalThis as any).DOMPURIFY_CONFIG = DOMPURIFY_CONFIG;
+(globalThis as any).showNotification = uiThemeManager.showNotification.bind(uiThemeManager);
+(globalThis as any).showLoading = uiThemeManager.showLoading.bind(uiThemeManager);
+(globalThis as any).showComposeModal = () => window.focus();
+(globalThis as any).hideComposeModal = closeWindow;
+
+if (typeof DOMPurify !== 'undefined') {
+    DOMPurify.setConfig(DOMPURIFY_CONFIG);
+}
+try {
+    SafeHTML.initialize();
+    (globalThis as any).SafeHTML = SafeHTML;
+} catch (error) {
+    console.warn('Compose window: SafeHTML initialization failed:', error);
+}
+
+mountComposeForm();
+const composer = getEmailComposer();
+
+/**
+ * Window title after the subject of the message
+ */
+function updateTitle(): void {
+    const subject = (document.getElementById('subject-input') as HTMLInputElement | null)?.value.trim();
+    document.title = subject || 'New Message';
+}
+
+/**
+ * Whether a dialog (e.g. templates, send checks) or the link bar of the editor is open
+ */
+function isOverlayOpen(): boolean {
+    const linkBar = document.getElementById('editor-link-bar');
+    return !!document.querySelector('.modal.show:not(#compose-modal)') || !!(linkBar && !linkBar.hidden);
+}
+
+/**
+ * Wire the compose form: Send (the button is disabled while the message is sent),
+ * Save Draft, close and Escape
+ */
+function setupComposeForm(): void {
+    const form = document.getElementById('compose-form') as HTMLFormElement | null;
+    const sendButton = form?.querySelector('button[type="submit"]') as HTMLButtonElement | null;
+    form?.addEventListener('submit', async (event: Event) => {
+        event.preventDefault();
+        if (sendButton?.disabled) {
+            return;
+        }
+        if (sendButton) sendButton.disabled = true;
+        try {
+            await composer.sendEmail();
+        } finally {
+            if (sendButton) sendButton.disabled = false;
+        }
+    });
+
+    document.getElementById('save-draft-btn')?.addEventListener('click', () => composer.saveDraft());
+    document.getElementById('close-compose')?.addEventListener('click', closeCompose);
+    document.getElementById('subject-input')?.addEventListener('input', updateTitle);
+    document.addEventListener('keydown', (event: KeyboardEvent) => {
+        // Escape closes the dialog or link bar open over the form first
+        if (event.key !== 'Escape' || event.defaultPrevented || isOverlayOpen()) {
+            return;
+        }
+        closeCompose();
+    });
+}
+
+/**
+ * Load the sending accounts, then the draft to continue or a new message
+ */
+async function initializeComposeWindow(): Promise<void> {
+    uiThemeManager.initialize();
+    setupComposeForm();
+    composer.runInComposeWindow();
+
+    const ipcRenderer = getIpcRenderer();
+    if (ipcRenderer) {
+        const result = await ipcRenderer.invoke('list-accounts');
+        if (result.success) {
+            await composer.setAccounts(result.accounts);
+        } else {
+            console.error('Compose window: Failed to load accounts:', result.error);
+        }
+    }
+
+    const draftId = new URLSearchParams(window.location.search).get('draft');
+    if (draftId) {
+        try {
+            if (!(await composer.resumeDraftById(draftId))) {
+                uiThemeManager.showNotification('The draft no longer exists', 'warning');
+            }
+        } catch (error) {
+            console.error('Compose window: Failed to load draft:', error);
+            uiThemeManager.showNotification(`Failed to load draft: ${(error as Error).message}`, 'error');
+        }
+    } else {
+        composer.resetCompose();
+        document.getElementById('to-input')?.focus();
+    }
+    updateTitle();
+}
+
+if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', () => initializeComposeWindow());
+} else {
+    initializeComposeWindow();
+}
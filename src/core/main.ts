@@ -1,4 +1,4 @@
-import { app, BrowserWindow, ipcMain, dialog, Menu, IpcMainInvokeEvent, shell } from 'electron';
+import { app, BrowserWindow, ipcMain, dialog, Menu, IpcMainInvokeEvent, shell, powerMonitor } from 'electron';
 import * as path from 'path';
 import * as fs from 'fs'; // Use standard fs for sync methods
 import { promises as fsPromises } from 'fs'; // Use promises for async methods
@@ -7,7 +7,27 @@ import * as http from 'http';
 import * as net from 'net';
 import { fileURLToPath } from 'url';
 import { v4 as uuidv4 } from 'uuid';
+import type { Client } from '@microsoft/microsoft-graph-client';
+import type { EmailConfig, MailAccount, MicrosoftAuthToken, SendIdentity, StoredMailAccount } from '../../types/config';
+import type { EmailDraft, ScheduledMessageInput, SendRequest } from '../../types/email';
 import { OAUTH_CONFIG } from '../config/config.js';
+import { fetchImapEmails, fetchImapMessageSource, listImapFolders } from '../email/imap-fetch-service.js';
+import { createGmailClient, fetchGmailMessages, listGmailLabels } from '../email/gmail-api-service.js';
+import { syncGmail } from '../email/gmail-sync-engine.js';
+import { createGraphClient, fetchOutlookMessages, fetchOutlookMimeMessage, listOutlookFolders, sendOutlookMessage } from '../email/outlook-graph-service.js';
+import { buildGmailRawMessage, buildMimeMessage, buildResentMessage, toMailAttachment } from '../email/mime-message-builder.js';
+import { deleteGmailDraft, deleteImapDraft, saveGmailDraft, saveImapDraft, toDraftMessage } from '../email/draft-sync-service.js';
+import { MicrosoftAuthService } from '../auth/microsoft-oauth.js';
+import { MailStore } from '../managers/mail-store.js';
+import { AccountStore } from '../managers/account-store.js';
+import { DraftStore } from '../managers/draft-store.js';
+import { SignatureStore } from '../managers/signature-store.js';
+import { TemplateStore } from '../managers/template-store.js';
+import { IdentityStore } from '../managers/identity-store.js';
+import { OutboxStore } from '../managers/outbox-store.js';
+import { OutboxDispatcher } from '../email/outbox-dispatcher.js';
+import { describeSendError } from '../email/send-error.js';
+import { isValidAddress, parseAddressList } from '../utils/address-parser.js';
 import '../utils/attachment-handler.js';
 
 // ES module equivalent of __dirname
@@ -33,6 +53,24 @@ let oauthResolve: ((value: any) => void) | null = null;
 let oauthInProgress = false;
 let googleAuthToken: any = null;
 const temporaryFiles = new Set<string>();
+const mailStore = new MailStore(app.getPath('userData'));
+const accountStore = new AccountStore(app.getPath('userData'));
+const draftStore = new DraftStore(app.getPath('userData'));
+const signatureStore = new SignatureStore(app.getPath('userData'));
+const templateStore = new TemplateStore(app.getPath('userData'));
+const identityStore = new IdentityStore(app.getPath('userData'));
+const outboxStore = new OutboxStore(app.getPath('userData'));
+const outboxDispatcher = new OutboxDispatcher(outboxStore, request => sendFromAccount(request), {
+  onSent: message => {
+    mainWindow?.webContents.send('outbox-message-sent', { id: message.id, kind: message.kind, accountId: message.request.accountId, subject: message.request.subject });
+  },
+  onFailed: (message, error) => {
+    mainWindow?.webContents.send('outbox-message-failed', { id: message.id, kind: message.kind, subject: message.request.subject, status: message.status, errorKind: message.lastErrorKind, error: message.lastError || error.message });
+  },
+  onChanged: () => mainWindow?.webContents.send('outbox-changed')
+});
+// One Microsoft auth service per Outlook account (each keeps its own refresh state)
+const microsoftAuthServices = new Map<string, MicrosoftAuthService>();
 
 // Load Google token at startup
 const tokenPath = path.join(app.getPath('userData'), 'google-token.json');
@@ -76,8 +114,53 @@ function createWindow(): void {
   }
 }
 
+// Compose windows opened for a draft, so the draft is not edited in two windows at once
+const composeWindows = new Map<string, BrowserWindow>();
+
+/**
+ * Open a compose window (public/compose.html). It runs a composer of its own,
+ * with its own draft autosave and send status.
+ * @param draftId - Draft to continue, none for a new message
+ */
+function openComposeWindow(draftId?: string): void {
+  const existing = draftId ? composeWindows.get(draftId) : undefined;
+  if (existing && !existing.isDestroyed()) {
+    existing.focus();
+    return;
+  }
+
+  const composeWindow = new BrowserWindow({
+    width: 720,
+    height: 760,
+    minWidth: 480,
+    minHeight: 480,
+    webPreferences: {
+      nodeIntegration: true,
+      contextIsolation: false
+    },
+    icon: path.join(__dirname, 'assets', 'icon.png'),
+    show: false
+  });
+
+  composeWindow.loadFile('public/compose.html', draftId ? { query: { draft: draftId } } : undefined);
+  composeWindow.once('ready-to-show', () => composeWindow.show());
+  if (draftId) {
+    composeWindows.set(draftId, composeWindow);
+    composeWindow.on('closed', () => composeWindows.delete(draftId));
+  }
+
+  if (process.argv.includes('--dev')) {
+    composeWindow.webContents.openDevTools();
+  }
+}
+
 app.whenReady().then(() => {
   createWindow();
+  outboxDispatcher.start().catch(error => console.error('Failed to start the outbox:', error));
+  // The network is usually back after waking up
+  powerMonitor.on('resume', () => {
+    outboxDispatcher.flush().catch(error => console.error('Failed to flush the outbox:', error));
+  });
 
   app.on('activate', () => {
     if (BrowserWindow.getAllWindows().length === 0) {
@@ -87,6 +170,7 @@ app.whenReady().then(() => {
 });
 
 app.on('will-quit', async () => {
+    outboxDispatcher.stop();
     // Clean up temporary files
     console.log(`Cleaning up ${temporaryFiles.size} temporary files...`);
     for (const filePath of temporaryFiles) {
@@ -594,90 +678,184 @@ async function exchangeCodeForToken(authCode: string, callbackUrl: string): Prom
   }
 }
 
-// Microsoft SSO (keeping the existing implementation for now)
+// Microsoft SSO (authorization code flow with PKCE on a loopback redirect)
+// Adds the signed-in mailbox as an Outlook account, or updates its token if it already exists
 ipcMain.handle('microsoft-sso', async () => {
-  return { success: false, error: 'Microsoft SSO not implemented yet' };
+  if (oauthInProgress) {
+    return { success: false, error: 'OAuth flow already in progress. Please wait for the current flow to complete.' };
+  }
+
+  oauthInProgress = true;
+  let signInWindow: BrowserWindow | null = null;
+  try {
+    console.log('Microsoft SSO requested');
+    // The account is only known after sign-in, so the token is stored below instead of by the service
+    const signInAuth = new MicrosoftAuthService(oauthConfig.microsoft, { load: async () => null, save: async () => {} });
+    const authorization = await signInAuth.startAuthorization();
+
+    signInWindow = new BrowserWindow({
+      width: 800,
+      height: 650,
+      show: true,
+      modal: true,
+      parent: mainWindow ?? undefined,
+      webPreferences: {
+        nodeIntegration: false,
+        contextIsolation: true
+      },
+      autoHideMenuBar: true,
+      title: 'Sign in with Microsoft'
+    });
+    signInWindow.on('closed', () => {
+      signInWindow = null;
+      authorization.cancel('OAuth window was closed by user');
+    });
+    signInWindow.loadURL(authorization.authUrl);
+
+    const token = await authorization.result;
+    const profile = await (await createGraphClient(token.access_token)).api('/me').select('mail,userPrincipalName,displayName').get();
+    const account = await accountStore.upsert({
+      type: 'outlook',
+      email: profile.mail || profile.userPrincipalName || '',
+      displayName: profile.displayName || undefined,
+      credentials: token
+    });
+    microsoftAuthServices.delete(account.id);
+    console.log('Microsoft account signed in:', account.email);
+    // Only the account goes back to the renderer; the tokens stay with the account store
+    return { success: true, account };
+
+  } catch (error: any) {
+    console.error('Microsoft SSO failed:', error);
+    return { success: false, error: error.message || 'Microsoft sign-in failed' };
+  } finally {
+    oauthInProgress = false;
+    // Leave the success page visible briefly before closing the window
+    const window = signInWindow as BrowserWindow | null;
+    if (window && !window.isDestroyed()) {
+      setTimeout(() => {
+        if (!window.isDestroyed()) window.close();
+      }, 1500);
+    }
+  }
+});
+
+// Microsoft auth service for an Outlook account, persisting refreshed tokens to the account store
+function getMicrosoftAuth(accountId: string): MicrosoftAuthService {
+  let service = microsoftAuthServices.get(accountId);
+  if (!service) {
+    service = new MicrosoftAuthService(oauthConfig.microsoft, {
+      load: async () => (await accountStore.require(accountId, 'outlook')).credentials as MicrosoftAuthToken,
+      save: token => accountStore.update(accountId, { credentials: token })
+    });
+    microsoftAuthServices.set(accountId, service);
+  }
+  return service;
+}
+
+// Run a Graph request for an Outlook account with a fresh token, refreshing once if Graph rejects it
+async function withGraphClient<T>(accountId: string, request: (client: Client) => Promise<T>): Promise<T> {
+  if (!accountId) {
+    throw new Error('No Outlook account specified');
+  }
+  const microsoftAuth = getMicrosoftAuth(accountId);
+  const token = await microsoftAuth.getAccessToken();
+  try {
+    return await request(await createGraphClient(token.access_token));
+  } catch (error: any) {
+    if (error?.statusCode !== 401) {
+      throw error;
+    }
+    console.warn('Graph rejected the access token, refreshing...');
+    const refreshed = await microsoftAuth.refreshToken();
+    return request(await createGraphClient(refreshed.access_token));
+  }
+}
+
+// IPC handler for fetching Outlook emails (one page; pass nextLink back to continue)
+ipcMain.handle('fetch-outlook-emails', async (_event, params = {}) => {
+  try {
+    console.log('Fetch Outlook emails requested:', { folder: params.folder, maxResults: params.maxResults });
+
+    const result = await withGraphClient(params.accountId, client => fetchOutlookMessages(client, {
+      folder: params.folder,
+      maxResults: params.maxResults,
+      nextLink: params.nextLink
+    }));
+
+    return { success: true, ...result };
+
+  } catch (error: any) {
+    console.error('Error fetching Outlook emails:', error);
+    return { success: false, error: error.message || 'Failed to fetch Outlook emails' };
+  }
+});
+
+// IPC handler for listing Outlook mail folders with unread counts
+ipcMain.handle('list-outlook-folders', async (_event, params = {}) => {
+  try {
+    const folders = await withGraphClient(params.accountId, client => listOutlookFolders(client));
+    return { success: true, folders };
+
+  } catch (error: any) {
+    console.error('Error listing Outlook folders:', error);
+    return { success: false, error: error.message || 'Failed to list Outlook folders' };
+  }
+});
+
+// IPC handler for sending email through Microsoft Graph
+ipcMain.handle('send-outlook-email', async (_event, params) => {
+  try {
+    console.log('Send Outlook email requested:', { to: params.to, subject: params.subject });
+
+    if (!params.to || !params.subject) {
+      return { success: false, error: 'Missing required fields: to, subject' };
+    }
+
+    const sender = toOutlookSender(await resolveSendIdentity(params.accountId, params.identityId));
+    await withGraphClient(params.accountId, client => sendOutlookMessage(client, { ...params, ...sender }));
+    return { success: true };
+
+  } catch (error: any) {
+    console.error('Error sending Outlook email:', error);
+    return { success: false, error: error.message || 'Failed to send Outlook email' };
+  }
 });
 
 // IPC handler for fetching Gmail emails
 ipcMain.handle('fetch-gmail-emails', async (_event, params = {}) => {
   try {
-    console.log('Fetch Gmail emails requested:', params);
+    console.log('Fetch Gmail emails requested:', { accountId: params.accountId, labelIds: params.labelIds, pageToken: params.pageToken });
     
-    if (!params.auth || !params.auth.access_token) {
+    const auth = await resolveGmailAuth(params);
+    if (!auth || !auth.access_token) {
       return { success: false, error: 'No valid authentication token provided' };
     }
 
-    // Import googleapis dynamically to avoid module resolution issues
-    const { google } = await import('googleapis');
-    
-    // Create OAuth2 client with the provided token
-    const oauth2Client = new google.auth.OAuth2();
-    oauth2Client.setCredentials(params.auth);
-    
-    // Create Gmail API instance
-    const gmail = google.gmail({ version: 'v1', auth: oauth2Client });
+    // Create Gmail API instance with the account's token
+    const gmail = await createGmailClient(auth);
     
-    // Fetch message list
+    // Fetch message list (one page; pass the returned nextPageToken back to continue)
     const messagesResponse = await gmail.users.messages.list({
       userId: 'me',
       labelIds: params.labelIds || ['INBOX'],
-      maxResults: params.maxResults || 50
+      maxResults: params.maxResults || 50,
+      pageToken: params.pageToken || undefined
     });
+    const nextPageToken = messagesResponse.data.nextPageToken || null;
     
     if (!messagesResponse.data.messages || messagesResponse.data.messages.length === 0) {
       console.log('No messages found in Gmail');
-      return { success: true, emails: [] };
+      return { success: true, emails: [], nextPageToken };
     }
     
     console.log(`Found ${messagesResponse.data.messages.length} messages in Gmail`);
     
     // Fetch full message details for each message
-    const emailPromises = messagesResponse.data.messages.map(async (message) => {
-      try {
-        const fullMessage = await gmail.users.messages.get({
-          userId: 'me',
-          id: message.id!,
-          format: 'full'
-        });
-        
-        // Extract email data from Gmail API response
-        const headers = fullMessage.data.payload?.headers || [];
-        const getHeader = (name: string) => headers.find(h => h.name?.toLowerCase() === name.toLowerCase())?.value || '';
-        
-        // Extract both HTML and text content
-        const bodyContent = extractMessageBody(fullMessage.data.payload);
-        
-        // Extract attachment information from payload
-        const attachments = extractAttachments(fullMessage.data.payload, fullMessage.data.id || message.id!);
-        
-        return {
-          id: fullMessage.data.id,
-          messageId: fullMessage.data.id,
-          threadId: fullMessage.data.threadId,
-          from: getHeader('from'),
-          to: getHeader('to').split(',').map(s => s.trim()).filter(Boolean),
-          subject: getHeader('subject'),
-          date: new Date(parseInt(fullMessage.data.internalDate || '0')).toISOString(),
-          body: bodyContent.html || bodyContent.text || '',
-          bodyHtml: bodyContent.html || undefined,
-          bodyText: bodyContent.text || undefined,
-          snippet: fullMessage.data.snippet || '',
-          isHtml: bodyContent.isHtml,
-          read: !fullMessage.data.labelIds?.includes('UNREAD'),
-          attachments: attachments
-        };
-      } catch (error) {
-        console.warn(`Failed to fetch Gmail message ${message.id}:`, error);
-        return null;
-      }
-    });
-    
-    // Wait for all messages to be processed
-    const emails = (await Promise.all(emailPromises)).filter(email => email !== null);
+    const emails = await fetchGmailMessages(gmail, messagesResponse.data.messages.map(message => message.id!));
     
     console.log(`Successfully processed ${emails.length} Gmail emails`);
-    return { success: true, emails };
+    return { success: true, emails, nextPageToken };
     
   } catch (error: any) {
     console.error('Error fetching Gmail emails:', error);
@@ -685,294 +863,1041 @@ ipcMain.handle('fetch-gmail-emails', async (_event, params = {}) => {
   }
 });
 
-// IPC handler for sending Gmail emails
-ipcMain.handle('send-gmail-email', async (_event, params) => {
+// IPC handler for listing Gmail labels with message counts
+ipcMain.handle('list-gmail-labels', async (_event, params = {}) => {
   try {
-    console.log('Send Gmail email requested:', { to: params.to, subject: params.subject });
-    
-    if (!params.auth || !params.auth.access_token) {
+    const auth = await resolveGmailAuth(params);
+    if (!auth || !auth.access_token) {
       return { success: false, error: 'No valid authentication token provided' };
     }
 
-    // Import googleapis dynamically
-    const { google } = await import('googleapis');
-    
-    // Create OAuth2 client with the provided token
-    const oauth2Client = new google.auth.OAuth2();
-    oauth2Client.setCredentials(params.auth);
-    
-    // Create Gmail API instance
-    const gmail = google.gmail({ version: 'v1', auth: oauth2Client });
-    
-    // Get user's email address
-    const profile = await gmail.users.getProfile({ userId: 'me' });
-    const fromEmail = profile.data.emailAddress;
-    
-    // Construct email message
-    const email = [
-      `From: ${fromEmail}`,
-      `To: ${params.to}`,
-      params.cc ? `Cc: ${params.cc}` : '',
-      `Subject: ${params.subject}`,
-      '',
-      params.body
-    ].filter(line => line !== '').join('\n');
-    
-    // Encode email in base64url format
-    const encodedEmail = Buffer.from(email)
-      .toString('base64')
-      .replace(/\+/g, '-')
-      .replace(/\//g, '_')
-      .replace(/=+$/, '');
-    
-    // Send email
-    const response = await gmail.users.messages.send({
-      userId: 'me',
-      requestBody: {
-        raw: encodedEmail
-      }
-    });
-    
-    console.log('Email sent successfully via Gmail API:', response.data);
-    return { success: true, data: response.data };
-    
+    const gmail = await createGmailClient(auth);
+    const folders = await listGmailLabels(gmail);
+    return { success: true, folders };
+
   } catch (error: any) {
-    console.error('Error sending Gmail email:', error);
-    return { success: false, error: error.message || 'Failed to send Gmail email' };
+    console.error('Error listing Gmail labels:', error);
+    return { success: false, error: error.message || 'Failed to list Gmail labels' };
   }
 });
 
-// IPC handler for refreshing Google tokens
-ipcMain.handle('refresh-google-token', async (_event, currentToken) => {
+// IPC handler for incremental Gmail sync (historyId based)
+ipcMain.handle('sync-gmail', async (_event, params = {}) => {
   try {
-    if (!currentToken || !currentToken.refresh_token) {
-      return { success: false, error: 'No refresh token available' };
+    console.log('Gmail sync requested:', { labelId: params.labelId, startHistoryId: params.startHistoryId });
+
+    const auth = await resolveGmailAuth(params);
+    if (!auth || !auth.access_token) {
+      return { success: false, error: 'No valid authentication token provided' };
     }
 
-    // Import googleapis dynamically
-    const { google } = await import('googleapis');
-    
-    // Create OAuth2 client
-    const oauth2Client = new google.auth.OAuth2(
-      oauthConfig.google.clientId,
-      oauthConfig.google.clientSecret
-    );
-    
-    oauth2Client.setCredentials(currentToken);
-    
-    // Refresh the token
-    const { credentials } = await oauth2Client.refreshAccessToken();
-    
-    const refreshedToken = {
-      access_token: credentials.access_token,
-      refresh_token: credentials.refresh_token || currentToken.refresh_token,
-      expiry_date: credentials.expiry_date || Date.now() + 3600000,
-      token_type: credentials.token_type || 'Bearer',
-      scope: currentToken.scope
-    };
-    
-    console.log('Token refreshed successfully');
-    return { success: true, token: refreshedToken };
-    
+    const result = await syncGmail({
+      auth,
+      labelId: params.labelId,
+      maxResults: params.maxResults,
+      startHistoryId: params.startHistoryId
+    });
+
+    return { success: true, ...result };
+
   } catch (error: any) {
-    console.error('Error refreshing Google token:', error);
-    return { success: false, error: error.message || 'Failed to refresh token' };
+    console.error('Error syncing Gmail:', error);
+    return { success: false, error: error.message || 'Failed to sync Gmail' };
   }
 });
 
-// IPC handler for validating Google tokens
-ipcMain.handle('validate-google-token', async (_event, token) => {
+// IPC handler for fetching IMAP emails
+ipcMain.handle('fetch-imap-emails', async (_event, params = {}) => {
   try {
-    if (!token || !token.access_token) {
-      return { success: false, valid: false, error: 'No token provided' };
+    console.log('Fetch IMAP emails requested:', { folder: params.folder, maxResults: params.maxResults, beforeUid: params.beforeUid });
+
+    const config = await resolveImapConfig(params);
+    if (!config || !config.imapHost) {
+      return { success: false, error: 'No IMAP configuration available' };
     }
 
-    // Import googleapis dynamically
-    const { google } = await import('googleapis');
-    
-    // Create OAuth2 client
-    const oauth2Client = new google.auth.OAuth2();
-    oauth2Client.setCredentials(token);
-    
-    // Test the token by making a simple API call
-    const gmail = google.gmail({ version: 'v1', auth: oauth2Client });
-    await gmail.users.getProfile({ userId: 'me' });
-    
-    return { success: true, valid: true };
-    
+    const result = await fetchImapEmails(config, {
+      folder: params.folder,
+      maxResults: params.maxResults,
+      sinceUid: params.sinceUid,
+      beforeUid: params.beforeUid,
+      uidValidity: params.uidValidity
+    });
+
+    console.log(`Successfully processed ${result.emails.length} IMAP emails`);
+    return { success: true, ...result };
+
   } catch (error: any) {
-    console.warn('Token validation failed:', error);
-    return { success: true, valid: false, error: error.message };
+    console.error('Error fetching IMAP emails:', error);
+    return { success: false, error: error.message || 'Failed to fetch IMAP emails' };
   }
 });
 
-// IPC handler for parsing raw email messages
-ipcMain.handle('parse-raw-email', async (_event, rawData) => {
+// IPC handler for listing IMAP mailboxes with unread counts
+ipcMain.handle('list-imap-folders', async (_event, params = {}) => {
   try {
-    // Import mailparser in main process where Node.js modules work properly
-    const { simpleParser } = await import('mailparser');
-    
-    let rawText = rawData;
-    // Try to decode base64url if input looks like base64
-    try {
-      if (/^[A-Za-z0-9_-]+={0,2}$/.test(rawData) && rawData.length > 100) {
-        rawText = Buffer.from(rawData, 'base64url').toString('utf-8');
-      }
-    } catch (e) {
-      console.warn('Not base64url, using as plain text');
+    const config = await resolveImapConfig(params);
+    if (!config || !config.imapHost) {
+      return { success: false, error: 'No IMAP configuration available' };
     }
-    
-    const parsed = await simpleParser(rawText);
-    
-    // Helper function to extract address string
-    const extractAddress = (addr: any): string => {
-      if (!addr) return '';
-      if (typeof addr === 'string') return addr;
-      if (addr.text) return addr.text;
-      if (Array.isArray(addr.value) && addr.value.length > 0) {
-        return addr.value[0].address || '';
-      }
-      return '';
-    };
-    
-    // Extract attachment information
-    const attachments = (parsed.attachments || []).map(att => ({
-      filename: att.filename,
-      contentType: att.contentType,
-      size: att.size,
-      contentId: att.contentId,
-      contentDisposition: att.contentDisposition,
-      cid: att.cid,
-      checksum: att.checksum,
-      related: att.related,
-      headers: att.headers ? Object.fromEntries(att.headers.entries()) : {},
-    }));
-    
-    return {
-      success: true,
-      parsed: {
-        messageId: parsed.messageId || '',
-        date: parsed.date?.toISOString() || '',
-        from: extractAddress(parsed.from),
-        to: extractAddress(parsed.to),
-        subject: parsed.subject || '',
-        bodyHtml: parsed.html || '',
-        bodyText: parsed.text || '',
-        attachments,
-        headers: Object.fromEntries(parsed.headers.entries()),
-      }
-    };
-    
+
+    const folders = await listImapFolders(config);
+    return { success: true, folders };
+
   } catch (error: any) {
-    console.error('Error parsing raw email:', error);
-    return { success: false, error: error.message };
+    console.error('Error listing IMAP folders:', error);
+    return { success: false, error: error.message || 'Failed to list IMAP folders' };
   }
 });
 
-// Helper function to extract message body from Gmail payload
-function extractMessageBody(payload: any): { html: string; text: string; isHtml: boolean } {
-  if (!payload) return { html: '', text: '', isHtml: false };
-  
-  let htmlContent = '';
-  let textContent = '';
-  
-  // If the payload has a body with data, use it
-  if (payload.body && payload.body.data) {
-    const content = Buffer.from(payload.body.data, 'base64').toString('utf-8');
-    if (payload.mimeType === 'text/html') {
-      htmlContent = content;
-    } else {
-      textContent = content;
-    }
+// Resolve the IMAP configuration for a request: params.config, the stored
+// configuration of params.accountId, or the one saved from the settings modal
+async function resolveImapConfig(params: { accountId?: string; config?: any }): Promise<any> {
+  if (params.config) {
+    return params.config;
   }
-  
-  // If the payload has parts, look for text/html and text/plain
-  if (payload.parts && Array.isArray(payload.parts)) {
-    for (const part of payload.parts) {
-      if (part.mimeType === 'text/html' && part.body && part.body.data) {
-        htmlContent = Buffer.from(part.body.data, 'base64').toString('utf-8');
-      }
-      if (part.mimeType === 'text/plain' && part.body && part.body.data) {
-        textContent = Buffer.from(part.body.data, 'base64').toString('utf-8');
-      }
-      
-      // Recursively check nested parts
-      if (part.parts) {
-        const nestedResult = extractMessageBody(part);
-        if (nestedResult.html && !htmlContent) htmlContent = nestedResult.html;
-        if (nestedResult.text && !textContent) textContent = nestedResult.text;
-      }
-    }
+  if (params.accountId) {
+    return (await accountStore.require(params.accountId, 'imap')).credentials;
   }
-  
-  // Determine if this is primarily HTML content
-  const isHtml = Boolean(htmlContent.length > textContent.length || (htmlContent && !textContent));
-  
-  return {
-    html: htmlContent,
-    text: textContent,
-    isHtml
-  };
+  return loadSavedEmailConfig();
 }
 
-// Helper function to extract attachments from Gmail payload
-function extractAttachments(payload: any, messageId: string): any[] {
-  if (!payload || !payload.parts || !Array.isArray(payload.parts)) return [];
-  
-  const attachments: any[] = [];
-  
-  for (const part of payload.parts) {
-    // Check if this part is an attachment
-    if (part.filename && part.filename.length > 0) {
-      // This is an attachment
-      attachments.push({
-        filename: part.filename,
-        contentType: part.mimeType || 'application/octet-stream',
-        size: part.body?.size || 0,
-        contentId: part.contentId,
-        contentDisposition: part.contentDisposition,
-        cid: part.cid,
-        attachmentId: part.body?.attachmentId, // Gmail-specific attachment ID for fetching content
-        messageId: messageId, // Store message ID for fetching content later
-        encoding: 'base64',
-        // Content will be fetched lazily when needed
-        content: null
-      });
-    }
-    
-    // Recursively check nested parts
-    if (part.parts) {
-      const nestedAttachments = extractAttachments(part, messageId);
-      attachments.push(...nestedAttachments);
-    }
+// Read the email configuration saved from the settings modal (null if none exists)
+function loadSavedEmailConfig(): any {
+  const configPath = path.join(app.getPath('userData'), 'email-config.json');
+  if (!fs.existsSync(configPath)) {
+    return null;
   }
-  
-  return attachments;
+  return JSON.parse(fs.readFileSync(configPath, 'utf8'));
 }
 
-// Create application menu
-const template: Electron.MenuItemConstructorOptions[] = [
-  {
-    label: 'File',
-    submenu: [
-      {
-        label: 'New Email',
-        accelerator: 'CmdOrCtrl+N',
-        click: () => {
-          mainWindow?.webContents.send('new-email');
-        }
-      },
-      {
-        label: 'Refresh',
-        accelerator: 'CmdOrCtrl+R',
-        click: () => {
-          mainWindow?.webContents.send('refresh-emails');
-        }
-      },
-      { type: 'separator' },
-      {
-        label: 'Settings',
-        click: () => {
+// IPC handlers for the local mail store
+ipcMain.handle('mail-store-load', async (_event, { accountKey, folder }) => {
+  try {
+    const snapshot = await mailStore.load(accountKey);
+    const emails = await mailStore.getEmails(accountKey, folder);
+    return { success: true, emails, cursors: snapshot.cursors, updatedAt: snapshot.updatedAt };
+  } catch (error: any) {
+    console.error('Error loading mail store:', error);
+    return { success: false, error: error.message, emails: [], cursors: {} };
+  }
+});
+
+ipcMain.handle('mail-store-upsert', async (_event, { accountKey, emails }) => {
+  try {
+    const count = await mailStore.upsertEmails(accountKey, emails || []);
+    return { success: true, count };
+  } catch (error: any) {
+    console.error('Error saving to mail store:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('mail-store-remove', async (_event, { accountKey, ids }) => {
+  try {
+    const removed = await mailStore.removeEmails(accountKey, ids || []);
+    return { success: true, removed };
+  } catch (error: any) {
+    console.error('Error removing from mail store:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('mail-store-replace-folder', async (_event, { accountKey, folder, emails }) => {
+  try {
+    await mailStore.replaceFolder(accountKey, folder, emails || []);
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error replacing mail store folder:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('mail-store-set-cursor', async (_event, { accountKey, name, value }) => {
+  try {
+    await mailStore.setCursor(accountKey, name, value);
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error saving sync cursor:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('mail-store-clear', async (_event, { accountKey }) => {
+  try {
+    await mailStore.clear(accountKey);
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error clearing mail store:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// IPC handler for listing mail accounts (credentials stay in the main process)
+ipcMain.handle('list-accounts', async () => {
+  try {
+    const accounts = await accountStore.list();
+    // Accounts imported from single-account settings do not know their address yet
+    for (const account of accounts.filter(account => !account.email)) {
+      try {
+        account.email = await lookupAccountEmail(account);
+        await accountStore.update(account.id, { email: account.email });
+      } catch (error) {
+        console.warn(`Failed to look up the address of account ${account.id}:`, error);
+      }
+    }
+    return { success: true, accounts };
+  } catch (error: any) {
+    console.error('Error listing accounts:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// Ask the provider for the address of an OAuth account
+async function lookupAccountEmail(account: MailAccount): Promise<string> {
+  if (account.type === 'gmail') {
+    const gmail = await createGmailClient(await resolveGmailAuth({ accountId: account.id }));
+    const profile = await gmail.users.getProfile({ userId: 'me' });
+    return profile.data.emailAddress || '';
+  }
+  if (account.type === 'outlook') {
+    const profile = await withGraphClient(account.id, client => client.api('/me').select('mail,userPrincipalName').get());
+    return profile.mail || profile.userPrincipalName || '';
+  }
+  return '';
+}
+
+// IPC handler for adding a Gmail account from a google-sso token
+ipcMain.handle('add-gmail-account', async (_event, { token }) => {
+  try {
+    if (!token || !token.access_token) {
+      return { success: false, error: 'No valid authentication token provided' };
+    }
+
+    const gmail = await createGmailClient(token);
+    const profile = await gmail.users.getProfile({ userId: 'me' });
+    const account = await accountStore.upsert({
+      type: 'gmail',
+      email: profile.data.emailAddress || '',
+      credentials: token
+    });
+    // Bring the Gmail signature along; the account works without it
+    await importGmailSignatures(account.id).catch(error => console.warn('Failed to import Gmail signatures:', error));
+    return { success: true, account };
+
+  } catch (error: any) {
+    console.error('Error adding Gmail account:', error);
+    return { success: false, error: error.message || 'Failed to add Gmail account' };
+  }
+});
+
+// IPC handler for adding (or updating) an IMAP/SMTP account
+ipcMain.handle('add-imap-account', async (_event, { config }: { config: EmailConfig }) => {
+  try {
+    if (!config || !config.email || !config.imapHost) {
+      return { success: false, error: 'Email address and IMAP host are required' };
+    }
+
+    const account = await accountStore.upsert({
+      type: 'imap',
+      email: config.email,
+      displayName: config.displayName,
+      credentials: config
+    });
+    return { success: true, account };
+
+  } catch (error: any) {
+    console.error('Error adding IMAP account:', error);
+    return { success: false, error: error.message || 'Failed to add IMAP account' };
+  }
+});
+
+// IPC handler for removing an account together with its cached mail
+ipcMain.handle('remove-account', async (_event, { accountId }) => {
+  try {
+    const removed = await accountStore.remove(accountId);
+    microsoftAuthServices.delete(accountId);
+    await mailStore.clear(accountId);
+    await identityStore.removeAccount(accountId);
+    return { success: removed, error: removed ? undefined : 'Account not found' };
+  } catch (error: any) {
+    console.error('Error removing account:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// IPC handlers for drafts: saved locally, copied to Gmail and IMAP servers by sync-draft
+ipcMain.handle('list-drafts', async () => {
+  try {
+    return { success: true, drafts: await draftStore.list() };
+  } catch (error: any) {
+    console.error('Error listing drafts:', error);
+    return { success: false, error: error.message, drafts: [] };
+  }
+});
+
+ipcMain.handle('save-draft', async (_event, { draft }) => {
+  try {
+    return { success: true, draft: await draftStore.save(draft) };
+  } catch (error: any) {
+    console.error('Error saving draft:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('sync-draft', async (_event, { id }) => {
+  const draft = await draftStore.get(id);
+  if (!draft) {
+    return { success: false, error: 'Draft not found' };
+  }
+  try {
+    return { success: true, draft: await syncDraftToServer(draft) };
+  } catch (error: any) {
+    console.error('Error syncing draft:', error);
+    const failed = await draftStore.updateSyncState(id, { syncError: error.message || 'Failed to sync draft' });
+    return { success: false, error: error.message || 'Failed to sync draft', draft: failed };
+  }
+});
+
+ipcMain.handle('delete-draft', async (_event, { id }) => {
+  try {
+    const draft = await draftStore.remove(id);
+    if (draft) {
+      await deleteServerDraft(draft);
+    }
+    return { success: true };
+  } catch (error: any) {
+    // The local draft is gone; a leftover server copy only shows in the Drafts folder
+    console.error('Error deleting draft:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// IPC handlers for compose windows
+ipcMain.handle('open-compose-window', async (_event, { draftId } = {}) => {
+  try {
+    openComposeWindow(draftId);
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error opening compose window:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// A compose window put its message into the outbox and is closing; the main window
+// announces the message (with Undo while it is held for the undo window)
+ipcMain.on('compose-window-queued', (_event, message) => {
+  mainWindow?.webContents.send('compose-window-queued', message);
+});
+
+// Copy a draft to its account's server (Gmail drafts or the IMAP Drafts mailbox);
+// Outlook drafts stay local
+async function syncDraftToServer(draft: EmailDraft): Promise<EmailDraft> {
+  const account = draft.accountId ? await accountStore.get(draft.accountId) : null;
+  // The sending account was changed since the last sync
+  if (draft.remoteId && draft.remoteAccountId !== account?.id) {
+    await deleteServerDraft(draft);
+    await draftStore.updateSyncState(draft.id, { remoteId: undefined, remoteAccountId: undefined });
+  }
+  if (!account || account.type === 'outlook') {
+    return (await draftStore.updateSyncState(draft.id, { syncedAt: undefined, syncError: undefined })) || draft;
+  }
+
+  const sameAccount = draft.remoteAccountId === account.id;
+  let remoteId: string;
+  const from = formatIdentityAddress(await resolveSendIdentity(account.id, draft.identityId));
+  if (account.type === 'gmail') {
+    const gmail = await createGmailClient(await resolveGmailAuth({ accountId: account.id }));
+    const context = draft.replyContext;
+    remoteId = await saveGmailDraft(gmail, await buildGmailRawMessage(toDraftMessage(draft, from)), {
+      draftId: sameAccount ? draft.remoteId : undefined,
+      threadId: context?.source === 'gmail-api' && context.accountId === account.id ? context.threadId : undefined
+    });
+  } else {
+    const config = account.credentials as EmailConfig;
+    remoteId = await saveImapDraft(config, draft.id, await buildMimeMessage(toDraftMessage(draft, from)), sameAccount ? draft.remoteId : undefined);
+  }
+
+  const synced = await draftStore.updateSyncState(draft.id, {
+    remoteId,
+    remoteAccountId: account.id,
+    syncedAt: new Date().toISOString(),
+    syncError: undefined
+  });
+  return synced || draft;
+}
+
+// Delete the server copy of a draft, if it has one
+async function deleteServerDraft(draft: EmailDraft): Promise<void> {
+  if (!draft.remoteId || !draft.remoteAccountId) {
+    return;
+  }
+  const account = await accountStore.get(draft.remoteAccountId);
+  if (account?.type === 'gmail') {
+    const gmail = await createGmailClient(await resolveGmailAuth({ accountId: account.id }));
+    await deleteGmailDraft(gmail, draft.remoteId);
+  } else if (account?.type === 'imap') {
+    await deleteImapDraft(account.credentials as EmailConfig, draft.id, draft.remoteId);
+  }
+}
+
+// IPC handlers for compose signatures and their per-account defaults
+ipcMain.handle('get-signature-settings', async () => {
+  try {
+    const accounts = await Promise.all((await accountStore.list()).map(account => accountStore.get(account.id)));
+    await signatureStore.importLegacySignatures(accounts.filter((account): account is StoredMailAccount => !!account));
+    return { success: true, settings: await signatureStore.getSettings() };
+  } catch (error: any) {
+    console.error('Error loading signatures:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('save-signature', async (_event, { signature }) => {
+  try {
+    if (!signature || !signature.name) {
+      return { success: false, error: 'A signature needs a name' };
+    }
+    return { success: true, signature: await signatureStore.save(signature) };
+  } catch (error: any) {
+    console.error('Error saving signature:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('delete-signature', async (_event, { id }) => {
+  try {
+    const removed = await signatureStore.remove(id);
+    return { success: removed, error: removed ? undefined : 'Signature not found' };
+  } catch (error: any) {
+    console.error('Error deleting signature:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('set-default-signature', async (_event, { key, signatureId }) => {
+  try {
+    await signatureStore.setDefault(key, signatureId || null);
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error setting default signature:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('set-signature-placement', async (_event, { placement }) => {
+  try {
+    if (placement !== 'above-quote' && placement !== 'below-quote') {
+      return { success: false, error: `Unknown signature placement: ${placement}` };
+    }
+    await signatureStore.setPlacement(placement);
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error setting signature placement:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('import-gmail-signatures', async (_event, { accountId }) => {
+  try {
+    return { success: true, imported: await importGmailSignatures(accountId) };
+  } catch (error: any) {
+    console.error('Error importing Gmail signatures:', error);
+    return { success: false, error: error.message || 'Failed to import Gmail signatures' };
+  }
+});
+
+// Import the signatures of a Gmail account's send-as addresses; each becomes the
+// default of its address (the primary address's of the account) unless one is set
+async function importGmailSignatures(accountId: string): Promise<number> {
+  const account = await accountStore.require(accountId, 'gmail');
+  const gmail = await createGmailClient(await resolveGmailAuth({ accountId }));
+  const response = await gmail.users.settings.sendAs.list({ userId: 'me' });
+
+  let imported = 0;
+  for (const sendAs of response.data.sendAs || []) {
+    if (!sendAs.signature || !sendAs.sendAsEmail) continue;
+    const signature = await signatureStore.save({
+      name: sendAs.sendAsEmail,
+      html: sendAs.signature,
+      text: '',
+      importedFrom: `gmail:${sendAs.sendAsEmail.toLowerCase()}`
+    });
+    const key = sendAs.isPrimary ? account.id : sendAs.sendAsEmail.toLowerCase();
+    await signatureStore.setDefault(key, signature.id, true);
+    imported++;
+  }
+  console.log(`Imported ${imported} Gmail signature(s) of ${account.email || account.id}`);
+  return imported;
+}
+
+// IPC handlers for send-as identities: the accounts' own addresses, Gmail send-as
+// aliases and custom identities of IMAP accounts
+ipcMain.handle('list-identities', async () => {
+  try {
+    const identities: SendIdentity[] = [];
+    for (const account of await accountStore.list()) {
+      identities.push(...await listAccountIdentities(account));
+    }
+    return { success: true, identities };
+  } catch (error: any) {
+    console.error('Error listing identities:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('save-identity', async (_event, { identity }) => {
+  try {
+    const account = identity?.accountId ? await accountStore.get(identity.accountId) : null;
+    if (!account || account.type !== 'imap') {
+      return { success: false, error: 'Identities can only be added to IMAP accounts' };
+    }
+    if (!isValidAddress(String(identity.email || '').trim())) {
+      return { success: false, error: 'An identity needs a valid email address' };
+    }
+    if (identity.replyTo && !parseAddressList(identity.replyTo).every(address => isValidAddress(address.email))) {
+      return { success: false, error: 'The Reply-To address is not valid' };
+    }
+    return { success: true, identity: await identityStore.save(identity) };
+  } catch (error: any) {
+    console.error('Error saving identity:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('delete-identity', async (_event, { id }) => {
+  try {
+    const removed = await identityStore.remove(id);
+    return { success: removed, error: removed ? undefined : 'Identity not found' };
+  } catch (error: any) {
+    console.error('Error deleting identity:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// Addresses an account can send as: its own address first, then the verified Gmail
+// send-as aliases or the custom identities of IMAP accounts
+async function listAccountIdentities(account: MailAccount): Promise<SendIdentity[]> {
+  const primary: SendIdentity = {
+    id: account.id,
+    accountId: account.id,
+    email: account.email,
+    displayName: account.displayName,
+    source: 'account'
+  };
+
+  if (account.type === 'imap') {
+    return [primary, ...await identityStore.list(account.id)];
+  }
+  if (account.type !== 'gmail') {
+    return [primary];
+  }
+
+  const identities = [primary];
+  try {
+    const gmail = await createGmailClient(await resolveGmailAuth({ accountId: account.id }));
+    const response = await gmail.users.settings.sendAs.list({ userId: 'me' });
+    for (const sendAs of response.data.sendAs || []) {
+      if (!sendAs.sendAsEmail) continue;
+      const details = {
+        email: sendAs.sendAsEmail,
+        displayName: sendAs.displayName || account.displayName || undefined,
+        replyTo: sendAs.replyToAddress || undefined
+      };
+      if (sendAs.isPrimary) {
+        Object.assign(primary, details);
+      } else if (!sendAs.verificationStatus || sendAs.verificationStatus === 'accepted') {
+        identities.push({ ...details, id: `${account.id}:${sendAs.sendAsEmail.toLowerCase()}`, accountId: account.id, source: 'gmail' });
+      }
+    }
+  } catch (error) {
+    // The account can still send from its own address
+    console.warn(`Failed to list the send-as addresses of ${account.email || account.id}:`, error);
+  }
+  return identities;
+}
+
+// Identity a message is sent as; the account's own address when none is chosen
+async function resolveSendIdentity(accountId: string, identityId?: string): Promise<SendIdentity> {
+  const account = await accountStore.get(accountId);
+  if (!account) {
+    throw new Error('The sending account no longer exists');
+  }
+  const identity = (await listAccountIdentities(account)).find(candidate => candidate.id === (identityId || account.id));
+  if (!identity) {
+    throw new Error('The From address no longer exists. Please choose another one.');
+  }
+  return identity;
+}
+
+// Graph sender and Reply-To of an identity
+function toOutlookSender(identity: SendIdentity): { from: { address: string; name?: string }; replyTo?: string } {
+  return { from: { address: identity.email, name: identity.displayName }, replyTo: identity.replyTo };
+}
+
+// From header of an identity
+function formatIdentityAddress(identity: SendIdentity): string | { name: string; address: string } {
+  return identity.displayName ? { name: identity.displayName, address: identity.email } : identity.email;
+}
+
+// IPC handlers for message templates and their JSON import/export
+ipcMain.handle('list-templates', async () => {
+  try {
+    return { success: true, templates: await templateStore.list() };
+  } catch (error: any) {
+    console.error('Error loading templates:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('save-template', async (_event, { template }) => {
+  try {
+    if (!template || !template.name) {
+      return { success: false, error: 'A template needs a name' };
+    }
+    return { success: true, template: await templateStore.save(template) };
+  } catch (error: any) {
+    console.error('Error saving template:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('delete-template', async (_event, { id }) => {
+  try {
+    const removed = await templateStore.remove(id);
+    return { success: removed, error: removed ? undefined : 'Template not found' };
+  } catch (error: any) {
+    console.error('Error deleting template:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('export-templates', async () => {
+  try {
+    const result = await dialog.showSaveDialog(mainWindow!, {
+      title: 'Export Templates',
+      defaultPath: 'templates.json',
+      filters: [{ name: 'JSON', extensions: ['json'] }]
+    });
+    if (result.canceled || !result.filePath) {
+      return { success: true, canceled: true, exported: 0 };
+    }
+    return { success: true, canceled: false, exported: await templateStore.exportTo(result.filePath) };
+  } catch (error: any) {
+    console.error('Error exporting templates:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('import-templates', async () => {
+  try {
+    const result = await dialog.showOpenDialog(mainWindow!, {
+      title: 'Import Templates',
+      properties: ['openFile'],
+      filters: [{ name: 'JSON', extensions: ['json'] }]
+    });
+    if (result.canceled || result.filePaths.length === 0) {
+      return { success: true, canceled: true, imported: 0 };
+    }
+    return { success: true, canceled: false, imported: await templateStore.importFrom(result.filePaths[0]) };
+  } catch (error: any) {
+    console.error('Error importing templates:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// IPC handler for sending email through an IMAP account's SMTP server
+ipcMain.handle('send-smtp-email', async (_event, params) => {
+  try {
+    console.log('Send SMTP email requested:', { accountId: params.accountId, to: params.to, subject: params.subject });
+    const data = await sendSmtpMessage(params);
+    return { success: true, data };
+
+  } catch (error: any) {
+    console.error('Error sending SMTP email:', error);
+    return { success: false, error: error.message || 'Failed to send email' };
+  }
+});
+
+// Send a message through the SMTP server of an IMAP account (or the saved legacy config)
+async function sendSmtpMessage(params: any): Promise<{ messageId: string; response: string }> {
+  const config: EmailConfig = await resolveImapConfig(params);
+  if (!config || !config.smtpHost) {
+    throw new Error('No SMTP configuration available');
+  }
+
+  // Legacy setups without an account send from their configured address
+  const identity = params.accountId ? await resolveSendIdentity(params.accountId, params.identityId) : null;
+  const transporter = await createSmtpTransport(config);
+  const info = await transporter.sendMail({
+    from: identity ? formatIdentityAddress(identity) : config.displayName ? { name: config.displayName, address: config.email } : config.email,
+    replyTo: identity?.replyTo || undefined,
+    to: params.to,
+    cc: params.cc || undefined,
+    bcc: params.bcc || undefined,
+    subject: params.subject,
+    text: params.body,
+    html: params.html || undefined,
+    // Inline images from the compose editor become related parts
+    attachDataUrls: true,
+    inReplyTo: params.inReplyTo || undefined,
+    references: params.references || undefined,
+    attachments: (params.attachments || []).map(toMailAttachment)
+  });
+
+  console.log('Email sent successfully via SMTP:', info.messageId);
+  return { messageId: info.messageId, response: info.response };
+}
+
+// Create the SMTP transport of an IMAP account's settings
+async function createSmtpTransport(config: EmailConfig) {
+  const nodemailer = await import('nodemailer');
+  return nodemailer.createTransport({
+    host: config.smtpHost,
+    port: config.smtpPort,
+    secure: config.smtpPort === 465,
+    auth: {
+      user: config.email,
+      pass: config.password
+    }
+  });
+}
+
+// IPC handler for sending Gmail emails
+ipcMain.handle('send-gmail-email', async (_event, params) => {
+  try {
+    console.log('Send Gmail email requested:', { to: params.to, subject: params.subject });
+    const data = await sendGmailMessage(params);
+    return { success: true, data };
+    
+  } catch (error: any) {
+    console.error('Error sending Gmail email:', error);
+    return { success: false, error: error.message || 'Failed to send Gmail email' };
+  }
+});
+
+// Send a message through the Gmail API of an account (or an explicit token)
+async function sendGmailMessage(params: any): Promise<any> {
+  const auth = await resolveGmailAuth(params);
+  if (!auth || !auth.access_token) {
+    throw new Error('No valid authentication token provided');
+  }
+
+  // Import googleapis dynamically
+  const { google } = await import('googleapis');
+  
+  // Create OAuth2 client with the account's token
+  const oauth2Client = new google.auth.OAuth2();
+  oauth2Client.setCredentials(auth);
+  
+  // Create Gmail API instance
+  const gmail = google.gmail({ version: 'v1', auth: oauth2Client });
+  
+  // Send as the chosen identity; with an explicit token, as the token's own address
+  const identity: SendIdentity = params.accountId
+    ? await resolveSendIdentity(params.accountId, params.identityId)
+    : { id: '', accountId: '', email: (await gmail.users.getProfile({ userId: 'me' })).data.emailAddress || '', source: 'account' };
+  
+  // Build the MIME message (UTF-8, RFC 2047 headers, text + optional HTML alternative, attachments)
+  const encodedEmail = await buildGmailRawMessage({
+    from: formatIdentityAddress(identity),
+    replyTo: identity.replyTo,
+    to: params.to,
+    cc: params.cc,
+    bcc: params.bcc,
+    subject: params.subject || '',
+    text: params.body,
+    html: params.html,
+    inReplyTo: params.inReplyTo,
+    references: params.references,
+    attachments: params.attachments
+  });
+  
+  // Send email
+  const response = await gmail.users.messages.send({
+    userId: 'me',
+    requestBody: {
+      raw: encodedEmail,
+      // Keeps the reply in the parent's conversation in the sender's mailbox
+      threadId: params.threadId || undefined
+    }
+  });
+  
+  console.log('Email sent successfully via Gmail API:', response.data);
+  return response.data;
+}
+
+// Send a message through the transport of its account (used by the outbox)
+async function sendFromAccount(request: SendRequest): Promise<unknown> {
+  const account = await accountStore.get(request.accountId);
+  if (!account) {
+    throw new Error('The sending account no longer exists');
+  }
+
+  if (account.type === 'gmail') {
+    return sendGmailMessage(request);
+  }
+  if (account.type === 'outlook') {
+    const sender = toOutlookSender(await resolveSendIdentity(account.id, request.identityId));
+    return withGraphClient(account.id, client => sendOutlookMessage(client, {
+      ...request,
+      ...sender,
+      body: request.html || request.body,
+      isHtml: !!request.html
+    }));
+  }
+  return sendSmtpMessage(request);
+}
+
+// IPC handler for listing the outbox (scheduled and failed messages)
+ipcMain.handle('list-outbox', async () => {
+  try {
+    return { success: true, messages: await outboxStore.list() };
+  } catch (error: any) {
+    console.error('Error listing outbox:', error);
+    return { success: false, error: error.message, messages: [] };
+  }
+});
+
+// IPC handler for scheduling a message (or rescheduling an edited one)
+ipcMain.handle('schedule-email', async (_event, { message }: { message: ScheduledMessageInput }) => {
+  try {
+    if (!message?.request?.accountId || !message.request.to) {
+      return { success: false, error: 'Missing required fields: accountId, to' };
+    }
+    if (isNaN(new Date(message.sendAt).getTime())) {
+      return { success: false, error: 'Invalid send time' };
+    }
+
+    const saved = await outboxStore.save(message);
+    await outboxDispatcher.reschedule();
+    mainWindow?.webContents.send('outbox-changed');
+    console.log(`Scheduled message ${saved.id} for ${saved.sendAt}`);
+    return { success: true, message: saved };
+  } catch (error: any) {
+    console.error('Error scheduling email:', error);
+    return { success: false, error: error.message || 'Failed to schedule email' };
+  }
+});
+
+// IPC handler for cancelling a scheduled message; returns it so it can be edited
+ipcMain.handle('cancel-scheduled-email', async (_event, { id }) => {
+  try {
+    const removed = await outboxStore.cancelIfPending(id);
+    if (!removed) {
+      return { success: false, error: 'The message is being sent or was already sent' };
+    }
+    await outboxDispatcher.reschedule();
+    mainWindow?.webContents.send('outbox-changed');
+    return { success: true, message: removed };
+  } catch (error: any) {
+    console.error('Error cancelling scheduled email:', error);
+    return { success: false, error: error.message || 'Failed to cancel scheduled email' };
+  }
+});
+
+// IPC handler for retrying the messages waiting for a retry (the renderer reports the network is back)
+ipcMain.handle('flush-outbox', async () => {
+  try {
+    return { success: true, retried: await outboxDispatcher.flush() };
+  } catch (error: any) {
+    console.error('Error flushing outbox:', error);
+    return { success: false, error: error.message || 'Failed to flush outbox' };
+  }
+});
+
+// IPC handler for sending a failed or scheduled message right away
+ipcMain.handle('retry-scheduled-email', async (_event, { id }) => {
+  try {
+    const message = await outboxDispatcher.sendNow(id);
+    if (!message) {
+      return { success: false, error: 'Message not found' };
+    }
+    mainWindow?.webContents.send('outbox-changed');
+    return { success: true, message };
+  } catch (error: any) {
+    console.error('Error retrying scheduled email:', error);
+    return { success: false, error: error.message || 'Failed to retry scheduled email' };
+  }
+});
+
+// IPC handler for refreshing Google tokens
+ipcMain.handle('refresh-google-token', async (_event, currentToken) => {
+  try {
+    if (!currentToken || !currentToken.refresh_token) {
+      return { success: false, error: 'No refresh token available' };
+    }
+
+    const refreshedToken = await refreshGoogleToken(currentToken);
+    console.log('Token refreshed successfully');
+    return { success: true, token: refreshedToken };
+    
+  } catch (error: any) {
+    console.error('Error refreshing Google token:', error);
+    return { success: false, error: error.message || 'Failed to refresh token' };
+  }
+});
+
+// Exchange a Google refresh token for a new access token
+async function refreshGoogleToken(currentToken: any): Promise<any> {
+  // Import googleapis dynamically
+  const { google } = await import('googleapis');
+  
+  // Create OAuth2 client
+  const oauth2Client = new google.auth.OAuth2(
+    oauthConfig.google.clientId,
+    oauthConfig.google.clientSecret
+  );
+  
+  oauth2Client.setCredentials(currentToken);
+  
+  // Refresh the token
+  const { credentials } = await oauth2Client.refreshAccessToken();
+  
+  return {
+    access_token: credentials.access_token,
+    refresh_token: credentials.refresh_token || currentToken.refresh_token,
+    expiry_date: credentials.expiry_date || Date.now() + 3600000,
+    token_type: credentials.token_type || 'Bearer',
+    scope: currentToken.scope
+  };
+}
+
+// Resolve the Google token for a request: the stored token of params.accountId
+// (refreshed when it is about to expire), or an explicitly passed params.auth
+async function resolveGmailAuth(params: { accountId?: string; auth?: any }): Promise<any> {
+  if (!params.accountId) {
+    return params.auth;
+  }
+
+  const account = await accountStore.require(params.accountId, 'gmail');
+  let token: any = account.credentials;
+  if (token?.refresh_token && token.expiry_date && Date.now() >= token.expiry_date - 60000) {
+    console.log(`Refreshing Google token of account ${account.email || account.id}`);
+    token = await refreshGoogleToken(token);
+    await accountStore.update(account.id, { credentials: token });
+  }
+  return token;
+}
+
+ipcMain.handle('validate-google-token', async (_event, token) => {
+  try {
+    if (!token || !token.access_token) {
+      return { success: false, valid: false, error: 'No token provided' };
+    }
+
+    // Import googleapis dynamically
+    const { google } = await import('googleapis');
+    
+    // Create OAuth2 client
+    const oauth2Client = new google.auth.OAuth2();
+    oauth2Client.setCredentials(token);
+    
+    // Test the token by making a simple API call
+    const gmail = google.gmail({ version: 'v1', auth: oauth2Client });
+    await gmail.users.getProfile({ userId: 'me' });
+    
+    return { success: true, valid: true };
+    
+  } catch (error: any) {
+    console.warn('Token validation failed:', error);
+    return { success: true, valid: false, error: error.message };
+  }
+});
+
+// IPC handler for parsing raw email messages
+ipcMain.handle('parse-raw-email', async (_event, rawData) => {
+  try {
+    // Import mailparser in main process where Node.js modules work properly
+    const { simpleParser } = await import('mailparser');
+    
+    let rawText = rawData;
+    // Try to decode base64url if input looks like base64
+    try {
+      if (/^[A-Za-z0-9_-]+={0,2}$/.test(rawData) && rawData.length > 100) {
+        rawText = Buffer.from(rawData, 'base64url').toString('utf-8');
+      }
+    } catch (e) {
+      console.warn('Not base64url, using as plain text');
+    }
+    
+    const parsed = await simpleParser(rawText);
+    
+    // Helper function to extract address string
+    const extractAddress = (addr: any): string => {
+      if (!addr) return '';
+      if (typeof addr === 'string') return addr;
+      if (addr.text) return addr.text;
+      if (Array.isArray(addr.value) && addr.value.length > 0) {
+        return addr.value[0].address || '';
+      }
+      return '';
+    };
+    
+    // Extract attachment information
+    const attachments = (parsed.attachments || []).map(att => ({
+      filename: att.filename,
+      contentType: att.contentType,
+      size: att.size,
+      contentId: att.contentId,
+      contentDisposition: att.contentDisposition,
+      cid: att.cid,
+      checksum: att.checksum,
+      related: att.related,
+      headers: att.headers ? Object.fromEntries(att.headers.entries()) : {},
+    }));
+    
+    return {
+      success: true,
+      parsed: {
+        messageId: parsed.messageId || '',
+        date: parsed.date?.toISOString() || '',
+        from: extractAddress(parsed.from),
+        to: extractAddress(parsed.to),
+        subject: parsed.subject || '',
+        bodyHtml: parsed.html || '',
+        bodyText: parsed.text || '',
+        attachments,
+        headers: Object.fromEntries(parsed.headers.entries()),
+      }
+    };
+    
+  } catch (error: any) {
+    console.error('Error parsing raw email:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// Create application menu
+const template: Electron.MenuItemConstructorOptions[] = [
+  {
+    label: 'File',
+    submenu: [
+      {
+        label: 'New Email',
+        accelerator: 'CmdOrCtrl+N',
+        click: () => {
+          mainWindow?.webContents.send('new-email');
+        }
+      },
+      {
+        label: 'New Email in Window',
+        accelerator: 'CmdOrCtrl+Shift+N',
+        click: () => {
+          openComposeWindow();
+        }
+      },
+      {
+        label: 'Refresh',
+        accelerator: 'CmdOrCtrl+R',
+        click: () => {
+          mainWindow?.webContents.send('refresh-emails');
+        }
+      },
+      { type: 'separator' },
+      {
+        label: 'Settings',
+        click: () => {
           mainWindow?.webContents.send('open-settings');
         }
       },
@@ -1016,31 +1941,110 @@ const template: Electron.MenuItemConstructorOptions[] = [
 const menu = Menu.buildFromTemplate(template);
 Menu.setApplicationMenu(menu);
 
-ipcMain.handle('fetch-gmail-raw-message', async (_event, { messageId, auth }) => {
+ipcMain.handle('fetch-gmail-raw-message', async (_event, { messageId, accountId, auth: explicitAuth }) => {
   try {
-    if (!auth || !auth.access_token) {
-      return { success: false, error: 'No valid authentication token provided' };
-    }
-    // Import googleapis dynamically to avoid module resolution issues
-    const { google } = await import('googleapis');
-    // Create OAuth2 client with the provided token
-    const oauth2Client = new google.auth.OAuth2();
-    oauth2Client.setCredentials(auth);
-    // Create Gmail API instance
-    const gmail = google.gmail({ version: 'v1', auth: oauth2Client });
-    // Fetch the raw message
-    const res = await gmail.users.messages.get({
-      userId: 'me',
-      id: messageId,
-      format: 'raw'
-    });
-    return { success: true, raw: res.data.raw };
+    return { success: true, raw: await fetchGmailRawMessage({ messageId, accountId, auth: explicitAuth }) };
   } catch (error) {
     const err = error && typeof error === 'object' && 'message' in error ? (error as any).message : String(error);
     return { success: false, error: err };
   }
 });
 
+// Fetch a Gmail message in the API's raw format (base64url RFC 5322 message)
+async function fetchGmailRawMessage(params: { messageId: string; accountId?: string; auth?: any }): Promise<string> {
+  const auth = await resolveGmailAuth(params);
+  if (!auth || !auth.access_token) {
+    throw new Error('No valid authentication token provided');
+  }
+  // Import googleapis dynamically to avoid module resolution issues
+  const { google } = await import('googleapis');
+  // Create OAuth2 client with the provided token
+  const oauth2Client = new google.auth.OAuth2();
+  oauth2Client.setCredentials(auth);
+  // Create Gmail API instance
+  const gmail = google.gmail({ version: 'v1', auth: oauth2Client });
+  // Fetch the raw message
+  const res = await gmail.users.messages.get({
+    userId: 'me',
+    id: params.messageId,
+    format: 'raw'
+  });
+  if (!res.data.raw) {
+    throw new Error('Gmail returned no message source');
+  }
+  return res.data.raw;
+}
+
+// Fetch the RFC 5322 source of a message from its account: Gmail and Graph by
+// message id, IMAP by folder and UID
+async function fetchRawMessage(params: { accountId: string; messageId?: string; folder?: string; uid?: number }): Promise<Buffer> {
+  const account = await accountStore.get(params.accountId);
+  if (!account) {
+    throw new Error('The account of the message no longer exists');
+  }
+
+  if (account.type === 'gmail') {
+    return Buffer.from(await fetchGmailRawMessage({ messageId: params.messageId || '', accountId: account.id }), 'base64url');
+  }
+  if (account.type === 'outlook') {
+    return withGraphClient(account.id, client => fetchOutlookMimeMessage(client, params.messageId || ''));
+  }
+  if (!params.uid) {
+    throw new Error('The message has no IMAP UID');
+  }
+  const config = await resolveImapConfig({ accountId: account.id });
+  return fetchImapMessageSource(config, params.folder || 'INBOX', params.uid);
+}
+
+// IPC handler for the source of a message (forward as attachment); base64 encoded
+ipcMain.handle('fetch-raw-message', async (_event, params) => {
+  try {
+    if (!params?.accountId) {
+      return { success: false, error: 'Missing required field: accountId' };
+    }
+    const source = await fetchRawMessage(params);
+    return { success: true, raw: source.toString('base64') };
+  } catch (error: any) {
+    console.error('Error fetching message source:', error);
+    return { success: false, error: error.message || 'Failed to fetch the message' };
+  }
+});
+
+// IPC handler for redirecting (bouncing) a message: the original is resent
+// unchanged with Resent-* fields, so it keeps its sender. Only SMTP can do this;
+// Gmail and Exchange replace a From address that is not the account's own.
+ipcMain.handle('redirect-email', async (_event, params) => {
+  try {
+    if (!params?.accountId || !params.to) {
+      return { success: false, error: 'Missing required fields: accountId, to' };
+    }
+    const account = await accountStore.get(params.accountId);
+    if (!account) {
+      return { success: false, error: 'The account of the message no longer exists' };
+    }
+    if (account.type !== 'imap') {
+      return { success: false, error: `${account.type === 'gmail' ? 'Gmail' : 'Outlook'} does not allow redirecting messages from other senders. Forward the message as an attachment instead.` };
+    }
+
+    const recipients = parseAddressList(params.to).map(address => address.email);
+    if (recipients.length === 0) {
+      return { success: false, error: 'No valid recipient' };
+    }
+    const config: EmailConfig = await resolveImapConfig({ accountId: account.id });
+    const source = await fetchRawMessage(params);
+    const transporter = await createSmtpTransport(config);
+    const info = await transporter.sendMail({
+      envelope: { from: config.email, to: recipients },
+      raw: buildResentMessage(source, { from: config.email, to: recipients })
+    });
+    console.log(`Redirected message to ${recipients.join(', ')}:`, info.messageId);
+    return { success: true, messageId: info.messageId };
+  } catch (error: any) {
+    console.error('Error redirecting email:', error);
+    return { success: false, error: describeSendError(error) };
+  }
+});
+
 // IPC handler for opening a file in the native viewer
 ipcMain.handle('preview-file-native', async (event, args) => {
     const { filename, data } = args;
@@ -1078,8 +2082,9 @@ ipcMain.handle('preview-file-native', async (event, args) => {
 });
 
 // IPC handler for fetching Gmail attachment content
-ipcMain.handle('fetch-gmail-attachment', async (_event, { messageId, attachmentId, auth }) => {
+ipcMain.handle('fetch-gmail-attachment', async (_event, { messageId, attachmentId, accountId, auth: explicitAuth }) => {
   try {
+    const auth = await resolveGmailAuth({ accountId, auth: explicitAuth });
     if (!auth || !auth.access_token) {
       return { success: false, error: 'No valid authentication token provided' };
     }
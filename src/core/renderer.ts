@@ -6,10 +6,12 @@ console.log('DOM loaded:', !!document.getElementById('settings-btn'));
 import { uiThemeManager } from '../ui/ui-theme-manager.js';
 import { IMAPEmailManager } from '../email/imap-email-manager.js';
 import { getEmailComposer } from '../email/email-composer.js';
+import { mountComposeForm } from '../ui/compose-form.js';
 import { EventManager } from '../managers/event-manager.js';
 import { AuthManager } from '../auth/auth-manager.js';
 import { getSearchManager } from '../managers/search-manager.js';
 import { SearchUI } from '../ui/ui-components.js';
+import { FolderSidebar } from '../ui/folder-sidebar.js';
 import { DOMPURIFY_CONFIG, EMAIL_PARSING_CONFIG } from '../config/config.js';
 import { SafeHTML } from '../utils/safe-html.js';
 import { EmailManager } from '../email/email-manager.js';
@@ -41,6 +43,8 @@ console.log('emailManager.standardizeEmailObject function:', typeof emailManager
 console.log('emailManager.standardizeEmailObject function name:', emailManager.standardizeEmailObject.name);
 
 // Create instances with proper modular dependencies
+// (the compose form markup first, as the composer looks up its elements)
+mountComposeForm();
 const emailComposer = getEmailComposer();
 
 // Create MarketingEmailDetector
@@ -63,6 +67,9 @@ console.log('=== INSTANCES CREATED ===');
 console.log('EventManager created:', !!eventManager);
 console.log('IMAPEmailManager created:', !!imapEmailManager);
 
+// Create the folder/label sidebar (populated after the first sync)
+const folderSidebar = new FolderSidebar(imapEmailManager);
+
 // Initialize search manager using singleton pattern (NO duplicate creation)  
 getSearchManager(); // Initialize singleton
 
@@ -76,6 +83,12 @@ console.log('=== INITIALIZING GLOBAL DEPENDENCIES ===');
 (globalThis as any).DOMPURIFY_CONFIG = DOMPURIFY_CONFIG;
 (globalThis as any).EMAIL_PARSING_CONFIG = EMAIL_PARSING_CONFIG;
 
+// UI helpers the composer and list modules look up globally
+(globalThis as any).showNotification = uiThemeManager.showNotification.bind(uiThemeManager);
+(globalThis as any).showLoading = uiThemeManager.showLoading.bind(uiThemeManager);
+(globalThis as any).showComposeModal = uiThemeManager.showComposeModal.bind(uiThemeManager);
+(globalThis as any).hideComposeModal = uiThemeManager.hideComposeModal.bind(uiThemeManager);
+
 // Initialize DOMPurify with our config
 if (typeof DOMPurify !== 'undefined') {
     // Set the default config
@@ -160,6 +173,10 @@ async function initializeApp(): Promise<void> {
         eventManager.initialize();
         console.log('EventManager initialized:', eventManager.isInitialized());
 
+        // Initialize folder sidebar
+        folderSidebar.initialize();
+        console.log('Folder sidebar initialized');
+
         // Initialize auth manager - it will handle OAuth flow internally
         AuthManager.initialize(uiThemeManager, eventManager, imapEmailManager);
         console.log('Auth Manager initialized');
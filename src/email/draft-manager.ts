@@ -0,0 +1,266 @@
+/**
+ * Draft Manager Module
+ * Autosaves the compose modal as a local draft on an interval
+ * (APP_CONFIG.performance.autoSaveIntervalMs), copies drafts to the server when
+ * they are saved explicitly or the modal is closed, and resumes and discards them.
+ * Drafts are stored by the main process (save-draft, sync-draft, list-drafts, delete-draft).
+ * Every compose window has its own DraftManager, so each autosaves its own draft.
+ */
+
+import type { ComposeState, EmailDraft } from '../../types/email';
+import type { EmailComposer } from './email-composer.js';
+import { APP_CONFIG } from '../config/config.js';
+import { uiThemeManager } from '../ui/ui-theme-manager.js';
+import { getIpcRenderer } from '../utils/ipc-renderer.js';
+import { SIGNATURE_CLASS } from '../ui/rich-text-editor.js';
+
+/**
+ * Check whether the compose state holds anything worth keeping
+ * @param state - Compose state
+ * @returns True if any field, the body (besides the signature) or an attachment was filled in
+ */
+export function hasDraftContent(state: ComposeState): boolean {
+    if (state.to.trim() || state.cc.trim() || state.bcc.trim() || state.subject.trim() || state.attachments.length > 0) {
+        return true;
+    }
+    const body = new DOMParser().parseFromString(state.html, 'text/html').body;
+    body.querySelectorAll(`.${SIGNATURE_CLASS}`).forEach(signature => signature.remove());
+    return !!(body.textContent?.trim() || body.querySelector('img'));
+}
+
+/**
+ * Draft Manager - Local autosave and server sync of the message being composed
+ */
+class DraftManager {
+    private composer: EmailComposer;
+    private currentDraftId: string | null;
+    // Signature of the last saved state, to skip saving unchanged drafts
+    private lastSavedSignature: string;
+    // Bumped for every new message, so saves of the previous one do not adopt it
+    private generation: number;
+    // Settles once the saves in progress are done
+    private pending: Promise<void>;
+    // First save that failed since the last flush
+    private failure: Error | null;
+    private autosaveTimer: ReturnType<typeof setInterval> | null;
+
+    constructor(composer: EmailComposer) {
+        this.composer = composer;
+        this.currentDraftId = null;
+        this.lastSavedSignature = '';
+        this.generation = 0;
+        this.pending = Promise.resolve();
+        this.failure = null;
+        this.autosaveTimer = null;
+    }
+
+    /**
+     * Start autosaving (unless drafts are disabled in APP_CONFIG)
+     */
+    initialize(): void {
+        if (!APP_CONFIG.features.enableDrafts) {
+            console.log('DraftManager: Drafts are disabled');
+            return;
+        }
+
+        this.autosaveTimer = setInterval(() => {
+            if (this.isComposeOpen()) {
+                this.saveLocal().catch(error => console.error('DraftManager: Autosave failed:', error));
+            }
+        }, APP_CONFIG.performance.autoSaveIntervalMs);
+
+        // Keep what was typed when the window is closed or reloaded
+        window.addEventListener('beforeunload', () => {
+            if (this.isComposeOpen()) {
+                this.saveLocal().catch(() => undefined);
+            }
+        });
+        console.log(`DraftManager: Autosaving every ${APP_CONFIG.performance.autoSaveIntervalMs / 1000}s`);
+    }
+
+    /**
+     * Id of the draft being edited
+     * @returns Draft id, or null for an unsaved message
+     */
+    getCurrentDraftId(): string | null {
+        return this.currentDraftId;
+    }
+
+    /**
+     * Save the compose modal locally if it changed since the last save
+     * The state is read synchronously, so the compose form can be reset right after calling this.
+     * @returns Saved draft, or null if there was nothing (new) to save
+     */
+    saveLocal(): Promise<EmailDraft | null> {
+        return this.track(this.writeLocal());
+    }
+
+    private async writeLocal(): Promise<EmailDraft | null> {
+        const state = this.composer.getComposeState();
+        const signature = this.getSignature(state);
+        if (!hasDraftContent(state) || signature === this.lastSavedSignature) {
+            return null;
+        }
+
+        const ipcRenderer = getIpcRenderer();
+        if (!ipcRenderer) {
+            return null;
+        }
+
+        const draftId = this.currentDraftId;
+        const generation = this.generation;
+        this.lastSavedSignature = signature;
+        const result = await ipcRenderer.invoke('save-draft', { draft: { ...state, id: draftId || undefined } });
+        if (!result.success) {
+            if (this.generation === generation) this.lastSavedSignature = '';
+            throw new Error(result.error || 'Failed to save draft');
+        }
+        // The compose modal may have moved on to another message meanwhile
+        if (this.generation === generation && this.currentDraftId === draftId) {
+            this.currentDraftId = result.draft.id;
+        }
+        return result.draft;
+    }
+
+    /**
+     * Save the draft and copy it to the server of its account
+     * @param options - notify: report the outcome (explicit Save Draft)
+     * @returns Saved draft, or null if there was nothing to save
+     */
+    save(options: { notify?: boolean } = {}): Promise<EmailDraft | null> {
+        return this.track(this.saveAndSync(options));
+    }
+
+    private async saveAndSync(options: { notify?: boolean }): Promise<EmailDraft | null> {
+        // Read before the first await: the compose modal may be cleared right after calling save
+        const currentDraftId = this.currentDraftId;
+        try {
+            const saved = await this.saveLocal();
+            const draftId = saved?.id || currentDraftId;
+            if (!draftId) {
+                if (options.notify) uiThemeManager.showNotification('Nothing to save yet', 'info');
+                return null;
+            }
+
+            const ipcRenderer = getIpcRenderer();
+            if (!ipcRenderer) {
+                return null;
+            }
+            const result = await ipcRenderer.invoke('sync-draft', { id: draftId });
+            if (!result.success) {
+                // The draft is kept locally and copied again on the next save
+                console.warn('DraftManager: Failed to copy draft to the server:', result.error);
+                if (options.notify) uiThemeManager.showNotification(`Draft saved on this device only: ${result.error}`, 'warning');
+                return result.draft || null;
+            }
+            if (options.notify) uiThemeManager.showNotification('Draft saved', 'success');
+            return result.draft;
+        } catch (error) {
+            console.error('DraftManager: Failed to save draft:', error);
+            if (options.notify) uiThemeManager.showNotification(`Failed to save draft: ${(error as Error).message}`, 'error');
+            return null;
+        }
+    }
+
+    /**
+     * Load a draft into the compose modal
+     * @param draft - Draft to continue editing
+     */
+    resume(draft: EmailDraft): void {
+        this.composer.loadComposeState(draft);
+        this.currentDraftId = draft.id;
+        this.lastSavedSignature = this.getSignature(this.composer.getComposeState());
+    }
+
+    /**
+     * Forget the draft being edited (the compose modal starts a new message)
+     */
+    reset(): void {
+        this.currentDraftId = null;
+        this.lastSavedSignature = '';
+        this.generation++;
+    }
+
+    /**
+     * Wait for the saves in progress (e.g. before a compose window closes)
+     * Rejects with the error of a save that failed since the last flush.
+     */
+    async flush(): Promise<void> {
+        await this.pending;
+        const failure = this.failure;
+        this.failure = null;
+        if (failure) {
+            throw failure;
+        }
+    }
+
+    /**
+     * Delete the draft being edited, locally and on the server (after it was sent)
+     */
+    async discardCurrent(): Promise<void> {
+        const draftId = this.currentDraftId;
+        this.reset();
+        if (draftId) {
+            await this.deleteDraft(draftId);
+        }
+    }
+
+    /**
+     * List the saved drafts
+     * @returns Drafts, most recently edited first
+     */
+    async listDrafts(): Promise<EmailDraft[]> {
+        const ipcRenderer = getIpcRenderer();
+        if (!ipcRenderer) {
+            return [];
+        }
+        const result = await ipcRenderer.invoke('list-drafts');
+        if (!result.success) {
+            throw new Error(result.error || 'Failed to list drafts');
+        }
+        return result.drafts;
+    }
+
+    /**
+     * Delete a draft locally and on the server
+     * @param id - Draft id
+     */
+    async deleteDraft(id: string): Promise<void> {
+        const ipcRenderer = getIpcRenderer();
+        if (!ipcRenderer) {
+            return;
+        }
+        if (this.currentDraftId === id) {
+            this.reset();
+        }
+        const result = await ipcRenderer.invoke('delete-draft', { id });
+        if (!result.success) {
+            console.warn('DraftManager: Failed to delete draft:', result.error);
+        }
+    }
+
+    private track<T>(promise: Promise<T>): Promise<T> {
+        const settled = promise.then(() => undefined, (error: Error) => {
+            this.failure = this.failure || error;
+        });
+        this.pending = Promise.all([this.pending, settled]).then(() => undefined);
+        return promise;
+    }
+
+    private isComposeOpen(): boolean {
+        return !!document.getElementById('compose-modal')?.classList.contains('show');
+    }
+
+    /**
+     * Cheap change signature of a compose state (attachments by name and size)
+     */
+    private getSignature(state: ComposeState): string {
+        return JSON.stringify({
+            ...state,
+            text: undefined,
+            attachments: state.attachments.map(attachment => `${attachment.filename}:${attachment.size}`)
+        });
+    }
+}
+
+export { DraftManager };
@@ -0,0 +1,155 @@
+/**
+ * Draft Sync Service Module
+ * Runs in the Electron main process. Copies local drafts to the server: Gmail
+ * drafts through the users.drafts API, IMAP drafts by appending them to the
+ * Drafts mailbox. IMAP copies carry an X-Draft-Id header with the local draft id,
+ * so the previous copy can be found and replaced without relying on UIDPLUS.
+ *
+ * Dependencies: googleapis (gmail_v1), imap (node-imap)
+ */
+
+import type Imap from 'imap';
+import type { gmail_v1 } from 'googleapis';
+import type { EmailConfig } from '../../types/config';
+import type { EmailDraft } from '../../types/email';
+import type { OutgoingMessage } from './mime-message-builder.js';
+import { findMailboxByRole, openBox, withImapConnection } from './imap-fetch-service.js';
+
+// Header identifying the server copy of a local draft
+export const DRAFT_ID_HEADER = 'X-Draft-Id';
+// Used when the server does not mark its Drafts mailbox
+const DEFAULT_DRAFTS_MAILBOX = 'Drafts';
+
+/**
+ * Build the message to store on the server for a draft
+ * @param draft - Local draft
+ * @param from - Sender address of the draft's account
+ * @returns Message with the reply threading headers and the draft id header
+ */
+export function toDraftMessage(draft: EmailDraft, from: OutgoingMessage['from']): OutgoingMessage {
+  const context = draft.replyContext;
+  const references = context?.messageId
+    ? [...context.references.filter(id => id !== context.messageId), context.messageId]
+    : undefined;
+
+  return {
+    from,
+    to: draft.to,
+    cc: draft.cc,
+    bcc: draft.bcc,
+    subject: draft.subject,
+    text: draft.text,
+    html: draft.html || undefined,
+    inReplyTo: context?.messageId || undefined,
+    references,
+    attachments: draft.attachments,
+    headers: { [DRAFT_ID_HEADER]: draft.id }
+  };
+}
+
+/**
+ * Create or replace a Gmail draft
+ * @param gmail - Gmail API instance
+ * @param raw - base64url encoded MIME message
+ * @param options - Id of the existing server draft, and the thread of a reply
+ * @returns Gmail draft id
+ */
+export async function saveGmailDraft(
+  gmail: gmail_v1.Gmail,
+  raw: string,
+  options: { draftId?: string; threadId?: string } = {}
+): Promise<string> {
+  const requestBody = { message: { raw, threadId: options.threadId || undefined } };
+
+  if (options.draftId) {
+    try {
+      const response = await gmail.users.drafts.update({ userId: 'me', id: options.draftId, requestBody });
+      return response.data.id || options.draftId;
+    } catch (error: any) {
+      // The draft was sent or deleted elsewhere; store a new one
+      if (error?.code !== 404) {
+        throw error;
+      }
+    }
+  }
+
+  const response = await gmail.users.drafts.create({ userId: 'me', requestBody });
+  console.log('DraftSync: Created Gmail draft', response.data.id);
+  return response.data.id || '';
+}
+
+/**
+ * Delete a Gmail draft (already deleted drafts are ignored)
+ * @param gmail - Gmail API instance
+ * @param draftId - Gmail draft id
+ */
+export async function deleteGmailDraft(gmail: gmail_v1.Gmail, draftId: string): Promise<void> {
+  try {
+    await gmail.users.drafts.delete({ userId: 'me', id: draftId });
+  } catch (error: any) {
+    if (error?.code !== 404) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Delete the copies of a draft from the open (read-write) mailbox
+ * @param imap - IMAP connection with the Drafts mailbox open read-write
+ * @param draftId - Local draft id
+ */
+async function removeImapDraftCopies(imap: Imap, draftId: string): Promise<void> {
+  const uids = await new Promise<number[]>((resolve, reject) => {
+    imap.search([['HEADER', DRAFT_ID_HEADER, draftId]], (error, result) => (error ? reject(error) : resolve(result || [])));
+  });
+  if (uids.length === 0) {
+    return;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    imap.addFlags(uids, '\\Deleted', error => (error ? reject(error) : resolve()));
+  });
+  // Without UIDPLUS a plain EXPUNGE also removes other messages already marked deleted
+  await new Promise<void>((resolve, reject) => {
+    const done = (error: Error) => (error ? reject(error) : resolve());
+    if (imap.serverSupports('UIDPLUS')) {
+      imap.expunge(uids, done);
+    } else {
+      imap.expunge(done);
+    }
+  });
+}
+
+/**
+ * Store a draft in the IMAP Drafts mailbox, replacing its previous copy
+ * @param config - IMAP account configuration
+ * @param draftId - Local draft id (matches the X-Draft-Id header of the message)
+ * @param message - Complete MIME message
+ * @param mailbox - Mailbox of the previous copy, if known
+ * @returns Mailbox the draft was stored in
+ */
+export async function saveImapDraft(config: EmailConfig, draftId: string, message: Buffer, mailbox?: string): Promise<string> {
+  return withImapConnection(config, {}, async (imap) => {
+    const target = mailbox || await findMailboxByRole(imap, 'drafts') || DEFAULT_DRAFTS_MAILBOX;
+    await openBox(imap, target, false);
+    await removeImapDraftCopies(imap, draftId);
+    await new Promise<void>((resolve, reject) => {
+      imap.append(message, { mailbox: target, flags: ['\\Draft', '\\Seen'] }, error => (error ? reject(error) : resolve()));
+    });
+    console.log(`DraftSync: Stored draft ${draftId} in ${target}`);
+    return target;
+  });
+}
+
+/**
+ * Delete a draft from the IMAP Drafts mailbox
+ * @param config - IMAP account configuration
+ * @param draftId - Local draft id
+ * @param mailbox - Mailbox the draft was stored in
+ */
+export async function deleteImapDraft(config: EmailConfig, draftId: string, mailbox: string): Promise<void> {
+  await withImapConnection(config, {}, async (imap) => {
+    await openBox(imap, mailbox, false);
+    await removeImapDraftCopies(imap, draftId);
+  });
+}
@@ -4,7 +4,16 @@
  * Dependencies: EmailRenderer, SafeHTML, global variables (conversations, emails, emailConfig, etc.)
  */
 
-import type { Email, EmailAddress, EmailConversation } from '../../types/email';
+import type { Email, EmailAddress, EmailAttachment, EmailConversation, OutgoingAttachment } from '../../types/email';
+import type { MailAccount } from '../../types/config';
+import { buildForwardHtml, buildReplyHtml, getForwardSubject, getReplyPosition, getReplySubject } from './message-quoting.js';
+import { resolveReplyRecipients, type ReplyRecipients } from './reply-recipients.js';
+import { formatAddressList, toAddresses } from '../utils/address-parser.js';
+import { getIpcRenderer } from '../utils/ipc-renderer.js';
+import { EMAIL_PARSING_CONFIG } from '../config/config.js';
+import { cleanHtmlFragment, plainTextToHtml } from '../ui/rich-text-editor.js';
+import { RedirectDialog } from '../ui/redirect-dialog.js';
+import { uiThemeManager } from '../ui/ui-theme-manager.js';
 
 /**
  * Email action types
@@ -12,7 +21,11 @@ import type { Email, EmailAddress, EmailConversation } from '../../types/email';
 export type EmailAction = 
   | 'reply' 
   | 'reply-all' 
+  | 'reply-list'
   | 'forward' 
+  | 'forward-attachment'
+  | 'redirect'
+  | 'edit-as-new'
   | 'expand' 
   | 'collapse' 
   | 'display';
@@ -226,17 +239,13 @@ const EmailActions = {
     
     if (email && typeof showComposeModal !== 'undefined') {
       showComposeModal();
+      prepareCompose(email, true);
       
-      const toInput = document.getElementById('to-input') as HTMLInputElement;
       const subjectInput = document.getElementById('subject-input') as HTMLInputElement;
-      const bodyInput = document.getElementById('body-input') as HTMLTextAreaElement;
       
-      if (toInput) toInput.value = getEmailString(email.from);
-      if (subjectInput) subjectInput.value = 'RE: ' + (email.subject || '');
-      if (bodyInput) {
-        const EmailRenderer = (window as any).EmailRenderer;
-        bodyInput.value = `\n\n--- Original Message ---\nFrom: ${getEmailString(email.from)}\nSent: ${EmailRenderer.formatDetailedDate(email.date)}\nSubject: ${email.subject}\n\n${email.bodyText || email.body || ''}`;
-      }
+      setComposeRecipients(resolveReplyRecipients(email, 'reply'));
+      if (subjectInput) subjectInput.value = getReplySubject(email.subject);
+      setQuotedBody(email, false);
       
       return { success: true, action: 'reply', emailId: messageId };
     }
@@ -257,38 +266,49 @@ const EmailActions = {
     
     if (email && typeof showComposeModal !== 'undefined') {
       showComposeModal();
+      prepareCompose(email, true);
       
-      const allRecipients: string[] = [getEmailString(email.from)];
+      const subjectInput = document.getElementById('subject-input') as HTMLInputElement;
       
-      if (email.to) {
-        const toRecipients = Array.isArray(email.to) ? 
-          email.to.map((t: EmailAddress | string) => getEmailString(t)) : 
-          [email.to];
-        allRecipients.push(...toRecipients);
-      }
+      setComposeRecipients(resolveReplyRecipients(email, 'reply-all'));
+      if (subjectInput) subjectInput.value = getReplySubject(email.subject);
+      setQuotedBody(email, false);
       
-      if (email.cc) {
-        const ccRecipients = Array.isArray(email.cc) ? 
-          email.cc.map((c: EmailAddress | string) => getEmailString(c)) : 
-          [email.cc];
-        allRecipients.push(...ccRecipients);
-      }
+      return { success: true, action: 'reply-all', emailId: messageId };
+    }
+    
+    return { success: false, action: 'reply-all', error: 'Compose modal not available' };
+  },
+
+  /**
+   * Reply to the mailing list a message came from (its List-Post address)
+   * @param messageId - Message ID of email to reply to
+   */
+  async replyToListEmail(messageId: string): Promise<EmailActionResult> {
+    const email = await this.findEmailByMessageId(messageId);
+    if (!email) {
+      return { success: false, action: 'reply-list', error: 'Email not found' };
+    }
+    const recipients = resolveReplyRecipients(email, 'reply-list');
+    if (!recipients) {
+      return { success: false, action: 'reply-list', error: 'The email is not from a mailing list' };
+    }
+    const showComposeModal = (window as any).showComposeModal;
+    
+    if (typeof showComposeModal !== 'undefined') {
+      showComposeModal();
+      prepareCompose(email, true);
       
-      const toInput = document.getElementById('to-input') as HTMLInputElement;
       const subjectInput = document.getElementById('subject-input') as HTMLInputElement;
-      const bodyInput = document.getElementById('body-input') as HTMLTextAreaElement;
       
-      if (toInput) toInput.value = allRecipients.join(', ');
-      if (subjectInput) subjectInput.value = 'RE: ' + (email.subject || '');
-      if (bodyInput) {
-        const EmailRenderer = (window as any).EmailRenderer;
-        bodyInput.value = `\n\n--- Original Message ---\nFrom: ${getEmailString(email.from)}\nSent: ${EmailRenderer.formatDetailedDate(email.date)}\nSubject: ${email.subject}\n\n${email.bodyText || email.body || ''}`;
-      }
+      setComposeRecipients(recipients);
+      if (subjectInput) subjectInput.value = getReplySubject(email.subject);
+      setQuotedBody(email, false);
       
-      return { success: true, action: 'reply-all', emailId: messageId };
+      return { success: true, action: 'reply-list', emailId: messageId };
     }
     
-    return { success: false, action: 'reply-all', error: 'Compose modal not available' };
+    return { success: false, action: 'reply-list', error: 'Compose modal not available' };
   },
 
   /**
@@ -304,18 +324,14 @@ const EmailActions = {
     
     if (email && typeof showComposeModal !== 'undefined') {
       showComposeModal();
+      prepareCompose(email, false);
       
       const subjectInput = document.getElementById('subject-input') as HTMLInputElement;
-      const bodyInput = document.getElementById('body-input') as HTMLTextAreaElement;
       
-      if (subjectInput) subjectInput.value = 'FW: ' + (email.subject || '');
-      if (bodyInput) {
-        const EmailRenderer = (window as any).EmailRenderer;
-        const toRecipients = Array.isArray(email.to) ? 
-          email.to.map((t: EmailAddress | string) => getEmailString(t)).join(', ') : 
-          email.to;
-        bodyInput.value = `\n\n--- Forwarded Message ---\nFrom: ${getEmailString(email.from)}\nSent: ${EmailRenderer.formatDetailedDate(email.date)}\nTo: ${toRecipients}\nSubject: ${email.subject}\n\n${email.bodyText || email.body || ''}`;
-      }
+      if (subjectInput) subjectInput.value = getForwardSubject(email.subject);
+      setQuotedBody(email, true);
+
+      await attachForwardedFiles(email);
       
       return { success: true, action: 'forward', emailId: messageId };
     }
@@ -323,12 +339,164 @@ const EmailActions = {
     return { success: false, action: 'forward', error: 'Compose modal not available' };
   },
 
+  /**
+   * Forward email as an attachment: the original message, unchanged, attached
+   * as message/rfc822 (keeps its headers, formatting and attachments)
+   * @param messageId - Message ID of email to forward
+   */
+  async forwardAsAttachment(messageId: string): Promise<EmailActionResult> {
+    const email = await this.findEmailByMessageId(messageId);
+    if (!email) {
+      return { success: false, action: 'forward-attachment', error: 'Email not found' };
+    }
+    const showComposeModal = (window as any).showComposeModal;
+    const getEmailComposer = (window as any).getEmailComposer;
+    if (typeof showComposeModal === 'undefined' || !getEmailComposer) {
+      return { success: false, action: 'forward-attachment', error: 'Compose modal not available' };
+    }
+
+    let raw: string;
+    try {
+      raw = await fetchRawMessage(email);
+    } catch (error) {
+      const message = (error as Error).message;
+      uiThemeManager.showNotification(`Could not forward the email as an attachment: ${message}`, 'error');
+      return { success: false, action: 'forward-attachment', error: message };
+    }
+
+    const size = Math.floor(raw.length * 3 / 4);
+    if (size > EMAIL_PARSING_CONFIG.maxAttachmentSize) {
+      const message = 'The email is larger than the attachment size limit';
+      uiThemeManager.showNotification(`Could not forward the email as an attachment: ${message}`, 'error');
+      return { success: false, action: 'forward-attachment', error: message };
+    }
+
+    showComposeModal();
+    prepareCompose(email, false);
+    const subjectInput = document.getElementById('subject-input') as HTMLInputElement;
+    if (subjectInput) subjectInput.value = getForwardSubject(email.subject);
+
+    const composer = getEmailComposer();
+    composer.setBodyHtml('<p><br></p>');
+    composer.applyDefaultSignature();
+    const attached = composer.addAttachment({
+      filename: `${(email.subject || 'message').replace(/[\\/:*?"<>|\r\n]+/g, '_').trim().slice(0, 80) || 'message'}.eml`,
+      contentType: 'message/rfc822',
+      size,
+      content: raw
+    });
+    composer.focusBody();
+    if (!attached) {
+      // The compose modal reported the size limit
+      return { success: false, action: 'forward-attachment', error: 'The email is larger than the attachment size limit' };
+    }
+
+    return { success: true, action: 'forward-attachment', emailId: messageId };
+  },
+
+  /**
+   * Redirect (bounce) email: resend it unchanged to other recipients, keeping
+   * its original sender; replies go to the sender, not to us
+   * @param messageId - Message ID of email to redirect
+   * @param to - Recipients; asked for when not given
+   */
+  async redirectEmail(messageId: string, to?: string): Promise<EmailActionResult> {
+    const email = await this.findEmailByMessageId(messageId);
+    if (!email) {
+      return { success: false, action: 'redirect', error: 'Email not found' };
+    }
+    if (!email.accountId) {
+      return { success: false, action: 'redirect', error: 'The account of the email is not known' };
+    }
+
+    const recipients = to || await getRedirectDialog().prompt(email);
+    if (!recipients) {
+      return { success: false, action: 'redirect', error: 'Cancelled' };
+    }
+
+    const ipcRenderer = getIpcRenderer();
+    const result = ipcRenderer
+      ? await ipcRenderer.invoke('redirect-email', { ...getMessageLocation(email), to: recipients })
+      : { success: false, error: 'IPC not available' };
+    if (!result.success) {
+      uiThemeManager.showNotification(`Failed to redirect the email: ${result.error}`, 'error');
+      return { success: false, action: 'redirect', error: result.error };
+    }
+    uiThemeManager.showNotification('Email redirected', 'success');
+    return { success: true, action: 'redirect', emailId: messageId };
+  },
+
+  /**
+   * Edit as new: open a copy of the email (recipients, subject, body and
+   * attachments) as a new message
+   * @param messageId - Message ID of email to copy
+   */
+  async editAsNew(messageId: string): Promise<EmailActionResult> {
+    const email = await this.findEmailByMessageId(messageId);
+    if (!email) {
+      return { success: false, action: 'edit-as-new', error: 'Email not found' };
+    }
+    const showComposeModal = (window as any).showComposeModal;
+    const getEmailComposer = (window as any).getEmailComposer;
+    if (typeof showComposeModal === 'undefined' || !getEmailComposer) {
+      return { success: false, action: 'edit-as-new', error: 'Compose modal not available' };
+    }
+
+    showComposeModal();
+    prepareCompose(email, false);
+    const composer = getEmailComposer();
+    composer.setRecipients('to', formatAddressList(toAddresses(email.to)));
+    composer.setRecipients('cc', formatAddressList(toAddresses(email.cc)));
+    composer.setRecipients('bcc', formatAddressList(toAddresses(email.bcc)));
+    const subjectInput = document.getElementById('subject-input') as HTMLInputElement;
+    if (subjectInput) subjectInput.value = email.subject || '';
+    // The copy keeps its own signature, if it had one
+    composer.setBodyHtml(email.bodyHtml && email.bodyHtml.trim()
+      ? cleanHtmlFragment(email.bodyHtml)
+      : plainTextToHtml(email.bodyText || email.body || ''));
+
+    await attachForwardedFiles(email);
+    composer.focusBody();
+
+    return { success: true, action: 'edit-as-new', emailId: messageId };
+  },
+
+  /**
+   * Put a reply written in the inline reply box of the conversation view into the
+   * compose modal, with recipients, quoted original and signature as for other replies
+   * @param email - Message replied to
+   * @param mode - Reply to the sender or to all
+   * @param html - Reply written so far, if any
+   * @param show - Open the compose modal; otherwise the reply is only prepared for sending
+   */
+  composeInlineReply(email: Email, mode: 'reply' | 'reply-all', html: string | undefined, show: boolean): EmailActionResult {
+    const showComposeModal = (window as any).showComposeModal;
+    if (!(window as any).getEmailComposer || (show && typeof showComposeModal === 'undefined')) {
+      return { success: false, action: mode, error: 'Compose modal not available' };
+    }
+
+    if (show) showComposeModal();
+    prepareCompose(email, true);
+    const subjectInput = document.getElementById('subject-input') as HTMLInputElement;
+    setComposeRecipients(resolveReplyRecipients(email, mode));
+    if (subjectInput) subjectInput.value = getReplySubject(email.subject);
+    setQuotedBody(email, false, html);
+
+    return { success: true, action: mode, emailId: email.id };
+  },
+
   /**
    * Check if email was sent by current user
    * @param email - Email object to check
    * @returns True if email was sent by user
    */
   isEmailSent(email: Email): boolean {
+    const accounts: MailAccount[] = (window as any).mailAccounts || [];
+    const account = accounts.find(a => a.id === email.accountId);
+    if (account && account.email) {
+      return email.from?.email?.toLowerCase() === account.email.toLowerCase();
+    }
+
     const emailConfig = (window as any).emailConfig;
     if (emailConfig && emailConfig.email) {
       return email.from?.email?.includes(emailConfig.email) || false;
@@ -416,10 +584,26 @@ async function replyAllToEmail(messageId: string): Promise<EmailActionResult> {
   return EmailActions.replyAllToEmail(messageId);
 }
 
+async function replyToListEmail(messageId: string): Promise<EmailActionResult> {
+  return EmailActions.replyToListEmail(messageId);
+}
+
 async function forwardEmail(messageId: string): Promise<EmailActionResult> {
   return EmailActions.forwardEmail(messageId);
 }
 
+async function forwardAsAttachment(messageId: string): Promise<EmailActionResult> {
+  return EmailActions.forwardAsAttachment(messageId);
+}
+
+async function redirectEmail(messageId: string, to?: string): Promise<EmailActionResult> {
+  return EmailActions.redirectEmail(messageId, to);
+}
+
+async function editAsNew(messageId: string): Promise<EmailActionResult> {
+  return EmailActions.editAsNew(messageId);
+}
+
 function isEmailSent(email: Email): boolean {
   return EmailActions.isEmailSent(email);
 }
@@ -435,7 +619,11 @@ if (typeof window !== 'undefined') {
   (window as any).toggleEmailExpansion = toggleEmailExpansion;
   (window as any).replyToEmail = replyToEmail;
   (window as any).replyAllToEmail = replyAllToEmail;
+  (window as any).replyToListEmail = replyToListEmail;
   (window as any).forwardEmail = forwardEmail;
+  (window as any).forwardAsAttachment = forwardAsAttachment;
+  (window as any).redirectEmail = redirectEmail;
+  (window as any).editAsNew = editAsNew;
   (window as any).isEmailSent = isEmailSent;
   (window as any).displayEmail = displayEmail;
   
@@ -460,7 +648,11 @@ if (typeof module !== 'undefined' && module.exports) {
     toggleEmailExpansion, 
     replyToEmail, 
     replyAllToEmail, 
+    replyToListEmail, 
     forwardEmail, 
+    forwardAsAttachment, 
+    redirectEmail, 
+    editAsNew, 
     isEmailSent, 
     displayEmail 
   };
@@ -473,4 +665,125 @@ function getEmailString(val: string | { email?: string; name?: string } | undefi
   if ('email' in val && val.email) return val.email;
   if ('name' in val && val.name) return val.name;
   return '';
-} 
\ No newline at end of file
+} 
+
+// Helper to start replies and forwards as new messages sent from the account the
+// message arrived on (replies from the address it was sent to), keeping replies in
+// the parent's thread
+function prepareCompose(email: Email, isReply: boolean): void {
+  const getEmailComposer = (window as any).getEmailComposer;
+  if (!getEmailComposer) return;
+  const composer = getEmailComposer();
+  composer.resetCompose();
+  composer.setReplyContext(isReply ? email : null);
+  if (isReply) {
+    composer.selectReplyIdentity(email);
+  } else if (email.accountId) {
+    composer.selectFromAccount(email.accountId);
+  }
+}
+
+// Helper to fill the To and Cc fields of the compose modal
+function setComposeRecipients(recipients: ReplyRecipients): void {
+  const getEmailComposer = (window as any).getEmailComposer;
+  if (getEmailComposer) {
+    const composer = getEmailComposer();
+    composer.setRecipients('to', formatAddressList(recipients.to));
+    composer.setRecipients('cc', formatAddressList(recipients.cc));
+  }
+}
+
+// Helper to fill the compose body with the quoted original (replies, with the text
+// written so far if any) or the forwarded message, and add the sending account's signature
+function setQuotedBody(email: Email, isForward: boolean, replyHtml?: string): void {
+  const getEmailComposer = (window as any).getEmailComposer;
+  if (!getEmailComposer) return;
+
+  const composer = getEmailComposer();
+  composer.setBodyHtml(isForward ? buildForwardHtml(email) : buildReplyHtml(email, getReplyPosition(), replyHtml));
+  composer.applyDefaultSignature();
+  composer.focusBody();
+}
+
+// Helper to address a message in its account: provider id (Gmail, Graph) or folder and UID (IMAP)
+function getMessageLocation(email: Email): { accountId?: string; messageId: string; folder?: string; uid?: number } {
+  return { accountId: email.accountId, messageId: email.id, folder: email.folder, uid: email.uid };
+}
+
+// Helper to get the original message (RFC 5322 source) from its account, base64 encoded
+async function fetchRawMessage(email: Email): Promise<string> {
+  if (!email.accountId) {
+    throw new Error('The account of the email is not known');
+  }
+  const ipcRenderer = getIpcRenderer();
+  if (!ipcRenderer) {
+    throw new Error('IPC not available');
+  }
+  const result = await ipcRenderer.invoke('fetch-raw-message', getMessageLocation(email));
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to fetch the message');
+  }
+  return result.raw;
+}
+
+// Dialog asking for the recipients of a redirect, created on first use
+let redirectDialog: RedirectDialog | null = null;
+function getRedirectDialog(): RedirectDialog {
+  if (!redirectDialog) {
+    redirectDialog = new RedirectDialog();
+  }
+  return redirectDialog;
+}
+
+// Helper to get an attachment's content as base64, fetching lazily loaded Gmail content
+async function getAttachmentBase64(attachment: EmailAttachment): Promise<string | null> {
+  const content: any = attachment.content;
+  if (typeof content === 'string' && content) {
+    return content;
+  }
+  // Buffers arrive over IPC as Uint8Array or as their JSON form
+  const bytes = content instanceof Uint8Array ? content
+    : Array.isArray(content?.data) ? Uint8Array.from(content.data) : null;
+  if (bytes) {
+    let binary = '';
+    bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+    return btoa(binary);
+  }
+  if (attachment.attachmentId && attachment.messageId) {
+    const manager = (window as any).AttachmentManager?.getInstance();
+    return manager ? manager.fetchGmailAttachmentContent(attachment) : null;
+  }
+  return null;
+}
+
+// Helper to carry the attachments of a forwarded message over to the compose form
+async function attachForwardedFiles(email: Email): Promise<void> {
+  const getEmailComposer = (window as any).getEmailComposer;
+  if (!getEmailComposer || !email.attachments?.length) return;
+  const composer = getEmailComposer();
+  composer.clearAttachments();
+
+  for (const attachment of email.attachments) {
+    // Inline images belong to the original HTML body, which is not forwarded
+    if (attachment.isInline && attachment.contentId) continue;
+    const filename = attachment.filename || attachment.name || 'attachment';
+    try {
+      const content = await getAttachmentBase64(attachment);
+      if (!content) {
+        console.warn(`EmailActions: Content of ${filename} is not available, not forwarding it`);
+        uiThemeManager.showNotification(`Could not attach ${filename} to the forward`, 'warning');
+        continue;
+      }
+      const outgoing: OutgoingAttachment = {
+        filename,
+        contentType: attachment.contentType || 'application/octet-stream',
+        size: attachment.size || Math.floor(content.length * 3 / 4),
+        content
+      };
+      composer.addAttachment(outgoing);
+    } catch (error) {
+      console.error(`EmailActions: Failed to fetch ${filename} for forwarding:`, error);
+      uiThemeManager.showNotification(`Could not attach ${filename} to the forward`, 'warning');
+    }
+  }
+}
@@ -25,16 +25,53 @@ if (typeof window !== 'undefined' && (window as any).require) {
   };
 }
 
-import { EmailConfig } from '../../types/config';
-import { Email } from '../../types/email';
+import { EmailConfig, MailAccount, SendIdentity } from '../../types/config';
+import { ComposeState, Email, EmailConversation, EmailDraft, OutgoingAttachment, ReplyContext, ScheduledMessage, ScheduledMessageKind } from '../../types/email';
+import { ComposeAttachments } from '../ui/compose-attachments.js';
+import { RichTextEditor } from '../ui/rich-text-editor.js';
+import { DraftsList } from '../ui/drafts-list.js';
+import { SignaturesModal } from '../ui/signatures-modal.js';
+import { TemplatesModal } from '../ui/templates-modal.js';
+import { IdentitiesModal } from '../ui/identities-modal.js';
+import { RecipientInput } from '../ui/recipient-input.js';
+import { ScheduleSendMenu } from '../ui/schedule-send-menu.js';
+import { OutboxList } from '../ui/outbox-list.js';
+import { SendCheckDialog } from '../ui/send-check-dialog.js';
+import { getContactsIndex } from '../managers/contacts-index.js';
+import { DraftManager, hasDraftContent } from './draft-manager.js';
+import { SignatureManager } from './signature-manager.js';
+import { TemplateManager } from './template-manager.js';
+import { IdentityManager, formatIdentity } from './identity-manager.js';
+import { OutboxManager } from './outbox-manager.js';
+import { getUndoSendSeconds, initializeUndoSendSetting } from './undo-send.js';
+import { initializeReplyPositionSetting } from './message-quoting.js';
+import { initializeSendCheckSettings, runSendChecks } from './send-checks.js';
 
 interface EmailData {
+    // Identity of the sending account to send as
+    identityId?: string;
     to: string;
     cc?: string;
+    bcc?: string;
     subject: string;
+    // Plain-text body; the text alternative of html when html is set
     body: string;
+    html?: string;
+    // Threading headers of a reply (RFC 5322 section 3.6.4)
+    inReplyTo?: string;
+    references?: string[];
+    // Gmail thread of the parent, only valid when sending from the parent's Gmail account
+    threadId?: string;
+    // Graph id of the parent, only valid when sending from the parent's Outlook account
+    replyToMessageId?: string;
+    attachments?: OutgoingAttachment[];
 }
 
+type RecipientField = 'to' | 'cc' | 'bcc';
+
+// Outbox message as announced to the main window by compose windows
+type QueuedMessage = Pick<ScheduledMessage, 'id' | 'kind' | 'sendAt'>;
+
 interface SendMailInfo {
     messageId: string;
     response: string;
@@ -48,11 +85,61 @@ interface GmailSendResponse {
 class EmailComposer {
     private emailConfig: EmailConfig | null;
     private googleAuth: any;
+    private accounts: MailAccount[];
+    private identities: IdentityManager;
+    private identitiesModal: IdentitiesModal;
+    private replyContext: ReplyContext | null;
+    private composeAttachments: ComposeAttachments;
+    private editor: RichTextEditor;
+    private drafts: DraftManager;
+    private draftsList: DraftsList;
+    private signatures: SignatureManager;
+    private signaturesModal: SignaturesModal;
+    private templates: TemplateManager;
+    private templatesModal: TemplatesModal;
+    // Message being replied to, for the placeholders of templates
+    private replyEmail: Email | null;
+    private recipientInputs: Record<RecipientField, RecipientInput>;
+    private outbox: OutboxManager;
+    private scheduleMenu: ScheduleSendMenu;
+    private outboxList: OutboxList;
+    private sendCheckDialog: SendCheckDialog;
+    // Running in a compose window of its own rather than the compose modal of the main window
+    private composeWindow: boolean;
     private initialized: boolean;
 
     constructor() {
         this.emailConfig = null;
         this.googleAuth = null;
+        this.accounts = [];
+        this.identities = new IdentityManager();
+        this.replyContext = null;
+        this.composeAttachments = new ComposeAttachments();
+        this.editor = new RichTextEditor();
+        this.drafts = new DraftManager(this);
+        this.draftsList = new DraftsList(this.drafts, draft => this.resumeDraft(draft));
+        this.signatures = new SignatureManager(this.editor, () => this.getSendingIdentity());
+        this.signaturesModal = new SignaturesModal(this.signatures);
+        this.identitiesModal = new IdentitiesModal(this.identities, this.signatures, () => this.accounts);
+        this.templates = new TemplateManager(this.editor, () => ({
+            email: this.replyEmail,
+            recipient: this.recipientInputs.to.getRecipients()[0] || null,
+            subject: (document.getElementById('subject-input') as HTMLInputElement | null)?.value || '',
+            account: this.getSendingAccount()
+        }), () => this.templatesModal.show());
+        this.templatesModal = new TemplatesModal(this.templates);
+        this.replyEmail = null;
+        const suggestContacts = (query: string, exclude: string[]) => getContactsIndex().suggest(query, { exclude });
+        this.recipientInputs = {
+            to: new RecipientInput('to-input', suggestContacts),
+            cc: new RecipientInput('cc-input', suggestContacts),
+            bcc: new RecipientInput('bcc-input', suggestContacts)
+        };
+        this.outbox = new OutboxManager();
+        this.scheduleMenu = new ScheduleSendMenu(sendAt => this.scheduleEmail(sendAt));
+        this.outboxList = new OutboxList(this.outbox, message => this.editScheduled(message));
+        this.sendCheckDialog = new SendCheckDialog();
+        this.composeWindow = false;
         this.initialized = false;
         
         if (document.readyState === 'loading') {
@@ -65,6 +152,23 @@ class EmailComposer {
     initialize(): void {
         console.log('EmailComposer: Initializing...');
         this.setupEventListeners();
+        Object.values(this.recipientInputs).forEach(input => input.initialize());
+        this.composeAttachments.initialize();
+        this.editor.initialize();
+        this.drafts.initialize();
+        this.draftsList.initialize();
+        this.signatures.initialize().catch(error => console.error('EmailComposer: Failed to load signatures:', error));
+        this.signaturesModal.initialize();
+        this.templates.initialize().catch(error => console.error('EmailComposer: Failed to load templates:', error));
+        this.templatesModal.initialize();
+        this.identitiesModal.initialize();
+        this.outbox.initialize();
+        this.scheduleMenu.initialize();
+        this.outboxList.initialize();
+        this.sendCheckDialog.initialize();
+        initializeUndoSendSetting();
+        initializeReplyPositionSetting();
+        initializeSendCheckSettings();
         this.initialized = true;
         console.log('EmailComposer: Initialized successfully');
     }
@@ -79,11 +183,448 @@ class EmailComposer {
         console.log('EmailComposer: Google auth token updated');
     }
 
+    /**
+     * Fill the From selector with the configured accounts, then with their
+     * send-as identities once those are loaded
+     * @param accounts - Accounts mail can be sent from
+     * @param defaultAccountId - Account to preselect (the one currently shown)
+     * @returns Settles once the identities are loaded
+     */
+    setAccounts(accounts: MailAccount[], defaultAccountId?: string): Promise<void> {
+        this.accounts = accounts;
+        this.renderFromSelect(defaultAccountId);
+        console.log(`EmailComposer: ${accounts.length} sending accounts available`);
+        return this.identities.reload().catch(error => console.error('EmailComposer: Failed to load identities:', error));
+    }
+
+    /**
+     * Run in a compose window of its own (see compose-window): the window closes
+     * once its message is sent or closed, and leaves the Undo toast to the main window
+     */
+    runInComposeWindow(): void {
+        this.composeWindow = true;
+        this.renderFromSelect();
+    }
+
+    /**
+     * Fill the From selector with the identities of the accounts, keeping the selection
+     * @param selectedId - Identity to select instead
+     */
+    private renderFromSelect(selectedId?: string): void {
+        const fromSelect = document.getElementById('from-account') as HTMLSelectElement | null;
+        const fromGroup = document.getElementById('from-account-group');
+        if (!fromSelect) {
+            return;
+        }
+
+        const identities = this.identities.getIdentities(this.accounts);
+        const current = selectedId || fromSelect.value;
+        fromSelect.innerHTML = '';
+        identities.forEach(identity => {
+            const option = document.createElement('option');
+            option.value = identity.id;
+            option.textContent = formatIdentity(identity);
+            fromSelect.appendChild(option);
+        });
+        if (current && identities.some(identity => identity.id === current)) {
+            fromSelect.value = current;
+        }
+        if (fromGroup) {
+            fromGroup.style.display = identities.length > 0 ? '' : 'none';
+        }
+        const popOutButton = document.getElementById('popout-compose');
+        if (popOutButton) {
+            popOutButton.hidden = !this.canPopOut();
+        }
+    }
+
+    /**
+     * Preselect the account a message is sent from (e.g. the one a replied-to message arrived on)
+     * @param accountId - Account id
+     */
+    selectFromAccount(accountId: string | undefined): void {
+        this.selectIdentity(accountId);
+    }
+
+    /**
+     * Preselect the identity a message is sent as
+     * @param identityId - Identity id (an account id selects the account's own address)
+     */
+    selectIdentity(identityId: string | undefined): void {
+        const fromSelect = document.getElementById('from-account') as HTMLSelectElement | null;
+        if (fromSelect && identityId && this.identities.getIdentities(this.accounts).some(identity => identity.id === identityId)) {
+            fromSelect.value = identityId;
+        }
+    }
+
+    /**
+     * Preselect the identity for a reply: the address the message was sent to,
+     * otherwise the account it arrived on
+     * @param email - Message replied to
+     */
+    selectReplyIdentity(email: Email): void {
+        const identity = this.identities.findAddressedIdentity(email, this.accounts);
+        this.selectIdentity(identity?.id || email.accountId);
+    }
+
+    /**
+     * Identity chosen in the From selector
+     * @returns Sending identity, or null when no account is configured
+     */
+    getSendingIdentity(): SendIdentity | null {
+        const fromSelect = document.getElementById('from-account') as HTMLSelectElement | null;
+        const identities = this.identities.getIdentities(this.accounts);
+        return identities.find(identity => identity.id === fromSelect?.value) || identities[0] || null;
+    }
+
+    /**
+     * Account of the identity chosen in the From selector
+     * @returns Sending account, or null when no account is configured
+     */
+    getSendingAccount(): MailAccount | null {
+        const identity = this.getSendingIdentity();
+        return this.accounts.find(account => account.id === identity?.accountId) || this.accounts[0] || null;
+    }
+
+    /**
+     * Remember the message being replied to, so the reply stays in its thread
+     * and templates can address its sender
+     * @param email - Parent message, or null for a new message or a forward
+     */
+    setReplyContext(email: Email | null): void {
+        this.replyEmail = email;
+        if (!email) {
+            this.replyContext = null;
+            return;
+        }
+
+        const headers = email.headers || {};
+        // IMAP messages are identified by their Message-ID; Gmail and Graph ids are provider ids
+        const messageId = parseMessageIds(headers['message-id'])[0]
+            || (email.source === 'imap' ? parseMessageIds(email.messageId)[0] : undefined);
+        if (!messageId) {
+            console.warn('EmailComposer: Parent message has no Message-ID, reply will start a new thread');
+        }
+
+        const references = parseMessageIds(headers['references']);
+        this.replyContext = {
+            accountId: email.accountId,
+            source: email.source,
+            messageId: messageId || '',
+            references: references.length > 0 ? references : parseMessageIds(headers['in-reply-to']),
+            threadId: email.threadId || undefined,
+            providerMessageId: email.id
+        };
+    }
+
+    /**
+     * Threading fields for the message being sent
+     * @param account - Sending account, null for the legacy single-account paths
+     * @returns Fields to merge into the EmailData
+     */
+    getThreadingFields(account: MailAccount | null): Partial<EmailData> {
+        const context = this.replyContext;
+        if (!context) {
+            return {};
+        }
+
+        const fields: Partial<EmailData> = {};
+        if (context.messageId) {
+            fields.inReplyTo = context.messageId;
+            fields.references = [...context.references.filter(id => id !== context.messageId), context.messageId];
+        }
+        // Provider thread ids only mean something inside the mailbox the parent came from
+        const sameMailbox = account ? account.id === context.accountId : !context.accountId;
+        if (sameMailbox && context.source === 'gmail-api' && context.threadId) {
+            fields.threadId = context.threadId;
+        }
+        if (sameMailbox && context.source === 'outlook-api' && account?.type === 'outlook') {
+            fields.replyToMessageId = context.providerMessageId;
+        }
+        return fields;
+    }
+
+    /**
+     * Recipients of a field as an address list
+     * @param field - To, Cc or Bcc
+     * @returns e.g. "Jane Doe <jane@example.com>, bob@example.com"
+     */
+    getRecipients(field: RecipientField): string {
+        return this.recipientInputs[field].getValue();
+    }
+
+    /**
+     * Replace the recipients of a field
+     * @param field - To, Cc or Bcc
+     * @param value - Address list
+     */
+    setRecipients(field: RecipientField, value: string): void {
+        this.recipientInputs[field].setValue(value);
+    }
+
+    /**
+     * Replace the message body with HTML (e.g. a quoted reply)
+     * @param html - Message HTML
+     */
+    setBodyHtml(html: string): void {
+        this.editor.setHtml(html);
+    }
+
+    /**
+     * Replace the message body with plain text
+     * @param text - Message text
+     */
+    setBodyText(text: string): void {
+        this.editor.setText(text);
+    }
+
+    /**
+     * Insert the default signature of the sending account (after the body was replaced)
+     */
+    applyDefaultSignature(): void {
+        this.signatures.applyDefault();
+    }
+
+    /**
+     * Put the caret at the start of the message body
+     */
+    focusBody(): void {
+        this.editor.focus();
+    }
+
+    /**
+     * Attach an already encoded file to the message being composed
+     * @param attachment - Attachment with base64 content
+     * @returns True if it fits within the attachment size limit
+     */
+    addAttachment(attachment: OutgoingAttachment): boolean {
+        return this.composeAttachments.addAttachment(attachment);
+    }
+
+    /**
+     * Remove all attachments from the message being composed
+     */
+    clearAttachments(): void {
+        this.composeAttachments.clear();
+    }
+
+    /**
+     * Read the compose modal
+     * @returns Recipients, subject, body, attachments and the message replied to
+     */
+    getComposeState(): ComposeState {
+        const value = (id: string) => (document.getElementById(id) as HTMLInputElement | null)?.value || '';
+        return {
+            accountId: this.getSendingAccount()?.id,
+            identityId: this.getSendingIdentity()?.id,
+            to: this.getRecipients('to'),
+            cc: this.getRecipients('cc'),
+            bcc: this.getRecipients('bcc'),
+            subject: value('subject-input'),
+            html: this.editor.getHtml(),
+            text: this.editor.getText(),
+            attachments: this.composeAttachments.getAttachments(),
+            replyContext: this.replyContext
+        };
+    }
+
+    /**
+     * Fill the compose modal (e.g. from a draft)
+     * @param state - Compose state to restore
+     */
+    loadComposeState(state: ComposeState): void {
+        const setValue = (id: string, value: string) => {
+            const input = document.getElementById(id) as HTMLInputElement | null;
+            if (input) input.value = value || '';
+        };
+        this.selectIdentity(state.identityId || state.accountId);
+        this.setRecipients('to', state.to);
+        this.setRecipients('cc', state.cc);
+        this.setRecipients('bcc', state.bcc);
+        setValue('subject-input', state.subject);
+        this.editor.setHtml(state.html);
+        this.composeAttachments.clear();
+        (state.attachments || []).forEach(attachment => this.composeAttachments.addAttachment(attachment));
+        this.replyContext = state.replyContext || null;
+        // A resumed reply keeps its parent for the template placeholders, if it is loaded
+        this.replyEmail = this.findLoadedEmail(this.replyContext?.providerMessageId);
+        this.signatures.syncSelection();
+    }
+
+    /**
+     * Find a message among the loaded conversations
+     * @param id - Provider message id
+     * @returns Message, or null if it is not loaded
+     */
+    private findLoadedEmail(id: string | undefined): Email | null {
+        if (!id) return null;
+        const conversations = (window as any).conversations || {};
+        for (const conversation of Object.values(conversations) as EmailConversation[]) {
+            const email = conversation.emails?.find(candidate => candidate.id === id);
+            if (email) return email;
+        }
+        return null;
+    }
+
+    /**
+     * Start a new message. A message being written moves to a compose window of
+     * its own, so it is not replaced; otherwise the compose modal is cleared
+     * (keeping what was typed so far as a draft).
+     */
+    resetCompose(): void {
+        if (this.canPopOut() && hasDraftContent(this.getComposeState())) {
+            this.popOutCompose();
+            return;
+        }
+        this.drafts.saveLocal().catch(error => console.error('EmailComposer: Failed to keep draft:', error));
+        this.drafts.reset();
+        this.loadComposeState({ to: '', cc: '', bcc: '', subject: '', html: '', text: '', attachments: [], replyContext: null });
+        this.signatures.reset();
+    }
+
+    /**
+     * Clear the compose modal without keeping its content as a draft (e.g. an
+     * inline reply that was prepared for sending but not sent)
+     */
+    discardCompose(): void {
+        this.drafts.reset();
+        this.loadComposeState({ to: '', cc: '', bcc: '', subject: '', html: '', text: '', attachments: [], replyContext: null });
+        this.signatures.reset();
+    }
+
+    /**
+     * Close the compose modal, keeping the message as a draft (also on the server)
+     */
+    closeCompose(): void {
+        this.drafts.save();
+        this.discardCompose();
+        this.hideComposeModal();
+    }
+
+    /**
+     * Whether messages can move to compose windows; those send through the
+     * accounts, not the legacy single-account setups
+     */
+    private canPopOut(): boolean {
+        return !this.composeWindow && !!this.getSendingAccount();
+    }
+
+    /**
+     * Move the message of the compose modal to a compose window of its own and
+     * clear the modal. The message is saved as a draft, which the window continues.
+     */
+    popOutCompose(): void {
+        const currentDraftId = this.drafts.getCurrentDraftId();
+        const saving = this.drafts.saveLocal();
+        this.discardCompose();
+        saving
+            .then(draft => this.openComposeWindow(draft?.id || currentDraftId || undefined))
+            .catch(error => {
+                console.error('EmailComposer: Failed to open a compose window:', error);
+                const showNotification = (globalThis as any).showNotification || (window as any).showNotification;
+                if (showNotification) {
+                    showNotification(`Failed to open a compose window: ${(error as Error).message}`, 'error');
+                }
+            });
+    }
+
+    /**
+     * Open a compose window (in the main process)
+     * @param draftId - Draft to continue there, none for a new message
+     */
+    async openComposeWindow(draftId?: string): Promise<void> {
+        const result = await ipcRenderer.invoke('open-compose-window', { draftId });
+        if (!result.success) {
+            throw new Error(result.error || 'Failed to open a compose window');
+        }
+    }
+
+    /**
+     * Continue a saved draft (a compose window opened for it)
+     * @param id - Draft id
+     * @returns False if the draft no longer exists
+     */
+    async resumeDraftById(id: string): Promise<boolean> {
+        const draft = (await this.drafts.listDrafts()).find(candidate => candidate.id === id);
+        if (!draft) {
+            return false;
+        }
+        this.resumeDraft(draft);
+        return true;
+    }
+
+    /**
+     * Wait for the draft saves in progress (before a compose window closes)
+     */
+    whenSaved(): Promise<void> {
+        return this.drafts.flush();
+    }
+
+    /**
+     * Save the message as a draft now (Save Draft button)
+     */
+    async saveDraft(): Promise<void> {
+        await this.drafts.save({ notify: true });
+    }
+
+    /**
+     * Continue editing a draft in the compose modal
+     * @param draft - Saved draft
+     */
+    resumeDraft(draft: EmailDraft): void {
+        this.resetCompose();
+        this.drafts.resume(draft);
+        this.showComposeModal();
+        this.focusBody();
+    }
+
+    /**
+     * Open the saved drafts list
+     */
+    showDrafts(): void {
+        this.draftsList.show();
+    }
+
+    /**
+     * Open the outbox (scheduled, queued and failed messages)
+     */
+    showOutbox(): void {
+        this.outboxList.show();
+    }
+
+    /**
+     * Continue editing a message taken out of the outbox
+     * @param message - Message removed from the outbox
+     */
+    editScheduled(message: ScheduledMessage): void {
+        this.resetCompose();
+        this.loadComposeState({ ...message.compose, attachments: message.request.attachments || [] });
+        this.showComposeModal();
+        this.focusBody();
+    }
+
     setupEventListeners(): void {
+        // Keep the From selector in sync with the account list and the shown account
+        window.addEventListener('accountsChanged', (event: Event) => {
+            const detail = (event as CustomEvent).detail || {};
+            this.setAccounts(detail.accounts || [], detail.currentAccountId);
+        });
+        window.addEventListener('identitiesChanged', () => this.renderFromSelect());
+        if ((window as any).mailAccounts) {
+            this.setAccounts((window as any).mailAccounts);
+        }
+        document.getElementById('popout-compose')?.addEventListener('click', () => {
+            this.popOutCompose();
+            this.hideComposeModal();
+        });
+
         if (ipcRenderer) {
             ipcRenderer.on('new-email', () => {
+                this.resetCompose();
                 this.showComposeModal();
             });
+            // Messages sent or scheduled from compose windows, which close right away
+            ipcRenderer.on('compose-window-queued', (_event: any, message: QueuedMessage) => this.announceQueued(message));
             console.log('EmailComposer: IPC event listeners setup successfully');
         } else {
             console.warn('EmailComposer: ipcRenderer not available, IPC events disabled');
@@ -108,20 +649,47 @@ class EmailComposer {
         }
     }
 
-    async sendEmail(): Promise<void> {
+    /**
+     * Read the message to send from the compose modal
+     * @returns Message, or null (after a warning) when there are no recipients or no text
+     */
+    buildEmailData(): EmailData | null {
         const emailData: EmailData = {
-            to: (document.getElementById('to-input') as HTMLInputElement)?.value || '',
-            cc: (document.getElementById('cc-input') as HTMLInputElement)?.value || '',
+            identityId: this.getSendingIdentity()?.id,
+            to: this.getRecipients('to'),
+            cc: this.getRecipients('cc'),
+            bcc: this.getRecipients('bcc'),
             subject: (document.getElementById('subject-input') as HTMLInputElement)?.value || '',
-            body: (document.getElementById('body-input') as HTMLTextAreaElement)?.value || ''
+            body: this.editor.getText(),
+            html: this.editor.getHtml(),
+            attachments: this.composeAttachments.getAttachments()
         };
         
-        if (!emailData.to || !emailData.subject || !emailData.body) {
+        if (!emailData.to || this.editor.isEmpty()) {
             const showNotification = (globalThis as any).showNotification || (window as any).showNotification;
             if (showNotification) {
                 showNotification('Please fill in all required fields', 'warning');
             }
-            return;
+            return null;
+        }
+        return emailData;
+    }
+
+    /**
+     * Send the message. Messages from an account are held in the outbox for the
+     * undo window (see undo-send), and the "Sending" toast offers Undo meanwhile;
+     * the legacy single-account setups send right away. The send checks run first.
+     * @returns True once the message is sent or held for sending
+     */
+    async sendEmail(): Promise<boolean> {
+        const emailData = this.buildEmailData();
+        if (!emailData || !(await this.confirmSendChecks(emailData, 'Send anyway'))) {
+            return false;
+        }
+
+        const account = this.getSendingAccount();
+        if (account) {
+            return this.sendWithUndo(emailData, account);
         }
         
         const showLoading = (globalThis as any).showLoading || (window as any).showLoading;
@@ -130,6 +698,7 @@ class EmailComposer {
         }
         
         try {
+            Object.assign(emailData, this.getThreadingFields(account));
             if (this.googleAuth) {
                 console.log('Sending email via Gmail API...');
                 await this.sendEmailViaGmail(emailData);
@@ -137,9 +706,12 @@ class EmailComposer {
                 console.log('Sending email via SMTP...');
                 await this.sendEmailViaSmtp(emailData);
             } else {
-                throw new Error('No email configuration available. Please configure SMTP settings or sign in with Google.');
+                throw new Error('No email configuration available. Please configure SMTP settings or sign in with Google or Microsoft.');
             }
             
+            getContactsIndex().recordSent([emailData.to, emailData.cc || '', emailData.bcc || '']);
+            await this.drafts.discardCurrent();
+            this.discardCompose();
             this.hideComposeModal();
             const showNotification = (globalThis as any).showNotification || (window as any).showNotification;
             if (showNotification) {
@@ -150,12 +722,14 @@ class EmailComposer {
             if (loadEmails) {
                 await loadEmails();
             }
+            return true;
         } catch (error) {
             console.error('Error sending email:', error);
             const showNotification = (globalThis as any).showNotification || (window as any).showNotification;
             if (showNotification) {
                 showNotification(`Failed to send email: ${(error as Error).message}`, 'error');
             }
+            return false;
         } finally {
             if (showLoading) {
                 showLoading(false);
@@ -163,6 +737,200 @@ class EmailComposer {
         }
     }
 
+    /**
+     * Run the send checks (see send-checks); on warnings the user can go back to
+     * the message or send anyway
+     * @param emailData - Message to send
+     * @param action - Label of the button that overrides the warnings
+     * @returns True to send the message
+     */
+    private async confirmSendChecks(emailData: EmailData, action: string): Promise<boolean> {
+        const warnings = runSendChecks({
+            to: this.recipientInputs.to.getRecipients(),
+            cc: this.recipientInputs.cc.getRecipients(),
+            bcc: this.recipientInputs.bcc.getRecipients(),
+            subject: emailData.subject,
+            text: this.editor.getOwnText(),
+            attachments: emailData.attachments || [],
+            account: this.getSendingAccount()
+        });
+        return warnings.length === 0 || this.sendCheckDialog.confirm(warnings, action);
+    }
+
+    /**
+     * Hold the message for the undo window, then let the main process send it
+     * @param emailData - Message to send
+     * @param account - Sending account
+     * @returns True once the message is in the outbox
+     */
+    private async sendWithUndo(emailData: EmailData, account: MailAccount): Promise<boolean> {
+        const showNotification = (globalThis as any).showNotification || (window as any).showNotification;
+        const seconds = getUndoSendSeconds();
+        try {
+            console.log(`Sending email from ${account.email || account.id} (${account.type}) in ${seconds}s...`);
+            await this.queueEmail(emailData, account, new Date(Date.now() + seconds * 1000), 'undo-send');
+            return true;
+        } catch (error) {
+            console.error('Error sending email:', error);
+            if (showNotification) {
+                showNotification(`Failed to send email: ${(error as Error).message}`, 'error');
+            }
+            return false;
+        }
+    }
+
+    /**
+     * Stop a message held for the undo window and reopen it in the compose modal
+     * @param id - Outbox id of the message
+     */
+    async undoSend(id: string): Promise<void> {
+        const showNotification = (globalThis as any).showNotification || (window as any).showNotification;
+        try {
+            const message = await this.outbox.cancel(id);
+            if (!message) {
+                if (showNotification) {
+                    showNotification('Too late, the email was already sent', 'warning');
+                }
+                return;
+            }
+            this.editScheduled(message);
+        } catch (error) {
+            console.error('Error undoing send:', error);
+            if (showNotification) {
+                showNotification(`Could not undo: ${(error as Error).message}`, 'error');
+            }
+        }
+    }
+
+    /**
+     * Put the message into the outbox; the main process sends it at the given time
+     * (also when the app was restarted meanwhile)
+     * @param sendAt - Time to send the message
+     */
+    async scheduleEmail(sendAt: Date): Promise<void> {
+        const emailData = this.buildEmailData();
+        if (!emailData) {
+            return;
+        }
+
+        const showNotification = (globalThis as any).showNotification || (window as any).showNotification;
+        const account = this.getSendingAccount();
+        if (!account) {
+            if (showNotification) {
+                showNotification('Scheduled sending needs a mail account. Please add one first.', 'warning');
+            }
+            return;
+        }
+        if (!(await this.confirmSendChecks(emailData, 'Schedule anyway'))) {
+            return;
+        }
+
+        try {
+            await this.queueEmail(emailData, account, sendAt, 'scheduled');
+        } catch (error) {
+            console.error('Error scheduling email:', error);
+            if (showNotification) {
+                showNotification(`Failed to schedule email: ${(error as Error).message}`, 'error');
+            }
+        }
+    }
+
+    /**
+     * Put the message into the outbox, announce it and close the compose modal
+     * @param emailData - Message to send
+     * @param account - Sending account
+     * @param sendAt - Time to send the message
+     * @param kind - Send later, or Send held for the undo window
+     * @returns Outbox message
+     */
+    private async queueEmail(emailData: EmailData, account: MailAccount, sendAt: Date, kind: ScheduledMessageKind): Promise<ScheduledMessage> {
+        Object.assign(emailData, this.getThreadingFields(account));
+        const { attachments, ...compose } = this.getComposeState();
+        const message = await this.outbox.schedule({
+            request: { ...emailData, accountId: account.id, attachments },
+            compose,
+            sendAt: sendAt.toISOString(),
+            kind
+        });
+
+        getContactsIndex().recordSent([emailData.to, emailData.cc || '', emailData.bcc || '']);
+        await this.drafts.discardCurrent();
+        this.discardCompose();
+        this.announceQueued(message);
+        this.hideComposeModal();
+        return message;
+    }
+
+    /**
+     * Tell that a message went into the outbox: "Sending…" with Undo while it is
+     * held for the undo window, otherwise its send time. Compose windows close
+     * right after, so they leave this to the main window.
+     * @param message - Outbox message
+     */
+    private announceQueued(message: QueuedMessage): void {
+        if (this.composeWindow) {
+            ipcRenderer.send('compose-window-queued', { id: message.id, kind: message.kind, sendAt: message.sendAt });
+            return;
+        }
+
+        const showNotification = (globalThis as any).showNotification || (window as any).showNotification;
+        if (!showNotification) {
+            return;
+        }
+        if (message.kind === 'undo-send') {
+            showNotification('Sending…', 'info', {
+                duration: Math.max(new Date(message.sendAt).getTime() - Date.now(), 0),
+                actions: [{ label: 'Undo', action: () => this.undoSend(message.id) }]
+            });
+        } else {
+            showNotification(`Email scheduled for ${new Date(message.sendAt).toLocaleString()}`, 'success');
+        }
+    }
+
+    /**
+     * Send through the provider of the given account
+     * @param emailData - Message to send
+     * @param account - Sending account
+     */
+    async sendEmailFromAccount(emailData: EmailData, account: MailAccount): Promise<void> {
+        if (account.type === 'gmail') {
+            await this.sendEmailViaGmail(emailData, account.id);
+        } else if (account.type === 'outlook') {
+            await this.sendEmailViaOutlook(emailData, account.id);
+        } else {
+            await this.sendEmailViaSmtpAccount(emailData, account.id);
+        }
+    }
+
+    /**
+     * Send through the SMTP server of an IMAP account; the main process holds its credentials
+     * @param emailData - Message to send
+     * @param accountId - IMAP account id
+     */
+    async sendEmailViaSmtpAccount(emailData: EmailData, accountId: string): Promise<SendMailInfo> {
+        console.log('EmailComposer: Sending email via SMTP using IPC...');
+        const result = await ipcRenderer.invoke('send-smtp-email', {
+            accountId,
+            identityId: emailData.identityId,
+            to: emailData.to,
+            cc: emailData.cc,
+            bcc: emailData.bcc,
+            subject: emailData.subject,
+            body: emailData.body,
+            html: emailData.html,
+            inReplyTo: emailData.inReplyTo,
+            references: emailData.references,
+            attachments: emailData.attachments
+        });
+
+        if (!result.success) {
+            console.error('SMTP send error:', result.error);
+            throw new Error(result.error || 'Failed to send email');
+        }
+        console.log('Email sent successfully via SMTP:', result.data);
+        return result.data;
+    }
+
     sendEmailViaSmtp(emailData: EmailData): Promise<SendMailInfo> {
         return new Promise((resolve, reject) => {
             if (!this.emailConfig) {
@@ -185,8 +953,19 @@ class EmailComposer {
                 from: this.emailConfig.email,
                 to: emailData.to,
                 cc: emailData.cc || undefined,
+                bcc: emailData.bcc || undefined,
                 subject: emailData.subject,
-                text: emailData.body
+                text: emailData.body,
+                html: emailData.html || undefined,
+                attachDataUrls: true,
+                inReplyTo: emailData.inReplyTo,
+                references: emailData.references,
+                attachments: (emailData.attachments || []).map(attachment => ({
+                    filename: attachment.filename,
+                    contentType: attachment.contentType,
+                    content: attachment.content,
+                    encoding: 'base64'
+                }))
             };
             
             transporter.sendMail(mailOptions, (error: Error | null, info: SendMailInfo) => {
@@ -199,8 +978,8 @@ class EmailComposer {
         });
     }
 
-    async sendEmailViaGmail(emailData: EmailData): Promise<GmailSendResponse> {
-        if (!this.googleAuth) {
+    async sendEmailViaGmail(emailData: EmailData, accountId?: string): Promise<GmailSendResponse> {
+        if (!accountId && !this.googleAuth) {
             throw new Error('Google authentication not available');
         }
         
@@ -211,8 +990,16 @@ class EmailComposer {
             const result = await ipcRenderer.invoke('send-gmail-email', {
                 to: emailData.to,
                 cc: emailData.cc,
+                bcc: emailData.bcc,
                 subject: emailData.subject,
                 body: emailData.body,
+                html: emailData.html,
+                inReplyTo: emailData.inReplyTo,
+                references: emailData.references,
+                threadId: emailData.threadId,
+                attachments: emailData.attachments,
+                accountId,
+                identityId: accountId ? emailData.identityId : undefined,
                 auth: this.googleAuth
             });
             
@@ -239,6 +1026,29 @@ class EmailComposer {
         }
     }
 
+    async sendEmailViaOutlook(emailData: EmailData, accountId: string): Promise<void> {
+        // The main process holds the account's Microsoft token and refreshes it as needed
+        console.log('EmailComposer: Sending email via Microsoft Graph using IPC...');
+        const result = await ipcRenderer.invoke('send-outlook-email', {
+            accountId,
+            identityId: emailData.identityId,
+            to: emailData.to,
+            cc: emailData.cc,
+            bcc: emailData.bcc,
+            subject: emailData.subject,
+            body: emailData.html || emailData.body,
+            isHtml: !!emailData.html,
+            replyToMessageId: emailData.replyToMessageId,
+            attachments: emailData.attachments
+        });
+
+        if (!result.success) {
+            console.error('Microsoft Graph send error:', result.error);
+            throw new Error(`Microsoft Graph error: ${result.error || 'Failed to send email'}`);
+        }
+        console.log('Email sent successfully via Microsoft Graph');
+    }
+
     findEmailByMessageId(messageId: string): Email | null {
         const emails = (globalThis as any).emails || (window as any).emails;
         if (!emails || !Array.isArray(emails)) {
@@ -259,6 +1069,21 @@ class EmailComposer {
     }
 }
 
+/**
+ * Extract <message-id> tokens from a header value
+ * @param value - Header value (string or list, e.g. a References header)
+ * @returns Message-IDs in header order
+ */
+function parseMessageIds(value: unknown): string[] {
+    const text = Array.isArray(value) ? value.join(' ') : typeof value === 'string' ? value : '';
+    const ids = text.match(/<[^<>\s]+>/g);
+    if (ids) {
+        return ids;
+    }
+    // Some parsers strip the angle brackets
+    return text.split(/\s+/).filter(id => id.includes('@')).map(id => `<${id}>`);
+}
+
 // Singleton pattern - proper modular approach
 let emailComposerInstance: EmailComposer | null = null;
 
@@ -270,7 +1095,7 @@ export function getEmailComposer(): EmailComposer {
 }
 
 // Function implementations that use the singleton
-export async function sendEmail(): Promise<void> {
+export async function sendEmail(): Promise<boolean> {
     const emailComposer = getEmailComposer();
     
     const emailConfig = (globalThis as any).emailConfig || (window as any).emailConfig;
@@ -306,6 +1131,11 @@ export async function sendEmailViaGmail(emailData: EmailData): Promise<GmailSend
     return await emailComposer.sendEmailViaGmail(emailData);
 }
 
+export async function sendEmailViaOutlook(emailData: EmailData, accountId: string): Promise<void> {
+    const emailComposer = getEmailComposer();
+    return await emailComposer.sendEmailViaOutlook(emailData, accountId);
+}
+
 export function findEmailByMessageId(messageId: string): Email | null {
     const emailComposer = getEmailComposer();
     return emailComposer.findEmailByMessageId(messageId);
@@ -325,6 +1155,7 @@ if (typeof window !== 'undefined') {
     (window as any).sendEmail = sendEmail;
     (window as any).sendEmailViaSmtp = sendEmailViaSmtp;
     (window as any).sendEmailViaGmail = sendEmailViaGmail;
+    (window as any).sendEmailViaOutlook = sendEmailViaOutlook;
     (window as any).findEmailByMessageId = findEmailByMessageId;
 }
 
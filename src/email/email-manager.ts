@@ -28,6 +28,9 @@ interface RawEmailData {
     inReplyTo?: string;
     references?: string[];
     labelIds?: string[];
+    threadId?: string;
+    uid?: number;
+    folder?: string;
 }
 
 interface EmailAddressObject {
@@ -169,13 +172,15 @@ class EmailManager {
                 (emailData.headers || {}),
             read: emailData.unread !== undefined ? !emailData.unread : false,
             hasAttachments: false,
-            folder: 'INBOX',
+            folder: emailData.folder || 'INBOX',
+            uid: emailData.uid,
+            labels: emailData.labelIds,
             
             // Source tracking
             source: (source as EmailSource) || 'local',
             
-            // Threading (will be set by threading manager)
-            threadId: '',
+            // Threading (Gmail provides threadId; others are set by threading manager)
+            threadId: emailData.threadId || '',
             conversationId: ''
         };
 
@@ -307,11 +312,11 @@ class EmailManager {
             // Use IPC to fetch raw message and parse attachments
             const ipcRenderer = (window as any).require('electron').ipcRenderer;
             
-            // Get auth token from AuthManager
+            // Get auth token from AuthManager (the main process resolves it for known accounts)
             const AuthManager = (await import('../auth/auth-manager.js')).AuthManager;
-            const googleAuth = AuthManager.getCurrentToken();
+            const googleAuth = email.accountId ? null : AuthManager.getCurrentToken();
             
-            if (!googleAuth) {
+            if (!email.accountId && !googleAuth) {
                 console.warn('[ATTACHMENT ENHANCEMENT] No Google auth token available');
                 return email;
             }
@@ -319,6 +324,7 @@ class EmailManager {
             // Fetch raw Gmail message
             const rawResult = await ipcRenderer.invoke('fetch-gmail-raw-message', { 
                 messageId: email.messageId, 
+                accountId: email.accountId,
                 auth: googleAuth 
             });
             
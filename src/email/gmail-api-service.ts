@@ -0,0 +1,277 @@
+/**
+ * Gmail API Service Module
+ * Runs in the Electron main process. Creates authenticated Gmail clients and
+ * converts Gmail API messages into the raw shape consumed by
+ * EmailManager.standardizeEmailObject.
+ *
+ * Dependencies: googleapis (imported dynamically to avoid module resolution issues)
+ */
+
+import type { gmail_v1 } from 'googleapis';
+import type { MailFolder, MailFolderRole } from '../../types/email';
+
+/**
+ * Raw Gmail email returned over IPC
+ */
+export interface GmailRawEmail {
+  id: string;
+  messageId: string;
+  threadId: string;
+  from: string;
+  to: string[];
+  cc: string[];
+  subject: string;
+  date: string;
+  body: string;
+  bodyHtml?: string;
+  bodyText?: string;
+  snippet: string;
+  isHtml: boolean;
+  read: boolean;
+  unread: boolean;
+  labelIds: string[];
+  headers: Record<string, string>;
+  attachments: any[];
+}
+
+/**
+ * Create a Gmail API client for the given OAuth token
+ * @param auth - Google OAuth token
+ * @returns Gmail API instance
+ */
+export async function createGmailClient(auth: any): Promise<gmail_v1.Gmail> {
+  // Import googleapis dynamically to avoid module resolution issues
+  const { google } = await import('googleapis');
+
+  // Create OAuth2 client with the provided token
+  const oauth2Client = new google.auth.OAuth2();
+  oauth2Client.setCredentials(auth);
+
+  return google.gmail({ version: 'v1', auth: oauth2Client });
+}
+
+/**
+ * System labels shown in the folder sidebar, in display order
+ */
+const SYSTEM_LABELS: Array<{ id: string; name: string; role: MailFolderRole }> = [
+  { id: 'INBOX', name: 'Inbox', role: 'inbox' },
+  { id: 'STARRED', name: 'Starred', role: 'starred' },
+  { id: 'IMPORTANT', name: 'Important', role: 'important' },
+  { id: 'SENT', name: 'Sent', role: 'sent' },
+  { id: 'DRAFT', name: 'Drafts', role: 'drafts' },
+  { id: 'SPAM', name: 'Spam', role: 'spam' },
+  { id: 'TRASH', name: 'Trash', role: 'trash' }
+];
+
+/**
+ * List the labels to show in the folder sidebar with their message counts
+ * Hidden user labels and internal system labels (UNREAD, CATEGORY_*, CHAT) are skipped.
+ * @param gmail - Gmail API instance
+ * @returns System labels first, then user labels sorted by name
+ */
+export async function listGmailLabels(gmail: gmail_v1.Gmail): Promise<MailFolder[]> {
+  const response = await gmail.users.labels.list({ userId: 'me' });
+  const labels = response.data.labels || [];
+
+  const systemIds = new Set(SYSTEM_LABELS.map(label => label.id));
+  const userLabels = labels
+    .filter(label => label.type === 'user' && label.id && label.labelListVisibility !== 'labelHide')
+    .sort((a, b) => (a.name || '').localeCompare(b.name || ''));
+  const shown = [
+    ...SYSTEM_LABELS.filter(system => labels.some(label => label.id === system.id)),
+    ...userLabels.map(label => ({ id: label.id!, name: label.name || label.id! }))
+  ];
+
+  // labels.list does not include counts, so fetch each shown label
+  return Promise.all(shown.map(async (label): Promise<MailFolder> => {
+    const role = SYSTEM_LABELS.find(system => system.id === label.id)?.role;
+    const folder: MailFolder = {
+      id: label.id,
+      name: label.name,
+      type: systemIds.has(label.id) ? 'system' : 'user',
+      role,
+      unreadCount: 0,
+      totalCount: 0,
+      depth: systemIds.has(label.id) ? 0 : label.name.split('/').length - 1
+    };
+    try {
+      const details = await gmail.users.labels.get({ userId: 'me', id: label.id });
+      folder.unreadCount = details.data.messagesUnread || 0;
+      folder.totalCount = details.data.messagesTotal || 0;
+    } catch (error) {
+      console.warn(`Failed to fetch Gmail label ${label.id}:`, error);
+    }
+    return folder;
+  }));
+}
+
+/**
+ * Split an address header into individual addresses, respecting quoted names
+ * @param value - Header value
+ * @returns Addresses
+ */
+function splitAddressHeader(value: string): string[] {
+  if (!value) return [];
+  return value
+    .split(/,(?=(?:[^"]*"[^"]*")*[^"]*$)/)
+    .map(s => s.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Convert a full-format Gmail message into a raw email object
+ * @param message - Gmail message fetched with format 'full'
+ * @returns Raw email object
+ */
+export function toRawGmailEmail(message: gmail_v1.Schema$Message): GmailRawEmail {
+  const headerList = message.payload?.headers || [];
+  const getHeader = (name: string) => headerList.find(h => h.name?.toLowerCase() === name.toLowerCase())?.value || '';
+  const headers: Record<string, string> = {};
+  headerList.forEach(h => {
+    if (h.name) headers[h.name.toLowerCase()] = h.value || '';
+  });
+
+  // Extract both HTML and text content
+  const bodyContent = extractMessageBody(message.payload);
+
+  // Extract attachment information from payload
+  const attachments = extractAttachments(message.payload, message.id!);
+  const labelIds = message.labelIds || [];
+  const unread = labelIds.includes('UNREAD');
+
+  return {
+    id: message.id!,
+    messageId: message.id!,
+    threadId: message.threadId || '',
+    from: getHeader('from'),
+    to: splitAddressHeader(getHeader('to')),
+    cc: splitAddressHeader(getHeader('cc')),
+    subject: getHeader('subject'),
+    date: new Date(parseInt(message.internalDate || '0')).toISOString(),
+    body: bodyContent.html || bodyContent.text || '',
+    bodyHtml: bodyContent.html || undefined,
+    bodyText: bodyContent.text || undefined,
+    snippet: message.snippet || '',
+    isHtml: bodyContent.isHtml,
+    read: !unread,
+    unread,
+    labelIds,
+    headers,
+    attachments
+  };
+}
+
+/**
+ * Fetch full messages by id, skipping any that fail
+ * @param gmail - Gmail API instance
+ * @param ids - Gmail message ids
+ * @returns Raw email objects
+ */
+export async function fetchGmailMessages(gmail: gmail_v1.Gmail, ids: string[]): Promise<GmailRawEmail[]> {
+  const emailPromises = ids.map(async (id) => {
+    try {
+      const fullMessage = await gmail.users.messages.get({
+        userId: 'me',
+        id,
+        format: 'full'
+      });
+      return toRawGmailEmail(fullMessage.data);
+    } catch (error) {
+      console.warn(`Failed to fetch Gmail message ${id}:`, error);
+      return null;
+    }
+  });
+
+  // Wait for all messages to be processed
+  return (await Promise.all(emailPromises)).filter((email): email is GmailRawEmail => email !== null);
+}
+
+/**
+ * Extract message body from Gmail payload
+ * @param payload - Gmail message payload
+ * @returns HTML and text content
+ */
+export function extractMessageBody(payload: any): { html: string; text: string; isHtml: boolean } {
+  if (!payload) return { html: '', text: '', isHtml: false };
+
+  let htmlContent = '';
+  let textContent = '';
+
+  // If the payload has a body with data, use it
+  if (payload.body && payload.body.data) {
+    const content = Buffer.from(payload.body.data, 'base64').toString('utf-8');
+    if (payload.mimeType === 'text/html') {
+      htmlContent = content;
+    } else {
+      textContent = content;
+    }
+  }
+
+  // If the payload has parts, look for text/html and text/plain
+  if (payload.parts && Array.isArray(payload.parts)) {
+    for (const part of payload.parts) {
+      if (part.mimeType === 'text/html' && part.body && part.body.data) {
+        htmlContent = Buffer.from(part.body.data, 'base64').toString('utf-8');
+      }
+      if (part.mimeType === 'text/plain' && part.body && part.body.data) {
+        textContent = Buffer.from(part.body.data, 'base64').toString('utf-8');
+      }
+
+      // Recursively check nested parts
+      if (part.parts) {
+        const nestedResult = extractMessageBody(part);
+        if (nestedResult.html && !htmlContent) htmlContent = nestedResult.html;
+        if (nestedResult.text && !textContent) textContent = nestedResult.text;
+      }
+    }
+  }
+
+  // Determine if this is primarily HTML content
+  const isHtml = Boolean(htmlContent.length > textContent.length || (htmlContent && !textContent));
+
+  return {
+    html: htmlContent,
+    text: textContent,
+    isHtml
+  };
+}
+
+/**
+ * Extract attachments from Gmail payload
+ * @param payload - Gmail message payload
+ * @param messageId - Gmail message id
+ * @returns Attachment metadata (content is fetched lazily)
+ */
+export function extractAttachments(payload: any, messageId: string): any[] {
+  if (!payload || !payload.parts || !Array.isArray(payload.parts)) return [];
+
+  const attachments: any[] = [];
+
+  for (const part of payload.parts) {
+    // Check if this part is an attachment
+    if (part.filename && part.filename.length > 0) {
+      // This is an attachment
+      attachments.push({
+        filename: part.filename,
+        contentType: part.mimeType || 'application/octet-stream',
+        size: part.body?.size || 0,
+        contentId: part.contentId,
+        contentDisposition: part.contentDisposition,
+        cid: part.cid,
+        attachmentId: part.body?.attachmentId, // Gmail-specific attachment ID for fetching content
+        messageId: messageId, // Store message ID for fetching content later
+        encoding: 'base64',
+        // Content will be fetched lazily when needed
+        content: null
+      });
+    }
+
+    // Recursively check nested parts
+    if (part.parts) {
+      const nestedAttachments = extractAttachments(part, messageId);
+      attachments.push(...nestedAttachments);
+    }
+  }
+
+  return attachments;
+}
@@ -6,6 +6,7 @@
 
 import { Email } from '../../types/email';
 import { MarketingEmailDetector } from '../email/marketing-email-detector.js';
+import { SIGNATURE_CLASS } from '../ui/rich-text-editor.js';
 
 // Gmail-specific processing interfaces
 interface GmailProcessingOptions {
@@ -111,7 +112,10 @@ class GmailStyleProcessor {
     processingSteps.push('Extracted Gmail-style content');
 
     // Step 1.5: Remove signatures from non-marketing emails
-    if (fullOptions.removeSignatures) {
+    if (fullOptions.removeSignatures && this.isOwnEmail(email)) {
+      // Our own signature is part of what we sent
+      processingSteps.push('Signature removal skipped (sent email)');
+    } else if (fullOptions.removeSignatures) {
       const marketingTag = this.marketingDetector.detectMarketingEmail(email);
       const isMarketing = marketingTag.isMarketing;
       
@@ -514,6 +518,19 @@ class GmailStyleProcessor {
     return lines.slice(0, cutIndex).join('\n').trim();
   }
 
+  /**
+   * Check whether an email was sent from one of the user's accounts
+   * @param email - Email object
+   * @returns True for sent mail
+   */
+  private isOwnEmail(email: Email): boolean {
+    const EmailActions = (window as any).EmailActions;
+    if (EmailActions?.isEmailSent) {
+      return EmailActions.isEmailSent(email);
+    }
+    return email.folder === 'sent' || !!email.labels?.includes('SENT');
+  }
+
   /**
    * Remove signature from HTML content
    * @param html - HTML content
@@ -528,18 +545,22 @@ class GmailStyleProcessor {
       return html;
     }
     
+    // Signatures inserted by our composer are never removed (quoted in replies to our mail)
+    const isOwnSignature = (el: Element) => !!el.closest(`.${SIGNATURE_CLASS}`)
+      || !!el.querySelector(`.${SIGNATURE_CLASS}`);
+
     let removed = false;
     SIGNATURE_HTML_CLASSES.forEach(cls => {
       // By class
-      doc.querySelectorAll(`.${cls}`).forEach(el => { el.remove(); removed = true; });
+      doc.querySelectorAll(`.${cls}`).forEach(el => { if (!isOwnSignature(el)) { el.remove(); removed = true; } });
       // By id
-      doc.querySelectorAll(`#${cls}`).forEach(el => { el.remove(); removed = true; });
+      doc.querySelectorAll(`#${cls}`).forEach(el => { if (!isOwnSignature(el)) { el.remove(); removed = true; } });
     });
     
     // Remove <hr> followed by short block (common in Outlook)
     doc.querySelectorAll('hr').forEach(hr => {
       const next = hr.nextElementSibling;
-      if (next && next.textContent && next.textContent.length < 300) {
+      if (next && next.textContent && next.textContent.length < 300 && !isOwnSignature(hr) && !isOwnSignature(next)) {
         hr.remove();
         next.remove();
         removed = true;
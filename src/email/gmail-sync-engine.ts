@@ -0,0 +1,199 @@
+/**
+ * Gmail Sync Engine Module
+ * Runs in the Electron main process. Uses the Gmail historyId to fetch only the
+ * changes (added, deleted and relabelled messages) since the last sync, and
+ * falls back to a full resync when there is no cursor or it has expired.
+ *
+ * The engine is stateless: the caller stores the returned historyId and passes
+ * it back on the next sync, once the changes have been applied locally.
+ *
+ * Dependencies: GmailApiService
+ */
+
+import type { gmail_v1 } from 'googleapis';
+import { createGmailClient, fetchGmailMessages, type GmailRawEmail } from './gmail-api-service.js';
+
+/**
+ * Gmail sync request
+ */
+export interface GmailSyncOptions {
+  auth: any;
+  labelId?: string;
+  maxResults?: number;
+  startHistoryId?: string | null;
+}
+
+/**
+ * Label change for a message that is already known locally
+ */
+export interface GmailLabelUpdate {
+  id: string;
+  labelIds: string[];
+}
+
+/**
+ * Gmail sync result
+ */
+export interface GmailSyncResult {
+  mode: 'full' | 'delta';
+  historyId: string;
+  // Full sync: complete label contents. Delta sync: newly added messages
+  emails: GmailRawEmail[];
+  // Messages deleted from the mailbox
+  deletedIds: string[];
+  // Label changes, including messages that left the synced label (archived, moved, ...)
+  labelUpdates: GmailLabelUpdate[];
+  // Full sync only: token for the next (older) page via fetch-gmail-emails, null at the end
+  nextPageToken?: string | null;
+  // Set when a delta sync had to fall back to a full resync
+  resyncReason?: string;
+}
+
+const DEFAULT_LABEL = 'INBOX';
+const DEFAULT_MAX_RESULTS = 50;
+const HISTORY_TYPES = ['messageAdded', 'messageDeleted', 'labelAdded', 'labelRemoved'];
+
+/**
+ * Check whether a Gmail API error means the startHistoryId is no longer valid
+ * @param error - Error thrown by googleapis
+ * @returns True if a full resync is required
+ */
+function isHistoryExpiredError(error: any): boolean {
+  const status = error?.code || error?.status || error?.response?.status;
+  return Number(status) === 404;
+}
+
+/**
+ * Synchronize one Gmail label
+ * @param options - Auth, label and cursor
+ * @returns Changes to apply locally and the new historyId
+ */
+export async function syncGmail(options: GmailSyncOptions): Promise<GmailSyncResult> {
+  const gmail = await createGmailClient(options.auth);
+  const labelId = options.labelId || DEFAULT_LABEL;
+
+  if (!options.startHistoryId) {
+    return fullSync(gmail, labelId, options.maxResults);
+  }
+
+  try {
+    return await deltaSync(gmail, labelId, options.startHistoryId);
+  } catch (error: any) {
+    if (isHistoryExpiredError(error)) {
+      console.warn(`GmailSync: historyId ${options.startHistoryId} expired, performing full resync`);
+      const result = await fullSync(gmail, labelId, options.maxResults);
+      return { ...result, resyncReason: 'History ID expired' };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Fetch the newest messages in a label and the current historyId
+ * @param gmail - Gmail API instance
+ * @param labelId - Label to sync
+ * @param maxResults - Number of messages to fetch
+ * @returns Full sync result
+ */
+async function fullSync(gmail: gmail_v1.Gmail, labelId: string, maxResults?: number): Promise<GmailSyncResult> {
+  // Read the historyId before listing so no change between the two calls is missed
+  const profile = await gmail.users.getProfile({ userId: 'me' });
+  const historyId = profile.data.historyId || '';
+
+  const messagesResponse = await gmail.users.messages.list({
+    userId: 'me',
+    labelIds: [labelId],
+    maxResults: maxResults || DEFAULT_MAX_RESULTS
+  });
+
+  const ids = (messagesResponse.data.messages || []).map(message => message.id!).filter(Boolean);
+  console.log(`GmailSync: Full sync of ${labelId} found ${ids.length} messages`);
+  const emails = await fetchGmailMessages(gmail, ids);
+
+  return {
+    mode: 'full',
+    historyId,
+    emails,
+    deletedIds: [],
+    labelUpdates: [],
+    nextPageToken: messagesResponse.data.nextPageToken || null
+  };
+}
+
+/**
+ * Apply history records since startHistoryId
+ * @param gmail - Gmail API instance
+ * @param labelId - Label being synced
+ * @param startHistoryId - Last synced historyId
+ * @returns Delta sync result
+ */
+async function deltaSync(gmail: gmail_v1.Gmail, labelId: string, startHistoryId: string): Promise<GmailSyncResult> {
+  const added = new Set<string>();
+  const deleted = new Set<string>();
+  const labelUpdates = new Map<string, string[]>();
+  let historyId = startHistoryId;
+  let pageToken: string | undefined;
+
+  do {
+    const response = await gmail.users.history.list({
+      userId: 'me',
+      startHistoryId,
+      historyTypes: HISTORY_TYPES,
+      pageToken
+    });
+
+    for (const record of response.data.history || []) {
+      for (const entry of record.messagesAdded || []) {
+        const message = entry.message;
+        if (message?.id && (message.labelIds || []).includes(labelId)) {
+          added.add(message.id);
+          deleted.delete(message.id);
+        }
+      }
+
+      for (const entry of record.messagesDeleted || []) {
+        if (entry.message?.id) {
+          deleted.add(entry.message.id);
+          added.delete(entry.message.id);
+          labelUpdates.delete(entry.message.id);
+        }
+      }
+
+      for (const entry of [...(record.labelsAdded || []), ...(record.labelsRemoved || [])]) {
+        const message = entry.message;
+        if (!message?.id || deleted.has(message.id)) continue;
+        const labels = message.labelIds || [];
+
+        if (labels.includes(labelId)) {
+          labelUpdates.set(message.id, labels);
+          // A message moved into the label (e.g. un-archived) must be fetched
+          if ((entry.labelIds || []).includes(labelId) && record.labelsAdded?.includes(entry)) {
+            added.add(message.id);
+          }
+        } else {
+          // Removed from the label (archived, trashed, ...) - no longer part of this view,
+          // but still in the mailbox and possibly shown under another label
+          labelUpdates.set(message.id, labels);
+          added.delete(message.id);
+        }
+      }
+    }
+
+    historyId = response.data.historyId || historyId;
+    pageToken = response.data.nextPageToken || undefined;
+  } while (pageToken);
+
+  const emails = await fetchGmailMessages(gmail, Array.from(added));
+  const fetched = new Set(emails.map(email => email.id));
+
+  console.log(`GmailSync: Delta since ${startHistoryId}: +${emails.length} -${deleted.size} ~${labelUpdates.size}`);
+  return {
+    mode: 'delta',
+    historyId,
+    emails,
+    deletedIds: Array.from(deleted),
+    labelUpdates: Array.from(labelUpdates.entries())
+      .filter(([id]) => !fetched.has(id))
+      .map(([id, labelIds]) => ({ id, labelIds }))
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * Identity Manager Module
+ * Loads the send-as identities of the accounts from the main process
+ * (list-identities): each account's own address, its Gmail send-as aliases and
+ * the custom identities of IMAP accounts. The From selector of the compose
+ * modal lists them, and replies default to the identity the original message
+ * was addressed to.
+ *
+ * Fires an "identitiesChanged" window event after identities change.
+ */
+
+import type { MailAccount, SendIdentity } from '../../types/config';
+import type { Email } from '../../types/email';
+import { toAddresses } from '../utils/address-parser.js';
+import { getIpcRenderer } from '../utils/ipc-renderer.js';
+import { getHeaderAddresses } from './reply-recipients.js';
+
+/**
+ * Identity of an account's own address
+ * @param account - Mail account
+ * @returns Identity with the account id as its id
+ */
+export function getAccountIdentity(account: MailAccount): SendIdentity {
+    return {
+        id: account.id,
+        accountId: account.id,
+        email: account.email,
+        displayName: account.displayName,
+        source: 'account'
+    };
+}
+
+/**
+ * From line of an identity, e.g. "Jane Doe <jane@example.com>"
+ * @param identity - Identity
+ * @returns Display text
+ */
+export function formatIdentity(identity: SendIdentity): string {
+    return identity.displayName && identity.email
+        ? `${identity.displayName} <${identity.email}>`
+        : identity.email || identity.displayName || identity.accountId;
+}
+
+/**
+ * Identity Manager - Send-as identities of the accounts
+ */
+class IdentityManager {
+    private identities: SendIdentity[];
+
+    constructor() {
+        this.identities = [];
+    }
+
+    /**
+     * Reload the identities from the main process
+     */
+    async reload(): Promise<void> {
+        const ipcRenderer = getIpcRenderer();
+        if (!ipcRenderer) {
+            return;
+        }
+        const result = await ipcRenderer.invoke('list-identities');
+        if (!result.success) {
+            console.error('IdentityManager: Failed to load identities:', result.error);
+            return;
+        }
+        this.identities = result.identities;
+        window.dispatchEvent(new CustomEvent('identitiesChanged', { detail: { identities: this.identities } }));
+        console.log(`IdentityManager: ${this.identities.length} identities loaded`);
+    }
+
+    /**
+     * Identities of the given accounts; accounts whose identities are not loaded
+     * yet get their own address
+     * @param accounts - Accounts mail can be sent from
+     * @returns Identities, per account in account order
+     */
+    getIdentities(accounts: MailAccount[]): SendIdentity[] {
+        return accounts.flatMap(account => {
+            const identities = this.identities.filter(identity => identity.accountId === account.id);
+            return identities.length > 0 ? identities : [getAccountIdentity(account)];
+        });
+    }
+
+    /**
+     * Identity a message was addressed to, for replying from the same address.
+     * Delivered-To and X-Original-To come first since they name the address the
+     * message actually arrived at; then To and Cc.
+     * @param email - Message replied to
+     * @param accounts - Accounts mail can be sent from
+     * @returns Identity, preferring those of the message's account, or null
+     */
+    findAddressedIdentity(email: Email, accounts: MailAccount[]): SendIdentity | null {
+        const addresses = [
+            ...getHeaderAddresses(email, 'delivered-to'),
+            ...getHeaderAddresses(email, 'x-original-to'),
+            ...toAddresses(email.to),
+            ...toAddresses(email.cc)
+        ].map(address => address.email.toLowerCase());
+
+        const identities = this.getIdentities(accounts)
+            .sort((a, b) => Number(b.accountId === email.accountId) - Number(a.accountId === email.accountId));
+        for (const address of addresses) {
+            const identity = identities.find(candidate => candidate.email?.toLowerCase() === address);
+            if (identity) {
+                return identity;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Create or update a custom identity of an IMAP account
+     * @param identity - Identity (without id to create one)
+     * @returns Saved identity
+     */
+    async saveIdentity(identity: Omit<SendIdentity, 'id' | 'source'> & { id?: string }): Promise<SendIdentity> {
+        const result = await this.invoke('save-identity', { identity });
+        if (!result.success) {
+            throw new Error(result.error || 'Failed to save identity');
+        }
+        await this.reload();
+        return result.identity;
+    }
+
+    /**
+     * Delete a custom identity
+     * @param id - Identity id
+     */
+    async deleteIdentity(id: string): Promise<void> {
+        const result = await this.invoke('delete-identity', { id });
+        if (!result.success) {
+            throw new Error(result.error || 'Failed to delete identity');
+        }
+        await this.reload();
+    }
+
+    /**
+     * Call an identity handler of the main process
+     * @param channel - IPC channel
+     * @param payload - Handler arguments
+     * @returns Handler result
+     */
+    private invoke(channel: string, payload: object): Promise<any> {
+        const ipcRenderer = getIpcRenderer();
+        if (!ipcRenderer) {
+            return Promise.reject(new Error('Identities are not available outside the app'));
+        }
+        return ipcRenderer.invoke(channel, payload);
+    }
+}
+
+export { IdentityManager };
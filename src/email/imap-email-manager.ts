@@ -18,7 +18,8 @@ import { UIThemeManager } from '../ui/ui-theme-manager.js';
 import { EventManager } from '../managers/event-manager.js';
 import { EmailManager } from '../email/email-manager.js';
 import { getSearchManager } from '../managers/search-manager.js';
-import type { Email, EmailConversation, EmailAddress } from '../../types/email';
+import type { Email, EmailConversation, EmailAddress, MailFolder } from '../../types/email';
+import type { MailAccount } from '../../types/config';
 
 // Get ipcRenderer for Gmail API communication
 let ipcRenderer: any;
@@ -36,6 +37,10 @@ if (typeof window !== 'undefined' && (window as any).require) {
 
 // import type { EmailConfig, IMAPConfig } from '../../types/config';
 
+// Number of messages fetched per sync or page
+const PAGE_SIZE = 50;
+// Distance from the bottom of the conversation list (px) that triggers loading the next page
+const LOAD_MORE_THRESHOLD_PX = 200;
 
 
 /**
@@ -109,6 +114,17 @@ export interface GmailMessagePart {
  */
 export type EmailFolder = 'inbox' | 'sent' | 'drafts' | 'trash' | 'spam' | 'archive';
 
+/**
+ * Gmail system label for each folder role (used before the label list is loaded)
+ */
+const GMAIL_FOLDER_LABELS: Partial<Record<EmailFolder, string>> = {
+  inbox: 'INBOX',
+  sent: 'SENT',
+  drafts: 'DRAFT',
+  trash: 'TRASH',
+  spam: 'SPAM'
+};
+
 /**
  * Conversation group interface
  */
@@ -123,19 +139,55 @@ export interface ConversationGroup {
   hasAttachments: boolean;
 }
 
+/**
+ * Changes fetched from one account, applied once every account of the view has been fetched
+ */
+interface AccountSyncResult {
+  account: MailAccount;
+  emails: Email[];
+  // Folder whose cached contents are replaced by emails (full fetch)
+  replacedFolder: string | null;
+  // Cursors to store once the emails are persisted
+  cursors: Record<string, any>;
+}
+
+/**
+ * One page of older messages from one account
+ */
+interface AccountPage {
+  emails: any[];
+  cursorName: string;
+  cursor: any;
+}
+
+/**
+ * Account id of the unified inbox, which merges the inboxes of all accounts
+ */
+export const UNIFIED_ACCOUNT_ID = 'all';
+
 /**
  * IMAP Email Manager - Centralized email loading and management
  */
 export class IMAPEmailManager {
   private emails: Email[] = [];
   private conversations: Record<string, EmailConversation> = {};
-  private googleAuth: any = null;
   private emailConfig: any = null;
   private conversationSelectCallback: ((id: string) => void) | null = null;
   private uiThemeManager: UIThemeManager;
   private eventManager: EventManager;
   private emailManager: EmailManager;
   private initialized: boolean = false;
+  private accounts: MailAccount[] = [];
+  private accountsLoaded: boolean = false;
+  private currentAccountId: string = UNIFIED_ACCOUNT_ID;
+  private cachedView: string | null = null;
+  // Sync and paging cursors per account id
+  private syncCursors: Record<string, Record<string, any>> = {};
+  private loadingMore: boolean = false;
+  private loading: boolean = false;
+  private loadQueue: Promise<unknown> = Promise.resolve();
+  private currentFolder: string = 'INBOX';
+  private folders: MailFolder[] = [];
 
   constructor(uiThemeManager: UIThemeManager, eventManager: EventManager, emailManager: EmailManager) {
     this.uiThemeManager = uiThemeManager;
@@ -162,15 +214,6 @@ export class IMAPEmailManager {
     console.log('IMAPEmailManager: Email config updated');
   }
 
-  /**
-   * Set Google authentication token
-   * @param authToken - Google OAuth token
-   */
-  setGoogleAuth(authToken: any): void {
-    this.googleAuth = authToken;
-    console.log('IMAPEmailManager: Google auth token updated');
-  }
-
   /**
    * Set conversation selection callback
    * @param callback - Function to call when conversation is selected
@@ -205,11 +248,184 @@ export class IMAPEmailManager {
     return this.conversations;
   }
 
+  /**
+   * Get the Gmail label id or IMAP mailbox currently shown
+   * @returns Current folder id
+   */
+  getCurrentFolder(): string {
+    return this.currentFolder;
+  }
+
+  /**
+   * Get the folders/labels from the last loadFolders call
+   * @returns Folder list
+   */
+  getFolders(): MailFolder[] {
+    return this.folders;
+  }
+
+  /**
+   * Get the configured accounts from the last loadAccounts call
+   * @returns Accounts in the order they were added
+   */
+  getAccounts(): MailAccount[] {
+    return this.accounts;
+  }
+
+  /**
+   * Find a configured account
+   * @param accountId - Account id
+   * @returns Account, or null if unknown
+   */
+  getAccount(accountId: string | undefined): MailAccount | null {
+    return this.accounts.find(account => account.id === accountId) || null;
+  }
+
+  /**
+   * Get the account currently shown
+   * @returns Account id, or UNIFIED_ACCOUNT_ID for the unified inbox
+   */
+  getCurrentAccountId(): string {
+    return this.currentAccountId;
+  }
+
+  /**
+   * Reload the account list from the main process
+   * Falls back to the unified inbox when the shown account was removed.
+   * @returns Configured accounts
+   */
+  async loadAccounts(): Promise<MailAccount[]> {
+    try {
+      const result = await ipcRenderer.invoke('list-accounts');
+      if (!result.success) throw new Error(result.error || 'Failed to load accounts');
+      this.accounts = result.accounts || [];
+      this.accountsLoaded = true;
+      console.log(`IMAPEmailManager: Loaded ${this.accounts.length} accounts`);
+    } catch (error) {
+      console.warn('IMAPEmailManager: Error loading accounts:', error);
+    }
+
+    if (this.currentAccountId !== UNIFIED_ACCOUNT_ID && !this.getAccount(this.currentAccountId)) {
+      this.currentAccountId = UNIFIED_ACCOUNT_ID;
+      this.currentFolder = 'INBOX';
+      this.folders = [];
+    }
+    this.dispatchAccountsChanged();
+    return this.accounts;
+  }
+
+  /**
+   * Show another account, or the unified inbox, starting at its inbox
+   * @param accountId - Account id or UNIFIED_ACCOUNT_ID
+   * @returns Load result
+   */
+  async switchAccount(accountId: string): Promise<EmailLoadingResult> {
+    console.log(`IMAPEmailManager: Switching to account: ${accountId}`);
+    return this.enqueueLoad(() => {
+      if (accountId !== this.currentAccountId) {
+        this.currentAccountId = accountId;
+        // Folder ids belong to the previous account
+        this.currentFolder = 'INBOX';
+        this.folders = [];
+        this.dispatchAccountsChanged();
+      }
+      return this.performLoad();
+    });
+  }
+
+  /**
+   * Remove an account, its credentials and its cached mail
+   * @param accountId - Account id
+   */
+  async removeAccount(accountId: string): Promise<void> {
+    const result = await ipcRenderer.invoke('remove-account', { accountId });
+    if (!result.success) {
+      this.uiThemeManager.showNotification(`Failed to remove account: ${result.error}`, 'error');
+      return;
+    }
+    await this.loadAccounts();
+    this.uiThemeManager.showNotification('Account removed', 'success');
+    // Re-render the view without the removed account's mail
+    await this.enqueueLoad(() => {
+      this.cachedView = null;
+      return this.performLoad();
+    });
+  }
+
+  /**
+   * Publish the account list and the shown account (read by the composer and sidebar)
+   */
+  private dispatchAccountsChanged(): void {
+    (window as any).mailAccounts = this.accounts;
+    window.dispatchEvent(new CustomEvent('accountsChanged', {
+      detail: { accounts: this.accounts, currentAccountId: this.currentAccountId }
+    }));
+  }
+
+  /**
+   * Accounts whose mail is part of the current view
+   * @returns All accounts in the unified inbox, otherwise the shown account
+   */
+  private getViewAccounts(): MailAccount[] {
+    if (this.currentAccountId === UNIFIED_ACCOUNT_ID) {
+      return this.accounts;
+    }
+    const account = this.getAccount(this.currentAccountId);
+    return account ? [account] : [];
+  }
+
+  /**
+   * Sync and paging cursors of one account
+   * @param accountId - Account id
+   * @returns Mutable cursor map
+   */
+  private getCursors(accountId: string): Record<string, any> {
+    if (!this.syncCursors[accountId]) {
+      this.syncCursors[accountId] = {};
+    }
+    return this.syncCursors[accountId];
+  }
+
+  /**
+   * Fetch only the changes since the last sync (Gmail history / IMAP UIDs)
+   * Falls back to a full load when nothing has been synced yet
+   */
+  async syncEmails(): Promise<EmailLoadingResult> {
+    return this.loadEmails();
+  }
+
   /**
    * Main email loading orchestrator (Strictly Linear for each email)
+   * Renders the local mail store first, then fetches changes from the server
    */
   async loadEmails(): Promise<EmailLoadingResult> {
-    console.log('IMAPEmailManager: loadEmails called, googleAuth:', !!this.googleAuth);
+    return this.enqueueLoad(() => this.performLoad());
+  }
+
+  /**
+   * Run loads one at a time; they share the cursor and view state
+   * @param load - Load to run once the previous one has finished
+   * @returns Load result
+   */
+  private enqueueLoad(load: () => Promise<EmailLoadingResult>): Promise<EmailLoadingResult> {
+    const run = async () => {
+      this.loading = true;
+      try {
+        return await load();
+      } finally {
+        this.loading = false;
+      }
+    };
+    const next = this.loadQueue.catch(() => undefined).then(run);
+    this.loadQueue = next;
+    return next;
+  }
+
+  /**
+   * Load the current folder: cached mail first, then changes from the server
+   */
+  private async performLoad(): Promise<EmailLoadingResult> {
+    console.log('IMAPEmailManager: loadEmails called, account:', this.currentAccountId, 'folder:', this.currentFolder);
     const startTime = Date.now();
     this.uiThemeManager.showLoading(true);
     try {
@@ -220,6 +436,13 @@ export class IMAPEmailManager {
           this.eventManager.selectConversation(conversationId);
         });
       }
+      if (!this.accountsLoaded) {
+        await this.loadAccounts();
+      }
+      // 0. Render cached mail immediately (works offline)
+      if (this.cachedView !== this.getViewKey()) {
+        await this.loadCachedEmails();
+      }
       // Test mailparser functionality on first load
       const emailParsingConfig = (window as any).EMAIL_PARSING_CONFIG;
       if (emailParsingConfig?.useMailparser) {
@@ -236,74 +459,69 @@ export class IMAPEmailManager {
         }
       }
       // --- Strictly Linear Email Processing ---
-      const rawEmails = await this.fetchAllRawEmails();
-      // 1. Standardize each raw email
-      const standardizedEmails = rawEmails.map((raw: any) => {
-        const email = this.emailManager.standardizeEmailObject(raw, this.googleAuth ? 'gmail-api' : 'imap');
-        // Ensure all attachments are standardized
-        if (email.attachments && Array.isArray(email.attachments)) {
-          email.attachments = this.emailManager.standardizeAttachments(email.attachments, email.messageId);
+      const accounts = this.getViewAccounts();
+      if (accounts.length === 0) {
+        throw new Error('No email account configured');
+      }
+      // 1-2. Fetch every account of the view; one failing account does not hide the others
+      const settled = await Promise.allSettled(accounts.map(account => this.syncAccount(account)));
+      const results: AccountSyncResult[] = [];
+      const failures: Error[] = [];
+      settled.forEach((outcome, index) => {
+        if (outcome.status === 'fulfilled') {
+          results.push(outcome.value);
+        } else {
+          console.warn(`IMAPEmailManager: Failed to sync ${accounts[index].email || accounts[index].id}:`, outcome.reason);
+          failures.push(outcome.reason);
         }
-        return email;
       });
-      
-      // 2. Enhance emails with accurate attachment information (hybrid detection)
-      console.log('Enhancing emails with accurate attachment information...');
-      const enhancedEmails = await Promise.all(
-        standardizedEmails.map(async (email: Email) => {
-          if (this.googleAuth && (!email.attachments || email.attachments.length === 0)) {
-            // Use hybrid detection for Gmail emails that appear to have no attachments
-            return await this.emailManager.enhanceEmailAttachments(email, 'gmail');
-          }
-          return email;
-        })
-      );
-
-      // 3. Process HTML/Text for each enhanced email
-      const htmlEngine = (window as any).EmailHtmlEngine || (globalThis as any).EmailHtmlEngine;
-      this.emails = enhancedEmails.map((email: any) => {
-        if (htmlEngine && typeof htmlEngine.processEmailHtml === 'function') {
-          const processed = htmlEngine.processEmailHtml(email);
-          // Store processed HTML for direct use in UI
-          email.processedHtml = processed.content;
+      if (results.length === 0) {
+        const fetchError = failures[0];
+        if (this.emails.length > 0) {
+          console.warn('IMAPEmailManager: Fetch failed, continuing with cached mail:', fetchError);
+          this.uiThemeManager.showNotification(
+            `Offline - showing ${this.emails.length} cached messages`,
+            'warning'
+          );
+          return {
+            success: true,
+            emails: this.emails,
+            conversations: this.conversations,
+            error: fetchError.message,
+            stats: {
+              totalEmails: this.emails.length,
+              totalConversations: Object.keys(this.conversations).length,
+              loadingTime: Date.now() - startTime
+            }
+          };
         }
-        return email;
-      });
-      // 4. Group emails into conversations
-      console.log('Grouping emails into conversations...');
-      this.conversations = this.basicEmailGrouping(this.emails);
-      // 5. Sync state immediately to prevent race conditions
-      this.syncGlobalState();
-      // 6. Build search index using the singleton search manager
-      const searchManager = getSearchManager();
-      if (searchManager && searchManager.buildSearchIndex) {
-        searchManager.buildSearchIndex(this.emails);
-      }
-      // 7. Initialize IMAP search engine if using IMAP
-      if (this.emailConfig && !this.googleAuth && (window as any).IMAPSearchEngine) {
-        (window as any).imapSearchEngine = new (window as any).IMAPSearchEngine(this.emailConfig);
-      }
-      // 8. Log parsing statistics
-      if (this.emails.length > 0) {
-        this.emailManager.logEmailParsingStats(this.emails);
-      }
-      // 9. Debug email rendering issues
-      if (typeof (window as any).debugEmailRenderingIssues === 'function') {
-        (window as any).debugEmailRenderingIssues();
-      }
-      // 10. Ensure conversations list exists before rendering
-      const conversationsList = document.getElementById('conversations-list');
-      if (!conversationsList) {
-        console.error('Conversations list element not found, delaying render');
-        setTimeout(() => this.renderConversationsList(), 500);
-      } else {
-        this.renderConversationsList();
+        throw fetchError;
       }
+
+      // 3. Merge with cached mail and persist to the local store
+      let mergedEmails = this.emails;
+      for (const result of results) {
+        mergedEmails = this.mergeEmails(mergedEmails, result.emails, result);
+        await this.persistSyncResult(result);
+      }
+
+      // 4-10. Process, group, index and render
+      this.applyEmails(mergedEmails);
+      window.dispatchEvent(new CustomEvent('emailsSynced', {
+        detail: { accountId: this.currentAccountId, folder: this.currentFolder, timestamp: Date.now() }
+      }));
       const loadingTime = Date.now() - startTime;
-      this.uiThemeManager.showNotification(
-        `Loaded ${this.emails.length} messages in ${Object.keys(this.conversations).length} conversations`,
-        'success'
-      );
+      if (failures.length > 0) {
+        this.uiThemeManager.showNotification(
+          `Loaded ${this.emails.length} messages; ${failures.length} account(s) could not be reached`,
+          'warning'
+        );
+      } else {
+        this.uiThemeManager.showNotification(
+          `Loaded ${this.emails.length} messages in ${Object.keys(this.conversations).length} conversations`,
+          'success'
+        );
+      }
       return {
         success: true,
         emails: this.emails,
@@ -324,8 +542,12 @@ export class IMAPEmailManager {
         userMessage = 'Invalid email credentials';
       } else if (errorMessage.includes('ENOTFOUND') || errorMessage.includes('ECONNREFUSED')) {
         userMessage = 'Cannot connect to email server';
+      } else if (errorMessage.includes('Microsoft')) {
+        userMessage = 'Microsoft authentication failed';
       } else if (errorMessage.includes('OAuth')) {
         userMessage = 'Google authentication failed';
+      } else if (errorMessage.includes('No email account')) {
+        userMessage = 'No email account configured';
       }
       this.uiThemeManager.showNotification(userMessage, 'error');
       return {
@@ -340,40 +562,350 @@ export class IMAPEmailManager {
   }
 
   /**
-   * Unified fetch for all raw emails (Gmail, IMAP, etc.)
-   * Returns an array of raw email objects
+   * Fetch the current folder of one account
+   * @param account - Account to fetch
+   * @returns Standardized emails and the cursors to store
    */
-  private async fetchAllRawEmails(): Promise<any[]> {
-    if (this.googleAuth) {
-      // Use Gmail API
-      return await this.fetchGmailRawEmails();
-    } else if (this.emailConfig) {
-      // Use IMAP
-      return await this.fetchImapRawEmails();
+  private async syncAccount(account: MailAccount): Promise<AccountSyncResult> {
+    const result: AccountSyncResult = { account, emails: [], replacedFolder: null, cursors: {} };
+    let rawEmails: any[];
+    if (account.type === 'gmail') {
+      rawEmails = await this.fetchGmailRawEmails(account, result);
+    } else if (account.type === 'outlook') {
+      rawEmails = await this.fetchOutlookRawEmails(account, result);
     } else {
-      throw new Error('No email configuration or Google authentication available');
+      rawEmails = await this.fetchImapRawEmails(account, result);
     }
+    result.emails = await this.standardizeRawEmails(rawEmails, account);
+    return result;
+  }
+
+  /**
+   * Standardize raw emails and enhance them with accurate attachment information
+   * @param rawEmails - Raw emails from the Gmail API, Microsoft Graph or IMAP
+   * @param account - Account the emails were fetched from
+   * @returns Standardized emails, tagged with the account
+   */
+  private async standardizeRawEmails(rawEmails: any[], account: MailAccount): Promise<Email[]> {
+    const source = account.type === 'gmail' ? 'gmail-api' : account.type === 'outlook' ? 'outlook-api' : 'imap';
+    const standardizedEmails = rawEmails.map((raw: any) => {
+      const email = this.emailManager.standardizeEmailObject(raw, source);
+      // Ensure all attachments are standardized
+      if (email.attachments && Array.isArray(email.attachments)) {
+        email.attachments = this.emailManager.standardizeAttachments(email.attachments, email.messageId);
+      }
+      return this.tagWithAccount(email, account.id);
+    });
+
+    // Enhance emails with accurate attachment information (hybrid detection)
+    console.log('Enhancing emails with accurate attachment information...');
+    return Promise.all(
+      standardizedEmails.map(async (email: Email) => {
+        if (account.type === 'gmail' && (!email.attachments || email.attachments.length === 0)) {
+          // Use hybrid detection for Gmail emails that appear to have no attachments
+          return this.tagWithAccount(await this.emailManager.enhanceEmailAttachments(email, 'gmail'), account.id);
+        }
+        return email;
+      })
+    );
+  }
+
+  /**
+   * Tag an email and its attachments with the account they belong to
+   * @param email - Standardized email
+   * @param accountId - Account id
+   * @returns The same email
+   */
+  private tagWithAccount(email: Email, accountId: string): Email {
+    email.accountId = accountId;
+    email.attachments?.forEach(attachment => {
+      attachment.accountId = accountId;
+    });
+    return email;
+  }
+
+  /**
+   * Load the next page of older emails (Gmail page token / Graph nextLink / IMAP UID range)
+   * In the unified inbox every account that has older mail contributes a page.
+   * Called by the conversation list when it is scrolled near the bottom
+   * @returns Number of emails added
+   */
+  async loadMoreEmails(): Promise<number> {
+    if (this.loadingMore || this.loading || !this.hasMoreEmails()) {
+      return 0;
+    }
+
+    const view = this.getViewKey();
+    const accounts = this.getViewAccounts().filter(account => this.hasMoreForAccount(account));
+    this.loadingMore = true;
+    this.showLoadMoreIndicator(true);
+    try {
+      const pages = await Promise.all(accounts.map(account => this.fetchAccountPage(account)));
+      const knownIds = new Set(this.emails.map(email => `${email.accountId}:${email.id}`));
+      const newEmails: Email[] = [];
+
+      for (let i = 0; i < accounts.length; i++) {
+        const account = accounts[i];
+        const page = pages[i];
+        const pageEmails = (await this.standardizeRawEmails(page.emails, account))
+          .filter(email => !knownIds.has(`${account.id}:${email.id}`));
+
+        // Store the page before advancing the paging cursor
+        if (pageEmails.length > 0) {
+          await ipcRenderer.invoke('mail-store-upsert', { accountKey: account.id, emails: pageEmails });
+        }
+        await ipcRenderer.invoke('mail-store-set-cursor', { accountKey: account.id, name: page.cursorName, value: page.cursor });
+        this.getCursors(account.id)[page.cursorName] = page.cursor;
+        newEmails.push(...pageEmails);
+      }
+
+      console.log(`IMAPEmailManager: Loaded ${newEmails.length} older emails from ${view}`);
+      // The pages are stored either way, but only shown if the user is still on that view
+      if (newEmails.length > 0 && view === this.getViewKey()) {
+        this.applyEmails(this.mergeEmails(this.emails, newEmails), newEmails);
+      }
+      return newEmails.length;
+    } catch (error) {
+      console.error('Error loading more emails:', error);
+      this.uiThemeManager.showNotification('Failed to load older messages', 'error');
+      return 0;
+    } finally {
+      this.loadingMore = false;
+      this.showLoadMoreIndicator(false);
+    }
+  }
+
+  /**
+   * Check whether older emails can still be loaded
+   * @returns True if another page is available for any account of the view
+   */
+  hasMoreEmails(): boolean {
+    return this.getViewAccounts().some(account => this.hasMoreForAccount(account));
+  }
+
+  /**
+   * Check whether one account has older emails in the current folder
+   * @param account - Account to check
+   * @returns True if another page is available
+   */
+  private hasMoreForAccount(account: MailAccount): boolean {
+    const cursors = this.getCursors(account.id);
+    if (account.type === 'gmail') {
+      const page = cursors[`gmail:${this.currentFolder}:page`];
+      // Without a stored token (e.g. a store written before paging existed) start from the first page
+      return !page || !!page.nextPageToken;
+    }
+    if (account.type === 'outlook') {
+      const page = cursors[`outlook:${this.currentFolder}:page`];
+      return !!page?.nextLink;
+    }
+    const page = cursors[`imap:${this.currentFolder}:page`];
+    return page ? !!page.hasMore : this.getOldestUid(account, this.currentFolder) !== null;
+  }
+
+  /**
+   * Fetch the next page of older messages of one account
+   * @param account - Account to page
+   * @returns Raw emails and the paging cursor to store once they are persisted
+   */
+  private fetchAccountPage(account: MailAccount): Promise<AccountPage> {
+    if (account.type === 'gmail') {
+      return this.fetchGmailPage(account);
+    }
+    if (account.type === 'outlook') {
+      return this.fetchOutlookPage(account);
+    }
+    return this.fetchImapPage(account);
+  }
+
+  /**
+   * Process standardized emails and update conversations, search index and UI
+   * @param emails - Standardized emails to display
+   * @param newEmails - Emails added to an already indexed set (extends the search index instead of rebuilding it)
+   */
+  private applyEmails(emails: Email[], newEmails?: Email[]): void {
+    // Process HTML/Text for each email
+    const htmlEngine = (window as any).EmailHtmlEngine || (globalThis as any).EmailHtmlEngine;
+    this.emails = emails.map((email: any) => {
+      if (htmlEngine && typeof htmlEngine.processEmailHtml === 'function') {
+        const processed = htmlEngine.processEmailHtml(email);
+        // Store processed HTML for direct use in UI
+        email.processedHtml = processed.content;
+      }
+      return email;
+    });
+    // Group emails into conversations
+    console.log('Grouping emails into conversations...');
+    this.conversations = this.basicEmailGrouping(this.emails);
+    // Sync state immediately to prevent race conditions
+    this.syncGlobalState();
+    // Build search index using the singleton search manager
+    const searchManager = getSearchManager();
+    if (newEmails && searchManager && searchManager.extendSearchIndex) {
+      searchManager.extendSearchIndex(newEmails);
+    } else if (searchManager && searchManager.buildSearchIndex) {
+      searchManager.buildSearchIndex(this.emails);
+    }
+    // Initialize IMAP search engine if showing an IMAP account
+    if (this.getAccount(this.currentAccountId)?.type === 'imap' && this.getEmailConfig() && (window as any).IMAPSearchEngine) {
+      (window as any).imapSearchEngine = new (window as any).IMAPSearchEngine(this.getEmailConfig());
+    }
+    // Log parsing statistics
+    if (this.emails.length > 0) {
+      this.emailManager.logEmailParsingStats(this.emails);
+    }
+    // Debug email rendering issues
+    if (typeof (window as any).debugEmailRenderingIssues === 'function') {
+      (window as any).debugEmailRenderingIssues();
+    }
+    // Search results stay on screen; extendSearchIndex refreshes them with the new page
+    if (newEmails && searchManager && searchManager.isSearchActive()) {
+      return;
+    }
+    // Ensure conversations list exists before rendering
+    const conversationsList = document.getElementById('conversations-list');
+    if (!conversationsList) {
+      console.error('Conversations list element not found, delaying render');
+      setTimeout(() => this.renderConversationsList(), 500);
+    } else {
+      this.renderConversationsList();
+    }
+  }
+
+  /**
+   * Key identifying the shown account and folder
+   * @returns View key
+   */
+  private getViewKey(): string {
+    return `${this.currentAccountId}/${this.currentFolder}`;
+  }
+
+  /**
+   * Load and render mail from the local store (one store per account)
+   */
+  private async loadCachedEmails(): Promise<void> {
+    const hadEmails = this.emails.length > 0;
+    const folder = this.currentFolder;
+    this.cachedView = this.getViewKey();
+    this.syncCursors = {};
+    this.emails = [];
+
+    let cachedEmails: Email[] = [];
+    for (const account of this.getViewAccounts()) {
+      try {
+        const result = await ipcRenderer.invoke('mail-store-load', { accountKey: account.id, folder });
+        if (!result.success) {
+          console.warn(`IMAPEmailManager: Failed to load mail store of ${account.id}:`, result.error);
+          continue;
+        }
+        this.syncCursors[account.id] = result.cursors || {};
+        // Mail stored by earlier versions is not tagged yet
+        const accountEmails: Email[] = (result.emails || []).map((email: Email) => this.tagWithAccount(email, account.id));
+        cachedEmails = this.mergeEmails(cachedEmails, accountEmails);
+      } catch (error) {
+        console.warn(`IMAPEmailManager: Error loading cached emails of ${account.id}:`, error);
+      }
+    }
+
+    // Also render an empty cache when switching away from a folder that had mail
+    if (cachedEmails.length > 0 || hadEmails) {
+      console.log(`IMAPEmailManager: Rendering ${cachedEmails.length} cached emails for ${this.cachedView}`);
+      this.applyEmails(cachedEmails);
+    }
+  }
+
+  /**
+   * Merge fetched emails into the current set (fetched versions win)
+   * Emails are identified by account and id, since ids are only unique within an account.
+   * @param existing - Current emails
+   * @param incoming - Newly fetched emails
+   * @param replaced - Account and folder whose existing emails are dropped (full fetch)
+   * @returns Merged emails, newest first
+   */
+  private mergeEmails(
+    existing: Email[],
+    incoming: Email[],
+    replaced?: { account: MailAccount; replacedFolder: string | null }
+  ): Email[] {
+    const byKey = new Map<string, Email>();
+    existing
+      .filter(email => !replaced?.replacedFolder
+        || email.accountId !== replaced.account.id
+        || email.folder !== replaced.replacedFolder)
+      .forEach(email => byKey.set(`${email.accountId}:${email.id}`, email));
+    incoming.forEach(email => byKey.set(`${email.accountId}:${email.id}`, email));
+    return Array.from(byKey.values())
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  }
+
+  /**
+   * Persist one account's fetched emails and its sync cursors to the local store
+   * @param result - Sync result of the account
+   */
+  private async persistSyncResult(result: AccountSyncResult): Promise<void> {
+    const accountKey = result.account.id;
+    try {
+      if (result.replacedFolder) {
+        await ipcRenderer.invoke('mail-store-replace-folder', { accountKey, folder: result.replacedFolder, emails: result.emails });
+      } else if (result.emails.length > 0) {
+        await ipcRenderer.invoke('mail-store-upsert', { accountKey, emails: result.emails });
+      }
+      // Cursors are only advanced once the messages they cover are stored
+      const cursors = this.getCursors(accountKey);
+      for (const [name, value] of Object.entries(result.cursors)) {
+        await ipcRenderer.invoke('mail-store-set-cursor', { accountKey, name, value });
+        cursors[name] = value;
+      }
+    } catch (error) {
+      console.warn(`IMAPEmailManager: Failed to persist emails of ${accountKey}:`, error);
+    }
+  }
+
+  /**
+   * Resolve the active email configuration, falling back to the one
+   * loaded by SettingsManager
+   */
+  private getEmailConfig(): any {
+    return this.emailConfig || (window as any).emailConfig || null;
   }
 
   /**
    * Fetch raw emails from Gmail API (returns array of raw email objects)
+   * Uses the stored historyId so only changes since the last sync are downloaded;
+   * the main process falls back to a full resync when the history ID has expired.
+   * @param account - Gmail account
+   * @param sync - Receives the replaced folder and cursors
    */
-  private async fetchGmailRawEmails(): Promise<any[]> {
-    if (!this.googleAuth) throw new Error('Google authentication not available');
+  private async fetchGmailRawEmails(account: MailAccount, sync: AccountSyncResult): Promise<any[]> {
     try {
-      console.log('Loading emails from Gmail API via IPC...');
-      const result = await ipcRenderer.invoke('fetch-gmail-emails', {
-        auth: this.googleAuth,
-        maxResults: 50,
-        labelIds: ['INBOX']
+      const labelId = this.currentFolder;
+      const cursorName = `gmail:${labelId}`;
+      const startHistoryId = this.getCursors(account.id)[cursorName] || null;
+      console.log(`Syncing ${account.email || account.id} from Gmail API via IPC...`, startHistoryId ? `(since history ${startHistoryId})` : '(full)');
+      const result = await ipcRenderer.invoke('sync-gmail', {
+        accountId: account.id,
+        maxResults: PAGE_SIZE,
+        labelId,
+        startHistoryId
       });
       if (!result.success) throw new Error(result.error || 'Failed to fetch Gmail emails');
-      const emails = result.emails || [];
-      if (emails.length === 0) {
-        console.log('No messages found in Gmail inbox');
-        return [];
+      if (result.resyncReason) {
+        console.warn('Gmail full resync:', result.resyncReason);
+      }
+
+      if (result.mode === 'full') {
+        // Full sync: the server copy replaces whatever was cached for this label
+        sync.replacedFolder = labelId;
+        sync.cursors[`${cursorName}:page`] = { nextPageToken: result.nextPageToken || null };
+      } else {
+        this.removeEmailsById(account, result.deletedIds || []);
+        this.applyGmailLabelUpdates(account, result.labelUpdates || []);
       }
-      console.log(`Found ${emails.length} messages in Gmail inbox`);
+      sync.cursors[cursorName] = result.historyId;
+
+      const emails = result.emails || [];
+      emails.forEach((email: any) => { email.folder = labelId; });
+      console.log(`Gmail ${result.mode} sync returned ${emails.length} messages`);
       // Sort emails by date (newest first)
       emails.sort((a: any, b: any) => {
         const dateA = new Date(a.date).getTime();
@@ -387,36 +919,293 @@ export class IMAPEmailManager {
     }
   }
 
+  /**
+   * Fetch raw emails from Microsoft Graph (returns array of raw email objects)
+   * Graph has no history cursor here, so the newest page replaces the cached folder
+   * and older mail is paged in through the returned nextLink.
+   * @param account - Outlook account
+   * @param sync - Receives the replaced folder and cursors
+   */
+  private async fetchOutlookRawEmails(account: MailAccount, sync: AccountSyncResult): Promise<any[]> {
+    try {
+      const folder = this.currentFolder;
+      console.log(`Loading ${account.email || account.id} from Microsoft Graph via IPC...`);
+      const result = await ipcRenderer.invoke('fetch-outlook-emails', {
+        accountId: account.id,
+        folder,
+        maxResults: PAGE_SIZE
+      });
+      if (!result.success) throw new Error(result.error || 'Failed to fetch Outlook emails');
+
+      sync.replacedFolder = folder;
+      sync.cursors[`outlook:${folder}:page`] = { nextLink: result.nextLink || null };
+      const emails = result.emails || [];
+      console.log(`Found ${emails.length} messages in Outlook ${folder}`);
+      return emails;
+    } catch (error) {
+      console.error('Error loading Outlook emails:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Apply Gmail label changes (read state, labels) to emails already held locally
+   * Emails that left the current label are dropped from the view but kept in the store.
+   * @param account - Gmail account the updates belong to
+   * @param updates - Label updates from the sync engine
+   */
+  private applyGmailLabelUpdates(account: MailAccount, updates: Array<{ id: string; labelIds: string[] }>): void {
+    if (updates.length === 0) {
+      return;
+    }
+
+    const updated: Email[] = [];
+    updates.forEach(update => {
+      const email = this.emails.find(e => e.accountId === account.id && e.id === update.id);
+      if (email) {
+        email.labels = update.labelIds;
+        email.read = !update.labelIds.includes('UNREAD');
+        updated.push(email);
+      }
+    });
+    this.emails = this.emails.filter(email =>
+      email.accountId !== account.id || !email.labels || email.labels.includes(this.currentFolder)
+    );
+
+    if (updated.length > 0) {
+      console.log(`IMAPEmailManager: Applied label changes to ${updated.length} emails`);
+      ipcRenderer.invoke('mail-store-upsert', { accountKey: account.id, emails: updated }).catch((error: Error) => {
+        console.warn('IMAPEmailManager: Failed to store label changes:', error);
+      });
+    }
+  }
+
+  /**
+   * Remove emails locally and from the mail store
+   * @param account - Account the emails belong to
+   * @param ids - Email ids to remove
+   */
+  private removeEmailsById(account: MailAccount, ids: string[]): void {
+    if (ids.length === 0) {
+      return;
+    }
+
+    const removed = new Set(ids);
+    this.emails = this.emails.filter(email => email.accountId !== account.id || !removed.has(email.id));
+    ipcRenderer.invoke('mail-store-remove', { accountKey: account.id, ids }).catch((error: Error) => {
+      console.warn('IMAPEmailManager: Failed to remove emails from store:', error);
+    });
+  }
+
   /**
    * Fetch raw emails from IMAP (returns array of raw email objects)
+   * The connection runs in the main process, where node-imap and mailparser are available.
+   * Uses the stored UID cursor so only new messages are downloaded.
+   * @param account - IMAP account
+   * @param sync - Receives the replaced folder and cursors
    */
-  private async fetchImapRawEmails(): Promise<any[]> {
-    return new Promise((resolve, reject) => {
-      if (!this.emailConfig) {
-        reject(new Error('Email configuration not available'));
-        return;
+  private async fetchImapRawEmails(account: MailAccount, sync: AccountSyncResult): Promise<any[]> {
+    try {
+      const folder = this.currentFolder;
+      const cursorName = `imap:${folder}`;
+      const cursor = this.getCursors(account.id)[cursorName];
+      console.log(`Loading ${account.email} from IMAP via IPC...`, cursor ? `(since UID ${cursor.lastUid})` : '(full)');
+      const result = await ipcRenderer.invoke('fetch-imap-emails', {
+        accountId: account.id,
+        folder,
+        maxResults: PAGE_SIZE,
+        sinceUid: cursor?.lastUid,
+        uidValidity: cursor?.uidValidity
+      });
+      if (!result.success) throw new Error(result.error || 'Failed to fetch IMAP emails');
+      const emails = result.emails || [];
+      console.log(`Found ${emails.length} messages in IMAP ${result.folder} (${result.totalMessages} total)`);
+
+      if (result.isDelta) {
+        this.pruneDeletedImapEmails(account, folder, result.existingUids || []);
+        // More new messages arrived than one fetch takes: the ones left out are loaded as older pages
+        if (result.hasMore) {
+          sync.cursors[`${cursorName}:page`] = { oldestUid: result.oldestUid, hasMore: true };
+        }
+      } else {
+        // Full fetch: the server copy replaces whatever was cached for this folder
+        sync.replacedFolder = folder;
+        sync.cursors[`${cursorName}:page`] = { oldestUid: result.oldestUid, hasMore: !!result.hasMore };
       }
-      // Note: This would need to be adapted for browser environment
-      // The original code uses Node.js require() which won't work in browser
-      console.log('IMAP fetching would be implemented here');
-      resolve([]);
+      sync.cursors[cursorName] = { uidValidity: result.uidValidity, lastUid: result.highestUid };
+      return emails;
+    } catch (error) {
+      console.error('Error loading IMAP emails:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch the next page of older Gmail messages using the stored page token
+   * @param account - Gmail account
+   * @returns Raw emails and the paging cursor to store once they are persisted
+   */
+  private async fetchGmailPage(account: MailAccount): Promise<AccountPage> {
+    const labelId = this.currentFolder;
+    const cursorName = `gmail:${labelId}:page`;
+    const pageToken = this.getCursors(account.id)[cursorName]?.nextPageToken || null;
+    console.log('Loading next Gmail page via IPC...', pageToken ? '' : '(first page)');
+    const result = await ipcRenderer.invoke('fetch-gmail-emails', {
+      accountId: account.id,
+      labelIds: [labelId],
+      maxResults: PAGE_SIZE,
+      pageToken
     });
+    if (!result.success) throw new Error(result.error || 'Failed to fetch Gmail emails');
+    const emails = result.emails || [];
+    emails.forEach((email: any) => { email.folder = labelId; });
+    return { emails, cursorName, cursor: { nextPageToken: result.nextPageToken || null } };
+  }
+
+  /**
+   * Fetch the next page of older Outlook messages using the stored nextLink
+   * @param account - Outlook account
+   * @returns Raw emails and the paging cursor to store once they are persisted
+   */
+  private async fetchOutlookPage(account: MailAccount): Promise<AccountPage> {
+    const folder = this.currentFolder;
+    const cursorName = `outlook:${folder}:page`;
+    const nextLink = this.getCursors(account.id)[cursorName]?.nextLink || null;
+    console.log('Loading next Outlook page via IPC...');
+    const result = await ipcRenderer.invoke('fetch-outlook-emails', { accountId: account.id, folder, nextLink });
+    if (!result.success) throw new Error(result.error || 'Failed to fetch Outlook emails');
+    return { emails: result.emails || [], cursorName, cursor: { nextLink: result.nextLink || null } };
+  }
+
+  /**
+   * Fetch the next page of older IMAP messages (UIDs below the oldest one loaded)
+   * @param account - IMAP account
+   * @returns Raw emails and the paging cursor to store once they are persisted
+   */
+  private async fetchImapPage(account: MailAccount): Promise<AccountPage> {
+    const folder = this.currentFolder;
+    const cursors = this.getCursors(account.id);
+    const cursorName = `imap:${folder}:page`;
+    const syncCursor = cursors[`imap:${folder}`];
+    const beforeUid = cursors[cursorName]?.oldestUid || this.getOldestUid(account, folder);
+    if (!syncCursor || !beforeUid) {
+      return { emails: [], cursorName, cursor: { oldestUid: beforeUid, hasMore: false } };
+    }
+
+    console.log(`Loading IMAP messages before UID ${beforeUid} via IPC...`);
+    const result = await ipcRenderer.invoke('fetch-imap-emails', {
+      accountId: account.id,
+      folder,
+      maxResults: PAGE_SIZE,
+      beforeUid,
+      uidValidity: syncCursor.uidValidity
+    });
+    if (!result.success) throw new Error(result.error || 'Failed to fetch IMAP emails');
+    return { emails: result.emails || [], cursorName, cursor: { oldestUid: result.oldestUid, hasMore: !!result.hasMore } };
+  }
+
+  /**
+   * Lowest UID among the loaded emails of an account's folder
+   * @param account - IMAP account
+   * @param folder - Mailbox name
+   * @returns Lowest UID, or null if no email has one
+   */
+  private getOldestUid(account: MailAccount, folder: string): number | null {
+    const uids = this.emails
+      .filter(email => email.accountId === account.id && email.folder === folder && typeof email.uid === 'number')
+      .map(email => email.uid as number);
+    return uids.length > 0 ? Math.min(...uids) : null;
+  }
+
+  /**
+   * Drop cached IMAP emails whose UID no longer exists on the server
+   * @param account - IMAP account
+   * @param folder - Mailbox the UIDs belong to
+   * @param existingUids - UIDs currently in the mailbox
+   */
+  private pruneDeletedImapEmails(account: MailAccount, folder: string, existingUids: number[]): void {
+    const existing = new Set(existingUids);
+    const removedIds = this.emails
+      .filter(email => email.accountId === account.id && email.folder === folder
+        && typeof email.uid === 'number' && !existing.has(email.uid))
+      .map(email => email.id);
+    if (removedIds.length > 0) {
+      console.log(`IMAPEmailManager: Removing ${removedIds.length} emails deleted on the server`);
+      this.removeEmailsById(account, removedIds);
+    }
+  }
+
+  /**
+   * Load the folder/label list with unread counts for the sidebar
+   * The unified inbox has no folder list of its own.
+   * @returns Gmail labels, Outlook folders or IMAP mailboxes (empty if none could be loaded)
+   */
+  async loadFolders(): Promise<MailFolder[]> {
+    const account = this.getAccount(this.currentAccountId);
+    if (!account) {
+      this.folders = [];
+      return this.folders;
+    }
+
+    try {
+      const channel = account.type === 'gmail'
+        ? 'list-gmail-labels'
+        : account.type === 'outlook' ? 'list-outlook-folders' : 'list-imap-folders';
+      const result = await ipcRenderer.invoke(channel, { accountId: account.id });
+      if (!result.success) throw new Error(result.error || 'Failed to load folders');
+      // The account may have been switched while the list was loading
+      if (account.id === this.currentAccountId) {
+        this.folders = result.folders || [];
+      }
+      console.log(`IMAPEmailManager: Loaded ${result.folders?.length || 0} folders of ${account.email || account.id}`);
+    } catch (error) {
+      console.warn('IMAPEmailManager: Error loading folders:', error);
+    }
+    return this.folders;
   }
 
   /**
    * Switch to different email folder
-   * @param folder - Target folder name
+   * The unified inbox only shows inboxes; pick an account to browse its folders.
+   * @param folder - Folder role (e.g. 'sent'), Gmail label id or IMAP mailbox path
    */
-  switchFolder(folder: EmailFolder): void {
-    // this.currentFolder = folder;
-    console.log(`IMAPEmailManager: Switched to folder: ${folder}`);
+  switchFolder(folder: EmailFolder | string): void {
+    if (this.currentAccountId === UNIFIED_ACCOUNT_ID && this.resolveFolderId(folder) !== 'INBOX') {
+      console.warn(`IMAPEmailManager: Folder ${folder} is not available in the unified inbox`);
+      return;
+    }
+    const folderId = this.resolveFolderId(folder);
+    console.log(`IMAPEmailManager: Switching to folder: ${folderId}`);
     
-    // Reload emails for the new folder
-    this.loadEmails().catch(error => {
-      console.error('Error loading emails for folder:', folder, error);
+    // Reload emails for the new folder once any running load has finished
+    this.enqueueLoad(() => {
+      this.currentFolder = folderId;
+      return this.performLoad();
+    }).catch(error => {
+      console.error('Error loading emails for folder:', folderId, error);
     });
   }
 
+  /**
+   * Map a folder role to the matching label/mailbox; ids and paths are returned unchanged
+   * @param folder - Folder role, label id or mailbox path
+   * @returns Gmail label id or IMAP mailbox path
+   */
+  private resolveFolderId(folder: EmailFolder | string): string {
+    if (this.folders.some(f => f.id === folder)) {
+      return folder;
+    }
+    const byRole = this.folders.find(f => f.role === folder && f.depth === 0) || this.folders.find(f => f.role === folder);
+    if (byRole) {
+      return byRole.id;
+    }
+    const gmailLabel = GMAIL_FOLDER_LABELS[folder as EmailFolder];
+    if (this.getAccount(this.currentAccountId)?.type === 'gmail' && gmailLabel) {
+      return gmailLabel;
+    }
+    return folder === 'inbox' ? 'INBOX' : folder;
+  }
+
   /**
    * Render conversations list in the UI
    */
@@ -451,6 +1240,53 @@ export class IMAPEmailManager {
       const element = this.createConversationElement(conversation);
       conversationsList.appendChild(element);
     });
+
+    this.attachInfiniteScroll(conversationsList);
+  }
+
+  /**
+   * Load the next page when the conversation list is scrolled near the bottom
+   * @param conversationsList - Conversation list element
+   */
+  private attachInfiniteScroll(conversationsList: HTMLElement): void {
+    // The list itself grows; its .conversations-nav parent is the scroll container
+    const scrollContainer = (conversationsList.closest('.conversations-nav') as HTMLElement) || conversationsList;
+    if (scrollContainer.dataset.infiniteScroll === 'true') {
+      return;
+    }
+    scrollContainer.dataset.infiniteScroll = 'true';
+
+    scrollContainer.addEventListener('scroll', () => {
+      const remaining = scrollContainer.scrollHeight - scrollContainer.scrollTop - scrollContainer.clientHeight;
+      if (remaining < LOAD_MORE_THRESHOLD_PX && !this.loadingMore && this.hasMoreEmails()) {
+        this.loadMoreEmails().catch(error => {
+          console.error('Error loading more emails:', error);
+        });
+      }
+    });
+  }
+
+  /**
+   * Show or hide the "loading older messages" row at the end of the list
+   * @param show - Whether the indicator should be visible
+   */
+  private showLoadMoreIndicator(show: boolean): void {
+    const conversationsList = document.getElementById('conversations-list');
+    if (!conversationsList) {
+      return;
+    }
+
+    const existing = conversationsList.querySelector('.conversations-load-more');
+    if (!show) {
+      existing?.remove();
+      return;
+    }
+    if (!existing) {
+      const indicator = document.createElement('div');
+      indicator.className = 'conversations-load-more';
+      indicator.innerHTML = '<i class="fas fa-spinner"></i> Loading older messages...';
+      conversationsList.appendChild(indicator);
+    }
   }
 
   /**
@@ -487,6 +1323,11 @@ export class IMAPEmailManager {
     // Remove any surrounding quotes from displayName
     displayName = displayName.replace(/^['"]+|['"]+$/g, '');
 
+    // The unified inbox shows which account each conversation arrived on
+    const account = this.currentAccountId === UNIFIED_ACCOUNT_ID && this.accounts.length > 1
+      ? this.getAccount(latestEmail.accountId)
+      : null;
+
     const conversationHTML = `
       <div class="conversation-info">
         <div class="conversation-content">
@@ -496,6 +1337,7 @@ export class IMAPEmailManager {
       </div>
       <div class="conversation-meta">
         <div class="conversation-time">${formattedTime}</div>
+        ${account ? `<div class="conversation-account">${this.escapeHtml(account.email || account.displayName || account.type)}</div>` : ''}
         ${unreadCount > 0 ? `<div class="conversation-unread">${unreadCount}</div>` : ''}
       </div>
     `;
@@ -0,0 +1,587 @@
+/**
+ * IMAP Fetch Service Module
+ * Runs in the Electron main process. Connects to an IMAP server with the saved
+ * EmailConfig, lists mailboxes, fetches recent messages and parses them with
+ * mailparser into the raw shape consumed by EmailManager.standardizeEmailObject.
+ *
+ * Dependencies: imap (node-imap), mailparser
+ */
+
+import Imap from 'imap';
+import { simpleParser, type AddressObject, type ParsedMail } from 'mailparser';
+import type { EmailConfig } from '../../types/config';
+import type { MailFolder, MailFolderRole } from '../../types/email';
+
+/**
+ * Options for a single IMAP fetch
+ */
+export interface ImapFetchOptions {
+  folder?: string;
+  maxResults?: number;
+  // Only fetch messages with a UID above this value (delta sync)
+  sinceUid?: number;
+  // Only fetch messages with a UID below this value (loading older pages)
+  beforeUid?: number;
+  // UIDVALIDITY the sinceUid/beforeUid cursor belongs to; a mismatch forces a full fetch
+  uidValidity?: number;
+  connTimeout?: number;
+  authTimeout?: number;
+  rejectUnauthorized?: boolean;
+}
+
+/**
+ * Raw email returned over IPC (matches RawEmailData in EmailManager)
+ */
+export interface ImapRawEmail {
+  id: string;
+  messageId: string;
+  uid: number;
+  folder: string;
+  from: string;
+  to: string[];
+  cc: string[];
+  subject: string;
+  date: string;
+  html: string;
+  text: string;
+  unread: boolean;
+  flags: string[];
+  inReplyTo?: string;
+  references?: string[];
+  headers: Record<string, any>;
+  attachments: Array<{
+    filename?: string;
+    contentType: string;
+    size: number;
+    contentId?: string;
+    contentDisposition?: string;
+    content: string;
+    encoding: 'base64';
+  }>;
+}
+
+/**
+ * Result of an IMAP fetch
+ */
+export interface ImapFetchResult {
+  folder: string;
+  totalMessages: number;
+  emails: ImapRawEmail[];
+  uidValidity: number;
+  // Highest UID the fetch covers, the cursor for the next delta fetch
+  highestUid: number;
+  // True when only messages newer than sinceUid were fetched
+  isDelta: boolean;
+  // Every UID currently in the mailbox (delta fetches only), used to prune deletions
+  existingUids?: number[];
+  // Lowest UID fetched, the cursor for the next older page
+  oldestUid?: number;
+  // True when older messages remain below oldestUid (for a delta fetch: new messages left out)
+  hasMore?: boolean;
+}
+
+interface FetchedMessage {
+  uid: number;
+  flags: string[];
+  source: Buffer;
+}
+
+const DEFAULT_FOLDER = 'INBOX';
+const DEFAULT_MAX_RESULTS = 50;
+
+// RFC 6154 special-use attributes
+const SPECIAL_USE_ROLES: Record<string, MailFolderRole> = {
+  '\\sent': 'sent',
+  '\\drafts': 'drafts',
+  '\\trash': 'trash',
+  '\\junk': 'spam',
+  '\\archive': 'archive',
+  '\\all': 'all',
+  '\\flagged': 'starred'
+};
+
+// Fallback for servers without special-use support
+const FOLDER_NAME_ROLES: Record<string, MailFolderRole> = {
+  'sent': 'sent',
+  'sent items': 'sent',
+  'sent mail': 'sent',
+  'sent messages': 'sent',
+  'drafts': 'drafts',
+  'trash': 'trash',
+  'deleted items': 'trash',
+  'deleted messages': 'trash',
+  'junk': 'spam',
+  'junk e-mail': 'spam',
+  'spam': 'spam',
+  'archive': 'archive'
+};
+
+const ROLE_ORDER: MailFolderRole[] = ['inbox', 'starred', 'sent', 'drafts', 'archive', 'all', 'spam', 'trash'];
+
+/**
+ * Build node-imap connection settings from the saved email configuration
+ * @param config - Saved email configuration
+ * @param options - Fetch options (timeouts, TLS verification)
+ * @returns node-imap configuration
+ */
+export function buildImapConnectionConfig(config: EmailConfig, options: ImapFetchOptions = {}): Imap.Config {
+  if (!config || !config.imapHost) {
+    throw new Error('IMAP host is not configured');
+  }
+
+  const port = Number(config.imapPort) || 993;
+  const secure = config.imapSecure !== undefined ? config.imapSecure : port === 993;
+
+  return {
+    user: config.imapAuth?.user || config.email,
+    password: config.imapAuth?.pass || config.password,
+    host: config.imapHost,
+    port,
+    tls: secure,
+    tlsOptions: {
+      servername: config.imapHost,
+      rejectUnauthorized: options.rejectUnauthorized !== false
+    },
+    connTimeout: options.connTimeout || 15000,
+    authTimeout: options.authTimeout || 10000
+  };
+}
+
+/**
+ * Open an IMAP connection, run the callback and always close the connection
+ * @param config - Saved email configuration
+ * @param options - Fetch options
+ * @param callback - Work to run against the ready connection
+ * @returns Callback result
+ */
+export function withImapConnection<T>(
+  config: EmailConfig,
+  options: ImapFetchOptions,
+  callback: (imap: Imap) => Promise<T>
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    const imap = new Imap(buildImapConnectionConfig(config, options));
+
+    const finish = (error: Error | null, value?: T) => {
+      if (settled) return;
+      settled = true;
+      try {
+        imap.end();
+      } catch (endError) {
+        console.warn('IMAP: Error closing connection:', endError);
+      }
+      if (error) {
+        reject(error);
+      } else {
+        resolve(value as T);
+      }
+    };
+
+    imap.once('ready', () => {
+      callback(imap)
+        .then(value => finish(null, value))
+        .catch(error => finish(error));
+    });
+
+    imap.once('error', (error: Error) => {
+      console.error('IMAP: Connection error:', error.message);
+      finish(error);
+    });
+
+    imap.once('end', () => {
+      if (!settled) {
+        finish(new Error('IMAP connection closed unexpectedly'));
+      }
+    });
+
+    imap.connect();
+  });
+}
+
+/**
+ * Open a mailbox
+ * @param imap - Ready IMAP connection
+ * @param folder - Mailbox name
+ * @param readOnly - Open without changing \Seen flags
+ * @returns Mailbox information
+ */
+export function openBox(imap: Imap, folder: string, readOnly: boolean = true): Promise<Imap.Box> {
+  return new Promise((resolve, reject) => {
+    imap.openBox(folder, readOnly, (error, box) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(box);
+      }
+    });
+  });
+}
+
+/**
+ * Fetch full message sources for a sequence or UID range
+ * @param imap - Ready IMAP connection with an open mailbox
+ * @param range - Sequence set (e.g. "1:50")
+ * @param byUid - Treat the range as UIDs rather than sequence numbers
+ * @returns Raw message sources with their UID and flags
+ */
+export function fetchMessageSources(imap: Imap, range: string, byUid: boolean = false): Promise<FetchedMessage[]> {
+  return new Promise((resolve, reject) => {
+    const messages: FetchedMessage[] = [];
+    const fetchOptions: Imap.FetchOptions = { bodies: '', struct: false };
+    const fetch = byUid ? imap.fetch(range, fetchOptions) : imap.seq.fetch(range, fetchOptions);
+
+    fetch.on('message', (msg) => {
+      const chunks: Buffer[] = [];
+      const message: FetchedMessage = { uid: 0, flags: [], source: Buffer.alloc(0) };
+
+      msg.on('body', (stream) => {
+        stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+      });
+
+      msg.once('attributes', (attrs) => {
+        message.uid = attrs.uid;
+        message.flags = attrs.flags || [];
+      });
+
+      msg.once('end', () => {
+        message.source = Buffer.concat(chunks);
+        messages.push(message);
+      });
+    });
+
+    fetch.once('error', reject);
+    fetch.once('end', () => resolve(messages));
+  });
+}
+
+/**
+ * Search the open mailbox for all message UIDs
+ * @param imap - Ready IMAP connection with an open mailbox
+ * @returns Message UIDs
+ */
+export function searchAllUids(imap: Imap): Promise<number[]> {
+  return new Promise((resolve, reject) => {
+    imap.search(['ALL'], (error, uids) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(uids || []);
+      }
+    });
+  });
+}
+
+/**
+ * Build a UID range covering a sorted run of UIDs taken from a SEARCH result
+ * (UIDs missing from the mailbox are skipped by the server, so the range matches exactly)
+ * @param uids - Ascending UIDs
+ * @returns UID range (e.g. "120:169")
+ */
+function toUidRange(uids: number[]): string {
+  return `${uids[0]}:${uids[uids.length - 1]}`;
+}
+
+/**
+ * Work out the role of a mailbox from its special-use attributes or name
+ * @param path - Full mailbox path
+ * @param name - Mailbox name (last path segment)
+ * @param attribs - LIST attributes, including special-use ones
+ * @returns Folder role, if any
+ */
+function getFolderRole(path: string, name: string, attribs: string[]): MailFolderRole | undefined {
+  if (path.toUpperCase() === 'INBOX') {
+    return 'inbox';
+  }
+  for (const attrib of attribs) {
+    const role = SPECIAL_USE_ROLES[attrib.toLowerCase()];
+    if (role) return role;
+  }
+  return FOLDER_NAME_ROLES[name.toLowerCase()];
+}
+
+/**
+ * Flatten the node-imap mailbox tree into selectable mailboxes
+ * @param boxes - Mailbox tree from getBoxes
+ * @param parentPath - Path of the parent mailbox
+ * @param depth - Nesting level
+ * @returns Mailboxes with their full path
+ */
+function flattenBoxes(boxes: Imap.MailBoxes, parentPath: string = '', depth: number = 0): Array<{ path: string; name: string; depth: number; attribs: string[] }> {
+  const result: Array<{ path: string; name: string; depth: number; attribs: string[] }> = [];
+
+  for (const [name, box] of Object.entries(boxes || {})) {
+    const path = parentPath ? `${parentPath}${box.delimiter || '/'}${name}` : name;
+    const attribs = [...(box.attribs || []), (box as any).special_use_attrib].filter(Boolean);
+    if (!attribs.some(attrib => attrib.toLowerCase() === '\\noselect')) {
+      result.push({ path, name, depth, attribs });
+    }
+    if (box.children) {
+      result.push(...flattenBoxes(box.children, path, depth + 1));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Get message counts for a mailbox without selecting it
+ * @param imap - Ready IMAP connection
+ * @param path - Mailbox path
+ * @returns Total and unseen counts
+ */
+function getMailboxStatus(imap: Imap, path: string): Promise<{ total: number; unseen: number }> {
+  return new Promise((resolve, reject) => {
+    imap.status(path, (error, box) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve({ total: box.messages.total || 0, unseen: box.messages.unseen || 0 });
+      }
+    });
+  });
+}
+
+/**
+ * List the selectable mailboxes with their unread counts
+ * @param config - Saved email configuration
+ * @param options - Connection options
+ * @returns INBOX and special-use mailboxes first, then the rest in server order
+ */
+export async function listImapFolders(config: EmailConfig, options: ImapFetchOptions = {}): Promise<MailFolder[]> {
+  return withImapConnection(config, options, async (imap) => {
+    const boxes = await new Promise<Imap.MailBoxes>((resolve, reject) => {
+      imap.getBoxes((error, result) => (error ? reject(error) : resolve(result)));
+    });
+
+    const folders: MailFolder[] = [];
+    for (const box of flattenBoxes(boxes)) {
+      const role = getFolderRole(box.path, box.name, box.attribs);
+      const folder: MailFolder = {
+        id: box.path,
+        name: role === 'inbox' ? 'Inbox' : box.name,
+        type: role ? 'system' : 'user',
+        role,
+        unreadCount: 0,
+        totalCount: 0,
+        depth: box.depth
+      };
+      try {
+        const status = await getMailboxStatus(imap, box.path);
+        folder.unreadCount = status.unseen;
+        folder.totalCount = status.total;
+      } catch (error) {
+        console.warn(`IMAP: Failed to get status of ${box.path}:`, error);
+      }
+      folders.push(folder);
+    }
+
+    console.log(`IMAP: Listed ${folders.length} mailboxes`);
+    const rank = (folder: MailFolder) => (folder.role && folder.depth === 0 ? ROLE_ORDER.indexOf(folder.role) : ROLE_ORDER.length);
+    // Array.prototype.sort is stable, so user mailboxes keep the server's (hierarchical) order
+    return folders.sort((a, b) => rank(a) - rank(b));
+  });
+}
+
+/**
+ * Find the mailbox with a special-use role (e.g. the Drafts mailbox)
+ * @param imap - Ready IMAP connection
+ * @param role - Folder role
+ * @returns Mailbox path, or null if the server has no such mailbox
+ */
+export async function findMailboxByRole(imap: Imap, role: MailFolderRole): Promise<string | null> {
+  const boxes = await new Promise<Imap.MailBoxes>((resolve, reject) => {
+    imap.getBoxes((error, result) => (error ? reject(error) : resolve(result)));
+  });
+  const box = flattenBoxes(boxes).find(candidate => getFolderRole(candidate.path, candidate.name, candidate.attribs) === role);
+  return box ? box.path : null;
+}
+
+/**
+ * Convert a mailparser address object into "Name <email>" strings
+ * @param address - Parsed address (single or list)
+ * @returns Array of formatted addresses
+ */
+function formatAddressList(address: AddressObject | AddressObject[] | undefined): string[] {
+  if (!address) return [];
+  const objects = Array.isArray(address) ? address : [address];
+  const result: string[] = [];
+
+  for (const obj of objects) {
+    for (const entry of obj.value || []) {
+      if (!entry.address) continue;
+      result.push(entry.name ? `${entry.name} <${entry.address}>` : entry.address);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Convert a parsed message into the raw email shape used by the renderer
+ * @param parsed - mailparser output
+ * @param message - Fetched message metadata
+ * @param folder - Mailbox the message was fetched from
+ * @returns Raw email object
+ */
+export function toRawEmail(parsed: ParsedMail, message: FetchedMessage, folder: string): ImapRawEmail {
+  const references = typeof parsed.references === 'string' ? [parsed.references] : parsed.references;
+  const fallbackId = `imap-${folder}-${message.uid}`;
+
+  return {
+    id: parsed.messageId || fallbackId,
+    messageId: parsed.messageId || fallbackId,
+    uid: message.uid,
+    folder,
+    from: formatAddressList(parsed.from)[0] || '',
+    to: formatAddressList(parsed.to),
+    cc: formatAddressList(parsed.cc),
+    subject: parsed.subject || '',
+    date: (parsed.date || new Date()).toISOString(),
+    html: typeof parsed.html === 'string' ? parsed.html : '',
+    text: parsed.text || '',
+    unread: !message.flags.includes('\\Seen'),
+    flags: message.flags,
+    inReplyTo: parsed.inReplyTo,
+    references,
+    headers: Object.fromEntries(parsed.headers.entries()),
+    attachments: (parsed.attachments || []).map(att => ({
+      filename: att.filename,
+      contentType: att.contentType,
+      size: att.size,
+      contentId: att.contentId,
+      contentDisposition: att.contentDisposition,
+      content: att.content.toString('base64'),
+      encoding: 'base64' as const
+    }))
+  };
+}
+
+/**
+ * Parse fetched message sources, skipping messages mailparser cannot read
+ * @param messages - Fetched message sources
+ * @param folder - Mailbox name
+ * @returns Parsed raw emails, newest first
+ */
+export async function parseFetchedMessages(messages: FetchedMessage[], folder: string): Promise<ImapRawEmail[]> {
+  const emails: ImapRawEmail[] = [];
+
+  for (const message of messages) {
+    try {
+      const parsed = await simpleParser(message.source);
+      emails.push(toRawEmail(parsed, message, folder));
+    } catch (error) {
+      console.warn(`IMAP: Failed to parse message UID ${message.uid}:`, error);
+    }
+  }
+
+  return emails.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+}
+
+/**
+ * Fetch the source of one message (e.g. to forward it as an attachment)
+ * @param config - Saved email configuration
+ * @param folder - Mailbox of the message
+ * @param uid - Message UID
+ * @returns RFC 5322 message
+ */
+export async function fetchImapMessageSource(config: EmailConfig, folder: string, uid: number): Promise<Buffer> {
+  return withImapConnection(config, {}, async (imap) => {
+    await openBox(imap, folder);
+    const [message] = await fetchMessageSources(imap, String(uid), true);
+    if (!message) {
+      throw new Error(`Message UID ${uid} not found in ${folder}`);
+    }
+    return message.source;
+  });
+}
+
+/**
+ * Fetch the most recent messages from an IMAP mailbox
+ * When options.sinceUid is set and UIDVALIDITY is unchanged, only newer messages are fetched;
+ * when options.beforeUid is set, the next page of older messages is fetched instead
+ * @param config - Saved email configuration
+ * @param options - Folder, page size, delta cursor and connection options
+ * @returns Fetched emails and mailbox state
+ */
+export async function fetchImapEmails(config: EmailConfig, options: ImapFetchOptions = {}): Promise<ImapFetchResult> {
+  const folder = options.folder || DEFAULT_FOLDER;
+  const maxResults = options.maxResults || DEFAULT_MAX_RESULTS;
+
+  return withImapConnection(config, options, async (imap) => {
+    const box = await openBox(imap, folder);
+    const total = box.messages.total;
+    const uidValidity = box.uidvalidity;
+    const highestUid = Math.max(0, (box.uidnext || 1) - 1);
+    const canDelta = !!options.sinceUid && options.uidValidity === uidValidity;
+
+    if (total === 0) {
+      console.log(`IMAP: ${folder} is empty`);
+      return { folder, totalMessages: 0, emails: [], uidValidity, highestUid, isDelta: canDelta, existingUids: canDelta ? [] : undefined, hasMore: false };
+    }
+
+    if (options.beforeUid) {
+      if (options.uidValidity !== uidValidity) {
+        throw new Error(`UIDVALIDITY of ${folder} changed, a full resync is required`);
+      }
+
+      const olderUids = (await searchAllUids(imap))
+        .filter(uid => uid < options.beforeUid!)
+        .sort((a, b) => a - b);
+      const pageUids = olderUids.slice(-maxResults);
+      if (pageUids.length === 0) {
+        console.log(`IMAP: No messages in ${folder} older than UID ${options.beforeUid}`);
+        return { folder, totalMessages: total, emails: [], uidValidity, highestUid, isDelta: false, oldestUid: options.beforeUid, hasMore: false };
+      }
+
+      console.log(`IMAP: Fetching ${pageUids.length} older messages from ${folder} before UID ${options.beforeUid}`);
+      const messages = await fetchMessageSources(imap, toUidRange(pageUids), true);
+      const emails = await parseFetchedMessages(messages, folder);
+      return {
+        folder,
+        totalMessages: total,
+        emails,
+        uidValidity,
+        highestUid,
+        isDelta: false,
+        oldestUid: pageUids[0],
+        hasMore: olderUids.length > pageUids.length
+      };
+    }
+
+    if (canDelta) {
+      const existingUids = await searchAllUids(imap);
+      const newUids = existingUids.filter(uid => uid > options.sinceUid!).sort((a, b) => a - b);
+      if (newUids.length === 0) {
+        console.log(`IMAP: No new messages in ${folder} since UID ${options.sinceUid}`);
+        return { folder, totalMessages: total, emails: [], uidValidity, highestUid, isDelta: true, existingUids };
+      }
+
+      // Newest first: new messages left out are loaded as older pages (see hasMore)
+      const pageUids = newUids.slice(-maxResults);
+      console.log(`IMAP: Fetching ${pageUids.length} of ${newUids.length} new messages from ${folder}`);
+      const messages = await fetchMessageSources(imap, toUidRange(pageUids), true);
+      const emails = await parseFetchedMessages(messages, folder);
+      return {
+        folder,
+        totalMessages: total,
+        emails,
+        uidValidity,
+        highestUid: pageUids[pageUids.length - 1],
+        isDelta: true,
+        existingUids,
+        oldestUid: pageUids[0],
+        hasMore: newUids.length > pageUids.length
+      };
+    }
+
+    const start = Math.max(1, total - maxResults + 1);
+    console.log(`IMAP: Fetching messages ${start}:${total} from ${folder}`);
+    const messages = await fetchMessageSources(imap, `${start}:${total}`);
+    const emails = await parseFetchedMessages(messages, folder);
+
+    console.log(`IMAP: Parsed ${emails.length} of ${messages.length} messages from ${folder}`);
+    const oldestUid = messages.length > 0 ? Math.min(...messages.map(message => message.uid)) : undefined;
+    return { folder, totalMessages: total, emails, uidValidity, highestUid, isDelta: false, oldestUid, hasMore: start > 1 };
+  });
+}
@@ -0,0 +1,178 @@
+/**
+ * Message Quoting Module
+ * Subjects and bodies of replies and forwards. "Re:" and "Fwd:" are not
+ * stacked on prefixes the subject already has (also localized ones such as
+ * AW or SV); replies quote the original in a <blockquote> under an
+ * "On <date>, <name> wrote:" line, which the plain-text alternative turns into
+ * ">"-prefixed lines; forwards start with the usual "Forwarded message" header
+ * block. Replies are written above (top-posting) or below (bottom-posting) the
+ * quote, as chosen in the settings modal and kept in localStorage.
+ */
+
+import type { Email } from '../../types/email';
+import { APP_CONFIG } from '../config/config.js';
+import { QUOTE_CLASS, cleanHtmlFragment, escapeHtml, plainTextToHtml } from '../ui/rich-text-editor.js';
+import { formatAddressList, toAddresses } from '../utils/address-parser.js';
+
+export type ReplyPosition = 'top' | 'bottom';
+
+// Reply and forward prefixes, including localized ones and counters ("Re[2]:")
+const REPLY_PREFIX = /^\s*(re|aw|sv|vs|antw|odp|rif|res)\s*(\[\d+\]|\(\d+\))?\s*:\s*/i;
+const FORWARD_PREFIX = /^\s*(fwd?|wg|tr|rv|enc|vb|doorst)\s*(\[\d+\]|\(\d+\))?\s*:\s*/i;
+
+const STORAGE_KEY = 'reply-position';
+
+// Quote style understood by other mail clients (as sent by Gmail)
+const BLOCKQUOTE_STYLE = 'margin:0 0 0 .8ex;border-left:1px solid #ccc;padding-left:1ex';
+
+/**
+ * Remove leading prefixes from a subject
+ * @param subject - Subject
+ * @param prefix - Prefix pattern (anchored at the start)
+ * @returns Subject without the prefixes
+ */
+function stripPrefixes(subject: string, prefix: RegExp): string {
+  let result = subject || '';
+  while (prefix.test(result)) {
+    result = result.replace(prefix, '');
+  }
+  return result.trim();
+}
+
+/**
+ * Subject of a reply
+ * @param subject - Subject of the message replied to
+ * @returns e.g. "Re: Budget" for "RE: Re: AW: Budget"
+ */
+export function getReplySubject(subject: string): string {
+  return `Re: ${stripPrefixes(subject, REPLY_PREFIX)}`;
+}
+
+/**
+ * Subject of a forward
+ * @param subject - Subject of the forwarded message
+ * @returns e.g. "Fwd: Budget" for "FW: Budget"
+ */
+export function getForwardSubject(subject: string): string {
+  return `Fwd: ${stripPrefixes(subject, FORWARD_PREFIX)}`;
+}
+
+/**
+ * Subject without reply and forward prefixes
+ * @param subject - Subject
+ * @returns e.g. "Budget" for "Re: Fwd: Budget"
+ */
+export function getBaseSubject(subject: string): string {
+  let result = subject || '';
+  let previous: string;
+  do {
+    previous = result;
+    result = stripPrefixes(stripPrefixes(result, REPLY_PREFIX), FORWARD_PREFIX);
+  } while (result !== previous);
+  return result;
+}
+
+/**
+ * Format the date of a quoted message
+ * @param date - Message date
+ * @returns e.g. "Mon, Jan 6, 2025 at 9:30 AM"
+ */
+function formatQuoteDate(date: string): string {
+  const value = new Date(date);
+  if (isNaN(value.getTime())) {
+    return date || '';
+  }
+  const day = value.toLocaleDateString(undefined, { weekday: 'short', year: 'numeric', month: 'short', day: 'numeric' });
+  const time = value.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+  return `${day} at ${time}`;
+}
+
+/**
+ * Attribution line above quoted text
+ * @param email - Message replied to
+ * @returns e.g. "On Mon, Jan 6, 2025 at 9:30 AM, Jane Doe <jane@example.com> wrote:"
+ */
+export function getAttribution(email: Email): string {
+  const from = formatAddressList(toAddresses(email.from)) || 'Unknown sender';
+  return `On ${formatQuoteDate(email.date)}, ${from} wrote:`;
+}
+
+/**
+ * Body of the original message as HTML (plain-text messages are converted)
+ */
+function getOriginalHtml(email: Email): string {
+  return email.bodyHtml && email.bodyHtml.trim()
+    ? cleanHtmlFragment(email.bodyHtml)
+    : plainTextToHtml(email.bodyText || email.body || '');
+}
+
+/**
+ * Compose body of a reply: an empty line to write on and the quoted original
+ * @param email - Message replied to
+ * @param position - Reply above (top) or below (bottom) the quote
+ * @param body - Reply written so far (e.g. in the inline reply box), as HTML
+ * @returns Editor HTML
+ */
+export function buildReplyHtml(email: Email, position: ReplyPosition, body: string = '<p><br></p>'): string {
+  const quote = `<div class="${QUOTE_CLASS}">`
+    + `<p>${escapeHtml(getAttribution(email))}</p>`
+    + `<blockquote type="cite" style="${BLOCKQUOTE_STYLE}">${getOriginalHtml(email)}</blockquote>`
+    + '</div>';
+  return position === 'bottom' ? `${quote}${body}` : `${body}${quote}`;
+}
+
+/**
+ * Compose body of a forward: an empty line to write on, the forwarded message
+ * header block and the original body
+ * @param email - Forwarded message
+ * @returns Editor HTML
+ */
+export function buildForwardHtml(email: Email): string {
+  const lines = [
+    '---------- Forwarded message ---------',
+    `From: ${formatAddressList(toAddresses(email.from))}`,
+    `Date: ${formatQuoteDate(email.date)}`,
+    `Subject: ${email.subject || ''}`,
+    `To: ${formatAddressList(toAddresses(email.to))}`
+  ];
+  const cc = formatAddressList(toAddresses(email.cc));
+  if (cc) {
+    lines.push(`Cc: ${cc}`);
+  }
+  return `<p><br></p><div class="${QUOTE_CLASS}">`
+    + `<p>${lines.map(escapeHtml).join('<br>')}</p><br>`
+    + `<div>${getOriginalHtml(email)}</div>`
+    + '</div>';
+}
+
+/**
+ * Get where replies are written
+ * @returns 'top' (above the quote) or 'bottom' (below it)
+ */
+export function getReplyPosition(): ReplyPosition {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (saved === 'top' || saved === 'bottom') {
+    return saved;
+  }
+  return APP_CONFIG.ui.replyPosition;
+}
+
+/**
+ * Change where replies are written
+ * @param position - 'top' or 'bottom'
+ */
+export function setReplyPosition(position: ReplyPosition): void {
+  localStorage.setItem(STORAGE_KEY, position);
+}
+
+/**
+ * Wire the reply position select of the settings modal (saved on change)
+ */
+export function initializeReplyPositionSetting(): void {
+  const select = document.getElementById('reply-position') as HTMLSelectElement | null;
+  if (!select) {
+    return;
+  }
+  select.value = getReplyPosition();
+  select.addEventListener('change', () => setReplyPosition(select.value === 'bottom' ? 'bottom' : 'top'));
+}
@@ -0,0 +1,156 @@
+/**
+ * MIME Message Builder Module
+ * Runs in the Electron main process. Builds RFC 5322 messages for providers that
+ * take a raw message (the Gmail API) using nodemailer's MailComposer, which adds
+ * the Date, Message-ID and MIME-Version headers, encodes non-ASCII headers per
+ * RFC 2047 and folds long lines.
+ *
+ * Dependencies: nodemailer (mail-composer)
+ */
+
+import * as crypto from 'crypto';
+import MailComposer from 'nodemailer/lib/mail-composer/index.js';
+import type Mail from 'nodemailer/lib/mailer';
+import type { OutgoingAttachment } from '../../types/email';
+
+/**
+ * Outgoing message to serialize
+ */
+export interface OutgoingMessage {
+  from: string | { name: string; address: string };
+  // Address replies go to, when it differs from from
+  replyTo?: string;
+  // Comma separated recipient lists, e.g. "a@example.com, Bob <bob@example.com>"
+  to: string;
+  cc?: string;
+  bcc?: string;
+  subject: string;
+  // Plain text body; sent as multipart/alternative together with html when both are set
+  text?: string;
+  html?: string;
+  // Threading headers of a reply: the parent's Message-ID and the thread's Message-IDs
+  inReplyTo?: string;
+  references?: string[];
+  // Files sent as multipart/mixed parts
+  attachments?: OutgoingAttachment[];
+  // Additional header fields, e.g. X-Draft-Id
+  headers?: Record<string, string>;
+}
+
+/**
+ * Image embedded in an HTML body as a related part
+ */
+export interface InlineImage {
+  cid: string;
+  filename: string;
+  contentType: string;
+  // base64 encoded image
+  content: string;
+}
+
+/**
+ * Replace data: URL images (as inserted by the compose editor) with cid: references
+ * @param html - Message HTML
+ * @returns HTML referencing the images by Content-ID, and the images to attach
+ */
+export function embedDataImages(html: string): { html: string; images: InlineImage[] } {
+  const images: InlineImage[] = [];
+  const embedded = html.replace(/(<img\b[^>]*?\ssrc=)(["'])data:(image\/[\w.+-]+);base64,([^"']+)\2/gi,
+    (_match, prefix: string, quote: string, contentType: string, content: string) => {
+      const cid = `${crypto.randomUUID()}@inline`;
+      const extension = contentType.split('/')[1].replace(/\+.*$/, '');
+      images.push({ cid, filename: `image${images.length + 1}.${extension}`, contentType, content: content.replace(/\s+/g, '') });
+      return `${prefix}${quote}cid:${cid}${quote}`;
+    });
+  return { html: embedded, images };
+}
+
+/**
+ * Attachment options for nodemailer
+ * Attached messages (message/rfc822, e.g. forwarded as attachment) are written
+ * as they are: RFC 2046 section 5.2.1 does not allow base64 for them.
+ * @param attachment - Attachment from the compose modal (base64 content)
+ * @returns nodemailer attachment
+ */
+export function toMailAttachment(attachment: OutgoingAttachment): Mail.Attachment {
+  const options: Mail.Attachment = {
+    filename: attachment.filename,
+    contentType: attachment.contentType,
+    content: attachment.content,
+    encoding: 'base64'
+  };
+  if (attachment.contentType.toLowerCase() === 'message/rfc822') {
+    options.contentTransferEncoding = false;
+    // nodemailer shows attached messages inline by default
+    options.contentDisposition = 'attachment';
+  }
+  return options;
+}
+
+/**
+ * Add the Resent-* fields of a redirected message (RFC 5322 section 3.6.6)
+ * The message itself is unchanged, so it keeps its original sender.
+ * @param source - Original RFC 5322 message
+ * @param resent - Redirecting address and the new recipients (addresses only)
+ * @returns Message to send
+ */
+export function buildResentMessage(source: Buffer, resent: { from: string; to: string[] }): Buffer {
+  const domain = resent.from.split('@')[1] || 'localhost';
+  const fields = [
+    `Resent-From: ${resent.from}`,
+    `Resent-To: ${resent.to.join(', ')}`,
+    `Resent-Date: ${new Date().toUTCString().replace(/GMT$/, '+0000')}`,
+    `Resent-Message-ID: <${crypto.randomUUID()}@${domain}>`
+  ];
+  return Buffer.concat([Buffer.from(`${fields.join('\r\n')}\r\n`, 'utf8'), source]);
+}
+
+/**
+ * Build the complete MIME message
+ * Inline data: URL images become multipart/related parts.
+ * Bcc is kept in the output: the Gmail API reads the Bcc recipients from the
+ * raw message and removes the header before delivery.
+ * @param message - Message to serialize
+ * @returns RFC 5322 message (CRLF line endings, UTF-8)
+ */
+export async function buildMimeMessage(message: OutgoingMessage): Promise<Buffer> {
+  const { html, images } = embedDataImages(message.html || '');
+  const options: Mail.Options = {
+    from: message.from,
+    replyTo: message.replyTo || undefined,
+    to: message.to,
+    cc: message.cc || undefined,
+    bcc: message.bcc || undefined,
+    subject: message.subject,
+    text: message.text,
+    html: html || undefined,
+    inReplyTo: message.inReplyTo || undefined,
+    references: message.references?.length ? message.references : undefined,
+    attachments: [
+      ...images.map(image => ({
+        filename: image.filename,
+        contentType: image.contentType,
+        content: image.content,
+        encoding: 'base64',
+        cid: image.cid
+      })),
+      ...(message.attachments || []).map(toMailAttachment)
+    ],
+    headers: message.headers,
+    textEncoding: 'quoted-printable'
+  };
+
+  const mimeNode = new MailComposer(options).compile();
+  mimeNode.keepBcc = true;
+  return mimeNode.build();
+}
+
+/**
+ * Build a message encoded for the Gmail API `raw` field
+ * @param message - Message to serialize
+ * @returns base64url encoded MIME message
+ */
+export async function buildGmailRawMessage(message: OutgoingMessage): Promise<string> {
+  const mime = await buildMimeMessage(message);
+  return mime.toString('base64url');
+}
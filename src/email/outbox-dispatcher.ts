@@ -0,0 +1,214 @@
+/**
+ * Outbox Dispatcher Module
+ * Runs in the Electron main process. Sends the messages of the outbox store
+ * when they are due, through the transport of their account. Rate limits and
+ * server errors are retried with exponential backoff (1, 2, 4 ... minutes, at
+ * most an hour apart) up to OUTBOX_MAX_ATTEMPTS times; without a connection
+ * the message waits (re-checked every OFFLINE_RETRY_MS, and right away when the
+ * renderer reports the network is back, see flush). Other errors, and errors
+ * after the last attempt, leave the message in the outbox as failed until it is
+ * retried, edited or cancelled from the UI.
+ */
+
+import type { ScheduledMessage, SendRequest } from '../../types/email';
+import type { OutboxStore } from '../managers/outbox-store.js';
+import { classifySendError, describeSendError } from './send-error.js';
+
+export const OUTBOX_MAX_ATTEMPTS = 6;
+const RETRY_BASE_MS = 60 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+const OFFLINE_RETRY_MS = 2 * 60 * 1000;
+// Long waits are re-checked periodically (setTimeout limits, clock changes, sleep)
+const MAX_TIMER_MS = 60 * 60 * 1000;
+
+/**
+ * Callbacks for the outcome of send attempts
+ */
+export interface OutboxDispatcherEvents {
+  // The message was sent and removed from the outbox
+  onSent?: (message: ScheduledMessage, result: unknown) => void;
+  // A send attempt failed; the message is retried unless its status is 'failed'
+  onFailed?: (message: ScheduledMessage, error: Error) => void;
+  // The outbox changed (status, retry time or a message removed)
+  onChanged?: () => void;
+}
+
+/**
+ * Delay before the next attempt after a number of failed attempts
+ * @param attempts - Failed attempts so far (1 or more)
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * Math.pow(2, Math.max(0, attempts - 1)), RETRY_MAX_MS);
+}
+
+/**
+ * Time a message is due to be sent (its send time, or the time of its next retry)
+ */
+function getDueTime(message: ScheduledMessage): number {
+  return new Date(message.nextAttemptAt || message.sendAt).getTime();
+}
+
+/**
+ * Outbox Dispatcher - Sends scheduled messages when they are due
+ */
+export class OutboxDispatcher {
+  private store: OutboxStore;
+  private send: (request: SendRequest) => Promise<unknown>;
+  private events: OutboxDispatcherEvents;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running: boolean = false;
+  private pending: boolean = false;
+
+  /**
+   * @param store - Outbox store
+   * @param send - Sends a request through its account's transport
+   * @param events - Outcome callbacks
+   */
+  constructor(store: OutboxStore, send: (request: SendRequest) => Promise<unknown>, events: OutboxDispatcherEvents = {}) {
+    this.store = store;
+    this.send = send;
+    this.events = events;
+  }
+
+  /**
+   * Start dispatching; messages that were being sent when the app quit are attempted again
+   */
+  async start(): Promise<void> {
+    for (const message of await this.store.list()) {
+      if (message.status === 'sending') {
+        // The send may or may not have reached the server; sending twice beats losing the message
+        console.warn(`Outbox: Message ${message.id} was interrupted while sending, trying again`);
+        await this.store.update(message.id, { status: 'scheduled' });
+      }
+    }
+    await this.reschedule();
+  }
+
+  /**
+   * Re-arm the timer for the next due message (after the outbox changed)
+   */
+  async reschedule(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const next = (await this.store.list())
+      .filter(message => message.status === 'scheduled')
+      .map(getDueTime)
+      .sort((a, b) => a - b)[0];
+    if (next === undefined) {
+      return;
+    }
+
+    const delay = Math.min(Math.max(next - Date.now(), 0), MAX_TIMER_MS);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.run().catch(error => console.error('Outbox: Dispatch failed:', error));
+    }, delay);
+  }
+
+  /**
+   * Send a message now (retry of a failed message)
+   * @param id - Message id
+   * @returns Updated message, or null if unknown
+   */
+  async sendNow(id: string): Promise<ScheduledMessage | null> {
+    const now = new Date().toISOString();
+    const message = await this.store.update(id, { status: 'scheduled', sendAt: now, nextAttemptAt: undefined, lastError: undefined, lastErrorKind: undefined, attempts: 0 });
+    await this.reschedule();
+    return message;
+  }
+
+  /**
+   * Retry the messages waiting for a retry now (the network is back)
+   * @returns Number of messages retried
+   */
+  async flush(): Promise<number> {
+    const waiting = (await this.store.list())
+      .filter(message => message.status === 'scheduled' && message.nextAttemptAt);
+    for (const message of waiting) {
+      await this.store.update(message.id, { nextAttemptAt: undefined });
+    }
+    if (waiting.length > 0) {
+      console.log(`Outbox: Retrying ${waiting.length} message(s) now`);
+      this.events.onChanged?.();
+    }
+    await this.reschedule();
+    return waiting.length;
+  }
+
+  /**
+   * Stop the timer (app quit)
+   */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Send all due messages, one at a time
+   */
+  private async run(): Promise<void> {
+    if (this.running) {
+      this.pending = true;
+      return;
+    }
+
+    this.running = true;
+    try {
+      const now = Date.now();
+      const due = (await this.store.list())
+        .filter(message => message.status === 'scheduled' && getDueTime(message) <= now);
+      for (const message of due) {
+        await this.dispatch(message);
+      }
+    } finally {
+      this.running = false;
+    }
+
+    if (this.pending) {
+      this.pending = false;
+      await this.run();
+      return;
+    }
+    await this.reschedule();
+  }
+
+  private async dispatch(message: ScheduledMessage): Promise<void> {
+    // Skipped when cancelled or edited since the list was read
+    const current = await this.store.claim(message.id, candidate => candidate.status === 'scheduled' && getDueTime(candidate) <= Date.now());
+    if (!current) {
+      return;
+    }
+
+    this.events.onChanged?.();
+    try {
+      console.log(`Outbox: Sending message ${current.id} (attempt ${current.attempts + 1})`);
+      const result = await this.send(current.request);
+      await this.store.remove(current.id);
+      this.events.onSent?.(current, result);
+    } catch (error: any) {
+      const kind = classifySendError(error);
+      // Attempts without a connection say nothing about the message
+      const attempts = kind === 'offline' ? current.attempts : current.attempts + 1;
+      const failed = kind === 'permanent' || attempts >= OUTBOX_MAX_ATTEMPTS;
+      const retryDelay = kind === 'offline' ? OFFLINE_RETRY_MS : getRetryDelay(attempts);
+      console.error(`Outbox: Failed to send message ${current.id} (${kind}, attempt ${current.attempts + 1}):`, error);
+      const updated = await this.store.update(current.id, {
+        status: failed ? 'failed' : 'scheduled',
+        attempts,
+        nextAttemptAt: failed ? undefined : new Date(Date.now() + retryDelay).toISOString(),
+        lastError: describeSendError(error),
+        lastErrorKind: kind
+      });
+      if (updated) {
+        this.events.onFailed?.(updated, error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+    this.events.onChanged?.();
+  }
+}
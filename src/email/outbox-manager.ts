@@ -0,0 +1,153 @@
+/**
+ * Outbox Manager Module
+ * Renderer side of the outbox: schedules messages, lists, cancels and retries
+ * them (schedule-email, list-outbox, cancel-scheduled-email, retry-scheduled-email),
+ * reports the sends done by the main process, and asks it to retry the waiting
+ * messages when the network comes back (flush-outbox). Every change of the
+ * outbox is announced with an outboxChanged window event.
+ */
+
+import type { ScheduledMessage, ScheduledMessageInput, ScheduledMessageKind, ScheduledMessageStatus, SendErrorKind } from '../../types/email';
+import { uiThemeManager } from '../ui/ui-theme-manager.js';
+import { getIpcRenderer } from '../utils/ipc-renderer.js';
+
+/**
+ * Detail of the outbox-message-sent and outbox-message-failed events
+ */
+interface OutboxEventDetail {
+    id: string;
+    kind?: ScheduledMessageKind;
+    subject: string;
+    status?: ScheduledMessageStatus;
+    errorKind?: SendErrorKind;
+    error?: string;
+}
+
+/**
+ * Outbox Manager - Scheduled messages, sent by the main process
+ */
+class OutboxManager {
+    // Messages whose failed attempt was already reported
+    private warned: Set<string>;
+    private initialized: boolean;
+
+    constructor() {
+        this.warned = new Set();
+        this.initialized = false;
+    }
+
+    /**
+     * Listen for the sends of the main process
+     */
+    initialize(): void {
+        const ipcRenderer = getIpcRenderer();
+        if (this.initialized || !ipcRenderer) {
+            return;
+        }
+
+        ipcRenderer.on('outbox-changed', () => this.announceChange());
+        ipcRenderer.on('outbox-message-sent', (_event: any, { id, kind, subject }: OutboxEventDetail) => {
+            const name = subject || '(no subject)';
+            uiThemeManager.showNotification(kind === 'undo-send' && !this.warned.has(id) ? 'Email sent successfully!' : `Email "${name}" sent`, 'success');
+            this.warned.delete(id);
+            const loadEmails = (globalThis as any).loadEmails || (window as any).loadEmails;
+            if (loadEmails) {
+                loadEmails().catch((error: Error) => console.error('OutboxManager: Failed to reload emails:', error));
+            }
+        });
+        ipcRenderer.on('outbox-message-failed', (_event: any, { id, subject, status, errorKind, error }: OutboxEventDetail) => {
+            const name = subject || '(no subject)';
+            if (status === 'failed') {
+                this.warned.delete(id);
+                uiThemeManager.showNotification(`Email "${name}" could not be sent: ${error}`, 'error');
+            } else if (!this.warned.has(id)) {
+                // Tell once per message; the Outbox view shows the retries
+                this.warned.add(id);
+                uiThemeManager.showNotification(errorKind === 'offline'
+                    ? `You are offline. "${name}" is in the Outbox and will be sent when the connection is back.`
+                    : `Email "${name}" could not be sent yet (${error}). It will be retried.`, 'warning');
+            }
+        });
+        window.addEventListener('online', () => {
+            this.flush().catch(error => console.error('OutboxManager: Failed to flush outbox:', error));
+        });
+
+        this.initialized = true;
+    }
+
+    /**
+     * Schedule a message, or replace a scheduled one
+     * @param input - Send request, compose state and send time
+     * @returns Scheduled message
+     */
+    async schedule(input: ScheduledMessageInput): Promise<ScheduledMessage> {
+        const result = await this.invoke('schedule-email', { message: input });
+        if (!result.success) {
+            throw new Error(result.error || 'Failed to schedule email');
+        }
+        return result.message;
+    }
+
+    /**
+     * List the outbox
+     * @returns Scheduled and failed messages, the next to be sent first
+     */
+    async list(): Promise<ScheduledMessage[]> {
+        const result = await this.invoke('list-outbox');
+        if (!result.success) {
+            throw new Error(result.error || 'Failed to list scheduled emails');
+        }
+        return result.messages;
+    }
+
+    /**
+     * Remove a message from the outbox; fails once it is being sent or was sent
+     * @param id - Message id
+     * @returns The removed message (to edit it)
+     */
+    async cancel(id: string): Promise<ScheduledMessage> {
+        const result = await this.invoke('cancel-scheduled-email', { id });
+        if (!result.success) {
+            throw new Error(result.error || 'Failed to cancel scheduled email');
+        }
+        return result.message;
+    }
+
+    /**
+     * Retry the messages waiting for a retry (the network is back)
+     */
+    async flush(): Promise<void> {
+        const result = await this.invoke('flush-outbox');
+        if (!result.success) {
+            throw new Error(result.error || 'Failed to flush outbox');
+        }
+        if (result.retried > 0) {
+            uiThemeManager.showNotification(`Back online, sending ${result.retried} email(s) from the Outbox`, 'info');
+        }
+    }
+
+    /**
+     * Send a message now (e.g. after it failed)
+     * @param id - Message id
+     */
+    async retry(id: string): Promise<void> {
+        const result = await this.invoke('retry-scheduled-email', { id });
+        if (!result.success) {
+            throw new Error(result.error || 'Failed to retry scheduled email');
+        }
+    }
+
+    private async invoke(channel: string, ...args: any[]): Promise<any> {
+        const ipcRenderer = getIpcRenderer();
+        if (!ipcRenderer) {
+            return { success: false, error: 'Scheduled sending requires the desktop app' };
+        }
+        return await ipcRenderer.invoke(channel, ...args);
+    }
+
+    private announceChange(): void {
+        window.dispatchEvent(new CustomEvent('outboxChanged'));
+    }
+}
+
+export { OutboxManager };
@@ -0,0 +1,370 @@
+/**
+ * Outlook Graph Service Module
+ * Runs in the Electron main process. Fetches and sends Microsoft 365 / Outlook
+ * mail through Microsoft Graph and converts Graph messages into the raw shape
+ * consumed by EmailManager.standardizeEmailObject.
+ *
+ * Dependencies: @microsoft/microsoft-graph-client (imported dynamically, like googleapis)
+ */
+
+import type { Client } from '@microsoft/microsoft-graph-client';
+import type { MailFolder, MailFolderRole } from '../../types/email';
+import { embedDataImages } from './mime-message-builder.js';
+import { parseAddressList } from '../utils/address-parser.js';
+
+/**
+ * Raw Outlook email returned over IPC
+ */
+export interface OutlookRawEmail {
+  id: string;
+  messageId: string;
+  threadId: string;
+  folder: string;
+  from: string;
+  to: string[];
+  cc: string[];
+  subject: string;
+  date: string;
+  html: string;
+  text: string;
+  snippet: string;
+  unread: boolean;
+  inReplyTo?: string;
+  references?: string[];
+  headers: Record<string, string>;
+  attachments: Array<{
+    filename: string;
+    contentType: string;
+    size: number;
+    contentId?: string;
+    contentDisposition: 'inline' | 'attachment';
+    content: string | null;
+    encoding: 'base64';
+  }>;
+}
+
+/**
+ * Options for fetching one page of messages
+ */
+export interface OutlookFetchOptions {
+  folder?: string;
+  maxResults?: number;
+  // @odata.nextLink from the previous page
+  nextLink?: string | null;
+}
+
+/**
+ * Message to send through Graph
+ */
+export interface OutlookSendRequest {
+  to: string;
+  cc?: string;
+  bcc?: string;
+  subject: string;
+  body: string;
+  isHtml?: boolean;
+  attachments?: Array<{ filename: string; contentType: string; content: string }>;
+  // Graph id of the message being replied to; Graph then sets the threading headers
+  replyToMessageId?: string;
+  // Address sent as (the chosen identity); the signed-in mailbox when not set
+  from?: { address: string; name?: string };
+  replyTo?: string;
+}
+
+const DEFAULT_FOLDER = 'INBOX';
+const DEFAULT_MAX_RESULTS = 50;
+// Attachment content above this size is fetched only when opened
+const MAX_PREFETCH_ATTACHMENT_BYTES = 3 * 1024 * 1024;
+const MESSAGE_FIELDS = [
+  'id', 'conversationId', 'internetMessageId', 'subject', 'from', 'toRecipients', 'ccRecipients',
+  'receivedDateTime', 'body', 'bodyPreview', 'isRead', 'hasAttachments', 'internetMessageHeaders'
+].join(',');
+
+// Graph well-known folder names and the role they map to
+const WELL_KNOWN_FOLDERS: Array<{ name: string; role: MailFolderRole }> = [
+  { name: 'inbox', role: 'inbox' },
+  { name: 'sentitems', role: 'sent' },
+  { name: 'drafts', role: 'drafts' },
+  { name: 'archive', role: 'archive' },
+  { name: 'junkemail', role: 'spam' },
+  { name: 'deleteditems', role: 'trash' }
+];
+
+/**
+ * Create a Graph client for the given access token
+ * @param accessToken - Microsoft access token
+ * @returns Graph client
+ */
+export async function createGraphClient(accessToken: string): Promise<Client> {
+  const { Client } = await import('@microsoft/microsoft-graph-client');
+  return Client.init({
+    authProvider: (done) => done(null, accessToken)
+  });
+}
+
+/**
+ * Graph path for a folder; the inbox is addressed as INBOX across providers
+ * @param folder - Folder id or well-known name
+ * @returns URL-safe folder segment
+ */
+function folderPath(folder: string): string {
+  return encodeURIComponent(folder.toUpperCase() === 'INBOX' ? 'inbox' : folder);
+}
+
+/**
+ * Format a Graph recipient as "Name <email>"
+ */
+function formatRecipient(recipient: any): string {
+  const address = recipient?.emailAddress?.address || '';
+  const name = recipient?.emailAddress?.name;
+  return name && name !== address ? `${name} <${address}>` : address;
+}
+
+/**
+ * Parse a comma separated recipient list into Graph recipients
+ * @param value - e.g. "a@example.com, Bob <bob@example.com>"
+ * @returns Graph recipients
+ */
+function toGraphRecipients(value?: string): Array<{ emailAddress: { address: string; name?: string } }> {
+  return parseAddressList(value || '').map(address => ({ emailAddress: { address: address.email, name: address.name } }));
+}
+
+/**
+ * Convert a Graph message into a raw email object
+ * @param message - Graph message
+ * @param folder - Folder the message was fetched from
+ * @returns Raw email object
+ */
+export function toRawOutlookEmail(message: any, folder: string): OutlookRawEmail {
+  const headers: Record<string, string> = {};
+  (message.internetMessageHeaders || []).forEach((header: { name: string; value: string }) => {
+    headers[header.name.toLowerCase()] = header.value;
+  });
+  if (message.internetMessageId) {
+    headers['message-id'] = message.internetMessageId;
+  }
+
+  const isHtml = message.body?.contentType === 'html';
+  const content = message.body?.content || '';
+
+  return {
+    id: message.id,
+    messageId: message.id,
+    threadId: message.conversationId || '',
+    folder,
+    from: formatRecipient(message.from),
+    to: (message.toRecipients || []).map(formatRecipient),
+    cc: (message.ccRecipients || []).map(formatRecipient),
+    subject: message.subject || '',
+    date: message.receivedDateTime || new Date().toISOString(),
+    html: isHtml ? content : '',
+    text: isHtml ? '' : content,
+    snippet: message.bodyPreview || '',
+    unread: !message.isRead,
+    inReplyTo: headers['in-reply-to'],
+    references: headers['references'] ? headers['references'].split(/\s+/).filter(Boolean) : undefined,
+    headers,
+    attachments: []
+  };
+}
+
+/**
+ * Fetch attachments of a message; content is included for small files only
+ * @param client - Graph client
+ * @param messageId - Graph message id
+ * @returns Raw attachments
+ */
+export async function fetchOutlookAttachments(client: Client, messageId: string): Promise<OutlookRawEmail['attachments']> {
+  const response = await client
+    .api(`/me/messages/${encodeURIComponent(messageId)}/attachments`)
+    .select('id,name,contentType,size,isInline')
+    .get();
+
+  const attachments: OutlookRawEmail['attachments'] = [];
+  for (const attachment of response.value || []) {
+    // Item and reference attachments have no downloadable bytes
+    if (attachment['@odata.type'] !== '#microsoft.graph.fileAttachment') continue;
+
+    let content: string | null = null;
+    let contentId: string | undefined;
+    if (attachment.size <= MAX_PREFETCH_ATTACHMENT_BYTES) {
+      const full = await client.api(`/me/messages/${encodeURIComponent(messageId)}/attachments/${encodeURIComponent(attachment.id)}`).get();
+      content = full.contentBytes || null;
+      contentId = full.contentId || undefined;
+    }
+
+    attachments.push({
+      filename: attachment.name || 'attachment',
+      contentType: attachment.contentType || 'application/octet-stream',
+      size: attachment.size || 0,
+      contentId,
+      contentDisposition: attachment.isInline ? 'inline' : 'attachment',
+      content,
+      encoding: 'base64'
+    });
+  }
+  return attachments;
+}
+
+/**
+ * Fetch one page of messages from a folder, newest first
+ * @param client - Graph client
+ * @param options - Folder, page size and nextLink of the previous page
+ * @returns Raw emails and the link to the next (older) page, null at the end
+ */
+export async function fetchOutlookMessages(
+  client: Client,
+  options: OutlookFetchOptions = {}
+): Promise<{ emails: OutlookRawEmail[]; nextLink: string | null }> {
+  const folder = options.folder || DEFAULT_FOLDER;
+  const request = options.nextLink
+    ? client.api(options.nextLink)
+    : client
+      .api(`/me/mailFolders/${folderPath(folder)}/messages`)
+      .select(MESSAGE_FIELDS)
+      .orderby('receivedDateTime desc')
+      .top(options.maxResults || DEFAULT_MAX_RESULTS);
+
+  const response = await request.get();
+  const messages: any[] = response.value || [];
+  console.log(`OutlookGraph: Fetched ${messages.length} messages from ${folder}`);
+
+  const emails = await Promise.all(messages.map(async (message) => {
+    const email = toRawOutlookEmail(message, folder);
+    if (message.hasAttachments) {
+      try {
+        email.attachments = await fetchOutlookAttachments(client, message.id);
+      } catch (error) {
+        console.warn(`OutlookGraph: Failed to fetch attachments of ${message.id}:`, error);
+      }
+    }
+    return email;
+  }));
+
+  return { emails, nextLink: response['@odata.nextLink'] || null };
+}
+
+/**
+ * List mail folders (including nested ones) with unread counts
+ * Well-known folders use their Graph well-known name as id (the inbox is INBOX).
+ * @param client - Graph client
+ * @returns Well-known folders first, each followed by its subfolders, then the rest in Graph order
+ */
+export async function listOutlookFolders(client: Client): Promise<MailFolder[]> {
+  // Resolve the ids of well-known folders so they can be given a role
+  const wellKnownIds = new Map<string, { name: string; role: MailFolderRole }>();
+  await Promise.all(WELL_KNOWN_FOLDERS.map(async (wellKnown) => {
+    try {
+      const folder = await client.api(`/me/mailFolders/${wellKnown.name}`).select('id').get();
+      wellKnownIds.set(folder.id, wellKnown);
+    } catch {
+      // Not every mailbox has every well-known folder (e.g. archive)
+    }
+  }));
+
+  // One group per top-level folder, holding the folder and its subfolders
+  const groups: MailFolder[][] = [];
+  const collect = async (path: string, depth: number, group?: MailFolder[]) => {
+    let next: string | null = path;
+    while (next) {
+      const response: any = await client.api(next).get();
+      for (const folder of response.value || []) {
+        const wellKnown = wellKnownIds.get(folder.id);
+        const folders = group || [];
+        if (!group) groups.push(folders);
+        folders.push({
+          id: wellKnown ? (wellKnown.role === 'inbox' ? 'INBOX' : wellKnown.name) : folder.id,
+          name: folder.displayName,
+          type: wellKnown ? 'system' : 'user',
+          role: wellKnown?.role,
+          unreadCount: folder.unreadItemCount || 0,
+          totalCount: folder.totalItemCount || 0,
+          depth
+        });
+        if (folder.childFolderCount > 0 && depth < 4) {
+          await collect(`/me/mailFolders/${encodeURIComponent(folder.id)}/childFolders?$top=100`, depth + 1, folders);
+        }
+      }
+      next = response['@odata.nextLink'] || null;
+    }
+  };
+  await collect('/me/mailFolders?$top=100', 0);
+
+  const rank = (group: MailFolder[]) => {
+    const index = WELL_KNOWN_FOLDERS.findIndex(wellKnown => wellKnown.role === group[0].role);
+    return index >= 0 ? index : WELL_KNOWN_FOLDERS.length;
+  };
+  const folders = groups.sort((a, b) => rank(a) - rank(b)).flat();
+  console.log(`OutlookGraph: Listed ${folders.length} folders`);
+  return folders;
+}
+
+/**
+ * Fetch the MIME source of a message (e.g. to forward it as an attachment)
+ * @param client - Graph client
+ * @param messageId - Graph message id
+ * @returns RFC 5322 message
+ */
+export async function fetchOutlookMimeMessage(client: Client, messageId: string): Promise<Buffer> {
+  const { ResponseType } = await import('@microsoft/microsoft-graph-client');
+  const content: ArrayBuffer = await client.api(`/me/messages/${encodeURIComponent(messageId)}/$value`)
+    .responseType(ResponseType.ARRAYBUFFER)
+    .get();
+  return Buffer.from(content);
+}
+
+/**
+ * Send a message (saved to Sent Items)
+ * Graph does not accept In-Reply-To/References headers, so replies are sent
+ * through the parent's /reply action, which sets them and keeps the conversation.
+ * @param client - Graph client
+ * @param request - Message to send
+ */
+export async function sendOutlookMessage(client: Client, request: OutlookSendRequest): Promise<void> {
+  // Inline data: URL images are sent as inline attachments referenced by cid:
+  const { html, images } = request.isHtml ? embedDataImages(request.body) : { html: request.body, images: [] };
+  const message: any = {
+    subject: request.subject,
+    body: {
+      contentType: request.isHtml ? 'HTML' : 'Text',
+      content: html
+    },
+    toRecipients: toGraphRecipients(request.to),
+    ccRecipients: toGraphRecipients(request.cc),
+    bccRecipients: toGraphRecipients(request.bcc)
+  };
+  if (request.from) {
+    message.from = { emailAddress: request.from };
+  }
+  if (request.replyTo) {
+    message.replyTo = toGraphRecipients(request.replyTo);
+  }
+
+  if (request.attachments?.length || images.length) {
+    message.attachments = [
+      ...images.map(image => ({
+        '@odata.type': '#microsoft.graph.fileAttachment',
+        name: image.filename,
+        contentType: image.contentType,
+        contentBytes: image.content,
+        contentId: image.cid,
+        isInline: true
+      })),
+      ...(request.attachments || []).map(attachment => ({
+        '@odata.type': '#microsoft.graph.fileAttachment',
+        name: attachment.filename,
+        contentType: attachment.contentType,
+        contentBytes: attachment.content
+      }))
+    ];
+  }
+
+  if (request.replyToMessageId) {
+    await client.api(`/me/messages/${encodeURIComponent(request.replyToMessageId)}/reply`).post({ message });
+    console.log('OutlookGraph: Reply sent');
+    return;
+  }
+
+  await client.api('/me/sendMail').post({ message, saveToSentItems: true });
+  console.log('OutlookGraph: Message sent');
+}
@@ -0,0 +1,152 @@
+/**
+ * Reply Recipients Module
+ * Works out who a reply goes to. Replies go to Reply-To (or Mail-Reply-To)
+ * instead of From when the message sets it; reply-all goes to
+ * Mail-Followup-To when set, otherwise to the sender plus the original To and
+ * Cc; reply to list goes to the List-Post address. Our own addresses (the
+ * accounts, and the address the message was delivered to, which covers
+ * aliases) are left out, and addresses are de-duplicated case-insensitively.
+ */
+
+import type { Email, EmailAddress } from '../../types/email';
+import type { MailAccount } from '../../types/config';
+import { parseAddressList, toAddresses } from '../utils/address-parser.js';
+
+export type ReplyMode = 'reply' | 'reply-all' | 'reply-list';
+
+/**
+ * Recipients of a reply
+ */
+export interface ReplyRecipients {
+  to: EmailAddress[];
+  cc: EmailAddress[];
+}
+
+/**
+ * Read an address header of a loaded message. Gmail and Graph messages hold
+ * header strings; IMAP messages hold the mailparser address objects.
+ * @param email - Message
+ * @param name - Header name, lowercase
+ * @returns Addresses (empty when the header is missing)
+ */
+export function getHeaderAddresses(email: Email, name: string): EmailAddress[] {
+  const value = email.headers?.[name];
+  if (!value) return [];
+  if (typeof value === 'string') return parseAddressList(value);
+
+  const objects = Array.isArray(value) ? value : [value];
+  return objects.flatMap((object: any) => {
+    if (typeof object === 'string') return parseAddressList(object);
+    if (Array.isArray(object?.value)) {
+      // Groups ("team: a@x, b@x;") list their members in group
+      return object.value
+        .flatMap((entry: any) => (Array.isArray(entry.group) ? entry.group : [entry]))
+        .filter((entry: any) => entry.address)
+        .map((entry: any) => (entry.name ? { name: entry.name, email: entry.address } : { email: entry.address }));
+    }
+    return typeof object?.text === 'string' ? parseAddressList(object.text) : [];
+  });
+}
+
+/**
+ * Posting address of the mailing list a message came from
+ * @param email - Message
+ * @returns The List-Post mailto address, or null when the message is not from a
+ *   list or the list does not accept posts ("List-Post: NO")
+ */
+export function getListPostAddress(email: Email): EmailAddress | null {
+  // mailparser collects the List-* headers into a "list" object
+  const parsed = email.headers?.list?.post?.mail;
+  if (typeof parsed === 'string' && parsed) {
+    return { email: parsed };
+  }
+
+  const value = email.headers?.['list-post'];
+  const match = typeof value === 'string' ? value.match(/<mailto:([^>?]+)/i) : null;
+  return match ? { email: decodeURIComponent(match[1]).trim() } : null;
+}
+
+/**
+ * Our own addresses for a message, lowercase
+ * @param email - Message replied to
+ * @returns The account addresses and the addresses the message was delivered to
+ */
+export function getOwnAddresses(email: Email): Set<string> {
+  const own = new Set<string>();
+  const accounts: MailAccount[] = (window as any).mailAccounts || [];
+  accounts.forEach(account => account.email && own.add(account.email.toLowerCase()));
+  const emailConfig = (window as any).emailConfig;
+  if (emailConfig?.email) {
+    own.add(String(emailConfig.email).toLowerCase());
+  }
+  ['delivered-to', 'x-original-to'].forEach(name => {
+    getHeaderAddresses(email, name).forEach(address => own.add(address.email.toLowerCase()));
+  });
+  return own;
+}
+
+/**
+ * Addresses without duplicates, our own addresses and those already used
+ * @param addresses - Candidate addresses
+ * @param exclude - Lowercase addresses to leave out; the kept ones are added
+ * @returns Kept addresses, in order
+ */
+function uniqueAddresses(addresses: EmailAddress[], exclude: Set<string>): EmailAddress[] {
+  return addresses.filter(address => {
+    const key = address.email?.trim().toLowerCase();
+    if (!key || exclude.has(key)) return false;
+    exclude.add(key);
+    return true;
+  });
+}
+
+/**
+ * Work out the recipients of a reply
+ * @param email - Message replied to
+ * @param mode - Reply to the sender, to all, or to the mailing list
+ * @param ownAddresses - Our own addresses, lowercase (defaults to getOwnAddresses)
+ * @returns Recipients, or null for a list reply to a message that is not from a list
+ */
+export function resolveReplyRecipients(email: Email, mode: 'reply' | 'reply-all', ownAddresses?: Set<string>): ReplyRecipients;
+export function resolveReplyRecipients(email: Email, mode: ReplyMode, ownAddresses?: Set<string>): ReplyRecipients | null;
+export function resolveReplyRecipients(email: Email, mode: ReplyMode, ownAddresses: Set<string> = getOwnAddresses(email)): ReplyRecipients | null {
+  const from = toAddresses(email.from);
+  const originalTo = toAddresses(email.to);
+  const originalCc = toAddresses(email.cc);
+  const sentByUs = from.some(address => ownAddresses.has(address.email.toLowerCase()));
+
+  if (mode === 'reply-list') {
+    const list = getListPostAddress(email);
+    return list ? { to: uniqueAddresses([list], new Set(ownAddresses)), cc: [] } : null;
+  }
+
+  const replyTo = getHeaderAddresses(email, 'mail-reply-to');
+  const author = replyTo.length > 0 ? replyTo : getHeaderAddresses(email, 'reply-to');
+  // Replying to our own message continues the conversation with its recipients
+  const direct = sentByUs ? originalTo : (author.length > 0 ? author : from);
+
+  const used = new Set(ownAddresses);
+  let to: EmailAddress[];
+  let cc: EmailAddress[] = [];
+  if (mode === 'reply') {
+    to = uniqueAddresses(direct, used);
+  } else {
+    const followupTo = getHeaderAddresses(email, 'mail-followup-to');
+    if (followupTo.length > 0) {
+      to = uniqueAddresses(followupTo, used);
+    } else {
+      to = uniqueAddresses(direct, used);
+      cc = uniqueAddresses(sentByUs ? originalCc : [...originalTo, ...originalCc], used);
+    }
+  }
+
+  if (to.length === 0 && cc.length > 0) {
+    to = cc;
+    cc = [];
+  }
+  if (to.length === 0) {
+    // A message to ourselves: reply to its sender
+    to = uniqueAddresses(from, new Set());
+  }
+  return { to, cc };
+}
@@ -0,0 +1,314 @@
+/**
+ * Send Checks Module
+ * Checks a message before it is sent or scheduled: an attachment mentioned
+ * but not attached, an empty subject, recipients outside the organisation's
+ * domains, long To/Cc lists that should be Bcc, and card or IBAN numbers in
+ * the text. Each finding is a warning the user can override ("Send anyway").
+ * Further checks can be added with registerSendCheck.
+ *
+ * Which checks run, the organisation's domains and the recipient limit are set
+ * in the settings modal and kept in localStorage; the defaults come from
+ * APP_CONFIG.ui.
+ */
+
+import type { MailAccount } from '../../types/config';
+import type { EmailAddress, OutgoingAttachment } from '../../types/email';
+import { APP_CONFIG } from '../config/config.js';
+
+/**
+ * Message as seen by the checks
+ */
+export interface SendCheckInput {
+    to: EmailAddress[];
+    cc: EmailAddress[];
+    bcc: EmailAddress[];
+    subject: string;
+    // Text written in this message, without the signature and quoted text
+    text: string;
+    attachments: OutgoingAttachment[];
+    account: MailAccount | null;
+}
+
+/**
+ * Check rules chosen in the settings modal
+ */
+export interface SendCheckSettings {
+    // Ids of the checks that are turned off
+    disabled: string[];
+    // Recipients outside these domains (and their subdomains) are external
+    organisationDomains: string[];
+    // More To and Cc recipients than this should be Bcc
+    maxVisibleRecipients: number;
+}
+
+/**
+ * A check run before sending
+ */
+export interface SendCheck {
+    id: string;
+    // Shown in the settings modal and as the warning title
+    label: string;
+    /**
+     * @returns Warning text, or null when the message passes
+     */
+    run(message: SendCheckInput, settings: SendCheckSettings): string | null;
+}
+
+/**
+ * Finding of a check
+ */
+export interface SendWarning {
+    checkId: string;
+    label: string;
+    message: string;
+}
+
+const STORAGE_KEY = 'send-checks';
+
+const ATTACHMENT_PATTERN = /\b(attach(ed|es|ing|ment|ments)?|enclosed)\b/i;
+// 13-19 digits, optionally grouped with spaces or dashes
+const CARD_PATTERN = /\b\d(?:[ -]?\d){12,18}\b/g;
+// Country code, check digits and up to 30 letters or digits, optionally in groups of four
+const IBAN_PATTERN = /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g;
+
+/**
+ * Luhn checksum of a card number
+ */
+function isLuhnValid(digits: string): boolean {
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+        let digit = Number(digits[digits.length - 1 - i]);
+        if (i % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) digit -= 9;
+        }
+        sum += digit;
+    }
+    return sum % 10 === 0;
+}
+
+/**
+ * ISO 13616 check digits (mod 97) of an IBAN
+ */
+function isIbanValid(iban: string): boolean {
+    const rearranged = iban.slice(4) + iban.slice(0, 4);
+    let remainder = 0;
+    for (const char of rearranged) {
+        const value = parseInt(char, 36);
+        remainder = (remainder * (value > 9 ? 100 : 10) + value) % 97;
+    }
+    return remainder === 1;
+}
+
+/**
+ * Whether an address belongs to one of the domains (or a subdomain)
+ */
+function isInDomains(address: string, domains: string[]): boolean {
+    const domain = address.split('@').pop()?.toLowerCase() || '';
+    return domains.some(candidate => domain === candidate || domain.endsWith(`.${candidate}`));
+}
+
+/**
+ * List a few addresses, and how many more there are
+ */
+function summarizeAddresses(addresses: EmailAddress[]): string {
+    const shown = addresses.slice(0, 3).map(address => address.email).join(', ');
+    return addresses.length > 3 ? `${shown} and ${addresses.length - 3} more` : shown;
+}
+
+const checks: SendCheck[] = [
+    {
+        id: 'missing-attachment',
+        label: 'Forgotten attachment',
+        run: (message) => (
+            message.attachments.length === 0 && ATTACHMENT_PATTERN.test(message.text)
+                ? 'The message mentions an attachment, but nothing is attached.'
+                : null
+        )
+    },
+    {
+        id: 'empty-subject',
+        label: 'Empty subject',
+        run: (message) => (message.subject.trim() ? null : 'The message has no subject.')
+    },
+    {
+        id: 'external-recipients',
+        label: 'Recipients outside the organisation',
+        run: (message, settings) => {
+            if (settings.organisationDomains.length === 0) {
+                return null;
+            }
+            const external = [...message.to, ...message.cc, ...message.bcc]
+                .filter(address => !isInDomains(address.email, settings.organisationDomains));
+            return external.length > 0
+                ? `${external.length === 1 ? 'This recipient is' : `${external.length} recipients are`} outside your organisation: ${summarizeAddresses(external)}.`
+                : null;
+        }
+    },
+    {
+        id: 'visible-recipients',
+        label: 'Many recipients in To and Cc',
+        run: (message, settings) => {
+            const visible = message.to.length + message.cc.length;
+            return visible > settings.maxVisibleRecipients
+                ? `${visible} recipients in To and Cc will see each other's addresses. Consider moving them to Bcc.`
+                : null;
+        }
+    },
+    {
+        id: 'sensitive-data',
+        label: 'Card or IBAN numbers',
+        run: (message) => {
+            const found: string[] = [];
+            const cards = (message.text.match(CARD_PATTERN) || [])
+                .map(match => match.replace(/\D/g, ''))
+                .filter(isLuhnValid);
+            if (cards.length > 0) {
+                found.push(`a card number ending in ${cards[0].slice(-4)}`);
+            }
+            const ibans = (message.text.match(IBAN_PATTERN) || [])
+                .map(match => match.replace(/ /g, ''))
+                .filter(isIbanValid);
+            if (ibans.length > 0) {
+                found.push(`an IBAN ending in ${ibans[0].slice(-4)}`);
+            }
+            return found.length > 0 ? `The message contains what looks like ${found.join(' and ')}.` : null;
+        }
+    }
+];
+
+/**
+ * Add a check; checks run in the order they were registered
+ * @param check - Check (replaces a registered check with the same id)
+ */
+export function registerSendCheck(check: SendCheck): void {
+    const index = checks.findIndex(candidate => candidate.id === check.id);
+    if (index >= 0) {
+        checks[index] = check;
+    } else {
+        checks.push(check);
+    }
+}
+
+/**
+ * Registered checks
+ * @returns Checks, in the order they run
+ */
+export function getSendChecks(): SendCheck[] {
+    return [...checks];
+}
+
+/**
+ * Read a domain list ("example.com, @example.org")
+ * @param text - Domains separated by commas, semicolons or whitespace
+ * @returns Lowercase domains
+ */
+export function parseDomains(text: string): string[] {
+    const domains = text.split(/[\s,;]+/)
+        .map(domain => domain.trim().toLowerCase().replace(/^(\*\.|@)/, ''))
+        .filter(Boolean);
+    return Array.from(new Set(domains));
+}
+
+/**
+ * Get the check rules
+ * @returns Settings, with the APP_CONFIG defaults for anything not saved
+ */
+export function getSendCheckSettings(): SendCheckSettings {
+    const defaults: SendCheckSettings = {
+        disabled: [],
+        organisationDomains: APP_CONFIG.ui.organisationDomains,
+        maxVisibleRecipients: APP_CONFIG.ui.maxVisibleRecipients
+    };
+
+    try {
+        const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+        return {
+            disabled: Array.isArray(saved.disabled) ? saved.disabled : defaults.disabled,
+            organisationDomains: Array.isArray(saved.organisationDomains) ? saved.organisationDomains : defaults.organisationDomains,
+            maxVisibleRecipients: typeof saved.maxVisibleRecipients === 'number' && saved.maxVisibleRecipients > 0
+                ? saved.maxVisibleRecipients
+                : defaults.maxVisibleRecipients
+        };
+    } catch {
+        return defaults;
+    }
+}
+
+/**
+ * Change the check rules
+ * @param settings - Rules to change
+ */
+export function setSendCheckSettings(settings: Partial<SendCheckSettings>): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...getSendCheckSettings(), ...settings }));
+}
+
+/**
+ * Run the enabled checks
+ * @param message - Message about to be sent
+ * @returns Warnings, empty when the message passes
+ */
+export function runSendChecks(message: SendCheckInput): SendWarning[] {
+    const settings = getSendCheckSettings();
+    const warnings: SendWarning[] = [];
+    checks.filter(check => !settings.disabled.includes(check.id)).forEach(check => {
+        try {
+            const warning = check.run(message, settings);
+            if (warning) {
+                warnings.push({ checkId: check.id, label: check.label, message: warning });
+            }
+        } catch (error) {
+            // A failing check must not keep the message from being sent
+            console.error(`Send check ${check.id} failed:`, error);
+        }
+    });
+    return warnings;
+}
+
+/**
+ * Wire the send checks section of the settings modal (saved on change)
+ */
+export function initializeSendCheckSettings(): void {
+    const settings = getSendCheckSettings();
+
+    const options = document.getElementById('send-check-options');
+    if (options) {
+        options.innerHTML = '';
+        checks.forEach(check => {
+            const label = document.createElement('label');
+            label.className = 'send-check-option';
+            const checkbox = document.createElement('input');
+            checkbox.type = 'checkbox';
+            checkbox.checked = !settings.disabled.includes(check.id);
+            checkbox.addEventListener('change', () => {
+                const disabled = getSendCheckSettings().disabled.filter(id => id !== check.id);
+                setSendCheckSettings({ disabled: checkbox.checked ? disabled : [...disabled, check.id] });
+            });
+            label.append(checkbox, ` ${check.label}`);
+            options.appendChild(label);
+        });
+    }
+
+    const domainsInput = document.getElementById('organisation-domains') as HTMLInputElement | null;
+    if (domainsInput) {
+        domainsInput.value = settings.organisationDomains.join(', ');
+        domainsInput.addEventListener('change', () => {
+            const organisationDomains = parseDomains(domainsInput.value);
+            domainsInput.value = organisationDomains.join(', ');
+            setSendCheckSettings({ organisationDomains });
+        });
+    }
+
+    const limitInput = document.getElementById('max-visible-recipients') as HTMLInputElement | null;
+    if (limitInput) {
+        limitInput.value = String(settings.maxVisibleRecipients);
+        limitInput.addEventListener('change', () => {
+            const limit = parseInt(limitInput.value, 10);
+            if (limit > 0) {
+                setSendCheckSettings({ maxVisibleRecipients: limit });
+            } else {
+                limitInput.value = String(getSendCheckSettings().maxVisibleRecipients);
+            }
+        });
+    }
+}
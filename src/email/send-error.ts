@@ -0,0 +1,113 @@
+/**
+ * Send Error Module
+ * Runs in the Electron main process. Tells apart the errors of the send
+ * transports (Gmail API, Microsoft Graph, SMTP via nodemailer) that are worth
+ * retrying from the ones that need the user: no network, rate limits and
+ * sending quotas, and server errors are retried by the outbox; authentication
+ * and rejected messages are not.
+ */
+
+import type { SendErrorKind } from '../../types/email';
+
+// Node, DNS and nodemailer codes of failed connections
+const OFFLINE_CODES = new Set([
+  'ENOTFOUND', 'EAI_AGAIN', 'ECONNREFUSED', 'ECONNRESET', 'ECONNABORTED', 'ETIMEDOUT',
+  'ENETUNREACH', 'ENETDOWN', 'EHOSTUNREACH', 'EPIPE', 'ECONNECTION', 'ESOCKET', 'EDNS',
+  'ERR_INTERNET_DISCONNECTED', 'ERR_NETWORK_CHANGED', 'UND_ERR_CONNECT_TIMEOUT'
+]);
+
+// Gmail API reasons of quota errors, which come as 403 like access errors
+const QUOTA_REASONS = ['userRateLimitExceeded', 'rateLimitExceeded', 'dailyLimitExceeded'];
+
+/**
+ * HTTP status of a Gmail (gaxios) or Graph error
+ */
+function getHttpStatus(error: any): number | undefined {
+  const candidates = [error?.response?.status, error?.status, error?.statusCode, error?.code];
+  const status = candidates.map(value => Number(value)).find(value => value >= 100 && value < 600);
+  return status;
+}
+
+/**
+ * Connection error code, also of errors wrapped by fetch
+ */
+function getNetworkCode(error: any): string | undefined {
+  const codes = [error?.code, error?.cause?.code, error?.errno];
+  return codes.find(code => typeof code === 'string' && OFFLINE_CODES.has(code));
+}
+
+/**
+ * Quota reason of a Gmail error, from its errors list or the response body
+ */
+function getQuotaReason(error: any): string | undefined {
+  const details = [error?.errors, error?.response?.data?.error?.errors]
+    .filter(Array.isArray)
+    .flat();
+  const reason = details.map(detail => detail?.reason).find(value => QUOTA_REASONS.includes(value));
+  if (reason) {
+    return reason;
+  }
+
+  const data = error?.response?.data;
+  const body = typeof data === 'string' ? data : JSON.stringify(data ?? '');
+  return QUOTA_REASONS.find(value => body.includes(value));
+}
+
+/**
+ * Classify a send error
+ * @param error - Error thrown by a transport
+ * @returns 'offline' (no connection), 'transient' (rate limit, server error) or 'permanent'
+ */
+export function classifySendError(error: any): SendErrorKind {
+  if (getNetworkCode(error) || /fetch failed|network|socket hang up/i.test(error?.message || '')) {
+    return 'offline';
+  }
+
+  // SMTP replies: 4xx are temporary (RFC 5321 section 4.2.1), 5xx permanent
+  const smtpCode = Number(error?.responseCode);
+  if (smtpCode >= 400 && smtpCode < 500) {
+    return 'transient';
+  }
+  if (smtpCode >= 500) {
+    return 'permanent';
+  }
+
+  const status = getHttpStatus(error);
+  if (status === 408 || status === 429 || (status !== undefined && status >= 500)) {
+    return 'transient';
+  }
+  if (status === 403 && getQuotaReason(error)) {
+    return 'transient';
+  }
+  return 'permanent';
+}
+
+/**
+ * Explain a send error to the user
+ * @param error - Error thrown by a transport
+ * @returns Message for the outbox view
+ */
+export function describeSendError(error: any): string {
+  const kind = classifySendError(error);
+  const status = getHttpStatus(error);
+  if (kind === 'offline') {
+    return 'No network connection';
+  }
+  if (status === 429) {
+    return 'Sending limit reached, the server asked to try again later';
+  }
+  const quotaReason = status === 403 ? getQuotaReason(error) : undefined;
+  if (quotaReason === 'dailyLimitExceeded') {
+    return 'Daily sending quota of the account reached, will try again later';
+  }
+  if (quotaReason) {
+    return 'Sending limit reached, will try again later';
+  }
+  if (status === 401 || error?.code === 'EAUTH') {
+    return 'Authentication expired. Please sign in to the account again.';
+  }
+  if (status === 403) {
+    return 'The account is not allowed to send this message (access denied)';
+  }
+  return error?.message || 'Failed to send';
+}
@@ -0,0 +1,255 @@
+/**
+ * Signature Manager Module
+ * Loads the signatures and their per-account defaults from the main process
+ * (get-signature-settings) and inserts the signature of the sending identity
+ * (the default of its address, else of its account) into
+ * the compose modal, above or below the quoted text of replies and forwards.
+ * The Signature selector of the compose toolbar switches or removes it.
+ *
+ * Fires a "signaturesChanged" window event after signatures or defaults change.
+ */
+
+import type { EmailSignature, SendIdentity, SignaturePlacement, SignatureSettings } from '../../types/config';
+import type { RichTextEditor } from '../ui/rich-text-editor.js';
+import { htmlToPlainText } from '../ui/rich-text-editor.js';
+import { getIpcRenderer } from '../utils/ipc-renderer.js';
+
+/**
+ * Plain-text variant of a signature, with the "-- " signature delimiter
+ * @param signature - Signature
+ * @returns Plain text
+ */
+export function getSignatureText(signature: EmailSignature): string {
+    const text = signature.text.trim() || htmlToPlainText(signature.html);
+    return text ? `-- \n${text}` : '';
+}
+
+/**
+ * Signature Manager - Signatures of the compose modal
+ */
+class SignatureManager {
+    private editor: RichTextEditor;
+    private getSendingIdentity: () => SendIdentity | null;
+    private settings: SignatureSettings;
+    private select: HTMLSelectElement | null;
+    // Set once the user picked a signature for the current message
+    private chosenManually: boolean;
+
+    /**
+     * @param editor - Message editor the signature is inserted into
+     * @param getSendingIdentity - Identity chosen in the From selector
+     */
+    constructor(editor: RichTextEditor, getSendingIdentity: () => SendIdentity | null) {
+        this.editor = editor;
+        this.getSendingIdentity = getSendingIdentity;
+        this.settings = { signatures: [], defaults: {}, placement: 'above-quote' };
+        this.select = null;
+        this.chosenManually = false;
+    }
+
+    /**
+     * Load the signatures and wire the Signature and From selectors
+     */
+    async initialize(): Promise<void> {
+        this.select = document.getElementById('signature-select') as HTMLSelectElement | null;
+        this.select?.addEventListener('change', () => {
+            this.chosenManually = true;
+            this.insert(this.select?.value || null);
+        });
+        // A new sending identity brings its own signature, unless one was picked by hand
+        document.getElementById('from-account')?.addEventListener('change', () => {
+            if (!this.chosenManually) {
+                this.applyDefault();
+            }
+        });
+
+        await this.reload();
+    }
+
+    /**
+     * Reload the signature settings from the main process
+     */
+    async reload(): Promise<void> {
+        const ipcRenderer = getIpcRenderer();
+        if (!ipcRenderer) {
+            return;
+        }
+        const result = await ipcRenderer.invoke('get-signature-settings');
+        if (!result.success) {
+            console.error('SignatureManager: Failed to load signatures:', result.error);
+            return;
+        }
+        this.settings = result.settings;
+        this.renderSelect();
+        console.log(`SignatureManager: ${this.settings.signatures.length} signatures loaded`);
+    }
+
+    /**
+     * Current signature settings
+     * @returns Signatures, defaults and placement
+     */
+    getSettings(): SignatureSettings {
+        return this.settings;
+    }
+
+    /**
+     * Default signature of a sending account or address
+     * @param accountId - Sending account id
+     * @param address - Sending address, when it differs from the account's own
+     * @returns Signature, or null for no signature
+     */
+    getDefaultFor(accountId: string | undefined, address?: string): EmailSignature | null {
+        const id = (address && this.settings.defaults[address.toLowerCase()])
+            || (accountId && this.settings.defaults[accountId]);
+        return this.settings.signatures.find(signature => signature.id === id) || null;
+    }
+
+    /**
+     * Insert the default signature of the sending identity (new message, reply or forward)
+     */
+    applyDefault(): void {
+        const identity = this.getSendingIdentity();
+        const address = identity?.source === 'account' ? undefined : identity?.email;
+        this.insert(this.getDefaultFor(identity?.accountId, address)?.id || null);
+    }
+
+    /**
+     * Start a new message: the default signature applies again
+     */
+    reset(): void {
+        this.chosenManually = false;
+        this.applyDefault();
+    }
+
+    /**
+     * Show the signature of a restored message (e.g. a draft) in the selector
+     */
+    syncSelection(): void {
+        this.chosenManually = true;
+        if (this.select) {
+            this.select.value = this.editor.getSignatureId() || '';
+        }
+    }
+
+    /**
+     * Create or update a signature
+     * @param signature - Signature (without id to create one)
+     * @returns Saved signature
+     */
+    async saveSignature(signature: Omit<EmailSignature, 'id'> & { id?: string }): Promise<EmailSignature> {
+        const result = await this.invoke('save-signature', { signature });
+        if (!result.success) {
+            throw new Error(result.error || 'Failed to save signature');
+        }
+        await this.changed();
+        return result.signature;
+    }
+
+    /**
+     * Delete a signature
+     * @param id - Signature id
+     */
+    async deleteSignature(id: string): Promise<void> {
+        const result = await this.invoke('delete-signature', { id });
+        if (!result.success) {
+            throw new Error(result.error || 'Failed to delete signature');
+        }
+        await this.changed();
+    }
+
+    /**
+     * Set or clear the default signature of an account or sending address
+     * @param key - Account id or sending address
+     * @param signatureId - Signature id, or null for no signature
+     */
+    async setDefault(key: string, signatureId: string | null): Promise<void> {
+        const result = await this.invoke('set-default-signature', { key, signatureId });
+        if (!result.success) {
+            throw new Error(result.error || 'Failed to set default signature');
+        }
+        await this.changed();
+    }
+
+    /**
+     * Set where signatures go in replies and forwards
+     * @param placement - Above or below the quoted text
+     */
+    async setPlacement(placement: SignaturePlacement): Promise<void> {
+        const result = await this.invoke('set-signature-placement', { placement });
+        if (!result.success) {
+            throw new Error(result.error || 'Failed to set signature placement');
+        }
+        await this.changed();
+    }
+
+    /**
+     * Import the signatures of a Gmail account's send-as addresses
+     * @param accountId - Gmail account id
+     * @returns Number of imported signatures
+     */
+    async importFromGmail(accountId: string): Promise<number> {
+        const result = await this.invoke('import-gmail-signatures', { accountId });
+        if (!result.success) {
+            throw new Error(result.error || 'Failed to import Gmail signatures');
+        }
+        await this.changed();
+        return result.imported;
+    }
+
+    /**
+     * Put a signature into the message, replacing the current one
+     * @param signatureId - Signature id, or null to remove the signature
+     */
+    private insert(signatureId: string | null): void {
+        const signature = this.settings.signatures.find(candidate => candidate.id === signatureId) || null;
+        this.editor.setSignature(signature && {
+            id: signature.id,
+            html: signature.html,
+            text: getSignatureText(signature)
+        }, this.settings.placement);
+        if (this.select) {
+            this.select.value = signature?.id || '';
+        }
+    }
+
+    private async changed(): Promise<void> {
+        await this.reload();
+        window.dispatchEvent(new CustomEvent('signaturesChanged', { detail: { settings: this.settings } }));
+    }
+
+    /**
+     * Call a signature handler of the main process
+     * @param channel - IPC channel
+     * @param payload - Handler arguments
+     * @returns Handler result
+     */
+    private invoke(channel: string, payload: object): Promise<any> {
+        const ipcRenderer = getIpcRenderer();
+        if (!ipcRenderer) {
+            return Promise.reject(new Error('Signatures are not available outside the app'));
+        }
+        return ipcRenderer.invoke(channel, payload);
+    }
+
+    /**
+     * Fill the Signature selector ("No signature" and the signatures by name)
+     */
+    private renderSelect(): void {
+        if (!this.select) return;
+        const selected = this.editor.getSignatureId() || '';
+        this.select.innerHTML = '';
+        const none = document.createElement('option');
+        none.value = '';
+        none.textContent = 'No signature';
+        this.select.appendChild(none);
+        this.settings.signatures.forEach(signature => {
+            const option = document.createElement('option');
+            option.value = signature.id;
+            option.textContent = signature.name;
+            this.select!.appendChild(option);
+        });
+        this.select.value = this.settings.signatures.some(signature => signature.id === selected) ? selected : '';
+    }
+}
+
+export { SignatureManager };
@@ -0,0 +1,304 @@
+/**
+ * Template Manager Module
+ * Loads the message templates from the main process (list-templates) and
+ * inserts them into the compose modal from the Templates selector of the
+ * toolbar, or with Ctrl+Shift+T (Cmd+Shift+T on macOS), which focuses the
+ * selector. Placeholders such as {{sender.firstName}} are filled in from the
+ * message being replied to; unknown placeholders are left as they are.
+ *
+ * Fires a "templatesChanged" window event after templates change.
+ */
+
+import type { EmailTemplate, MailAccount } from '../../types/config';
+import type { Email, EmailAddress } from '../../types/email';
+import type { RichTextEditor } from '../ui/rich-text-editor.js';
+import { escapeHtml } from '../ui/rich-text-editor.js';
+import { toAddresses } from '../utils/address-parser.js';
+import { getIpcRenderer } from '../utils/ipc-renderer.js';
+import { getBaseSubject } from './message-quoting.js';
+
+/**
+ * What the placeholders of a template are filled in from
+ */
+export interface TemplateContext {
+    // Message replied to; its sender fills the sender.* placeholders
+    email: Email | null;
+    // First recipient of the message, used for sender.* when not replying
+    recipient: EmailAddress | null;
+    subject: string;
+    account: MailAccount | null;
+}
+
+/**
+ * Placeholders offered in the templates modal
+ */
+export const TEMPLATE_VARIABLES: Array<{ name: string; description: string }> = [
+    { name: 'sender.firstName', description: 'First name of the person you are replying to' },
+    { name: 'sender.lastName', description: 'Their last name' },
+    { name: 'sender.name', description: 'Their full name' },
+    { name: 'sender.email', description: 'Their address' },
+    { name: 'subject', description: 'Subject, without "Re:"' },
+    { name: 'today', description: "Today's date" },
+    { name: 'me.name', description: 'Your name' },
+    { name: 'me.email', description: 'Your address' }
+];
+
+// Value of the Templates selector option that opens the templates modal
+const MANAGE_OPTION = '__manage';
+
+/**
+ * First and last name of an address; "Doe, Jane" is read as Jane Doe, and
+ * addresses without a name use their local part ("jane.doe@" is Jane)
+ */
+function splitName(address: EmailAddress | null): { name: string; firstName: string; lastName: string } {
+    let name = (address?.name || '').trim().replace(/^["']|["']$/g, '');
+    if (name.includes(',')) {
+        const [last, first] = name.split(',', 2).map(part => part.trim());
+        name = `${first} ${last}`.trim();
+    }
+    if (!name) {
+        const local = (address?.email || '').split('@')[0].split(/[._+-]/)[0];
+        const firstName = local ? local.charAt(0).toUpperCase() + local.slice(1) : '';
+        return { name: firstName, firstName, lastName: '' };
+    }
+    const parts = name.split(/\s+/);
+    return { name, firstName: parts[0], lastName: parts.length > 1 ? parts[parts.length - 1] : '' };
+}
+
+/**
+ * Values of the placeholders
+ * @param context - Message being written
+ * @returns Value per placeholder name
+ */
+export function getTemplateValues(context: TemplateContext): Record<string, string> {
+    // Older caches hold the sender as an address string
+    const [from] = toAddresses(context.email?.from);
+    const sender = from || context.recipient;
+    const { name, firstName, lastName } = splitName(sender);
+    const subject = getBaseSubject(context.email?.subject ?? context.subject);
+    return {
+        'sender.name': name,
+        'sender.firstName': firstName,
+        'sender.lastName': lastName,
+        'sender.email': sender?.email || '',
+        'subject': subject,
+        'today': new Date().toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' }),
+        'me.name': context.account?.displayName || '',
+        'me.email': context.account?.email || ''
+    };
+}
+
+/**
+ * Fill in the placeholders of a template text
+ * @param text - Template HTML or text
+ * @param values - Placeholder values
+ * @param html - Escape the values for HTML
+ * @returns Text with the known placeholders replaced
+ */
+export function fillTemplate(text: string, values: Record<string, string>, html: boolean): string {
+    return text.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (match, name: string) => {
+        if (!(name in values)) return match;
+        return html ? escapeHtml(values[name]) : values[name];
+    });
+}
+
+/**
+ * Template Manager - Templates of the compose modal
+ */
+class TemplateManager {
+    private editor: RichTextEditor;
+    private getContext: () => TemplateContext;
+    private onManage: () => void;
+    private templates: EmailTemplate[];
+    private select: HTMLSelectElement | null;
+
+    /**
+     * @param editor - Message editor templates are inserted into
+     * @param getContext - Message being written (fills the placeholders)
+     * @param onManage - Opens the templates modal
+     */
+    constructor(editor: RichTextEditor, getContext: () => TemplateContext, onManage: () => void) {
+        this.editor = editor;
+        this.getContext = getContext;
+        this.onManage = onManage;
+        this.templates = [];
+        this.select = null;
+    }
+
+    /**
+     * Load the templates and wire the Templates selector and its shortcut
+     */
+    async initialize(): Promise<void> {
+        this.select = document.getElementById('template-select') as HTMLSelectElement | null;
+        this.select?.addEventListener('change', () => {
+            const value = this.select?.value || '';
+            if (this.select) this.select.value = '';
+            if (value === MANAGE_OPTION) {
+                this.onManage();
+            } else if (value) {
+                this.insert(value);
+            }
+        });
+        document.getElementById('compose-modal')?.addEventListener('keydown', (event: KeyboardEvent) => {
+            if ((event.ctrlKey || event.metaKey) && event.shiftKey && event.key.toLowerCase() === 't') {
+                event.preventDefault();
+                this.select?.focus();
+            }
+        });
+
+        await this.reload();
+    }
+
+    /**
+     * Reload the templates from the main process
+     */
+    async reload(): Promise<void> {
+        const ipcRenderer = getIpcRenderer();
+        if (!ipcRenderer) {
+            return;
+        }
+        const result = await ipcRenderer.invoke('list-templates');
+        if (!result.success) {
+            console.error('TemplateManager: Failed to load templates:', result.error);
+            return;
+        }
+        this.templates = result.templates;
+        this.renderSelect();
+        console.log(`TemplateManager: ${this.templates.length} templates loaded`);
+    }
+
+    /**
+     * Current templates
+     * @returns Templates by category, then name
+     */
+    getTemplates(): EmailTemplate[] {
+        return this.templates;
+    }
+
+    /**
+     * Insert a template at the caret; its subject is used when the message has none
+     * @param templateId - Template id
+     */
+    insert(templateId: string): void {
+        const template = this.templates.find(candidate => candidate.id === templateId);
+        if (!template) return;
+
+        const values = getTemplateValues(this.getContext());
+        const subjectInput = document.getElementById('subject-input') as HTMLInputElement | null;
+        if (subjectInput && !subjectInput.value.trim() && template.subject) {
+            subjectInput.value = fillTemplate(template.subject, values, false);
+        }
+        this.editor.insertHtml(fillTemplate(template.html, values, true));
+    }
+
+    /**
+     * Create or update a template
+     * @param template - Template (without id to create one)
+     * @returns Saved template
+     */
+    async saveTemplate(template: Omit<EmailTemplate, 'id' | 'updatedAt'> & { id?: string }): Promise<EmailTemplate> {
+        const result = await this.invoke('save-template', { template });
+        if (!result.success) {
+            throw new Error(result.error || 'Failed to save template');
+        }
+        await this.changed();
+        return result.template;
+    }
+
+    /**
+     * Delete a template
+     * @param id - Template id
+     */
+    async deleteTemplate(id: string): Promise<void> {
+        const result = await this.invoke('delete-template', { id });
+        if (!result.success) {
+            throw new Error(result.error || 'Failed to delete template');
+        }
+        await this.changed();
+    }
+
+    /**
+     * Export all templates to a JSON file chosen by the user
+     * @returns Number of exported templates, or null when cancelled
+     */
+    async exportTemplates(): Promise<number | null> {
+        const result = await this.invoke('export-templates');
+        if (!result.success) {
+            throw new Error(result.error || 'Failed to export templates');
+        }
+        return result.canceled ? null : result.exported;
+    }
+
+    /**
+     * Import templates from a JSON file chosen by the user
+     * @returns Number of imported templates, or null when cancelled
+     */
+    async importTemplates(): Promise<number | null> {
+        const result = await this.invoke('import-templates');
+        if (!result.success) {
+            throw new Error(result.error || 'Failed to import templates');
+        }
+        if (result.canceled) {
+            return null;
+        }
+        await this.changed();
+        return result.imported;
+    }
+
+    /**
+     * Call a template handler of the main process
+     * @param channel - IPC channel
+     * @param args - Handler arguments
+     * @returns Handler result
+     */
+    private invoke(channel: string, ...args: any[]): Promise<any> {
+        const ipcRenderer = getIpcRenderer();
+        if (!ipcRenderer) {
+            return Promise.reject(new Error('Templates are not available outside the app'));
+        }
+        return ipcRenderer.invoke(channel, ...args);
+    }
+
+    private async changed(): Promise<void> {
+        await this.reload();
+        window.dispatchEvent(new CustomEvent('templatesChanged', { detail: { templates: this.templates } }));
+    }
+
+    /**
+     * Fill the Templates selector (templates grouped by category, and "Manage templates…")
+     */
+    private renderSelect(): void {
+        if (!this.select) return;
+        this.select.innerHTML = '';
+        const placeholder = document.createElement('option');
+        placeholder.value = '';
+        placeholder.textContent = 'Templates';
+        this.select.appendChild(placeholder);
+
+        const groups = new Map<string, HTMLElement>();
+        this.templates.forEach(template => {
+            let parent: HTMLElement = this.select!;
+            if (template.category) {
+                if (!groups.has(template.category)) {
+                    const group = document.createElement('optgroup');
+                    group.label = template.category;
+                    groups.set(template.category, group);
+                    this.select!.appendChild(group);
+                }
+                parent = groups.get(template.category)!;
+            }
+            const option = document.createElement('option');
+            option.value = template.id;
+            option.textContent = template.name;
+            parent.appendChild(option);
+        });
+
+        const manage = document.createElement('option');
+        manage.value = MANAGE_OPTION;
+        manage.textContent = 'Manage templates…';
+        this.select.appendChild(manage);
+        this.select.value = '';
+    }
+}
+
+export { TemplateManager };
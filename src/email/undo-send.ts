@@ -0,0 +1,58 @@
+/**
+ * Undo Send Module
+ * Length of the undo window: Send holds a message in the outbox for this
+ * many seconds before the main process sends it, and the "Sending" toast
+ * offers Undo meanwhile. The default comes from APP_CONFIG.ui.undoSendSeconds;
+ * the choice made in the settings modal is kept in localStorage.
+ */
+
+import { APP_CONFIG } from '../config/config.js';
+
+export const UNDO_SEND_MIN_SECONDS = 5;
+export const UNDO_SEND_MAX_SECONDS = 30;
+
+const STORAGE_KEY = 'undo-send-seconds';
+
+/**
+ * Keep a window length within the supported range
+ */
+function clampSeconds(seconds: number): number {
+    return Math.min(Math.max(Math.round(seconds), UNDO_SEND_MIN_SECONDS), UNDO_SEND_MAX_SECONDS);
+}
+
+/**
+ * Get the length of the undo window
+ * @returns Seconds between 5 and 30
+ */
+export function getUndoSendSeconds(): number {
+    const saved = parseInt(localStorage.getItem(STORAGE_KEY) || '', 10);
+    if (!isNaN(saved)) {
+        return clampSeconds(saved);
+    }
+    return clampSeconds(APP_CONFIG.ui.undoSendSeconds);
+}
+
+/**
+ * Change the length of the undo window
+ * @param seconds - Seconds, clamped to 5-30
+ */
+export function setUndoSendSeconds(seconds: number): void {
+    localStorage.setItem(STORAGE_KEY, String(clampSeconds(seconds)));
+}
+
+/**
+ * Wire the undo window select of the settings modal (saved on change)
+ */
+export function initializeUndoSendSetting(): void {
+    const select = document.getElementById('undo-send-delay') as HTMLSelectElement | null;
+    if (!select) {
+        return;
+    }
+
+    const current = String(getUndoSendSeconds());
+    if (!Array.from(select.options).some(option => option.value === current)) {
+        select.add(new Option(`${current} seconds`, current));
+    }
+    select.value = current;
+    select.addEventListener('change', () => setUndoSendSeconds(parseInt(select.value, 10)));
+}
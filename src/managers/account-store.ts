@@ -0,0 +1,191 @@
+/**
+ * Account Store Module
+ * Runs in the Electron main process. Keeps the configured mail accounts (Gmail,
+ * Outlook and IMAP) and their credentials in userData/accounts.json. Credentials
+ * never leave the main process; the renderer only sees MailAccount objects.
+ *
+ * On first run the single-account files written by earlier versions
+ * (google-token.json, microsoft-token.json, email-config.json) are imported. The
+ * imported accounts keep the mail store keys those versions used ('gmail',
+ * 'outlook', 'imap-<email>') as their ids so already cached mail is reused.
+ */
+
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { promises as fsPromises } from 'fs';
+import type { MailAccount, MailAccountType, StoredMailAccount } from '../../types/config';
+import { JsonFileStore } from './json-file-store.js';
+
+/**
+ * On-disk representation of the account list
+ */
+interface AccountStoreFile {
+  version: number;
+  accounts: StoredMailAccount[];
+}
+
+/**
+ * Account to add or update
+ */
+export type AccountInput = Omit<StoredMailAccount, 'id' | 'addedAt'>;
+
+const STORE_VERSION = 1;
+
+/**
+ * Account Store - JSON-backed list of mail accounts and their credentials
+ */
+export class AccountStore {
+  private userDataPath: string;
+  private file: JsonFileStore<AccountStoreFile>;
+
+  constructor(userDataPath: string) {
+    this.userDataPath = userDataPath;
+    this.file = new JsonFileStore<AccountStoreFile>(path.join(userDataPath, 'accounts.json'), {
+      name: 'AccountStore',
+      createEmpty: async () => ({ version: STORE_VERSION, accounts: await this.importLegacyAccounts() }),
+      parse: parsed => Array.isArray(parsed?.accounts) ? { version: STORE_VERSION, accounts: parsed.accounts } : null,
+      indent: 2
+    });
+  }
+
+  /**
+   * List accounts without their credentials
+   * @returns Accounts in the order they were added
+   */
+  async list(): Promise<MailAccount[]> {
+    const { accounts } = await this.file.read();
+    return accounts.map(account => this.toPublicAccount(account));
+  }
+
+  /**
+   * Get an account including its credentials
+   * @param id - Account id
+   * @returns Stored account, or null if unknown
+   */
+  async get(id: string): Promise<StoredMailAccount | null> {
+    const { accounts } = await this.file.read();
+    return accounts.find(account => account.id === id) || null;
+  }
+
+  /**
+   * Get an account of the given type, failing if it does not exist
+   * @param id - Account id
+   * @param type - Expected account type
+   * @returns Stored account
+   */
+  async require(id: string, type: MailAccountType): Promise<StoredMailAccount> {
+    const account = await this.get(id);
+    if (!account) {
+      throw new Error(`Account ${id} not found`);
+    }
+    if (account.type !== type) {
+      throw new Error(`Account ${id} is not a ${type} account`);
+    }
+    return account;
+  }
+
+  /**
+   * Add an account, or update the credentials of the existing account with the same address
+   * @param input - Account type, address and credentials
+   * @returns The added or updated account
+   */
+  upsert(input: AccountInput): Promise<MailAccount> {
+    return this.file.update(({ accounts }) => {
+      const email = input.email.trim();
+      const existing = email
+        ? accounts.find(account => account.type === input.type && account.email.toLowerCase() === email.toLowerCase())
+        : undefined;
+
+      if (existing) {
+        existing.credentials = input.credentials;
+        existing.displayName = input.displayName || existing.displayName;
+        return this.toPublicAccount(existing);
+      }
+
+      const account: StoredMailAccount = {
+        ...input,
+        email,
+        id: `${input.type}-${crypto.randomUUID()}`,
+        addedAt: new Date().toISOString()
+      };
+      accounts.push(account);
+      console.log(`AccountStore: Added ${account.type} account ${account.email || account.id}`);
+      return this.toPublicAccount(account);
+    });
+  }
+
+  /**
+   * Update an account's address, name or credentials
+   * @param id - Account id
+   * @param changes - Fields to change
+   */
+  update(id: string, changes: Partial<Pick<StoredMailAccount, 'email' | 'displayName' | 'credentials'>>): Promise<void> {
+    return this.file.update(({ accounts }) => {
+      const account = accounts.find(candidate => candidate.id === id);
+      if (!account) {
+        throw new Error(`Account ${id} not found`);
+      }
+      Object.assign(account, changes);
+    });
+  }
+
+  /**
+   * Remove an account and its credentials
+   * @param id - Account id
+   * @returns True if the account existed
+   */
+  remove(id: string): Promise<boolean> {
+    return this.file.update(({ accounts }) => {
+      const index = accounts.findIndex(account => account.id === id);
+      if (index < 0) {
+        return false;
+      }
+      accounts.splice(index, 1);
+      return true;
+    });
+  }
+
+  private toPublicAccount(account: StoredMailAccount): MailAccount {
+    return {
+      id: account.id,
+      type: account.type,
+      email: account.email,
+      displayName: account.displayName
+    };
+  }
+
+  /**
+   * Import the single-account credential files of earlier versions
+   * @returns Imported accounts
+   */
+  private async importLegacyAccounts(): Promise<StoredMailAccount[]> {
+    const readJson = async (fileName: string): Promise<any> => {
+      try {
+        return JSON.parse(await fsPromises.readFile(path.join(this.userDataPath, fileName), 'utf8'));
+      } catch {
+        return null;
+      }
+    };
+    const addedAt = new Date().toISOString();
+    const accounts: StoredMailAccount[] = [];
+
+    // The address of OAuth accounts is filled in by the main process once it can ask the provider
+    const googleToken = await readJson('google-token.json');
+    if (googleToken?.access_token) {
+      accounts.push({ id: 'gmail', type: 'gmail', email: '', credentials: googleToken, addedAt });
+    }
+    const microsoftToken = await readJson('microsoft-token.json');
+    if (microsoftToken?.access_token) {
+      accounts.push({ id: 'outlook', type: 'outlook', email: '', credentials: microsoftToken, addedAt });
+    }
+    const emailConfig = await readJson('email-config.json');
+    if (emailConfig?.email && emailConfig.imapHost) {
+      accounts.push({ id: `imap-${emailConfig.email}`, type: 'imap', email: emailConfig.email, credentials: emailConfig, addedAt });
+    }
+
+    if (accounts.length > 0) {
+      console.log(`AccountStore: Imported ${accounts.length} accounts from earlier settings`);
+    }
+    return accounts;
+  }
+}
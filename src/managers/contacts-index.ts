@@ -0,0 +1,201 @@
+/**
+ * Contacts Index Module
+ * Collects the correspondents of every loaded message (fed together with the
+ * search index) and ranks them for recipient suggestions by frecency: each
+ * message counts with a weight that halves every CONTACT_HALF_LIFE_DAYS, and
+ * messages we sent count more than messages we received.
+ */
+
+import type { Contact, Email, EmailAddress } from '../../types/email';
+import { parseAddressList } from '../utils/address-parser.js';
+
+// Age after which a message counts half as much for the ranking
+const CONTACT_HALF_LIFE_DAYS = 30;
+const HALF_LIFE_MS = CONTACT_HALF_LIFE_DAYS * 24 * 60 * 60 * 1000;
+
+// Message weights: recipients of our messages, senders of received messages,
+// and the other recipients of received messages (e.g. Cc on a thread)
+const SENT_WEIGHT = 3;
+const RECEIVED_WEIGHT = 1;
+const CO_RECIPIENT_WEIGHT = 0.25;
+
+/**
+ * Add two scores kept as log2 values (log2(2^a + 2^b)), so old and new
+ * messages can be summed without overflowing
+ */
+function addLogScores(a: number, b: number): number {
+    if (a === -Infinity) return b;
+    if (b === -Infinity) return a;
+    const max = Math.max(a, b);
+    return max + Math.log2(Math.pow(2, a - max) + Math.pow(2, b - max));
+}
+
+class ContactsIndex {
+    private contacts: Map<string, Contact>;
+    // Messages already counted (messages are indexed again when the search index is rebuilt)
+    private indexedMessages: Set<string>;
+
+    constructor() {
+        this.contacts = new Map();
+        this.indexedMessages = new Set();
+    }
+
+    /**
+     * Count the correspondents of messages
+     * @param emails - Loaded messages
+     */
+    addEmails(emails: Email[]): void {
+        const ownAddresses = this.getOwnAddresses();
+        emails.forEach(email => this.addEmail(email, ownAddresses));
+    }
+
+    /**
+     * Count the recipients of a message we just sent
+     * @param recipients - To, Cc and Bcc address lists
+     */
+    recordSent(recipients: string[]): void {
+        const ownAddresses = this.getOwnAddresses();
+        const time = Date.now();
+        recipients.flatMap(parseAddressList).forEach(address => {
+            if (!ownAddresses.has(address.email.toLowerCase())) {
+                this.count(address, time, SENT_WEIGHT, 'sent');
+            }
+        });
+    }
+
+    /**
+     * Find contacts whose address or name starts with the query (or one of its words)
+     * @param query - Typed text
+     * @param options - limit: maximum results; exclude: addresses already chosen
+     * @returns Matching contacts, best ranked first
+     */
+    suggest(query: string, options: { limit?: number; exclude?: string[] } = {}): Contact[] {
+        const needle = query.trim().toLowerCase();
+        if (!needle) {
+            return [];
+        }
+
+        const exclude = new Set((options.exclude || []).map(address => address.toLowerCase()));
+        const ownAddresses = this.getOwnAddresses();
+        const matches: Contact[] = [];
+        for (const [key, contact] of this.contacts) {
+            if (exclude.has(key) || ownAddresses.has(key)) continue;
+            const name = (contact.name || '').toLowerCase();
+            const words = [key, key.split('@')[1] || '', name, ...name.split(/[\s,.'"-]+/)];
+            if (words.some(word => word.startsWith(needle))) {
+                matches.push(contact);
+            }
+        }
+
+        return matches
+            .sort((a, b) => b.score - a.score)
+            .slice(0, options.limit || 8);
+    }
+
+    /**
+     * Look up a contact by address
+     * @param address - Email address
+     * @returns Contact, or undefined if we never corresponded
+     */
+    get(address: string): Contact | undefined {
+        return this.contacts.get(address.toLowerCase());
+    }
+
+    get size(): number {
+        return this.contacts.size;
+    }
+
+    private addEmail(email: Email, ownAddresses: Set<string>): void {
+        if (!email) {
+            return;
+        }
+        const key = `${email.accountId || ''}:${email.messageId || email.id}`;
+        if (this.indexedMessages.has(key)) {
+            return;
+        }
+        this.indexedMessages.add(key);
+
+        const time = new Date(email.date).getTime() || Date.now();
+        const fromOwn = !!email.from?.email && ownAddresses.has(email.from.email.toLowerCase());
+        const recipients = [...(email.to || []), ...(email.cc || []), ...(email.bcc || [])];
+
+        if (fromOwn) {
+            recipients.forEach(address => {
+                if (!ownAddresses.has(address.email?.toLowerCase())) {
+                    this.count(address, time, SENT_WEIGHT, 'sent');
+                }
+            });
+            return;
+        }
+
+        if (email.from?.email) {
+            this.count(email.from, time, RECEIVED_WEIGHT, 'received');
+        }
+        recipients.forEach(address => {
+            if (!ownAddresses.has(address.email?.toLowerCase())) {
+                this.count(address, time, CO_RECIPIENT_WEIGHT, null);
+            }
+        });
+    }
+
+    /**
+     * Add one message with an address to its contact
+     * @param direction - Which counter the message adds to (null: only the score)
+     */
+    private count(address: EmailAddress, time: number, weight: number, direction: 'sent' | 'received' | null): void {
+        const email = address.email?.trim();
+        if (!email || !email.includes('@')) {
+            return;
+        }
+
+        const key = email.toLowerCase();
+        let contact = this.contacts.get(key);
+        if (!contact) {
+            contact = { email, sentCount: 0, receivedCount: 0, lastContacted: 0, score: -Infinity };
+            this.contacts.set(key, contact);
+        }
+
+        const name = address.name?.trim();
+        // Prefer the most recent display name
+        if (name && name.toLowerCase() !== key && (!contact.name || time >= contact.lastContacted)) {
+            contact.name = name;
+        }
+        if (direction === 'sent') contact.sentCount++;
+        if (direction === 'received') contact.receivedCount++;
+        contact.lastContacted = Math.max(contact.lastContacted, time);
+        contact.score = addLogScores(contact.score, Math.log2(weight) + time / HALF_LIFE_MS);
+    }
+
+    /**
+     * Addresses of the configured accounts (never suggested)
+     */
+    private getOwnAddresses(): Set<string> {
+        const accounts: Array<{ email?: string }> = (window as any).mailAccounts || [];
+        const addresses = accounts.map(account => account.email?.toLowerCase()).filter(Boolean) as string[];
+        const emailConfig = (window as any).emailConfig;
+        if (emailConfig?.email) {
+            addresses.push(emailConfig.email.toLowerCase());
+        }
+        return new Set(addresses);
+    }
+}
+
+// Global contacts index instance
+let globalContactsIndex: ContactsIndex | null = null;
+
+/**
+ * Get the global contacts index
+ */
+function getContactsIndex(): ContactsIndex {
+    if (!globalContactsIndex) {
+        globalContactsIndex = new ContactsIndex();
+    }
+    return globalContactsIndex;
+}
+
+// Global assignment for browser environments
+if (typeof window !== 'undefined') {
+    (window as any).getContactsIndex = getContactsIndex;
+}
+
+export { ContactsIndex, getContactsIndex };
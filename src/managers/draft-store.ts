@@ -0,0 +1,120 @@
+/**
+ * Draft Store Module
+ * Runs in the Electron main process. Keeps the drafts written in the compose
+ * modal in userData/drafts.json, so they survive closing the modal, restarts
+ * and crashes. Copying drafts to the server is done by the draft sync service.
+ */
+
+import * as path from 'path';
+import * as crypto from 'crypto';
+import type { EmailDraft } from '../../types/email';
+import { JsonFileStore } from './json-file-store.js';
+
+/**
+ * On-disk representation of the draft list
+ */
+interface DraftStoreFile {
+  version: number;
+  drafts: EmailDraft[];
+}
+
+/**
+ * Draft to save; drafts without an id are created
+ */
+export type DraftInput = Omit<EmailDraft, 'id' | 'createdAt' | 'updatedAt'> & { id?: string };
+
+const STORE_VERSION = 1;
+
+/**
+ * Draft Store - JSON-backed list of local drafts
+ */
+export class DraftStore {
+  private file: JsonFileStore<DraftStoreFile>;
+
+  constructor(userDataPath: string) {
+    this.file = new JsonFileStore<DraftStoreFile>(path.join(userDataPath, 'drafts.json'), {
+      name: 'DraftStore',
+      createEmpty: () => ({ version: STORE_VERSION, drafts: [] }),
+      parse: parsed => Array.isArray(parsed?.drafts) ? { version: STORE_VERSION, drafts: parsed.drafts } : null
+    });
+  }
+
+  /**
+   * List drafts
+   * @returns Drafts, most recently edited first
+   */
+  async list(): Promise<EmailDraft[]> {
+    const { drafts } = await this.file.read();
+    return [...drafts].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  /**
+   * Get a draft
+   * @param id - Draft id
+   * @returns Draft, or null if unknown
+   */
+  async get(id: string): Promise<EmailDraft | null> {
+    const { drafts } = await this.file.read();
+    return drafts.find(draft => draft.id === id) || null;
+  }
+
+  /**
+   * Create a draft, or replace the contents of an existing one
+   * The server copy fields are kept, so the next sync replaces the server copy.
+   * @param input - Compose state, with the id of the draft being edited
+   * @returns Saved draft
+   */
+  save(input: DraftInput): Promise<EmailDraft> {
+    return this.file.update(({ drafts }) => {
+      const now = new Date().toISOString();
+      const existing = input.id ? drafts.find(draft => draft.id === input.id) : undefined;
+
+      if (existing) {
+        const { remoteId, remoteAccountId, syncedAt, syncError } = existing;
+        Object.assign(existing, input, { remoteId, remoteAccountId, syncedAt, syncError, updatedAt: now });
+        return existing;
+      }
+
+      const draft: EmailDraft = {
+        ...input,
+        id: input.id || crypto.randomUUID(),
+        createdAt: now,
+        updatedAt: now
+      };
+      drafts.push(draft);
+      return draft;
+    });
+  }
+
+  /**
+   * Record the result of copying a draft to the server
+   * @param id - Draft id
+   * @param changes - Server copy fields
+   */
+  updateSyncState(id: string, changes: Partial<Pick<EmailDraft, 'remoteId' | 'remoteAccountId' | 'syncedAt' | 'syncError'>>): Promise<EmailDraft | null> {
+    return this.file.update(({ drafts }) => {
+      const draft = drafts.find(candidate => candidate.id === id);
+      if (!draft) {
+        return null;
+      }
+      Object.assign(draft, changes);
+      return draft;
+    });
+  }
+
+  /**
+   * Remove a draft
+   * @param id - Draft id
+   * @returns The removed draft, or null if it did not exist
+   */
+  remove(id: string): Promise<EmailDraft | null> {
+    return this.file.update(({ drafts }) => {
+      const index = drafts.findIndex(draft => draft.id === id);
+      if (index < 0) {
+        return null;
+      }
+      const [removed] = drafts.splice(index, 1);
+      return removed;
+    });
+  }
+}
@@ -18,12 +18,14 @@
  */
 
 import { Email } from '../../types/email';
+import type { EmailConfig } from '../../types/config';
 import { AuthManager } from '../auth/auth-manager.js';
 import { uiThemeManager } from '../ui/ui-theme-manager.js';
 import { EmailComposer } from '../email/email-composer.js';
 import { IMAPEmailManager } from '../email/imap-email-manager.js';
 import { EmailRenderer } from '../email/email-renderer.js';
 import { MarketingEmailDetector } from '../email/marketing-email-detector.js';
+import { InlineReply } from '../ui/inline-reply.js';
 
 // Import Electron modules conditionally for browser compatibility
 let ipcRenderer: any;
@@ -78,6 +80,7 @@ class EventManager {
     private imapEmailManager: IMAPEmailManager;
     private emailRenderer: EmailRenderer;
     private marketingEmailDetector: MarketingEmailDetector;
+    private inlineReply: InlineReply;
 
     constructor(emailComposer: EmailComposer, imapEmailManager: IMAPEmailManager, emailRenderer: EmailRenderer, marketingEmailDetector: MarketingEmailDetector) {
         this.initialized = false;
@@ -87,6 +90,7 @@ class EventManager {
         this.imapEmailManager = imapEmailManager;
         this.emailRenderer = emailRenderer;
         this.marketingEmailDetector = marketingEmailDetector;
+        this.inlineReply = new InlineReply(emailComposer);
         
         // Initialize when DOM is ready
         if (document.readyState === 'loading') {
@@ -163,6 +167,7 @@ class EventManager {
         if (this.domElements.composeBtn) {
             this.domElements.composeBtn.addEventListener('click', () => {
                 console.log('Compose button clicked');
+                this.emailComposer.resetCompose();
                 uiThemeManager.showComposeModal();
             });
             console.log('Compose button listener attached');
@@ -256,9 +261,9 @@ class EventManager {
 
         // Save draft button
         if (this.domElements.saveDraftBtn) {
-            this.domElements.saveDraftBtn.addEventListener('click', () => {
+            this.domElements.saveDraftBtn.addEventListener('click', async () => {
                 console.log('Save draft button clicked');
-                // TODO: Implement save draft functionality
+                await this.emailComposer.saveDraft();
             });
             console.log('Save draft button listener attached');
         } else {
@@ -283,7 +288,7 @@ class EventManager {
         if (this.domElements.closeComposeBtn) {
             this.domElements.closeComposeBtn.addEventListener('click', () => {
                 console.log('Close compose button clicked');
-                uiThemeManager.hideComposeModal();
+                this.emailComposer.closeCompose();
             });
             console.log('Close compose button listener attached');
         } else {
@@ -304,7 +309,7 @@ class EventManager {
         if (this.domElements.composeModal) {
             this.domElements.composeModal.addEventListener('click', (e: Event) => {
                 if (e.target === this.domElements.composeModal) {
-                    uiThemeManager.hideComposeModal();
+                    this.emailComposer.closeCompose();
                 }
             });
         }
@@ -336,10 +341,17 @@ class EventManager {
 
         // Settings form
         if (this.domElements.settingsForm) {
-            this.domElements.settingsForm.addEventListener('submit', (e: Event) => {
+            this.domElements.settingsForm.addEventListener('submit', async (e: Event) => {
                 e.preventDefault();
                 console.log('Settings form submitted');
-                // TODO: Implement settings save functionality
+                // Google and Microsoft accounts are added by their SSO options
+                const selected = document.querySelector('.auth-option.selected') as HTMLElement | null;
+                if (selected?.dataset.method === 'imap') {
+                    const added = await AuthManager.handleImapAccount(this.readImapSettings());
+                    if (added) {
+                        uiThemeManager.hideSettingsModal();
+                    }
+                }
             });
             console.log('Settings form listener attached');
         } else {
@@ -350,6 +362,22 @@ class EventManager {
         this.setupAuthMethodSelection();
     }
 
+    /**
+     * Read the IMAP/SMTP server settings from the settings form
+     * @returns Email configuration for a new IMAP account
+     */
+    private readImapSettings(): EmailConfig {
+        const value = (id: string) => ((document.getElementById(id) as HTMLInputElement | null)?.value || '').trim();
+        return {
+            email: value('email-input'),
+            password: (document.getElementById('password-input') as HTMLInputElement | null)?.value || '',
+            imapHost: value('imap-host'),
+            imapPort: parseInt(value('imap-port'), 10) || 993,
+            smtpHost: value('smtp-host'),
+            smtpPort: parseInt(value('smtp-port'), 10) || 587
+        };
+    }
+
     /**
      * Setup authentication method selection
      */
@@ -381,12 +409,7 @@ class EventManager {
                     }
                 } else if (method === 'microsoft') {
                     try {
-                        const result: SSOResult = await ipcRenderer.invoke('microsoft-sso');
-                        if (result.success) {
-                            console.log('Microsoft SSO successful! (Token received)');
-                        } else {
-                            console.error('Microsoft SSO failed:', result.error);
-                        }
+                        await AuthManager.handleMicrosoftSSO();
                     } catch (error) {
                         console.error('Error in Microsoft SSO:', error);
                     }
@@ -444,11 +467,12 @@ class EventManager {
                 switch (e.key) {
                     case 'n':
                         e.preventDefault();
+                        this.emailComposer.resetCompose();
                         uiThemeManager.showComposeModal();
                         break;
                     case 'r':
                         e.preventDefault();
-                        this.imapEmailManager.loadEmails();
+                        this.imapEmailManager.syncEmails();
                         break;
                     case ',':
                         e.preventDefault();
@@ -460,13 +484,20 @@ class EventManager {
             // Escape key to close modals
             if (e.key === 'Escape') {
                 if (this.domElements.composeModal && this.domElements.composeModal.classList.contains('show')) {
-                    uiThemeManager.hideComposeModal();
+                    this.emailComposer.closeCompose();
                 } else if (this.domElements.settingsModal && this.domElements.settingsModal.classList.contains('show')) {
                     uiThemeManager.hideSettingsModal();
                 }
             }
         });
         
+        // Menu accelerator (CmdOrCtrl+R) is handled in the main process and forwarded here
+        if (ipcRenderer && typeof ipcRenderer.on === 'function') {
+            ipcRenderer.on('refresh-emails', () => {
+                this.imapEmailManager.syncEmails();
+            });
+        }
+        
         console.log('Keyboard shortcuts setup completed');
     }
 
@@ -516,13 +547,7 @@ class EventManager {
             microsoftSSOBtn.addEventListener('click', async () => {
                 console.log('Microsoft SSO button clicked');
                 try {
-                    const result: SSOResult = await ipcRenderer.invoke('microsoft-sso');
-                    if (result.success) {
-                        // TODO: Store and use result.token for Microsoft Graph API
-                        console.log('Microsoft SSO successful! (Token received)');
-                    } else {
-                        console.error('Microsoft SSO failed:', result.error);
-                    }
+                    await AuthManager.handleMicrosoftSSO();
                 } catch (error) {
                     console.error('Error in Microsoft SSO:', error);
                 }
@@ -741,6 +766,16 @@ class EventManager {
         console.log('Conversation data:', conversation);
     }
 
+    /**
+     * Report an email action that failed unexpectedly
+     * @param what - What the action was doing, e.g. "redirect the email"
+     * @param error - Error thrown by the action
+     */
+    private reportActionError(what: string, error: Error): void {
+        console.error(`EventManager: Failed to ${what}:`, error);
+        uiThemeManager.showNotification(`Could not ${what}: ${error.message}`, 'error');
+    }
+
     /**
      * Handle dynamic email action buttons
      * @param event - Click event
@@ -756,16 +791,28 @@ class EventManager {
         
         switch (action) {
             case 'reply':
-                // TODO: Import and use EmailActions properly
-                console.log('Reply action for message:', messageId);
+                (window as any).EmailActions?.replyToEmail(messageId);
                 break;
             case 'reply-all':
-                // TODO: Import and use EmailActions properly
-                console.log('Reply-all action for message:', messageId);
+                (window as any).EmailActions?.replyAllToEmail(messageId);
+                break;
+            case 'reply-list':
+                (window as any).EmailActions?.replyToListEmail(messageId);
                 break;
             case 'forward':
-                // TODO: Import and use EmailActions properly
-                console.log('Forward action for message:', messageId);
+                (window as any).EmailActions?.forwardEmail(messageId);
+                break;
+            case 'forward-attachment':
+                (window as any).EmailActions?.forwardAsAttachment(messageId)
+                    .catch((error: Error) => this.reportActionError('forward the email as an attachment', error));
+                break;
+            case 'redirect':
+                (window as any).EmailActions?.redirectEmail(messageId)
+                    .catch((error: Error) => this.reportActionError('redirect the email', error));
+                break;
+            case 'edit-as-new':
+                (window as any).EmailActions?.editAsNew(messageId)
+                    .catch((error: Error) => this.reportActionError('open the email as a new message', error));
                 break;
             case 'toggle-metadata':
                 this.toggleEmailMetadata(messageId);
@@ -843,6 +890,7 @@ class EventManager {
         
         if (!conversation || !conversation.emails || conversation.emails.length === 0) {
             console.log('No valid conversation or emails found');
+            this.inlineReply.detach();
             messagesContainer.innerHTML = `
                 <div class="messages-placeholder">
                     <i class="fas fa-comments"></i>
@@ -853,7 +901,8 @@ class EventManager {
             return;
         }
         
-        // Clear messages container
+        // Clear messages container (keeping the reply typed in the previous conversation)
+        this.inlineReply.detach();
         messagesContainer.innerHTML = '';
         
         // Sort emails by date
@@ -872,6 +921,9 @@ class EventManager {
         
         messagesContainer.appendChild(emailsContainer);
         
+        // Quick reply to the latest email, under the conversation
+        this.inlineReply.attach(messagesContainer, conversationId, sortedEmails[sortedEmails.length - 1]);
+        
         // Add marketing tags to emails
         this.addMarketingTagsToEmails(emailsContainer, sortedEmails);
         
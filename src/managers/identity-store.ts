@@ -0,0 +1,106 @@
+/**
+ * Identity Store Module
+ * Runs in the Electron main process. Keeps the custom send-as identities of
+ * IMAP accounts (address, display name and Reply-To) in
+ * userData/identities.json. Gmail send-as aliases are read from Gmail instead.
+ */
+
+import * as path from 'path';
+import * as crypto from 'crypto';
+import type { SendIdentity } from '../../types/config';
+import { JsonFileStore } from './json-file-store.js';
+
+/**
+ * On-disk representation of the identities
+ */
+interface IdentityStoreFile {
+  version: number;
+  identities: SendIdentity[];
+}
+
+/**
+ * Identity to save; identities without an id are created
+ */
+export type IdentityInput = Omit<SendIdentity, 'id' | 'source'> & { id?: string };
+
+const STORE_VERSION = 1;
+
+/**
+ * Identity Store - JSON-backed custom identities
+ */
+export class IdentityStore {
+  private file: JsonFileStore<IdentityStoreFile>;
+
+  constructor(userDataPath: string) {
+    this.file = new JsonFileStore<IdentityStoreFile>(path.join(userDataPath, 'identities.json'), {
+      name: 'IdentityStore',
+      createEmpty: () => ({ version: STORE_VERSION, identities: [] }),
+      parse: parsed => Array.isArray(parsed?.identities) ? { version: STORE_VERSION, identities: parsed.identities } : null,
+      indent: 2
+    });
+  }
+
+  /**
+   * List the custom identities of an account
+   * @param accountId - Account id
+   * @returns Identities by address
+   */
+  async list(accountId: string): Promise<SendIdentity[]> {
+    const { identities } = await this.file.read();
+    return identities
+      .filter(identity => identity.accountId === accountId)
+      .sort((a, b) => a.email.localeCompare(b.email));
+  }
+
+  /**
+   * Create an identity, or update an existing one
+   * @param input - Identity
+   * @returns Saved identity
+   */
+  save(input: IdentityInput): Promise<SendIdentity> {
+    return this.file.update(({ identities }) => {
+      const fields = {
+        accountId: input.accountId,
+        email: input.email.trim(),
+        displayName: input.displayName?.trim() || undefined,
+        replyTo: input.replyTo?.trim() || undefined
+      };
+      const existing = input.id ? identities.find(identity => identity.id === input.id) : undefined;
+
+      if (existing) {
+        Object.assign(existing, fields);
+        return existing;
+      }
+
+      const identity: SendIdentity = { ...fields, id: crypto.randomUUID(), source: 'custom' };
+      identities.push(identity);
+      return identity;
+    });
+  }
+
+  /**
+   * Remove an identity
+   * @param id - Identity id
+   * @returns True if the identity existed
+   */
+  remove(id: string): Promise<boolean> {
+    return this.file.update(({ identities }) => {
+      const index = identities.findIndex(identity => identity.id === id);
+      if (index < 0) {
+        return false;
+      }
+      identities.splice(index, 1);
+      return true;
+    });
+  }
+
+  /**
+   * Remove the identities of a removed account
+   * @param accountId - Account id
+   */
+  removeAccount(accountId: string): Promise<void> {
+    return this.file.update(data => {
+      data.identities = data.identities.filter(identity => identity.accountId !== accountId);
+    });
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * JSON File Store Module
+ * Runs in the Electron main process. Shared persistence of the JSON-backed
+ * stores: the file is read once (concurrent first reads share the same load),
+ * changes are applied one at a time on a single queue, and every write goes to
+ * a temporary file first and is renamed into place so a crash never leaves a
+ * half-written file.
+ *
+ * A file that cannot be parsed is moved aside (<file>.corrupt-<timestamp>)
+ * instead of being treated as empty, so the next write cannot replace it.
+ */
+
+import * as path from 'path';
+import { promises as fsPromises } from 'fs';
+
+/**
+ * JSON file store options
+ */
+export interface JsonFileStoreOptions<T> {
+  // Store name for log messages
+  name: string;
+  // Contents when the file does not exist yet
+  createEmpty: () => T | Promise<T>;
+  // Check parsed file contents; null when they are not usable
+  parse: (contents: any) => T | null;
+  // Indentation of the written JSON (none by default)
+  indent?: number;
+}
+
+/**
+ * JSON File Store - One JSON file, cached in memory, with serialized changes
+ */
+export class JsonFileStore<T> {
+  private filePath: string;
+  private options: JsonFileStoreOptions<T>;
+  private loading: Promise<T> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string, options: JsonFileStoreOptions<T>) {
+    this.filePath = filePath;
+    this.options = options;
+  }
+
+  /**
+   * Get the contents (loaded on first use). Callers must not change them;
+   * changes go through update so they are written in order.
+   * @returns File contents
+   */
+  read(): Promise<T> {
+    if (!this.loading) {
+      const loading = this.load();
+      this.loading = loading;
+      // A failed read is retried by the next call rather than cached
+      loading.catch(() => {
+        if (this.loading === loading) this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  /**
+   * Change the contents and write them, after every change queued before
+   * @param change - Changes the contents in place; its result is passed on
+   * @returns Result of change
+   */
+  update<R>(change: (data: T) => R | Promise<R>): Promise<R> {
+    return this.enqueue(async () => {
+      const data = await this.read();
+      const result = await change(data);
+      await this.write(data);
+      return result;
+    });
+  }
+
+  /**
+   * Delete the file; the next read starts from empty contents
+   */
+  clear(): Promise<void> {
+    return this.enqueue(async () => {
+      this.loading = null;
+      await fsPromises.rm(this.filePath, { force: true });
+    });
+  }
+
+  private enqueue<R>(task: () => Promise<R>): Promise<R> {
+    const next = this.queue.catch(() => undefined).then(task);
+    this.queue = next;
+    return next;
+  }
+
+  private async load(): Promise<T> {
+    let content: string;
+    try {
+      content = await fsPromises.readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return this.options.createEmpty();
+      }
+      throw error;
+    }
+
+    let data: T | null = null;
+    try {
+      data = this.options.parse(JSON.parse(content));
+    } catch (error) {
+      console.error(`${this.options.name}: Failed to parse ${this.filePath}:`, error);
+    }
+    if (data) {
+      return data;
+    }
+
+    const corruptPath = `${this.filePath}.corrupt-${Date.now()}`;
+    await fsPromises.rename(this.filePath, corruptPath);
+    console.error(`${this.options.name}: ${this.filePath} is not readable, moved it to ${corruptPath}`);
+    return this.options.createEmpty();
+  }
+
+  private async write(data: T): Promise<void> {
+    const content = JSON.stringify(data, null, this.options.indent);
+    await fsPromises.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await fsPromises.writeFile(tempPath, content, 'utf8');
+    await fsPromises.rename(tempPath, this.filePath);
+  }
+}
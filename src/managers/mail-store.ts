@@ -0,0 +1,243 @@
+/**
+ * Mail Store Module
+ * Runs in the Electron main process. Persists standardized emails, attachment
+ * metadata and sync cursors under app.getPath('userData') so the client can
+ * render instantly on startup and keep working without connectivity.
+ *
+ * Each account is stored in its own JSON file (see JsonFileStore).
+ */
+
+import * as path from 'path';
+import type { Email, EmailAttachment } from '../../types/email';
+import { JsonFileStore } from './json-file-store.js';
+
+/**
+ * On-disk representation of one account's mail
+ */
+export interface MailStoreSnapshot {
+  version: number;
+  accountKey: string;
+  updatedAt: string;
+  emails: Email[];
+  cursors: Record<string, any>;
+}
+
+/**
+ * Mail store options
+ */
+export interface MailStoreOptions {
+  maxEmailsPerAccount?: number;
+  maxCachedAttachmentBytes?: number;
+}
+
+const STORE_VERSION = 1;
+const DEFAULT_MAX_EMAILS = 5000;
+const DEFAULT_MAX_CACHED_ATTACHMENT_BYTES = 256 * 1024;
+
+/**
+ * Mail Store - JSON-backed local message cache keyed by account
+ */
+export class MailStore {
+  private baseDir: string;
+  private options: Required<MailStoreOptions>;
+  private files: Map<string, JsonFileStore<MailStoreSnapshot>> = new Map();
+
+  constructor(userDataPath: string, options: MailStoreOptions = {}) {
+    this.baseDir = path.join(userDataPath, 'mail-store');
+    this.options = {
+      maxEmailsPerAccount: options.maxEmailsPerAccount || DEFAULT_MAX_EMAILS,
+      maxCachedAttachmentBytes: options.maxCachedAttachmentBytes ?? DEFAULT_MAX_CACHED_ATTACHMENT_BYTES
+    };
+  }
+
+  /**
+   * Load an account snapshot (from memory, disk, or empty)
+   * @param accountKey - Account identifier
+   * @returns Account snapshot
+   */
+  load(accountKey: string): Promise<MailStoreSnapshot> {
+    return this.getFile(accountKey).read();
+  }
+
+  /**
+   * Get stored emails, optionally limited to one folder
+   * @param accountKey - Account identifier
+   * @param folder - Optional folder filter
+   * @returns Stored emails, newest first
+   */
+  async getEmails(accountKey: string, folder?: string): Promise<Email[]> {
+    const snapshot = await this.load(accountKey);
+    const emails = folder ? snapshot.emails.filter(email => this.isInFolder(email, folder)) : snapshot.emails;
+    return [...emails];
+  }
+
+  /**
+   * Insert or replace emails by id
+   * @param accountKey - Account identifier
+   * @param emails - Standardized emails
+   * @returns Number of emails stored for the account
+   */
+  upsertEmails(accountKey: string, emails: Email[]): Promise<number> {
+    return this.change(accountKey, snapshot => {
+      this.mergeEmails(snapshot, emails);
+      return snapshot.emails.length;
+    });
+  }
+
+  /**
+   * Remove emails by id
+   * @param accountKey - Account identifier
+   * @param ids - Email ids to remove
+   * @returns Number of emails removed
+   */
+  removeEmails(accountKey: string, ids: string[]): Promise<number> {
+    return this.change(accountKey, snapshot => {
+      const toRemove = new Set(ids);
+      const before = snapshot.emails.length;
+      snapshot.emails = snapshot.emails.filter(email => !toRemove.has(email.id));
+      return before - snapshot.emails.length;
+    });
+  }
+
+  /**
+   * Replace every stored email in a folder (used after a full resync)
+   * Labelled (Gmail) emails missing from the new contents only lose the label,
+   * since they may still be shown under another one; without labels left they are removed.
+   * @param accountKey - Account identifier
+   * @param folder - Folder or label to replace
+   * @param emails - Complete folder contents
+   */
+  replaceFolder(accountKey: string, folder: string, emails: Email[]): Promise<void> {
+    return this.change(accountKey, snapshot => {
+      snapshot.emails = snapshot.emails
+        .map(email => {
+          if (!this.isInFolder(email, folder)) return email;
+          if (!Array.isArray(email.labels)) return null;
+          const labels = email.labels.filter(label => label !== folder);
+          return labels.length > 0 ? { ...email, labels } : null;
+        })
+        .filter((email): email is Email => email !== null);
+      this.mergeEmails(snapshot, emails);
+    });
+  }
+
+  /**
+   * Get a sync cursor (e.g. Gmail historyId, IMAP UID state)
+   * @param accountKey - Account identifier
+   * @param name - Cursor name
+   * @returns Cursor value or null
+   */
+  async getCursor(accountKey: string, name: string): Promise<any> {
+    const snapshot = await this.load(accountKey);
+    return snapshot.cursors[name] ?? null;
+  }
+
+  /**
+   * Set a sync cursor
+   * @param accountKey - Account identifier
+   * @param name - Cursor name
+   * @param value - Cursor value (null removes it)
+   */
+  setCursor(accountKey: string, name: string, value: any): Promise<void> {
+    return this.change(accountKey, snapshot => {
+      if (value === null || value === undefined) {
+        delete snapshot.cursors[name];
+      } else {
+        snapshot.cursors[name] = value;
+      }
+    });
+  }
+
+  /**
+   * Delete everything stored for an account
+   * @param accountKey - Account identifier
+   */
+  clear(accountKey: string): Promise<void> {
+    return this.getFile(accountKey).clear();
+  }
+
+  /**
+   * Insert or replace emails by id, keeping the newest maxEmailsPerAccount
+   */
+  private mergeEmails(snapshot: MailStoreSnapshot, emails: Email[]): void {
+    const byId = new Map(snapshot.emails.map(email => [email.id, email]));
+
+    for (const email of emails) {
+      if (!email || !email.id) continue;
+      byId.set(email.id, this.toStoredEmail(email));
+    }
+
+    snapshot.emails = Array.from(byId.values())
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+      .slice(0, this.options.maxEmailsPerAccount);
+  }
+
+  /**
+   * Strip fields that are derived or too large to cache
+   * @param email - Standardized email
+   * @returns Email safe to persist
+   */
+  private toStoredEmail(email: Email): Email {
+    const stored: any = { ...email };
+    delete stored.processedHtml;
+
+    if (Array.isArray(email.attachments)) {
+      stored.attachments = email.attachments.map((attachment: EmailAttachment) => {
+        if (attachment.content && attachment.size > this.options.maxCachedAttachmentBytes) {
+          const { content: _content, ...metadata } = attachment;
+          return metadata;
+        }
+        return attachment;
+      });
+    }
+
+    return stored as Email;
+  }
+
+  /**
+   * Gmail emails belong to every label they carry; IMAP emails to their mailbox
+   */
+  private isInFolder(email: Email, folder: string): boolean {
+    return Array.isArray(email.labels) ? email.labels.includes(folder) : email.folder === folder;
+  }
+
+  private createEmptySnapshot(accountKey: string): MailStoreSnapshot {
+    return {
+      version: STORE_VERSION,
+      accountKey,
+      updatedAt: new Date().toISOString(),
+      emails: [],
+      cursors: {}
+    };
+  }
+
+  /**
+   * File of an account (created on first use)
+   */
+  private getFile(accountKey: string): JsonFileStore<MailStoreSnapshot> {
+    let file = this.files.get(accountKey);
+    if (!file) {
+      const safeKey = accountKey.replace(/[^a-zA-Z0-9_.@-]/g, '_');
+      file = new JsonFileStore<MailStoreSnapshot>(path.join(this.baseDir, `${safeKey}.json`), {
+        name: 'MailStore',
+        createEmpty: () => this.createEmptySnapshot(accountKey),
+        parse: parsed => parsed?.version === STORE_VERSION && Array.isArray(parsed.emails)
+          ? { ...this.createEmptySnapshot(accountKey), ...parsed, cursors: parsed.cursors || {} }
+          : null
+      });
+      this.files.set(accountKey, file);
+    }
+    return file;
+  }
+
+  /**
+   * Change an account snapshot and write it
+   */
+  private change<R>(accountKey: string, change: (snapshot: MailStoreSnapshot) => R): Promise<R> {
+    return this.getFile(accountKey).update(snapshot => {
+      const result = change(snapshot);
+      snapshot.updatedAt = new Date().toISOString();
+      return result;
+    });
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Outbox Store Module
+ * Runs in the Electron main process. Keeps the messages waiting to be sent
+ * (scheduled with "Send later", held for the undo window, or queued for a
+ * retry after a failed send) in
+ * userData/outbox.json, so they survive restarts. Sending is done by the
+ * outbox dispatcher.
+ */
+
+import * as path from 'path';
+import * as crypto from 'crypto';
+import type { ScheduledMessage, ScheduledMessageInput } from '../../types/email';
+import { JsonFileStore } from './json-file-store.js';
+
+/**
+ * On-disk representation of the outbox
+ */
+interface OutboxStoreFile {
+  version: number;
+  messages: ScheduledMessage[];
+}
+
+const STORE_VERSION = 1;
+
+/**
+ * Outbox Store - JSON-backed list of messages waiting to be sent
+ */
+export class OutboxStore {
+  private file: JsonFileStore<OutboxStoreFile>;
+
+  constructor(userDataPath: string) {
+    this.file = new JsonFileStore<OutboxStoreFile>(path.join(userDataPath, 'outbox.json'), {
+      name: 'OutboxStore',
+      createEmpty: () => ({ version: STORE_VERSION, messages: [] }),
+      parse: parsed => Array.isArray(parsed?.messages) ? { version: STORE_VERSION, messages: parsed.messages } : null
+    });
+  }
+
+  /**
+   * List the outbox
+   * @returns Messages, the next to be sent first
+   */
+  async list(): Promise<ScheduledMessage[]> {
+    const { messages } = await this.file.read();
+    return [...messages].sort((a, b) => a.sendAt.localeCompare(b.sendAt));
+  }
+
+  /**
+   * Get a message
+   * @param id - Message id
+   * @returns Message, or null if unknown
+   */
+  async get(id: string): Promise<ScheduledMessage | null> {
+    const { messages } = await this.file.read();
+    return messages.find(message => message.id === id) || null;
+  }
+
+  /**
+   * Schedule a message, or replace an existing one (which is scheduled afresh)
+   * @param input - Send request, compose state and send time
+   * @returns Saved message
+   */
+  save(input: ScheduledMessageInput): Promise<ScheduledMessage> {
+    return this.file.update(({ messages }) => {
+      const now = new Date().toISOString();
+      const existing = input.id ? messages.find(message => message.id === input.id) : undefined;
+
+      if (existing) {
+        Object.assign(existing, input, {
+          status: 'scheduled',
+          attempts: 0,
+          nextAttemptAt: undefined,
+          lastError: undefined,
+          lastErrorKind: undefined,
+          updatedAt: now
+        });
+        return existing;
+      }
+
+      const message: ScheduledMessage = {
+        ...input,
+        id: input.id || crypto.randomUUID(),
+        status: 'scheduled',
+        attempts: 0,
+        createdAt: now,
+        updatedAt: now
+      };
+      messages.push(message);
+      return message;
+    });
+  }
+
+  /**
+   * Record the progress of sending a message
+   * @param id - Message id
+   * @param changes - Status and retry fields
+   * @returns Updated message, or null if it was removed meanwhile
+   */
+  update(id: string, changes: Partial<Pick<ScheduledMessage, 'status' | 'attempts' | 'nextAttemptAt' | 'lastError' | 'lastErrorKind' | 'sendAt'>>): Promise<ScheduledMessage | null> {
+    return this.file.update(({ messages }) => {
+      const message = messages.find(candidate => candidate.id === id);
+      if (!message) {
+        return null;
+      }
+      Object.assign(message, changes, { updatedAt: new Date().toISOString() });
+      return message;
+    });
+  }
+
+  /**
+   * Mark a message as being sent, unless it was cancelled, edited or claimed meanwhile.
+   * Runs on the write queue, so a cancel either happens before (and wins) or fails.
+   * @param id - Message id
+   * @param canSend - Checks the current state of the message (scheduled and due)
+   * @returns The claimed message, or null if it must not be sent now
+   */
+  claim(id: string, canSend: (message: ScheduledMessage) => boolean): Promise<ScheduledMessage | null> {
+    return this.file.update(({ messages }) => {
+      const message = messages.find(candidate => candidate.id === id);
+      if (!message || !canSend(message)) {
+        return null;
+      }
+      Object.assign(message, { status: 'sending', updatedAt: new Date().toISOString() });
+      return { ...message };
+    });
+  }
+
+  /**
+   * Remove a message that is not being sent (cancelled by the user)
+   * @param id - Message id
+   * @returns The removed message, or null if it is being sent or no longer in the outbox
+   */
+  cancelIfPending(id: string): Promise<ScheduledMessage | null> {
+    return this.file.update(({ messages }) => {
+      const index = messages.findIndex(message => message.id === id);
+      if (index < 0 || messages[index].status === 'sending') {
+        return null;
+      }
+      return messages.splice(index, 1)[0];
+    });
+  }
+
+  /**
+   * Remove a message (sent)
+   * @param id - Message id
+   * @returns The removed message, or null if it did not exist
+   */
+  remove(id: string): Promise<ScheduledMessage | null> {
+    return this.file.update(({ messages }) => {
+      const index = messages.findIndex(message => message.id === id);
+      if (index < 0) {
+        return null;
+      }
+      return messages.splice(index, 1)[0];
+    });
+  }
+}
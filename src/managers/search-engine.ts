@@ -77,6 +77,15 @@ class EmailSearchEngine {
         this.logIndexStats(emails.length);
     }
 
+    /**
+     * Add emails to the existing index (e.g. a newly loaded page) without rebuilding it
+     */
+    indexEmails(emails: Email[]): void {
+        emails.forEach(email => this.indexEmail(email));
+        this.lastIndexUpdate = new Date();
+        console.log('Extended search index with', emails.length, 'emails, total', this.searchIndex.size);
+    }
+
     /**
      * Index a single email
      */
@@ -3,6 +3,7 @@
 
 // Import search engines
 import { EmailSearchEngine, IMAPSearchEngine } from '../managers/search-engine.js';
+import { getContactsIndex } from '../managers/contacts-index.js';
 import { Email } from '../../types/email';
 import { 
     SearchOptions, 
@@ -42,6 +43,7 @@ interface SearchUI {
     displaySearchResults(data: SearchDisplayData): void;
     clearSearch(): void;
     showSearchError(message: string): void;
+    getSearchState?(): { query: string; isActive: boolean };
 }
 
 interface SearchTestResult {
@@ -288,9 +290,35 @@ class SearchManager {
 
         this.ensureSearchEngineReady();
         this.searchEngine!.buildIndex(emails);
+        getContactsIndex().addEmails(emails);
         console.log('Search index built for', emails.length, 'emails');
     }
 
+    /**
+     * Add newly loaded emails to the search index and refresh any active search
+     */
+    extendSearchIndex(emails: Email[]): void {
+        if (!emails?.length) return;
+
+        this.ensureSearchEngineReady();
+        this.searchEngine!.indexEmails(emails);
+        getContactsIndex().addEmails(emails);
+
+        const state = this.searchUI?.getSearchState?.();
+        if (state?.isActive && state.query.trim()) {
+            this.performSearch(state.query).catch(error => {
+                console.warn('Failed to refresh search results:', error);
+            });
+        }
+    }
+
+    /**
+     * Check whether search results are currently shown instead of the conversation list
+     */
+    isSearchActive(): boolean {
+        return !!this.searchUI?.getSearchState?.()?.isActive;
+    }
+
     /**
      * Get search engine statistics
      */
@@ -489,6 +517,11 @@ const searchManagerExports = {
         return manager.buildSearchIndex(emails);
     },
     
+    extendSearchIndex: (emails: Email[]): void => {
+        const manager = getSearchManager();
+        return manager.extendSearchIndex(emails);
+    },
+    
     getSearchStats: (): SearchStats | null => {
         const manager = getSearchManager();
         return manager.getSearchStats();
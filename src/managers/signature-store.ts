@@ -0,0 +1,174 @@
+/**
+ * Signature Store Module
+ * Runs in the Electron main process. Keeps the compose signatures, the default
+ * signature of each account or sending address and the signature placement in
+ * userData/signatures.json.
+ *
+ * On first run the signature saved with an IMAP account's settings
+ * (EmailConfig.signature) is imported as that account's default signature.
+ */
+
+import * as path from 'path';
+import * as crypto from 'crypto';
+import type { EmailConfig, EmailSignature, SignaturePlacement, SignatureSettings, StoredMailAccount } from '../../types/config';
+import { JsonFileStore } from './json-file-store.js';
+
+/**
+ * On-disk representation of the signature settings
+ */
+interface SignatureStoreFile extends SignatureSettings {
+  version: number;
+  legacyImported: boolean;
+}
+
+/**
+ * Signature to save; signatures without an id are created
+ */
+export type SignatureInput = Omit<EmailSignature, 'id'> & { id?: string };
+
+const STORE_VERSION = 1;
+
+/**
+ * Escape text for use in HTML
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Create or update a signature in the settings (see SignatureStore.save)
+ */
+function saveSignature(data: SignatureStoreFile, input: SignatureInput): EmailSignature {
+  const existing = data.signatures.find(signature => (input.id && signature.id === input.id)
+    || (input.importedFrom && signature.importedFrom === input.importedFrom));
+
+  if (existing) {
+    Object.assign(existing, input, { id: existing.id });
+    return existing;
+  }
+
+  const signature: EmailSignature = { ...input, id: input.id || crypto.randomUUID() };
+  data.signatures.push(signature);
+  return signature;
+}
+
+/**
+ * Set or clear a default signature in the settings (see SignatureStore.setDefault)
+ */
+function setDefaultSignature(data: SignatureStoreFile, key: string, signatureId: string | null, onlyIfUnset: boolean): void {
+  if (onlyIfUnset && key in data.defaults) {
+    return;
+  }
+  if (signatureId) {
+    data.defaults[key] = signatureId;
+  } else {
+    delete data.defaults[key];
+  }
+}
+
+/**
+ * Signature Store - JSON-backed signatures and signature defaults
+ */
+export class SignatureStore {
+  private file: JsonFileStore<SignatureStoreFile>;
+
+  constructor(userDataPath: string) {
+    this.file = new JsonFileStore<SignatureStoreFile>(path.join(userDataPath, 'signatures.json'), {
+      name: 'SignatureStore',
+      createEmpty: () => ({ version: STORE_VERSION, legacyImported: false, signatures: [], defaults: {}, placement: 'above-quote' }),
+      parse: parsed => Array.isArray(parsed?.signatures) ? {
+        version: STORE_VERSION,
+        legacyImported: !!parsed.legacyImported,
+        signatures: parsed.signatures,
+        defaults: parsed.defaults || {},
+        placement: parsed.placement === 'below-quote' ? 'below-quote' : 'above-quote'
+      } : null,
+      indent: 2
+    });
+  }
+
+  /**
+   * Get the signatures, defaults and placement
+   * @returns Signature settings
+   */
+  async getSettings(): Promise<SignatureSettings> {
+    const { signatures, defaults, placement } = await this.file.read();
+    return { signatures, defaults, placement };
+  }
+
+  /**
+   * Create a signature, or update an existing one
+   * Imported signatures are matched by importedFrom, so importing again updates them.
+   * @param input - Signature
+   * @returns Saved signature
+   */
+  save(input: SignatureInput): Promise<EmailSignature> {
+    return this.file.update(data => saveSignature(data, input));
+  }
+
+  /**
+   * Remove a signature and the defaults that point to it
+   * @param id - Signature id
+   * @returns True if the signature existed
+   */
+  remove(id: string): Promise<boolean> {
+    return this.file.update(data => {
+      const index = data.signatures.findIndex(signature => signature.id === id);
+      if (index < 0) {
+        return false;
+      }
+      data.signatures.splice(index, 1);
+      Object.keys(data.defaults).forEach(key => {
+        if (data.defaults[key] === id) delete data.defaults[key];
+      });
+      return true;
+    });
+  }
+
+  /**
+   * Set or clear the default signature of an account or sending address
+   * @param key - Account id or sending address
+   * @param signatureId - Signature id, or null for no signature
+   * @param onlyIfUnset - Keep an existing default (used by imports)
+   */
+  setDefault(key: string, signatureId: string | null, onlyIfUnset: boolean = false): Promise<void> {
+    return this.file.update(data => setDefaultSignature(data, key, signatureId, onlyIfUnset));
+  }
+
+  /**
+   * Set where signatures go in replies and forwards
+   * @param placement - Above or below the quoted text
+   */
+  setPlacement(placement: SignaturePlacement): Promise<void> {
+    return this.file.update(data => {
+      data.placement = placement;
+    });
+  }
+
+  /**
+   * Import the signatures saved with IMAP account settings, once
+   * @param accounts - Stored accounts
+   */
+  importLegacySignatures(accounts: StoredMailAccount[]): Promise<void> {
+    return this.file.update(data => {
+      if (data.legacyImported) {
+        return;
+      }
+
+      for (const account of accounts) {
+        const text = account.type === 'imap' ? (account.credentials as EmailConfig | null)?.signature?.trim() : '';
+        if (!text) continue;
+        const signature = saveSignature(data, {
+          name: account.email || 'Signature',
+          html: escapeHtml(text).replace(/\r?\n/g, '<br>'),
+          text,
+          importedFrom: `account:${account.id}`
+        });
+        setDefaultSignature(data, account.id, signature.id, true);
+        console.log(`SignatureStore: Imported the signature of ${account.email || account.id}`);
+      }
+
+      data.legacyImported = true;
+    });
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Template Store Module
+ * Runs in the Electron main process. Keeps the message templates in
+ * userData/templates.json, and reads and writes the JSON files templates are
+ * imported from and exported to ({ version, templates }).
+ */
+
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { promises as fsPromises } from 'fs';
+import type { EmailTemplate } from '../../types/config';
+import { JsonFileStore } from './json-file-store.js';
+
+/**
+ * On-disk representation of the templates (also the export format)
+ */
+interface TemplateStoreFile {
+  version: number;
+  templates: EmailTemplate[];
+}
+
+/**
+ * Template to save; templates without an id are created
+ */
+export type TemplateInput = Omit<EmailTemplate, 'id' | 'updatedAt'> & { id?: string };
+
+const STORE_VERSION = 1;
+
+/**
+ * Check an imported template and keep only the known fields
+ * @param value - Template from an import file
+ * @returns Template input, or null when it has no name or body
+ */
+function toTemplateInput(value: any): TemplateInput | null {
+  if (!value || typeof value.name !== 'string' || !value.name.trim() || typeof value.html !== 'string') {
+    return null;
+  }
+  return {
+    id: typeof value.id === 'string' && value.id ? value.id : undefined,
+    name: value.name.trim(),
+    category: typeof value.category === 'string' ? value.category.trim() : '',
+    subject: typeof value.subject === 'string' ? value.subject : '',
+    html: value.html
+  };
+}
+
+/**
+ * Create or update a template in the list (see TemplateStore.save)
+ */
+function saveTemplate(templates: EmailTemplate[], input: TemplateInput): EmailTemplate {
+  const updatedAt = new Date().toISOString();
+  const existing = input.id ? templates.find(template => template.id === input.id) : undefined;
+
+  if (existing) {
+    Object.assign(existing, input, { id: existing.id, updatedAt });
+    return existing;
+  }
+
+  const template: EmailTemplate = { ...input, id: input.id || crypto.randomUUID(), updatedAt };
+  templates.push(template);
+  return template;
+}
+
+/**
+ * Template Store - JSON-backed message templates
+ */
+export class TemplateStore {
+  private file: JsonFileStore<TemplateStoreFile>;
+
+  constructor(userDataPath: string) {
+    this.file = new JsonFileStore<TemplateStoreFile>(path.join(userDataPath, 'templates.json'), {
+      name: 'TemplateStore',
+      createEmpty: () => ({ version: STORE_VERSION, templates: [] }),
+      parse: parsed => Array.isArray(parsed?.templates) ? { version: STORE_VERSION, templates: parsed.templates } : null,
+      indent: 2
+    });
+  }
+
+  /**
+   * List the templates
+   * @returns Templates by category, then name
+   */
+  async list(): Promise<EmailTemplate[]> {
+    const { templates } = await this.file.read();
+    return [...templates].sort((a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Create a template, or update an existing one
+   * @param input - Template
+   * @returns Saved template
+   */
+  save(input: TemplateInput): Promise<EmailTemplate> {
+    return this.file.update(({ templates }) => saveTemplate(templates, input));
+  }
+
+  /**
+   * Remove a template
+   * @param id - Template id
+   * @returns True if the template existed
+   */
+  remove(id: string): Promise<boolean> {
+    return this.file.update(({ templates }) => {
+      const index = templates.findIndex(template => template.id === id);
+      if (index < 0) {
+        return false;
+      }
+      templates.splice(index, 1);
+      return true;
+    });
+  }
+
+  /**
+   * Write all templates to an export file
+   * @param filePath - Destination
+   * @returns Number of exported templates
+   */
+  async exportTo(filePath: string): Promise<number> {
+    const templates = await this.list();
+    const file: TemplateStoreFile = { version: STORE_VERSION, templates };
+    await fsPromises.writeFile(filePath, JSON.stringify(file, null, 2), 'utf8');
+    return templates.length;
+  }
+
+  /**
+   * Add the templates of an export file; templates with a known id are updated
+   * @param filePath - Export file (or a plain array of templates)
+   * @returns Number of imported templates
+   */
+  async importFrom(filePath: string): Promise<number> {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(await fsPromises.readFile(filePath, 'utf8'));
+    } catch (error: any) {
+      throw new Error(`Not a templates file: ${error.message}`);
+    }
+
+    const entries = Array.isArray(parsed) ? parsed : parsed?.templates;
+    if (!Array.isArray(entries)) {
+      throw new Error('Not a templates file: no templates found');
+    }
+
+    const inputs = entries.map(toTemplateInput).filter((input): input is TemplateInput => !!input);
+    // One write for the whole file
+    await this.file.update(({ templates }) => {
+      inputs.forEach(input => saveTemplate(templates, input));
+    });
+    return inputs.length;
+  }
+}
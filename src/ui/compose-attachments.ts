@@ -0,0 +1,221 @@
+/**
+ * Compose Attachments Module
+ * Keeps the files attached to the message being composed. Files are added with
+ * the file picker, by dropping them onto the compose modal, or programmatically
+ * (forwarded attachments), and are checked against
+ * EMAIL_PARSING_CONFIG.maxAttachmentSize before they are accepted.
+ */
+
+import type { OutgoingAttachment } from '../../types/email';
+import { EMAIL_PARSING_CONFIG } from '../config/config.js';
+import { uiThemeManager } from './ui-theme-manager.js';
+
+/**
+ * Format a byte count for display
+ * @param bytes - Size in bytes
+ * @returns e.g. "1.2 MB"
+ */
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Read a file as base64
+ * @param file - File from the picker or a drop
+ * @returns base64 encoded content
+ */
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = String(reader.result || '');
+      resolve(dataUrl.slice(dataUrl.indexOf(',') + 1));
+    };
+    reader.onerror = () => reject(reader.error || new Error(`Failed to read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Compose Attachments - Pending attachments of the compose modal
+ */
+class ComposeAttachments {
+  private attachments: OutgoingAttachment[] = [];
+  private listElement: HTMLElement | null = null;
+  private initialized: boolean = false;
+
+  /**
+   * Wire the file picker and drag-and-drop onto the compose modal
+   */
+  initialize(): void {
+    if (this.initialized) {
+      return;
+    }
+
+    this.listElement = document.getElementById('compose-attachment-list');
+    const fileInput = document.getElementById('attachment-input') as HTMLInputElement | null;
+    const attachButton = document.getElementById('attach-btn');
+    const dropTarget = document.querySelector('#compose-modal .modal-content') as HTMLElement | null;
+
+    if (attachButton && fileInput) {
+      attachButton.addEventListener('click', () => fileInput.click());
+      fileInput.addEventListener('change', () => {
+        if (fileInput.files) {
+          this.addFiles(fileInput.files);
+        }
+        // Allow picking the same file again
+        fileInput.value = '';
+      });
+    }
+
+    if (dropTarget) {
+      dropTarget.addEventListener('dragover', (event: DragEvent) => {
+        if (event.dataTransfer?.types.includes('Files')) {
+          event.preventDefault();
+          dropTarget.classList.add('drag-over');
+        }
+      });
+      dropTarget.addEventListener('dragleave', (event: DragEvent) => {
+        if (!dropTarget.contains(event.relatedTarget as Node | null)) {
+          dropTarget.classList.remove('drag-over');
+        }
+      });
+      dropTarget.addEventListener('drop', (event: DragEvent) => {
+        event.preventDefault();
+        dropTarget.classList.remove('drag-over');
+        if (event.dataTransfer?.files.length) {
+          this.addFiles(event.dataTransfer.files);
+        }
+      });
+    }
+
+    this.initialized = true;
+  }
+
+  /**
+   * Attach files picked or dropped by the user
+   * @param files - Files to attach
+   */
+  async addFiles(files: FileList | File[]): Promise<void> {
+    for (const file of Array.from(files)) {
+      if (!this.checkSize(file.name, file.size)) {
+        continue;
+      }
+      try {
+        const content = await readFileAsBase64(file);
+        this.attachments.push({
+          filename: file.name,
+          contentType: file.type || 'application/octet-stream',
+          size: file.size,
+          content
+        });
+      } catch (error) {
+        console.error('ComposeAttachments: Failed to read file:', error);
+        uiThemeManager.showNotification(`Could not attach ${file.name}`, 'error');
+      }
+    }
+    this.render();
+  }
+
+  /**
+   * Attach an already encoded file (e.g. an attachment of a forwarded message)
+   * @param attachment - Attachment with base64 content
+   * @returns True if it fits within the size limit
+   */
+  addAttachment(attachment: OutgoingAttachment): boolean {
+    if (!this.checkSize(attachment.filename, attachment.size)) {
+      return false;
+    }
+    this.attachments.push(attachment);
+    this.render();
+    return true;
+  }
+
+  /**
+   * Remove an attachment
+   * @param index - Position in the list
+   */
+  remove(index: number): void {
+    this.attachments.splice(index, 1);
+    this.render();
+  }
+
+  /**
+   * Remove all attachments (new message or message sent)
+   */
+  clear(): void {
+    this.attachments = [];
+    this.render();
+  }
+
+  /**
+   * Get the attachments of the message being composed
+   * @returns Attachments in the order they were added
+   */
+  getAttachments(): OutgoingAttachment[] {
+    return [...this.attachments];
+  }
+
+  /**
+   * Check that adding a file keeps the message within the attachment size limit
+   * @param filename - File name for the warning
+   * @param size - File size in bytes
+   * @returns True if the file can be added
+   */
+  private checkSize(filename: string, size: number): boolean {
+    const limit = EMAIL_PARSING_CONFIG.maxAttachmentSize;
+    const total = this.attachments.reduce((sum, attachment) => sum + attachment.size, 0);
+    if (total + size > limit) {
+      uiThemeManager.showNotification(`${filename} (${formatSize(size)}) exceeds the ${formatSize(limit)} attachment limit`, 'warning');
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Render the attachment chips below the message body
+   */
+  private render(): void {
+    if (!this.listElement) return;
+
+    this.listElement.innerHTML = '';
+    this.attachments.forEach((attachment, index) => {
+      const item = document.createElement('div');
+      item.className = 'compose-attachment';
+      item.title = attachment.filename;
+
+      const icon = document.createElement('i');
+      icon.className = 'fas fa-paperclip';
+
+      const name = document.createElement('span');
+      name.className = 'compose-attachment-name';
+      name.textContent = attachment.filename;
+
+      const size = document.createElement('span');
+      size.className = 'compose-attachment-size';
+      size.textContent = formatSize(attachment.size);
+
+      const remove = document.createElement('button');
+      remove.type = 'button';
+      remove.className = 'compose-attachment-remove';
+      remove.title = 'Remove attachment';
+      remove.innerHTML = '<i class="fas fa-times"></i>';
+      remove.addEventListener('click', () => this.remove(index));
+
+      item.appendChild(icon);
+      item.appendChild(name);
+      item.appendChild(size);
+      item.appendChild(remove);
+      this.listElement!.appendChild(item);
+    });
+  }
+}
+
+// Global assignment for browser environments
+if (typeof window !== 'undefined') {
+  (window as any).ComposeAttachments = ComposeAttachments;
+}
+
+export { ComposeAttachments };
@@ -0,0 +1,180 @@
+/**
+ * Compose Form Module
+ * Markup of the compose form and of the dialogs it opens (templates, send
+ * checks), shared by the compose modal of the main window (public/index.html)
+ * and compose windows (public/compose.html). The pages only hold the empty
+ * modal containers; mountComposeForm fills them before the composer is created.
+ */
+
+const COMPOSE_MODAL_HTML = `
+  <div class="modal-content">
+    <div class="modal-header">
+      <h3>Compose Email</h3>
+      <button type="button" class="popout-btn" id="popout-compose" title="Open in a new window" hidden><i class="fas fa-external-link-alt"></i></button>
+      <button class="close-btn" id="close-compose">&times;</button>
+    </div>
+    <div class="modal-body">
+      <form id="compose-form">
+        <div class="form-group" id="from-account-group" style="display: none;">
+          <label for="from-account">From:</label>
+          <select id="from-account"></select>
+        </div>
+        <div class="form-group">
+          <label for="to-input">To:</label>
+          <div class="recipient-input">
+            <input type="text" id="to-input" autocomplete="off" spellcheck="false">
+          </div>
+        </div>
+        <div class="form-group">
+          <label for="cc-input">CC:</label>
+          <div class="recipient-input">
+            <input type="text" id="cc-input" autocomplete="off" spellcheck="false">
+          </div>
+        </div>
+        <div class="form-group">
+          <label for="bcc-input">BCC:</label>
+          <div class="recipient-input">
+            <input type="text" id="bcc-input" autocomplete="off" spellcheck="false">
+          </div>
+        </div>
+        <div class="form-group">
+          <label for="subject-input">Subject:</label>
+          <input type="text" id="subject-input">
+        </div>
+        <div class="form-group">
+          <label for="body-input">Message:</label>
+          <div class="rich-text-toolbar" id="body-toolbar" role="toolbar" aria-label="Formatting">
+            <button type="button" data-command="bold" title="Bold (Ctrl+B)"><i class="fas fa-bold"></i></button>
+            <button type="button" data-command="italic" title="Italic (Ctrl+I)"><i class="fas fa-italic"></i></button>
+            <button type="button" data-command="underline" title="Underline (Ctrl+U)"><i class="fas fa-underline"></i></button>
+            <span class="toolbar-separator"></span>
+            <button type="button" data-command="insertUnorderedList" title="Bulleted list"><i class="fas fa-list-ul"></i></button>
+            <button type="button" data-command="insertOrderedList" title="Numbered list"><i class="fas fa-list-ol"></i></button>
+            <button type="button" data-command="formatBlock" data-value="blockquote" title="Quote"><i class="fas fa-quote-right"></i></button>
+            <span class="toolbar-separator"></span>
+            <button type="button" data-command="link" title="Insert link"><i class="fas fa-link"></i></button>
+            <button type="button" data-command="image" title="Insert image"><i class="fas fa-image"></i></button>
+            <button type="button" data-command="removeFormat" title="Clear formatting"><i class="fas fa-remove-format"></i></button>
+            <span class="toolbar-separator"></span>
+            <select id="signature-select" class="signature-select" title="Signature" aria-label="Signature">
+              <option value="">No signature</option>
+            </select>
+            <select id="template-select" class="template-select" title="Insert template (Ctrl+Shift+T)" aria-label="Insert template">
+              <option value="">Templates</option>
+            </select>
+          </div>
+          <div class="editor-link-bar" id="editor-link-bar" hidden>
+            <input type="text" id="editor-link-input" placeholder="https://example.com or name@example.com">
+            <button type="button" id="editor-link-apply" class="btn-secondary">Apply</button>
+            <button type="button" id="editor-link-cancel" class="btn-secondary">Cancel</button>
+          </div>
+          <div id="body-input" class="rich-text-editor" contenteditable="true" role="textbox" aria-multiline="true"></div>
+          <input type="file" id="inline-image-input" accept="image/*" multiple hidden>
+        </div>
+        <div class="form-group compose-attachments">
+          <input type="file" id="attachment-input" multiple hidden>
+          <button type="button" id="attach-btn" class="btn-secondary"><i class="fas fa-paperclip"></i> Attach files</button>
+          <div id="compose-attachment-list" class="compose-attachment-list"></div>
+        </div>
+        <div class="form-actions">
+          <button type="button" id="save-draft-btn" class="btn-secondary">Save Draft</button>
+          <div class="schedule-send">
+            <button type="button" id="schedule-send-btn" class="btn-secondary" title="Send later" aria-haspopup="true" aria-expanded="false"><i class="fas fa-clock"></i> Send later</button>
+            <div id="schedule-send-menu" class="schedule-send-menu" hidden>
+              <div id="schedule-send-presets" class="schedule-send-presets"></div>
+              <label for="schedule-send-at">Pick date &amp; time</label>
+              <div class="schedule-send-custom">
+                <input type="datetime-local" id="schedule-send-at">
+                <button type="button" id="schedule-send-confirm" class="btn-primary">Schedule</button>
+              </div>
+            </div>
+          </div>
+          <button type="submit" class="btn-primary">Send</button>
+        </div>
+      </form>
+    </div>
+  </div>
+`;
+
+const TEMPLATES_MODAL_HTML = `
+  <div class="modal-content templates-modal-content">
+    <div class="modal-header">
+      <h3>Templates</h3>
+      <button class="close-btn" id="close-templates">&times;</button>
+    </div>
+    <div class="modal-body">
+      <div class="templates-layout">
+        <div class="templates-sidebar">
+          <div class="template-list" id="template-list">
+            <!-- Templates will be populated here -->
+          </div>
+          <button type="button" id="new-template-btn" class="btn-secondary"><i class="fas fa-plus"></i> New template</button>
+          <div class="templates-transfer">
+            <button type="button" id="import-templates-btn" class="btn-secondary"><i class="fas fa-file-import"></i> Import</button>
+            <button type="button" id="export-templates-btn" class="btn-secondary"><i class="fas fa-file-export"></i> Export</button>
+          </div>
+        </div>
+        <form id="template-form" class="template-form">
+          <div class="form-group">
+            <label for="template-name">Name:</label>
+            <input type="text" id="template-name" required>
+          </div>
+          <div class="form-group">
+            <label for="template-category">Category:</label>
+            <input type="text" id="template-category" list="template-categories" placeholder="e.g. Billing">
+            <datalist id="template-categories"></datalist>
+          </div>
+          <div class="form-group">
+            <label for="template-subject">Subject:</label>
+            <input type="text" id="template-subject" placeholder="Used when the message has no subject">
+          </div>
+          <div class="form-group">
+            <label for="template-html-input">Message:</label>
+            <div id="template-html-input" class="rich-text-editor template-html-input" contenteditable="true" role="textbox" aria-multiline="true"></div>
+          </div>
+          <div class="template-variables" id="template-variables">
+            <!-- Placeholders will be populated here -->
+          </div>
+          <div class="form-actions">
+            <button type="button" id="delete-template-btn" class="btn-secondary" hidden>Delete</button>
+            <button type="submit" class="btn-primary">Save Template</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  </div>
+`;
+
+const SEND_CHECK_MODAL_HTML = `
+  <div class="modal-content send-check-modal-content">
+    <div class="modal-header">
+      <h3>Before you send</h3>
+      <button class="close-btn" id="close-send-check">&times;</button>
+    </div>
+    <div class="modal-body">
+      <ul class="send-check-warnings" id="send-check-warnings"></ul>
+      <div class="form-actions">
+        <button type="button" id="cancel-send-check" class="btn-secondary">Go back</button>
+        <button type="button" id="confirm-send-check" class="btn-primary">Send anyway</button>
+      </div>
+    </div>
+  </div>
+`;
+
+/**
+ * Fill the compose, templates and send check modal containers of the page
+ * Must run before getEmailComposer(), whose modules look their elements up on creation.
+ */
+export function mountComposeForm(): void {
+  const containers: Array<[string, string]> = [
+    ['compose-modal', COMPOSE_MODAL_HTML],
+    ['templates-modal', TEMPLATES_MODAL_HTML],
+    ['send-check-modal', SEND_CHECK_MODAL_HTML]
+  ];
+  containers.forEach(([id, html]) => {
+    const container = document.getElementById(id);
+    if (container) {
+      container.innerHTML = html;
+    }
+  });
+}
@@ -0,0 +1,162 @@
+/**
+ * Drafts List Module
+ * Modal listing the saved drafts, most recently edited first, with actions to
+ * resume a draft in the compose modal or delete it.
+ */
+
+import type { EmailDraft } from '../../types/email';
+import type { DraftManager } from '../email/draft-manager.js';
+import { uiThemeManager } from './ui-theme-manager.js';
+
+/**
+ * Drafts List - Saved drafts modal
+ */
+class DraftsList {
+  private draftManager: DraftManager;
+  private onResume: (draft: EmailDraft) => void;
+  private modal: HTMLElement | null = null;
+  private listElement: HTMLElement | null = null;
+  private initialized: boolean = false;
+
+  /**
+   * @param draftManager - Source of the drafts
+   * @param onResume - Opens a draft in the compose modal
+   */
+  constructor(draftManager: DraftManager, onResume: (draft: EmailDraft) => void) {
+    this.draftManager = draftManager;
+    this.onResume = onResume;
+  }
+
+  /**
+   * Wire the Drafts button and the modal
+   */
+  initialize(): void {
+    if (this.initialized) {
+      return;
+    }
+
+    this.modal = document.getElementById('drafts-modal');
+    this.listElement = document.getElementById('drafts-list');
+
+    document.getElementById('drafts-btn')?.addEventListener('click', () => this.show());
+    document.getElementById('close-drafts')?.addEventListener('click', () => this.hide());
+    this.modal?.addEventListener('click', (event: Event) => {
+      if (event.target === this.modal) {
+        this.hide();
+      }
+    });
+
+    this.initialized = true;
+  }
+
+  /**
+   * Open the modal with the current drafts
+   */
+  async show(): Promise<void> {
+    if (!this.modal) return;
+    this.modal.style.display = 'block';
+    this.modal.classList.add('show');
+    setTimeout(() => this.modal?.classList.add('active'), 10);
+    await this.refresh();
+  }
+
+  /**
+   * Close the modal
+   */
+  hide(): void {
+    if (!this.modal) return;
+    this.modal.classList.remove('active', 'show');
+    setTimeout(() => {
+      if (this.modal) this.modal.style.display = 'none';
+    }, 300);
+  }
+
+  /**
+   * Reload and render the drafts
+   */
+  async refresh(): Promise<void> {
+    try {
+      this.render(await this.draftManager.listDrafts());
+    } catch (error) {
+      console.error('DraftsList: Failed to load drafts:', error);
+      uiThemeManager.showNotification('Failed to load drafts', 'error');
+    }
+  }
+
+  private render(drafts: EmailDraft[]): void {
+    if (!this.listElement) return;
+
+    this.listElement.innerHTML = '';
+    if (drafts.length === 0) {
+      const empty = document.createElement('div');
+      empty.className = 'drafts-empty';
+      empty.textContent = 'No drafts';
+      this.listElement.appendChild(empty);
+      return;
+    }
+
+    const accounts: Array<{ id: string; email: string }> = (window as any).mailAccounts || [];
+    drafts.forEach(draft => {
+      const item = document.createElement('div');
+      item.className = 'draft-item';
+
+      const content = document.createElement('div');
+      content.className = 'draft-content';
+      content.addEventListener('click', () => this.resume(draft));
+
+      const subject = document.createElement('div');
+      subject.className = 'draft-subject';
+      subject.textContent = draft.subject || '(no subject)';
+
+      const recipients = document.createElement('div');
+      recipients.className = 'draft-recipients';
+      recipients.textContent = draft.to ? `To: ${draft.to}` : 'No recipients';
+
+      const meta = document.createElement('div');
+      meta.className = 'draft-meta';
+      const account = accounts.find(candidate => candidate.id === draft.accountId);
+      const status = draft.syncError
+        ? 'Not synced'
+        : draft.syncedAt ? 'Synced' : 'On this device';
+      meta.textContent = [account?.email, new Date(draft.updatedAt).toLocaleString(), status].filter(Boolean).join(' · ');
+      if (draft.syncError) {
+        meta.title = draft.syncError;
+      }
+
+      content.appendChild(subject);
+      content.appendChild(recipients);
+      content.appendChild(meta);
+
+      const remove = document.createElement('button');
+      remove.type = 'button';
+      remove.className = 'draft-delete';
+      remove.title = 'Delete draft';
+      remove.innerHTML = '<i class="fas fa-trash"></i>';
+      remove.addEventListener('click', () => this.deleteDraft(draft));
+
+      item.appendChild(content);
+      item.appendChild(remove);
+      this.listElement!.appendChild(item);
+    });
+  }
+
+  private resume(draft: EmailDraft): void {
+    this.hide();
+    this.onResume(draft);
+  }
+
+  private async deleteDraft(draft: EmailDraft): Promise<void> {
+    if (!confirm(`Delete the draft "${draft.subject || '(no subject)'}"?`)) {
+      return;
+    }
+    await this.draftManager.deleteDraft(draft.id);
+    await this.refresh();
+  }
+}
+
+// Global assignment for browser environments
+if (typeof window !== 'undefined') {
+  (window as any).DraftsList = DraftsList;
+}
+
+export { DraftsList };
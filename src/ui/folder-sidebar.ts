@@ -0,0 +1,251 @@
+/**
+ * Folder Sidebar Module
+ * Lists the accounts (plus the unified inbox) and the shown account's Gmail
+ * labels, Outlook folders or IMAP mailboxes with unread counts. Selecting an
+ * entry switches the conversation list via IMAPEmailManager.switchAccount or
+ * IMAPEmailManager.switchFolder.
+ */
+
+import type { MailFolder, MailFolderRole } from '../../types/email';
+import type { MailAccount, MailAccountType } from '../../types/config';
+import { UNIFIED_ACCOUNT_ID, type IMAPEmailManager } from '../email/imap-email-manager.js';
+
+/**
+ * Font Awesome icon for each folder role
+ */
+const FOLDER_ICONS: Record<MailFolderRole, string> = {
+  inbox: 'fa-inbox',
+  sent: 'fa-paper-plane',
+  drafts: 'fa-file-alt',
+  trash: 'fa-trash',
+  spam: 'fa-exclamation-triangle',
+  archive: 'fa-archive',
+  starred: 'fa-star',
+  important: 'fa-bookmark',
+  all: 'fa-envelope-open'
+};
+
+/**
+ * Font Awesome icon for each account type
+ */
+const ACCOUNT_ICONS: Record<MailAccountType, string> = {
+  gmail: 'fab fa-google',
+  outlook: 'fab fa-microsoft',
+  imap: 'fas fa-server'
+};
+
+/**
+ * Folder Sidebar - Renders the account and folder/label lists and handles selection
+ */
+class FolderSidebar {
+  private imapEmailManager: IMAPEmailManager;
+  private accountsList: HTMLElement | null = null;
+  private foldersList: HTMLElement | null = null;
+  private refreshing: boolean = false;
+
+  constructor(imapEmailManager: IMAPEmailManager) {
+    this.imapEmailManager = imapEmailManager;
+  }
+
+  /**
+   * Initialize the sidebar and refresh it after every successful sync
+   */
+  initialize(): void {
+    this.accountsList = document.getElementById('accounts-list');
+    this.foldersList = document.getElementById('folders-list');
+    if (!this.foldersList) {
+      console.warn('FolderSidebar: #folders-list not found');
+      return;
+    }
+
+    // Accounts were added or removed, or another account is shown
+    window.addEventListener('accountsChanged', () => {
+      this.renderAccounts(this.imapEmailManager.getAccounts());
+      if (this.imapEmailManager.getFolders().length === 0) {
+        this.render([]);
+      }
+    });
+
+    // Unread counts change whenever new mail is synced
+    window.addEventListener('emailsSynced', () => {
+      this.refresh().catch(error => {
+        console.warn('FolderSidebar: Failed to refresh folders:', error);
+      });
+    });
+  }
+
+  /**
+   * Reload the folder list and counts from the server
+   */
+  async refresh(): Promise<void> {
+    if (this.refreshing) {
+      return;
+    }
+
+    this.refreshing = true;
+    try {
+      const folders = await this.imapEmailManager.loadFolders();
+      this.render(folders);
+    } finally {
+      this.refreshing = false;
+    }
+  }
+
+  /**
+   * Render the folder list
+   * @param folders - Folders to display
+   */
+  render(folders: MailFolder[]): void {
+    if (!this.foldersList) return;
+
+    this.foldersList.innerHTML = '';
+    const currentFolder = this.imapEmailManager.getCurrentFolder();
+
+    folders.forEach(folder => {
+      this.foldersList!.appendChild(this.createFolderElement(folder, folder.id === currentFolder));
+    });
+  }
+
+  /**
+   * Render the account list, preceded by the unified inbox when there is more than one account
+   * @param accounts - Configured accounts
+   */
+  renderAccounts(accounts: MailAccount[]): void {
+    if (!this.accountsList) return;
+
+    this.accountsList.innerHTML = '';
+    const currentAccountId = this.imapEmailManager.getCurrentAccountId();
+
+    if (accounts.length > 1) {
+      const unified = this.createAccountElement('fas fa-inbox', 'All inboxes', 'All inboxes', UNIFIED_ACCOUNT_ID, currentAccountId === UNIFIED_ACCOUNT_ID);
+      this.accountsList.appendChild(unified);
+    }
+    accounts.forEach(account => {
+      const name = account.email || account.displayName || account.type;
+      const label = account.displayName && account.email ? `${account.displayName} <${account.email}>` : name;
+      // With a single account the unified inbox is that account's inbox
+      const active = account.id === currentAccountId || (accounts.length === 1 && currentAccountId === UNIFIED_ACCOUNT_ID);
+      const item = this.createAccountElement(ACCOUNT_ICONS[account.type], name, label, account.id, active);
+
+      const remove = document.createElement('button');
+      remove.className = 'account-remove';
+      remove.title = 'Remove account';
+      remove.innerHTML = '<i class="fas fa-times"></i>';
+      remove.addEventListener('click', event => {
+        event.stopPropagation();
+        this.removeAccount(account, label);
+      });
+      item.appendChild(remove);
+
+      this.accountsList!.appendChild(item);
+    });
+  }
+
+  /**
+   * Create an account list item
+   * @param iconClass - Font Awesome classes
+   * @param name - Text shown in the list
+   * @param label - Full account name shown as tooltip
+   * @param accountId - Account id or UNIFIED_ACCOUNT_ID
+   * @param active - Whether the account is currently shown
+   * @returns Account element
+   */
+  private createAccountElement(iconClass: string, name: string, label: string, accountId: string, active: boolean): HTMLElement {
+    const item = document.createElement('div');
+    item.className = `folder-item account-item${active ? ' active' : ''}`;
+    item.dataset.accountId = accountId;
+    item.title = label;
+
+    const icon = document.createElement('i');
+    icon.className = iconClass;
+
+    const nameElement = document.createElement('span');
+    nameElement.className = 'folder-name';
+    nameElement.textContent = name;
+
+    item.appendChild(icon);
+    item.appendChild(nameElement);
+    item.addEventListener('click', () => this.selectAccount(accountId));
+    return item;
+  }
+
+  /**
+   * Show an account's inbox, or the unified inbox
+   * @param accountId - Account id or UNIFIED_ACCOUNT_ID
+   */
+  private selectAccount(accountId: string): void {
+    this.accountsList?.querySelectorAll('.account-item').forEach(element => {
+      element.classList.toggle('active', (element as HTMLElement).dataset.accountId === accountId);
+    });
+    this.imapEmailManager.switchAccount(accountId).catch(error => {
+      console.error('FolderSidebar: Failed to switch account:', error);
+    });
+  }
+
+  /**
+   * Remove an account after confirmation
+   * @param account - Account to remove
+   * @param label - Account name shown in the confirmation
+   */
+  private removeAccount(account: MailAccount, label: string): void {
+    if (!confirm(`Remove ${label}? Its cached mail will be deleted from this computer.`)) {
+      return;
+    }
+    this.imapEmailManager.removeAccount(account.id).catch(error => {
+      console.error('FolderSidebar: Failed to remove account:', error);
+    });
+  }
+
+  /**
+   * Create a folder list item
+   * @param folder - Folder data
+   * @param active - Whether the folder is currently shown
+   * @returns Folder element
+   */
+  private createFolderElement(folder: MailFolder, active: boolean): HTMLElement {
+    const item = document.createElement('div');
+    item.className = `folder-item${active ? ' active' : ''}`;
+    item.dataset.folderId = folder.id;
+    item.title = folder.name;
+    item.style.paddingLeft = `calc(var(--sh-space-5) + ${folder.depth * 12}px)`;
+
+    const icon = document.createElement('i');
+    icon.className = `fas ${folder.role ? FOLDER_ICONS[folder.role] : 'fa-tag'}`;
+
+    const name = document.createElement('span');
+    name.className = 'folder-name';
+    // Nested Gmail labels are named "Parent/Child"; show only the last segment
+    name.textContent = folder.type === 'user' ? folder.name.split('/').pop() || folder.name : folder.name;
+
+    item.appendChild(icon);
+    item.appendChild(name);
+
+    if (folder.unreadCount > 0) {
+      const count = document.createElement('span');
+      count.className = 'folder-unread';
+      count.textContent = String(folder.unreadCount);
+      item.appendChild(count);
+    }
+
+    item.addEventListener('click', () => this.selectFolder(folder.id));
+    return item;
+  }
+
+  /**
+   * Show a folder's conversations
+   * @param folderId - Gmail label id or IMAP mailbox path
+   */
+  private selectFolder(folderId: string): void {
+    this.foldersList?.querySelectorAll('.folder-item').forEach(element => {
+      element.classList.toggle('active', (element as HTMLElement).dataset.folderId === folderId);
+    });
+    this.imapEmailManager.switchFolder(folderId);
+  }
+}
+
+// Global assignment for browser environments
+if (typeof window !== 'undefined') {
+  (window as any).FolderSidebar = FolderSidebar;
+}
+
+export { FolderSidebar };
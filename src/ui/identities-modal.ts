@@ -0,0 +1,290 @@
+/**
+ * Identities Modal Module
+ * Settings dialog for the addresses mail is sent as. Lists each account's own
+ * address and Gmail send-as aliases (managed in Gmail), and creates, edits and
+ * deletes custom identities of IMAP accounts (address, display name and
+ * Reply-To). Every identity can have its own default signature.
+ * Opened from the "Manage identities" button of the settings modal.
+ */
+
+import type { MailAccount, SendIdentity } from '../../types/config';
+import type { IdentityManager } from '../email/identity-manager.js';
+import type { SignatureManager } from '../email/signature-manager.js';
+import { uiThemeManager } from './ui-theme-manager.js';
+
+/**
+ * Key of an identity's default signature: the account id for the account's own
+ * address, the address otherwise (see SignatureManager.getDefaultFor)
+ */
+function getSignatureKey(identity: Pick<SendIdentity, 'accountId' | 'email' | 'source'>): string {
+  return identity.source === 'account' ? identity.accountId : identity.email.toLowerCase();
+}
+
+/**
+ * Identities Modal - Send-as identities
+ */
+class IdentitiesModal {
+  private identityManager: IdentityManager;
+  private signatureManager: SignatureManager;
+  private getAccounts: () => MailAccount[];
+  private modal: HTMLElement | null = null;
+  private listElement: HTMLElement | null = null;
+  private accountSelect: HTMLSelectElement | null = null;
+  private emailInput: HTMLInputElement | null = null;
+  private nameInput: HTMLInputElement | null = null;
+  private replyToInput: HTMLInputElement | null = null;
+  private signatureSelect: HTMLSelectElement | null = null;
+  private noteElement: HTMLElement | null = null;
+  // Identity shown in the form, null for a new one
+  private editing: SendIdentity | null = null;
+  private initialized: boolean = false;
+
+  /**
+   * @param identityManager - Identities of the accounts
+   * @param signatureManager - Signatures and their defaults
+   * @param getAccounts - Accounts mail can be sent from
+   */
+  constructor(identityManager: IdentityManager, signatureManager: SignatureManager, getAccounts: () => MailAccount[]) {
+    this.identityManager = identityManager;
+    this.signatureManager = signatureManager;
+    this.getAccounts = getAccounts;
+  }
+
+  /**
+   * Wire the Manage identities button, the modal and its form
+   */
+  initialize(): void {
+    if (this.initialized) {
+      return;
+    }
+
+    this.modal = document.getElementById('identities-modal');
+    this.listElement = document.getElementById('identity-list');
+    this.accountSelect = document.getElementById('identity-account') as HTMLSelectElement | null;
+    this.emailInput = document.getElementById('identity-email') as HTMLInputElement | null;
+    this.nameInput = document.getElementById('identity-name') as HTMLInputElement | null;
+    this.replyToInput = document.getElementById('identity-reply-to') as HTMLInputElement | null;
+    this.signatureSelect = document.getElementById('identity-signature') as HTMLSelectElement | null;
+    this.noteElement = document.getElementById('identity-note');
+
+    document.getElementById('manage-identities-btn')?.addEventListener('click', () => this.show());
+    document.getElementById('close-identities')?.addEventListener('click', () => this.hide());
+    this.modal?.addEventListener('click', (event: Event) => {
+      if (event.target === this.modal) {
+        this.hide();
+      }
+    });
+    this.modal?.addEventListener('keydown', (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        // Close this dialog only, not the settings modal below it
+        event.stopPropagation();
+        this.hide();
+      }
+    });
+
+    document.getElementById('new-identity-btn')?.addEventListener('click', () => this.edit(null));
+    document.getElementById('delete-identity-btn')?.addEventListener('click', () => this.deleteEditing());
+    document.getElementById('identity-form')?.addEventListener('submit', (event: Event) => {
+      event.preventDefault();
+      this.saveEditing();
+    });
+
+    window.addEventListener('identitiesChanged', () => {
+      if (this.isOpen()) this.renderList();
+    });
+    window.addEventListener('signaturesChanged', () => {
+      if (this.isOpen()) this.renderSignatures();
+    });
+
+    this.initialized = true;
+  }
+
+  /**
+   * Open the modal with the current identities
+   */
+  async show(): Promise<void> {
+    if (!this.modal) return;
+    this.modal.style.display = 'block';
+    this.modal.classList.add('show');
+    setTimeout(() => this.modal?.classList.add('active'), 10);
+    try {
+      await this.identityManager.reload();
+    } catch (error) {
+      console.error('IdentitiesModal: Failed to load identities:', error);
+      uiThemeManager.showNotification('Failed to load identities', 'error');
+    }
+    this.edit(this.getIdentities()[0] || null);
+  }
+
+  /**
+   * Close the modal
+   */
+  hide(): void {
+    if (!this.modal) return;
+    this.modal.classList.remove('active', 'show');
+    setTimeout(() => {
+      if (this.modal) this.modal.style.display = 'none';
+    }, 300);
+  }
+
+  private isOpen(): boolean {
+    return !!this.modal?.classList.contains('show');
+  }
+
+  private getIdentities(): SendIdentity[] {
+    return this.identityManager.getIdentities(this.getAccounts());
+  }
+
+  private getImapAccounts(): MailAccount[] {
+    return this.getAccounts().filter(account => account.type === 'imap');
+  }
+
+  /**
+   * List the identities under their accounts
+   */
+  private renderList(): void {
+    if (!this.listElement) return;
+
+    const identities = this.getIdentities();
+    this.listElement.innerHTML = '';
+    if (identities.length === 0) {
+      const empty = document.createElement('div');
+      empty.className = 'identities-empty';
+      empty.textContent = 'No accounts';
+      this.listElement.appendChild(empty);
+    }
+
+    identities.forEach(identity => {
+      if (identity.source === 'account') {
+        const heading = document.createElement('div');
+        heading.className = 'identity-account';
+        heading.textContent = identity.email || identity.accountId;
+        this.listElement!.appendChild(heading);
+      }
+      const item = document.createElement('button');
+      item.type = 'button';
+      item.className = 'identity-item';
+      item.classList.toggle('active', identity.id === this.editing?.id);
+      item.textContent = identity.displayName ? `${identity.displayName} <${identity.email}>` : identity.email;
+      item.addEventListener('click', () => this.edit(identity));
+      this.listElement!.appendChild(item);
+    });
+
+    const newButton = document.getElementById('new-identity-btn') as HTMLButtonElement | null;
+    if (newButton) {
+      newButton.disabled = this.getImapAccounts().length === 0;
+      newButton.title = newButton.disabled ? 'Identities can be added to IMAP accounts' : '';
+    }
+  }
+
+  /**
+   * Fill the Signature selector of the form
+   */
+  private renderSignatures(): void {
+    if (!this.signatureSelect) return;
+    const selected = this.signatureSelect.value;
+    this.signatureSelect.innerHTML = '';
+    this.signatureSelect.add(new Option('No signature', ''));
+    this.signatureManager.getSettings().signatures.forEach(signature => {
+      this.signatureSelect!.add(new Option(signature.name, signature.id));
+    });
+    this.signatureSelect.value = selected;
+  }
+
+  /**
+   * Fill the form with an identity. The account's own address and Gmail aliases
+   * only take a signature here; their details are set elsewhere.
+   * @param identity - Identity to edit, or null for a new custom identity
+   */
+  private edit(identity: SendIdentity | null): void {
+    this.editing = identity;
+    const custom = !identity || identity.source === 'custom';
+
+    if (this.accountSelect) {
+      this.accountSelect.innerHTML = '';
+      const accounts = custom ? this.getImapAccounts() : this.getAccounts().filter(account => account.id === identity?.accountId);
+      accounts.forEach(account => this.accountSelect!.add(new Option(account.email || account.id, account.id)));
+      if (identity) this.accountSelect.value = identity.accountId;
+      this.accountSelect.disabled = !!identity;
+    }
+    if (this.emailInput) {
+      this.emailInput.value = identity?.email || '';
+      this.emailInput.readOnly = !custom;
+    }
+    if (this.nameInput) {
+      this.nameInput.value = identity?.displayName || '';
+      this.nameInput.readOnly = !custom;
+    }
+    if (this.replyToInput) {
+      this.replyToInput.value = identity?.replyTo || '';
+      this.replyToInput.readOnly = !custom;
+    }
+    this.renderSignatures();
+    if (this.signatureSelect) {
+      const address = identity && identity.source !== 'account' ? identity.email : undefined;
+      this.signatureSelect.value = identity ? this.signatureManager.getDefaultFor(identity.accountId, address)?.id || '' : '';
+    }
+    if (this.noteElement) {
+      this.noteElement.textContent = identity?.source === 'gmail'
+        ? 'Send-as addresses of Gmail accounts are managed in the Gmail settings.'
+        : identity?.source === 'account'
+          ? "The account's own address."
+          : '';
+      this.noteElement.hidden = custom;
+    }
+
+    const deleteButton = document.getElementById('delete-identity-btn');
+    if (deleteButton) deleteButton.hidden = !identity || identity.source !== 'custom';
+    this.renderList();
+    (custom ? this.emailInput : this.signatureSelect)?.focus();
+  }
+
+  private async saveEditing(): Promise<void> {
+    try {
+      let identity = this.editing;
+      if (!identity || identity.source === 'custom') {
+        const accountId = this.accountSelect?.value || '';
+        if (!accountId) {
+          uiThemeManager.showNotification('Please add an IMAP account first', 'warning');
+          return;
+        }
+        identity = await this.identityManager.saveIdentity({
+          id: identity?.id,
+          accountId,
+          email: this.emailInput?.value.trim() || '',
+          displayName: this.nameInput?.value.trim() || undefined,
+          replyTo: this.replyToInput?.value.trim() || undefined
+        });
+        this.editing = identity;
+      }
+
+      await this.signatureManager.setDefault(getSignatureKey(identity), this.signatureSelect?.value || null);
+      this.renderList();
+      uiThemeManager.showNotification('Identity saved', 'success');
+    } catch (error) {
+      console.error('IdentitiesModal: Failed to save identity:', error);
+      uiThemeManager.showNotification(`Failed to save identity: ${(error as Error).message}`, 'error');
+    }
+  }
+
+  private async deleteEditing(): Promise<void> {
+    const identity = this.editing;
+    if (!identity || identity.source !== 'custom' || !confirm(`Delete the identity ${identity.email}?`)) {
+      return;
+    }
+    try {
+      await this.identityManager.deleteIdentity(identity.id);
+      this.edit(this.getIdentities()[0] || null);
+    } catch (error) {
+      console.error('IdentitiesModal: Failed to delete identity:', error);
+      uiThemeManager.showNotification(`Failed to delete identity: ${(error as Error).message}`, 'error');
+    }
+  }
+}
+
+// Global assignment for browser environments
+if (typeof window !== 'undefined') {
+  (window as any).IdentitiesModal = IdentitiesModal;
+}
+
+export { IdentitiesModal };
@@ -0,0 +1,287 @@
+/**
+ * Inline Reply Module
+ * Quick reply box docked under the last message of the conversation view.
+ * Replies to the sender or to all, keeps what was typed per conversation (in
+ * localStorage) while moving between conversations, expands into the compose
+ * modal, and sends through the composer (send checks, undo send) without
+ * leaving the thread. The quoted original and the signature are added when
+ * the reply is sent or expanded, as for replies written in the compose modal.
+ */
+
+import type { Email } from '../../types/email';
+import type { EmailComposer } from '../email/email-composer.js';
+import { resolveReplyRecipients } from '../email/reply-recipients.js';
+import { formatAddressList } from '../utils/address-parser.js';
+import { cleanHtmlFragment, escapeHtml, plainTextToHtml } from './rich-text-editor.js';
+import { uiThemeManager } from './ui-theme-manager.js';
+
+type InlineReplyMode = 'reply' | 'reply-all';
+
+/**
+ * Reply kept for a conversation
+ */
+interface InlineReplyDraft {
+  mode: InlineReplyMode;
+  html: string;
+  updatedAt: string;
+}
+
+const STORAGE_KEY = 'inline-reply-drafts';
+// Kept replies older than this are dropped
+const DRAFT_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+const SAVE_DELAY_MS = 500;
+
+function loadDrafts(): Record<string, InlineReplyDraft> {
+  try {
+    const drafts = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return drafts && typeof drafts === 'object' ? drafts : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Keep or forget the reply of a conversation (old replies are dropped on the way)
+ * @param key - Conversation id
+ * @param draft - Reply, or null to forget it
+ */
+function storeDraft(key: string, draft: InlineReplyDraft | null): void {
+  const drafts = loadDrafts();
+  const cutoff = Date.now() - DRAFT_MAX_AGE_MS;
+  Object.keys(drafts).forEach(id => {
+    if (new Date(drafts[id].updatedAt).getTime() < cutoff) delete drafts[id];
+  });
+  if (draft) {
+    drafts[key] = draft;
+  } else {
+    delete drafts[key];
+  }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(drafts));
+}
+
+/**
+ * Inline Reply - Quick reply box of the conversation view
+ */
+class InlineReply {
+  private composer: EmailComposer;
+  private element: HTMLElement | null = null;
+  private editor: HTMLElement | null = null;
+  private recipientsElement: HTMLElement | null = null;
+  private sendButton: HTMLButtonElement | null = null;
+  // Conversation and message replied to
+  private conversationId: string | null = null;
+  private email: Email | null = null;
+  private mode: InlineReplyMode = 'reply';
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private sending: boolean = false;
+
+  /**
+   * @param composer - Composer the reply is sent through
+   */
+  constructor(composer: EmailComposer) {
+    this.composer = composer;
+  }
+
+  /**
+   * Dock the reply box under a conversation, with the reply kept for it
+   * @param container - Conversation view
+   * @param conversationId - Conversation id (the reply is kept under it)
+   * @param email - Last message of the conversation
+   */
+  attach(container: HTMLElement, conversationId: string, email: Email): void {
+    this.detach();
+    this.conversationId = conversationId;
+    this.email = email;
+
+    const draft = loadDrafts()[conversationId];
+    const replyAll = resolveReplyRecipients(email, 'reply-all');
+    const reply = resolveReplyRecipients(email, 'reply');
+    const canReplyAll = replyAll.to.length + replyAll.cc.length > reply.to.length + reply.cc.length;
+    this.mode = draft?.mode === 'reply-all' && canReplyAll ? 'reply-all' : 'reply';
+
+    const element = document.createElement('div');
+    element.className = 'inline-reply';
+    element.innerHTML = `
+      <div class="inline-reply-header">
+        <div class="inline-reply-modes" role="group" aria-label="Reply to">
+          <button type="button" class="inline-reply-mode" data-mode="reply"><i class="fas fa-reply"></i> Reply</button>
+          <button type="button" class="inline-reply-mode" data-mode="reply-all"${canReplyAll ? '' : ' hidden'}><i class="fas fa-reply-all"></i> Reply all</button>
+        </div>
+        <div class="inline-reply-recipients"></div>
+        <button type="button" class="inline-reply-expand" title="Open in the composer"><i class="fas fa-expand-alt"></i></button>
+      </div>
+      <div class="inline-reply-editor rich-text-editor" contenteditable="true" role="textbox" aria-multiline="true" aria-label="Reply" data-placeholder="Write a reply…"></div>
+      <div class="inline-reply-actions">
+        <button type="button" class="btn-primary inline-reply-send"><i class="fas fa-paper-plane"></i> Send</button>
+        <button type="button" class="btn-secondary inline-reply-discard">Discard</button>
+      </div>
+    `;
+
+    this.element = element;
+    this.editor = element.querySelector('.inline-reply-editor');
+    this.recipientsElement = element.querySelector('.inline-reply-recipients');
+    this.sendButton = element.querySelector('.inline-reply-send');
+    if (this.editor && draft) {
+      this.editor.innerHTML = cleanHtmlFragment(draft.html);
+    }
+
+    element.querySelectorAll<HTMLElement>('.inline-reply-mode').forEach(button => {
+      button.addEventListener('click', () => this.setMode(button.dataset.mode === 'reply-all' ? 'reply-all' : 'reply'));
+    });
+    element.querySelector('.inline-reply-expand')?.addEventListener('click', () => this.expand());
+    element.querySelector('.inline-reply-discard')?.addEventListener('click', () => this.discard());
+    this.sendButton?.addEventListener('click', () => this.send());
+    this.editor?.addEventListener('input', () => this.scheduleSave());
+    this.editor?.addEventListener('paste', (event: ClipboardEvent) => {
+      const html = event.clipboardData?.getData('text/html');
+      const text = event.clipboardData?.getData('text/plain');
+      if (html || text) {
+        event.preventDefault();
+        document.execCommand('insertHTML', false, html ? cleanHtmlFragment(html) : plainTextToHtml(text || ''));
+      }
+    });
+    this.editor?.addEventListener('keydown', (event: KeyboardEvent) => {
+      // Keep the app's shortcuts (e.g. Ctrl+R) out of the reply box
+      event.stopPropagation();
+      if ((event.ctrlKey || event.metaKey) && event.key === 'Enter') {
+        event.preventDefault();
+        this.send();
+      }
+    });
+
+    container.appendChild(element);
+    this.setMode(this.mode);
+  }
+
+  /**
+   * Remove the reply box, keeping what was typed
+   */
+  detach(): void {
+    this.saveDraft();
+    this.element?.remove();
+    this.element = null;
+    this.editor = null;
+    this.recipientsElement = null;
+    this.sendButton = null;
+    this.conversationId = null;
+    this.email = null;
+  }
+
+  /**
+   * Put the caret into the reply box
+   */
+  focus(): void {
+    this.editor?.focus();
+  }
+
+  private setMode(mode: InlineReplyMode): void {
+    this.mode = mode;
+    this.element?.querySelectorAll<HTMLElement>('.inline-reply-mode').forEach(button => {
+      const active = button.dataset.mode === mode;
+      button.classList.toggle('active', active);
+      button.setAttribute('aria-pressed', String(active));
+    });
+    if (this.recipientsElement && this.email) {
+      const recipients = resolveReplyRecipients(this.email, mode);
+      const cc = formatAddressList(recipients.cc);
+      this.recipientsElement.innerHTML = `To: ${escapeHtml(formatAddressList(recipients.to))}`
+        + (cc ? `<span class="inline-reply-cc">Cc: ${escapeHtml(cc)}</span>` : '');
+      this.recipientsElement.title = this.recipientsElement.textContent || '';
+    }
+    this.scheduleSave();
+  }
+
+  private hasContent(): boolean {
+    return !!this.editor && (!!this.editor.textContent?.trim() || !!this.editor.querySelector('img'));
+  }
+
+  private getHtml(): string {
+    return cleanHtmlFragment(this.editor?.innerHTML || '');
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    this.saveTimer = setTimeout(() => this.saveDraft(), SAVE_DELAY_MS);
+  }
+
+  /**
+   * Keep the reply of the current conversation (forget it when empty)
+   */
+  private saveDraft(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (!this.conversationId || !this.editor) return;
+    storeDraft(this.conversationId, this.hasContent()
+      ? { mode: this.mode, html: this.getHtml(), updatedAt: new Date().toISOString() }
+      : null);
+  }
+
+  /**
+   * Empty the reply box and forget its reply
+   */
+  private clear(): void {
+    if (this.editor) this.editor.innerHTML = '';
+    this.saveDraft();
+  }
+
+  private discard(): void {
+    if (this.hasContent() && !confirm('Discard this reply?')) {
+      return;
+    }
+    this.clear();
+  }
+
+  /**
+   * Continue the reply in the compose modal; the composer keeps it as a draft from there
+   */
+  private expand(): void {
+    if (!this.email) return;
+    const result = (window as any).EmailActions?.composeInlineReply(this.email, this.mode, this.hasContent() ? this.getHtml() : undefined, true);
+    if (!result?.success) {
+      uiThemeManager.showNotification(result?.error || 'Compose modal not available', 'error');
+      return;
+    }
+    this.clear();
+  }
+
+  private async send(): Promise<void> {
+    if (!this.email || this.sending) return;
+    if (!this.hasContent()) {
+      uiThemeManager.showNotification('Please write a reply first', 'warning');
+      this.focus();
+      return;
+    }
+    // The reply is sent through the compose modal, which holds another message meanwhile
+    if (document.getElementById('compose-modal')?.classList.contains('show')) {
+      uiThemeManager.showNotification('Send or close the message being composed first', 'warning');
+      return;
+    }
+
+    const EmailActions = (window as any).EmailActions;
+    const result = EmailActions?.composeInlineReply(this.email, this.mode, this.getHtml(), false);
+    if (!result?.success) {
+      uiThemeManager.showNotification(result?.error || 'Compose modal not available', 'error');
+      return;
+    }
+
+    this.sending = true;
+    if (this.sendButton) this.sendButton.disabled = true;
+    try {
+      const sent = await this.composer.sendEmail();
+      // The reply stays here (not sent) or in the outbox (sent), not in the compose modal
+      this.composer.discardCompose();
+      if (sent) {
+        this.clear();
+      } else {
+        this.focus();
+      }
+    } finally {
+      this.sending = false;
+      if (this.sendButton) this.sendButton.disabled = false;
+    }
+  }
+}
+
+export { InlineReply };
@@ -0,0 +1,249 @@
+/**
+ * Outbox List Module
+ * Modal listing the outbox: messages scheduled with "Send later", messages
+ * held for the undo window, and messages waiting for a retry or failed, each
+ * with its status and last error. Messages can be edited, sent now (retried)
+ * or cancelled.
+ */
+
+import type { ScheduledMessage } from '../../types/email';
+import type { OutboxManager } from '../email/outbox-manager.js';
+import { uiThemeManager } from './ui-theme-manager.js';
+
+/**
+ * Status of an outbox message for the list
+ */
+interface OutboxStatus {
+  // Badge text; also the badge class (outbox-status-<state>)
+  label: string;
+  state: 'scheduled' | 'sending' | 'waiting' | 'failed';
+  detail: string;
+}
+
+/**
+ * Describe when and how a message will be sent
+ */
+function describeStatus(message: ScheduledMessage): OutboxStatus {
+  const time = (value: string) => new Date(value).toLocaleString();
+
+  if (message.status === 'sending') {
+    return { label: 'Sending', state: 'sending', detail: 'Sending now…' };
+  }
+  if (message.status === 'failed') {
+    return { label: 'Failed', state: 'failed', detail: message.lastError || 'Unknown error' };
+  }
+  if (message.nextAttemptAt && message.lastErrorKind === 'offline') {
+    return { label: 'Waiting for network', state: 'waiting', detail: `Sends when the connection is back (next check ${time(message.nextAttemptAt)})` };
+  }
+  if (message.nextAttemptAt) {
+    return { label: 'Retrying', state: 'waiting', detail: `${message.lastError || 'Failed to send'} · attempt ${message.attempts + 1} at ${time(message.nextAttemptAt)}` };
+  }
+  if (message.kind === 'undo-send') {
+    return { label: 'Sending', state: 'sending', detail: `Sends ${time(message.sendAt)} (undo window)` };
+  }
+  return { label: 'Scheduled', state: 'scheduled', detail: `Sends ${time(message.sendAt)}` };
+}
+
+/**
+ * Outbox List - Outbox modal
+ */
+class OutboxList {
+  private outbox: OutboxManager;
+  private onEdit: (message: ScheduledMessage) => void;
+  private modal: HTMLElement | null = null;
+  private listElement: HTMLElement | null = null;
+  private countElement: HTMLElement | null = null;
+  private initialized: boolean = false;
+
+  /**
+   * @param outbox - Source of the outbox messages
+   * @param onEdit - Opens a message taken out of the outbox in the compose modal
+   */
+  constructor(outbox: OutboxManager, onEdit: (message: ScheduledMessage) => void) {
+    this.outbox = outbox;
+    this.onEdit = onEdit;
+  }
+
+  /**
+   * Wire the Outbox button and the modal
+   */
+  initialize(): void {
+    if (this.initialized) {
+      return;
+    }
+
+    this.modal = document.getElementById('outbox-modal');
+    this.listElement = document.getElementById('outbox-list');
+    this.countElement = document.getElementById('outbox-count');
+
+    document.getElementById('outbox-btn')?.addEventListener('click', () => this.show());
+    document.getElementById('close-outbox')?.addEventListener('click', () => this.hide());
+    this.modal?.addEventListener('click', (event: Event) => {
+      if (event.target === this.modal) {
+        this.hide();
+      }
+    });
+    window.addEventListener('outboxChanged', () => {
+      this.refresh().catch(error => console.error('OutboxList: Failed to refresh:', error));
+    });
+
+    this.initialized = true;
+    this.refresh().catch(error => console.error('OutboxList: Failed to load outbox:', error));
+  }
+
+  /**
+   * Open the modal with the current outbox
+   */
+  async show(): Promise<void> {
+    if (!this.modal) return;
+    this.modal.style.display = 'block';
+    this.modal.classList.add('show');
+    setTimeout(() => this.modal?.classList.add('active'), 10);
+    await this.refresh();
+  }
+
+  /**
+   * Close the modal
+   */
+  hide(): void {
+    if (!this.modal) return;
+    this.modal.classList.remove('active', 'show');
+    setTimeout(() => {
+      if (this.modal) this.modal.style.display = 'none';
+    }, 300);
+  }
+
+  /**
+   * Reload and render the outbox, and update the count on the Outbox button
+   */
+  async refresh(): Promise<void> {
+    let messages: ScheduledMessage[];
+    try {
+      messages = await this.outbox.list();
+    } catch (error) {
+      console.error('OutboxList: Failed to load the outbox:', error);
+      if (this.isOpen()) {
+        uiThemeManager.showNotification('Failed to load the outbox', 'error');
+      }
+      return;
+    }
+
+    if (this.countElement) {
+      this.countElement.textContent = messages.length > 0 ? String(messages.length) : '';
+      this.countElement.hidden = messages.length === 0;
+      this.countElement.classList.toggle('has-failed', messages.some(message => message.status === 'failed'));
+    }
+    this.render(messages);
+  }
+
+  private isOpen(): boolean {
+    return !!this.modal?.classList.contains('show');
+  }
+
+  private render(messages: ScheduledMessage[]): void {
+    if (!this.listElement) return;
+
+    this.listElement.innerHTML = '';
+    if (messages.length === 0) {
+      const empty = document.createElement('div');
+      empty.className = 'outbox-empty';
+      empty.textContent = 'The outbox is empty';
+      this.listElement.appendChild(empty);
+      return;
+    }
+
+    const accounts: Array<{ id: string; email: string }> = (window as any).mailAccounts || [];
+    messages.forEach(message => {
+      const status = describeStatus(message);
+      const item = document.createElement('div');
+      item.className = 'outbox-item';
+
+      const content = document.createElement('div');
+      content.className = 'outbox-content';
+
+      const header = document.createElement('div');
+      header.className = 'outbox-header';
+      const subject = document.createElement('span');
+      subject.className = 'outbox-subject';
+      subject.textContent = message.request.subject || '(no subject)';
+      const badge = document.createElement('span');
+      badge.className = `outbox-status outbox-status-${status.state}`;
+      badge.textContent = status.label;
+      header.appendChild(subject);
+      header.appendChild(badge);
+
+      const recipients = document.createElement('div');
+      recipients.className = 'outbox-recipients';
+      const account = accounts.find(candidate => candidate.id === message.request.accountId);
+      recipients.textContent = [`To: ${message.request.to}`, account?.email ? `from ${account.email}` : ''].filter(Boolean).join(' ');
+
+      const detail = document.createElement('div');
+      detail.className = `outbox-detail outbox-detail-${status.state}`;
+      detail.textContent = status.detail;
+      detail.title = status.detail;
+
+      content.appendChild(header);
+      content.appendChild(recipients);
+      content.appendChild(detail);
+      item.appendChild(content);
+
+      if (message.status !== 'sending') {
+        const waiting = message.status === 'failed' || !!message.nextAttemptAt;
+        item.appendChild(this.createAction('fa-pen', 'Edit', () => this.edit(message)));
+        item.appendChild(this.createAction(waiting ? 'fa-redo' : 'fa-paper-plane', waiting ? 'Retry now' : 'Send now', () => this.retry(message)));
+        item.appendChild(this.createAction('fa-trash', 'Cancel', () => this.cancel(message)));
+      }
+
+      this.listElement!.appendChild(item);
+    });
+  }
+
+  private createAction(icon: string, title: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'outbox-action';
+    button.title = title;
+    button.innerHTML = `<i class="fas ${icon}"></i>`;
+    button.addEventListener('click', onClick);
+    return button;
+  }
+
+  /**
+   * Take a message out of the outbox and open it in the compose modal
+   */
+  private async edit(message: ScheduledMessage): Promise<void> {
+    try {
+      const removed = await this.outbox.cancel(message.id);
+      this.hide();
+      this.onEdit(removed);
+    } catch (error) {
+      uiThemeManager.showNotification(`Failed to edit the email: ${(error as Error).message}`, 'error');
+      await this.refresh();
+    }
+  }
+
+  private async retry(message: ScheduledMessage): Promise<void> {
+    try {
+      await this.outbox.retry(message.id);
+      uiThemeManager.showNotification('Sending email…', 'info');
+    } catch (error) {
+      uiThemeManager.showNotification(`Failed to send email: ${(error as Error).message}`, 'error');
+    }
+    await this.refresh();
+  }
+
+  private async cancel(message: ScheduledMessage): Promise<void> {
+    if (!confirm(`Remove "${message.request.subject || '(no subject)'}" from the outbox? It will not be sent.`)) {
+      return;
+    }
+    try {
+      await this.outbox.cancel(message.id);
+      uiThemeManager.showNotification('Email removed from the outbox', 'success');
+    } catch (error) {
+      uiThemeManager.showNotification(`Failed to cancel the email: ${(error as Error).message}`, 'error');
+    }
+    await this.refresh();
+  }
+}
+
+export { OutboxList };
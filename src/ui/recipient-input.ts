@@ -0,0 +1,303 @@
+/**
+ * Recipient Input Module
+ * Turns a compose recipient field (To, Cc, Bcc) into a chip input: typed or
+ * pasted address lists become one chip per recipient, and suggestions from the
+ * contacts index are shown while typing (Up/Down to choose, Enter or Tab to
+ * accept, Escape to close). Backspace in the empty field removes the last chip.
+ */
+
+import type { Contact, EmailAddress } from '../../types/email';
+import { formatAddress, formatAddressList, isValidAddress, parseAddressList } from '../utils/address-parser.js';
+
+// Characters that end a typed recipient
+const SEPARATOR_KEYS = new Set([',', ';']);
+
+/**
+ * Recipient Input - Chip input with address suggestions
+ */
+class RecipientInput {
+  private inputId: string;
+  private getSuggestions: (query: string, exclude: string[]) => Contact[];
+  private input: HTMLInputElement | null = null;
+  private container: HTMLElement | null = null;
+  private chipList: HTMLElement | null = null;
+  private suggestionList: HTMLElement | null = null;
+  private recipients: EmailAddress[] = [];
+  private suggestions: Contact[] = [];
+  private activeSuggestion: number = -1;
+  private initialized: boolean = false;
+
+  /**
+   * @param inputId - Text input of the field, inside a .recipient-input container
+   * @param getSuggestions - Contacts matching the typed text, without the excluded addresses
+   */
+  constructor(inputId: string, getSuggestions: (query: string, exclude: string[]) => Contact[]) {
+    this.inputId = inputId;
+    this.getSuggestions = getSuggestions;
+  }
+
+  /**
+   * Wire the field's keyboard, paste and suggestion handling
+   */
+  initialize(): void {
+    if (this.initialized) {
+      return;
+    }
+
+    this.input = document.getElementById(this.inputId) as HTMLInputElement | null;
+    this.container = this.input?.closest('.recipient-input') as HTMLElement | null;
+    if (!this.input || !this.container) {
+      console.warn(`RecipientInput: Field ${this.inputId} not found`);
+      return;
+    }
+
+    this.chipList = document.createElement('div');
+    this.chipList.className = 'recipient-chips';
+    this.container.insertBefore(this.chipList, this.input);
+
+    this.suggestionList = document.createElement('ul');
+    this.suggestionList.className = 'recipient-suggestions';
+    this.suggestionList.setAttribute('role', 'listbox');
+    this.suggestionList.id = `${this.inputId}-suggestions`;
+    this.suggestionList.hidden = true;
+    this.container.appendChild(this.suggestionList);
+
+    this.input.setAttribute('role', 'combobox');
+    this.input.setAttribute('aria-autocomplete', 'list');
+    this.input.setAttribute('aria-controls', this.suggestionList.id);
+    this.input.setAttribute('aria-expanded', 'false');
+
+    this.container.addEventListener('click', (event: MouseEvent) => {
+      if (event.target === this.container || event.target === this.chipList) {
+        this.input?.focus();
+      }
+    });
+    this.input.addEventListener('input', () => this.updateSuggestions());
+    this.input.addEventListener('keydown', (event: KeyboardEvent) => this.handleKeydown(event));
+    this.input.addEventListener('paste', (event: ClipboardEvent) => this.handlePaste(event));
+    this.input.addEventListener('blur', () => {
+      // Let a click on a suggestion land before the list closes
+      setTimeout(() => {
+        this.commitTyped();
+        this.hideSuggestions();
+      }, 150);
+    });
+
+    this.initialized = true;
+  }
+
+  /**
+   * Recipients as an address list header value, including text still being typed
+   * @returns e.g. "Jane Doe <jane@example.com>, bob@example.com"
+   */
+  getValue(): string {
+    const typed = this.input?.value.trim() || '';
+    return [formatAddressList(this.recipients), typed].filter(Boolean).join(', ');
+  }
+
+  /**
+   * Replace the recipients with an address list
+   * @param value - Address list, e.g. from a reply or a draft
+   */
+  setValue(value: string): void {
+    this.recipients = [];
+    if (this.input) this.input.value = '';
+    this.addRecipients(parseAddressList(value || ''));
+    this.hideSuggestions();
+  }
+
+  /**
+   * Chosen recipients, without the text still being typed
+   * @returns Recipients
+   */
+  getRecipients(): EmailAddress[] {
+    return [...this.recipients];
+  }
+
+  /**
+   * Put the caret into the field
+   */
+  focus(): void {
+    this.input?.focus();
+  }
+
+  private handleKeydown(event: KeyboardEvent): void {
+    const open = this.suggestions.length > 0;
+
+    if (event.key === 'ArrowDown' && open) {
+      event.preventDefault();
+      this.setActiveSuggestion((this.activeSuggestion + 1) % this.suggestions.length);
+    } else if (event.key === 'ArrowUp' && open) {
+      event.preventDefault();
+      this.setActiveSuggestion((this.activeSuggestion - 1 + this.suggestions.length) % this.suggestions.length);
+    } else if ((event.key === 'Enter' || event.key === 'Tab') && open && this.activeSuggestion >= 0) {
+      event.preventDefault();
+      this.acceptSuggestion(this.suggestions[this.activeSuggestion]);
+    } else if (event.key === 'Enter' || SEPARATOR_KEYS.has(event.key)) {
+      // Enter must not submit the compose form
+      event.preventDefault();
+      this.commitTyped();
+    } else if (event.key === 'Escape' && open) {
+      // Close the suggestions only, not the compose modal
+      event.preventDefault();
+      event.stopPropagation();
+      this.hideSuggestions();
+    } else if (event.key === 'Backspace' && !this.input?.value && this.recipients.length > 0) {
+      event.preventDefault();
+      this.removeRecipient(this.recipients.length - 1);
+    }
+  }
+
+  /**
+   * Split a pasted address list into chips
+   */
+  private handlePaste(event: ClipboardEvent): void {
+    const text = event.clipboardData?.getData('text/plain') || '';
+    const addresses = parseAddressList(text);
+    // A plain word is left to be typed on (and matched against contacts)
+    if (addresses.length === 0 || (addresses.length === 1 && !text.includes('@'))) {
+      return;
+    }
+    event.preventDefault();
+    this.addRecipients(addresses);
+    if (this.input) this.input.value = '';
+    this.hideSuggestions();
+  }
+
+  /**
+   * Turn the typed text into chips
+   */
+  private commitTyped(): void {
+    const typed = this.input?.value.trim();
+    if (!typed || !this.input) return;
+    this.addRecipients(parseAddressList(typed));
+    this.input.value = '';
+    this.hideSuggestions();
+  }
+
+  private acceptSuggestion(contact: Contact): void {
+    this.addRecipients([{ name: contact.name, email: contact.email }]);
+    if (this.input) {
+      this.input.value = '';
+      this.input.focus();
+    }
+    this.hideSuggestions();
+  }
+
+  private addRecipients(addresses: EmailAddress[]): void {
+    addresses.forEach(address => {
+      if (!this.recipients.some(recipient => recipient.email.toLowerCase() === address.email.toLowerCase())) {
+        this.recipients.push(address);
+      }
+    });
+    this.renderChips();
+  }
+
+  private removeRecipient(index: number): void {
+    this.recipients.splice(index, 1);
+    this.renderChips();
+  }
+
+  private renderChips(): void {
+    if (!this.chipList) return;
+    this.chipList.innerHTML = '';
+    this.recipients.forEach((recipient, index) => {
+      const chip = document.createElement('span');
+      chip.className = 'recipient-chip';
+      chip.title = formatAddress(recipient);
+      if (!isValidAddress(recipient.email)) {
+        chip.classList.add('invalid');
+        chip.title = `${recipient.email} is not a valid address`;
+      }
+
+      const label = document.createElement('span');
+      label.className = 'recipient-chip-label';
+      label.textContent = recipient.name || recipient.email;
+
+      const remove = document.createElement('button');
+      remove.type = 'button';
+      remove.className = 'recipient-chip-remove';
+      remove.title = 'Remove';
+      remove.innerHTML = '&times;';
+      remove.addEventListener('click', () => {
+        this.removeRecipient(index);
+        this.input?.focus();
+      });
+
+      chip.appendChild(label);
+      chip.appendChild(remove);
+      this.chipList!.appendChild(chip);
+    });
+  }
+
+  private updateSuggestions(): void {
+    const query = this.input?.value || '';
+    this.suggestions = query.trim()
+      ? this.getSuggestions(query, this.recipients.map(recipient => recipient.email))
+      : [];
+    this.activeSuggestion = this.suggestions.length > 0 ? 0 : -1;
+    this.renderSuggestions();
+  }
+
+  private renderSuggestions(): void {
+    if (!this.suggestionList || !this.input) return;
+
+    this.suggestionList.innerHTML = '';
+    this.suggestions.forEach((contact, index) => {
+      const item = document.createElement('li');
+      item.className = 'recipient-suggestion';
+      item.id = `${this.inputId}-suggestion-${index}`;
+      item.setAttribute('role', 'option');
+      item.classList.toggle('active', index === this.activeSuggestion);
+
+      const name = document.createElement('span');
+      name.className = 'recipient-suggestion-name';
+      name.textContent = contact.name || contact.email;
+      item.appendChild(name);
+      if (contact.name) {
+        const address = document.createElement('span');
+        address.className = 'recipient-suggestion-address';
+        address.textContent = contact.email;
+        item.appendChild(address);
+      }
+
+      // mousedown keeps the focus in the input
+      item.addEventListener('mousedown', (event: MouseEvent) => {
+        event.preventDefault();
+        this.acceptSuggestion(contact);
+      });
+      this.suggestionList!.appendChild(item);
+    });
+
+    const open = this.suggestions.length > 0;
+    this.suggestionList.hidden = !open;
+    this.input.setAttribute('aria-expanded', String(open));
+    this.updateActiveDescendant();
+  }
+
+  private setActiveSuggestion(index: number): void {
+    this.activeSuggestion = index;
+    this.suggestionList?.querySelectorAll('.recipient-suggestion').forEach((item, itemIndex) => {
+      item.classList.toggle('active', itemIndex === index);
+      if (itemIndex === index) (item as HTMLElement).scrollIntoView({ block: 'nearest' });
+    });
+    this.updateActiveDescendant();
+  }
+
+  private updateActiveDescendant(): void {
+    if (!this.input) return;
+    if (this.activeSuggestion >= 0 && this.suggestions.length > 0) {
+      this.input.setAttribute('aria-activedescendant', `${this.inputId}-suggestion-${this.activeSuggestion}`);
+    } else {
+      this.input.removeAttribute('aria-activedescendant');
+    }
+  }
+
+  private hideSuggestions(): void {
+    this.suggestions = [];
+    this.activeSuggestion = -1;
+    this.renderSuggestions();
+  }
+}
+
+export { RecipientInput };
@@ -0,0 +1,110 @@
+/**
+ * Redirect Dialog Module
+ * Asks for the recipients of a redirected (bounced) message. The message is
+ * resent unchanged, so the dialog only needs the new recipients; suggestions
+ * come from the contacts index as in the compose modal.
+ */
+
+import type { Email } from '../../types/email';
+import { RecipientInput } from './recipient-input.js';
+import { getContactsIndex } from '../managers/contacts-index.js';
+import { uiThemeManager } from './ui-theme-manager.js';
+
+/**
+ * Redirect Dialog - Recipients of a redirected message
+ */
+class RedirectDialog {
+  private recipients: RecipientInput;
+  private modal: HTMLElement | null = null;
+  private summary: HTMLElement | null = null;
+  // Settles the pending prompt (recipients, or null when cancelled)
+  private resolve: ((to: string | null) => void) | null = null;
+  private initialized: boolean = false;
+
+  constructor() {
+    this.recipients = new RecipientInput('redirect-to-input', (query, exclude) => getContactsIndex().suggest(query, { exclude }));
+  }
+
+  /**
+   * Wire the modal and its form
+   */
+  initialize(): void {
+    if (this.initialized) {
+      return;
+    }
+
+    this.modal = document.getElementById('redirect-modal');
+    this.summary = document.getElementById('redirect-summary');
+    this.recipients.initialize();
+
+    document.getElementById('close-redirect')?.addEventListener('click', () => this.finish(null));
+    document.getElementById('cancel-redirect')?.addEventListener('click', () => this.finish(null));
+    this.modal?.addEventListener('click', (event: Event) => {
+      if (event.target === this.modal) {
+        this.finish(null);
+      }
+    });
+    this.modal?.addEventListener('keydown', (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        event.stopPropagation();
+        this.finish(null);
+      }
+    });
+    document.getElementById('redirect-form')?.addEventListener('submit', (event: Event) => {
+      event.preventDefault();
+      const to = this.recipients.getValue();
+      if (!to) {
+        uiThemeManager.showNotification('Please add a recipient', 'warning');
+        this.recipients.focus();
+        return;
+      }
+      this.finish(to);
+    });
+
+    this.initialized = true;
+  }
+
+  /**
+   * Ask where to redirect a message
+   * @param email - Message to redirect
+   * @returns Recipients as an address list, or null when cancelled
+   */
+  prompt(email: Email): Promise<string | null> {
+    this.initialize();
+    this.finish(null);
+    if (!this.modal) {
+      return Promise.resolve(null);
+    }
+
+    if (this.summary) {
+      const from = email.from?.name || email.from?.email || 'Unknown sender';
+      this.summary.textContent = `"${email.subject || '(no subject)'}" from ${from}`;
+    }
+    this.recipients.setValue('');
+    this.modal.style.display = 'block';
+    this.modal.classList.add('show');
+    setTimeout(() => {
+      this.modal?.classList.add('active');
+      this.recipients.focus();
+    }, 10);
+
+    return new Promise(resolve => {
+      this.resolve = resolve;
+    });
+  }
+
+  private finish(to: string | null): void {
+    const resolve = this.resolve;
+    this.resolve = null;
+    if (!resolve) return;
+
+    resolve(to);
+    if (!this.modal) return;
+    this.modal.classList.remove('active', 'show');
+    setTimeout(() => {
+      if (this.modal) this.modal.style.display = 'none';
+    }, 300);
+  }
+}
+
+export { RedirectDialog };
@@ -0,0 +1,553 @@
+/**
+ * Rich Text Editor Module
+ * Contenteditable message editor of the compose modal with a formatting toolbar
+ * (bold, italic, underline, lists, links, quotes, inline images). Pasted HTML is
+ * cleaned up and run through SafeHTML.sanitizeEmail before it is inserted.
+ *
+ * Inline images are kept as data: URLs in the editor; the send paths turn them
+ * into related MIME parts (cid: references).
+ */
+
+// Block elements that start and end on their own line in the plain-text version
+const BLOCK_TAGS = new Set([
+  'P', 'DIV', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'UL', 'OL', 'LI', 'BLOCKQUOTE',
+  'PRE', 'TABLE', 'TR', 'HR', 'SECTION', 'ARTICLE', 'HEADER', 'FOOTER'
+]);
+
+// Only web and mail links can be inserted
+const LINK_PROTOCOL = /^(https?:|mailto:)/i;
+
+// Signature block (data-signature-id holds the signature id) and the quoted text of replies and forwards
+export const SIGNATURE_CLASS = 'composer-signature';
+export const QUOTE_CLASS = 'composer-quote';
+
+/**
+ * Signature inserted into the editor
+ */
+export interface EditorSignature {
+  id: string;
+  html: string;
+  // Plain-text variant used for the text alternative of the message
+  text: string;
+}
+
+/**
+ * Escape text for use in HTML
+ * @param text - Plain text
+ * @returns HTML-safe text
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Convert plain text to HTML paragraphs, keeping line breaks
+ * @param text - Plain text
+ * @returns HTML
+ */
+export function plainTextToHtml(text: string): string {
+  return text
+    .split(/\r?\n\r?\n/)
+    .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\r?\n/g, '<br>') || '<br>'}</p>`)
+    .join('');
+}
+
+/**
+ * Generate the plain-text alternative of an HTML message
+ * Lists are bulleted or numbered, quotes are prefixed with "> " and links keep
+ * their target in angle brackets.
+ * @param html - Message HTML
+ * @param signatureTexts - Plain-text variants of the signature blocks, by signature id
+ * @returns Plain text
+ */
+export function htmlToPlainText(html: string, signatureTexts: Map<string, string> = new Map()): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+
+  const render = (node: Node): string => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      return (node.textContent || '').replace(/\s+/g, ' ');
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      return '';
+    }
+
+    const element = node as HTMLElement;
+    const tag = element.tagName;
+    if (tag === 'STYLE' || tag === 'SCRIPT' || tag === 'HEAD') return '';
+    if (tag === 'BR') return '\n';
+    if (tag === 'HR') return '\n----\n';
+    if (tag === 'IMG') {
+      const alt = element.getAttribute('alt');
+      return alt ? `[${alt}]` : '';
+    }
+    if (tag === 'PRE') return `\n${element.textContent || ''}\n`;
+    const signatureText = element.classList.contains(SIGNATURE_CLASS)
+      ? signatureTexts.get(element.dataset.signatureId || '')
+      : undefined;
+    if (signatureText !== undefined) return `\n${signatureText}\n`;
+
+    let content = '';
+    if (tag === 'OL' || tag === 'UL') {
+      let index = 0;
+      element.childNodes.forEach(child => {
+        if ((child as HTMLElement).tagName === 'LI') {
+          index++;
+          const marker = tag === 'OL' ? `${index}. ` : '- ';
+          content += `\n${marker}${render(child).trim().replace(/\n/g, '\n   ')}`;
+        } else {
+          content += render(child);
+        }
+      });
+      return `\n${content}\n`;
+    }
+
+    element.childNodes.forEach(child => {
+      content += render(child);
+    });
+
+    if (tag === 'A') {
+      const href = element.getAttribute('href') || '';
+      const text = content.trim();
+      const target = href.replace(/^mailto:/i, '');
+      return href && target !== text ? `${content} <${target}>` : content;
+    }
+    if (tag === 'BLOCKQUOTE') {
+      // Nested quotes become ">>" (RFC 3676 section 4.5)
+      const quoted = content.trim().split('\n').map(line => (!line ? '>' : line.startsWith('>') ? `>${line}` : `> ${line}`)).join('\n');
+      return `\n${quoted}\n`;
+    }
+    if (tag === 'TD' || tag === 'TH') {
+      return `${content.trim()}\t`;
+    }
+    return BLOCK_TAGS.has(tag) ? `\n${content}\n` : content;
+  };
+
+  return render(doc.body)
+    .split('\n')
+    .map(line => line.replace(/[ \t]+$/, '').replace(/^ (?=\S)/, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Sanitize HTML with SafeHTML before it is shown or sent. Without SafeHTML only
+ * the text is kept (escaped); markup is never passed through unchecked.
+ * @param html - HTML from the editor, a draft or a message
+ * @returns Sanitized HTML
+ */
+function sanitizeHtml(html: string): string {
+  const SafeHTML = (window as any).SafeHTML;
+  return SafeHTML ? SafeHTML.sanitizeEmail(html) : plainTextToHtml(htmlToPlainText(html));
+}
+
+/**
+ * Clean up HTML pasted from other applications (word processors, web pages) or
+ * quoted from a received message, so it cannot restyle the compose modal
+ * @param html - Clipboard or message HTML
+ * @returns Sanitized HTML without classes, ids, comments and document-level markup
+ */
+export function cleanHtmlFragment(html: string): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll('style, meta, link, title, script, xml').forEach(element => element.remove());
+  doc.body.querySelectorAll('*').forEach(element => {
+    element.removeAttribute('class');
+    element.removeAttribute('id');
+    // Office namespaced tags (o:p) carry no content worth keeping
+    if (element.tagName.includes(':')) {
+      element.replaceWith(...Array.from(element.childNodes));
+    }
+  });
+
+  const walker = doc.createTreeWalker(doc.body, NodeFilter.SHOW_COMMENT);
+  const comments: Node[] = [];
+  while (walker.nextNode()) comments.push(walker.currentNode);
+  comments.forEach(comment => comment.parentNode?.removeChild(comment));
+
+  return sanitizeHtml(doc.body.innerHTML);
+}
+
+/**
+ * Read an image file as a data: URL
+ * @param file - Image file
+ * @returns data: URL
+ */
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result || ''));
+    reader.onerror = () => reject(reader.error || new Error(`Failed to read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Rich Text Editor - Message body editor of the compose modal
+ */
+class RichTextEditor {
+  private editor: HTMLElement | null = null;
+  private toolbar: HTMLElement | null = null;
+  private linkBar: HTMLElement | null = null;
+  private linkInput: HTMLInputElement | null = null;
+  private imageInput: HTMLInputElement | null = null;
+  // Selection to restore after the link bar or image picker took focus
+  private savedRange: Range | null = null;
+  // Plain-text variants of the inserted signatures
+  private signatureTexts: Map<string, string> = new Map();
+  private initialized: boolean = false;
+
+  /**
+   * Wire the toolbar, paste handling and the link bar
+   */
+  initialize(): void {
+    if (this.initialized) {
+      return;
+    }
+
+    this.editor = document.getElementById('body-input');
+    this.toolbar = document.getElementById('body-toolbar');
+    this.linkBar = document.getElementById('editor-link-bar');
+    this.linkInput = document.getElementById('editor-link-input') as HTMLInputElement | null;
+    this.imageInput = document.getElementById('inline-image-input') as HTMLInputElement | null;
+
+    if (!this.editor) {
+      console.warn('RichTextEditor: Editor element not found');
+      return;
+    }
+
+    // Paragraphs instead of divs for new lines
+    document.execCommand('defaultParagraphSeparator', false, 'p');
+
+    this.toolbar?.addEventListener('mousedown', (event: MouseEvent) => {
+      // Keep the selection in the editor while clicking toolbar buttons
+      if ((event.target as HTMLElement).closest('button')) {
+        event.preventDefault();
+      }
+    });
+    this.toolbar?.addEventListener('click', (event: MouseEvent) => {
+      const button = (event.target as HTMLElement).closest('button[data-command]') as HTMLElement | null;
+      if (button) {
+        this.runCommand(button.dataset.command || '', button.dataset.value);
+      }
+    });
+
+    this.editor.addEventListener('paste', (event: ClipboardEvent) => this.handlePaste(event));
+    this.editor.addEventListener('keyup', () => this.updateToolbarState());
+    this.editor.addEventListener('mouseup', () => this.updateToolbarState());
+    // Remember the caret for inserting templates from the toolbar
+    this.editor.addEventListener('blur', () => this.saveSelection());
+
+    this.linkInput?.addEventListener('keydown', (event: KeyboardEvent) => {
+      if (event.key === 'Enter') {
+        event.preventDefault();
+        this.applyLink();
+      } else if (event.key === 'Escape') {
+        // Close the link bar only, not the compose modal
+        event.preventDefault();
+        event.stopPropagation();
+        this.hideLinkBar();
+      }
+    });
+    document.getElementById('editor-link-apply')?.addEventListener('click', () => this.applyLink());
+    document.getElementById('editor-link-cancel')?.addEventListener('click', () => this.hideLinkBar());
+
+    this.imageInput?.addEventListener('change', () => {
+      const files = Array.from(this.imageInput?.files || []);
+      if (this.imageInput) this.imageInput.value = '';
+      this.insertImages(files);
+    });
+
+    this.initialized = true;
+  }
+
+  /**
+   * Get the message HTML
+   * @returns Sanitized HTML
+   */
+  getHtml(): string {
+    return sanitizeHtml(this.editor?.innerHTML || '');
+  }
+
+  /**
+   * Get the plain-text version of the message
+   * @returns Plain text
+   */
+  getText(): string {
+    return htmlToPlainText(this.editor?.innerHTML || '', this.signatureTexts);
+  }
+
+  /**
+   * Get the text written in this message, without the signature and quoted text
+   * @returns Plain text
+   */
+  getOwnText(): string {
+    if (!this.editor) return '';
+    const body = this.editor.cloneNode(true) as HTMLElement;
+    body.querySelectorAll(`.${SIGNATURE_CLASS}, .${QUOTE_CLASS}, blockquote`).forEach(element => element.remove());
+    return htmlToPlainText(body.innerHTML);
+  }
+
+  /**
+   * Check whether the message has any text or images besides the signature
+   * @returns True if nothing was written
+   */
+  isEmpty(): boolean {
+    if (!this.editor) return true;
+    const body = this.editor.cloneNode(true) as HTMLElement;
+    body.querySelectorAll(`.${SIGNATURE_CLASS}`).forEach(signature => signature.remove());
+    return !body.textContent?.trim() && !body.querySelector('img');
+  }
+
+  /**
+   * Replace the signature of the message
+   * Without quoted text the signature goes at the end; with quoted text above or
+   * below it, as set by placement. Replies written below the quote (bottom-posting)
+   * always get the signature at the end.
+   * @param signature - Signature to insert, or null to remove the signature
+   * @param placement - Position relative to the quoted text
+   */
+  setSignature(signature: EditorSignature | null, placement: 'above-quote' | 'below-quote'): void {
+    if (!this.editor) return;
+    this.editor.querySelectorAll(`.${SIGNATURE_CLASS}`).forEach(block => block.remove());
+    if (!signature) return;
+
+    const block = document.createElement('div');
+    block.className = SIGNATURE_CLASS;
+    block.dataset.signatureId = signature.id;
+    block.innerHTML = sanitizeHtml(signature.html);
+    this.signatureTexts.set(signature.id, signature.text);
+
+    const quote = this.editor.querySelector(`:scope > .${QUOTE_CLASS}`);
+    if (quote && placement === 'above-quote' && !quote.nextElementSibling) {
+      this.editor.insertBefore(block, quote);
+      return;
+    }
+    // Leave a line to write on before a signature at the end of the message
+    if (!this.editor.lastElementChild || this.editor.lastElementChild.textContent?.trim()) {
+      const paragraph = document.createElement('p');
+      paragraph.appendChild(document.createElement('br'));
+      this.editor.appendChild(paragraph);
+    }
+    this.editor.appendChild(block);
+  }
+
+  /**
+   * Id of the signature in the message
+   * @returns Signature id, or null without a signature
+   */
+  getSignatureId(): string | null {
+    const block = this.editor?.querySelector(`.${SIGNATURE_CLASS}`) as HTMLElement | null;
+    return block?.dataset.signatureId || null;
+  }
+
+  /**
+   * Replace the message with HTML
+   * @param html - Message HTML (sanitized before it is shown)
+   */
+  setHtml(html: string): void {
+    if (!this.editor) return;
+    this.savedRange = null;
+    this.editor.innerHTML = sanitizeHtml(html);
+  }
+
+  /**
+   * Replace the message with plain text
+   * @param text - Message text
+   */
+  setText(text: string): void {
+    if (!this.editor) return;
+    this.savedRange = null;
+    this.editor.innerHTML = text ? plainTextToHtml(text) : '';
+  }
+
+  /**
+   * Insert HTML (e.g. a template) at the caret, or where the message is written
+   * when the caret is not in the message
+   * @param html - HTML to insert
+   */
+  insertHtml(html: string): void {
+    if (!this.editor) return;
+    if (this.savedRange && this.editor.contains(this.savedRange.startContainer)) {
+      this.restoreSelection();
+    } else {
+      this.savedRange = null;
+      this.focus();
+    }
+    document.execCommand('insertHTML', false, cleanHtmlFragment(html));
+  }
+
+  /**
+   * Put the caret where the message is written: at the start, or below the
+   * quoted text of a reply written below the quote
+   */
+  focus(): void {
+    if (!this.editor) return;
+    this.editor.focus();
+    const selection = window.getSelection();
+    if (selection) {
+      const quote = this.editor.querySelector(`:scope > .${QUOTE_CLASS}`);
+      const replyBelow = quote?.nextElementSibling;
+      const target = replyBelow && !replyBelow.classList.contains(SIGNATURE_CLASS) ? replyBelow : this.editor;
+      const range = document.createRange();
+      range.setStart(target, 0);
+      range.collapse(true);
+      selection.removeAllRanges();
+      selection.addRange(range);
+    }
+  }
+
+  /**
+   * Run a toolbar command
+   * @param command - execCommand name, or "link" / "image" for the editor's own dialogs
+   * @param value - Command value (e.g. the block tag for formatBlock)
+   */
+  private runCommand(command: string, value?: string): void {
+    if (!this.editor) return;
+    this.editor.focus();
+
+    if (command === 'link') {
+      this.showLinkBar();
+      return;
+    }
+    if (command === 'image') {
+      this.saveSelection();
+      this.imageInput?.click();
+      return;
+    }
+    if (command === 'formatBlock' && value === 'blockquote' && document.queryCommandValue('formatBlock') === 'blockquote') {
+      // Toggle the quote off again
+      document.execCommand('formatBlock', false, 'p');
+    } else {
+      document.execCommand(command, false, value);
+    }
+    this.updateToolbarState();
+  }
+
+  /**
+   * Insert sanitized clipboard HTML, or inline images pasted as files
+   */
+  private handlePaste(event: ClipboardEvent): void {
+    const data = event.clipboardData;
+    if (!data) return;
+
+    const images = Array.from(data.files).filter(file => file.type.startsWith('image/'));
+    const html = data.getData('text/html');
+    if (images.length > 0 && !html) {
+      event.preventDefault();
+      this.insertImages(images);
+      return;
+    }
+    if (html) {
+      event.preventDefault();
+      document.execCommand('insertHTML', false, cleanHtmlFragment(html));
+      return;
+    }
+
+    const text = data.getData('text/plain');
+    if (text) {
+      event.preventDefault();
+      document.execCommand('insertHTML', false, plainTextToHtml(text));
+    }
+  }
+
+  /**
+   * Insert images at the caret as data: URLs
+   * @param files - Image files
+   */
+  private async insertImages(files: File[]): Promise<void> {
+    for (const file of files) {
+      if (!file.type.startsWith('image/')) continue;
+      try {
+        const dataUrl = await readAsDataUrl(file);
+        this.restoreSelection();
+        document.execCommand('insertHTML', false, `<img src="${dataUrl}" alt="${escapeHtml(file.name)}" style="max-width: 100%;">`);
+      } catch (error) {
+        console.error('RichTextEditor: Failed to insert image:', error);
+      }
+    }
+  }
+
+  private showLinkBar(): void {
+    if (!this.linkBar || !this.linkInput) return;
+    this.saveSelection();
+    const anchor = this.getSelectionAnchor();
+    this.linkInput.value = anchor?.getAttribute('href') || '';
+    this.linkBar.hidden = false;
+    this.linkInput.focus();
+  }
+
+  private hideLinkBar(): void {
+    if (this.linkBar) this.linkBar.hidden = true;
+    this.restoreSelection();
+  }
+
+  /**
+   * Link the saved selection (or insert the address as a link when nothing is selected)
+   */
+  private applyLink(): void {
+    let url = this.linkInput?.value.trim() || '';
+    this.hideLinkBar();
+    if (!url) {
+      document.execCommand('unlink');
+      return;
+    }
+    if (!LINK_PROTOCOL.test(url)) {
+      url = url.includes('@') && !url.includes('/') ? `mailto:${url}` : `https://${url}`;
+    }
+
+    const selection = window.getSelection();
+    if (selection && selection.isCollapsed) {
+      document.execCommand('insertHTML', false, `<a href="${escapeHtml(url)}">${escapeHtml(url.replace(/^mailto:/i, ''))}</a>`);
+    } else {
+      document.execCommand('createLink', false, url);
+    }
+  }
+
+  private getSelectionAnchor(): HTMLAnchorElement | null {
+    const node = window.getSelection()?.anchorNode;
+    const element = node?.nodeType === Node.ELEMENT_NODE ? node as Element : node?.parentElement;
+    const anchor = element?.closest('a');
+    return anchor && this.editor?.contains(anchor) ? anchor as HTMLAnchorElement : null;
+  }
+
+  private saveSelection(): void {
+    const selection = window.getSelection();
+    if (selection && selection.rangeCount > 0 && this.editor?.contains(selection.anchorNode)) {
+      this.savedRange = selection.getRangeAt(0).cloneRange();
+    }
+  }
+
+  private restoreSelection(): void {
+    this.editor?.focus();
+    const selection = window.getSelection();
+    if (selection && this.savedRange) {
+      selection.removeAllRanges();
+      selection.addRange(this.savedRange);
+      this.savedRange = null;
+    }
+  }
+
+  /**
+   * Highlight the toolbar buttons of the formatting at the caret
+   */
+  private updateToolbarState(): void {
+    this.toolbar?.querySelectorAll('button[data-command]').forEach(button => {
+      const command = (button as HTMLElement).dataset.command || '';
+      let active = false;
+      try {
+        active = ['bold', 'italic', 'underline', 'insertUnorderedList', 'insertOrderedList'].includes(command)
+          && document.queryCommandState(command);
+      } catch {
+        // Not every command reports a state
+      }
+      button.classList.toggle('active', active);
+    });
+  }
+}
+
+// Global assignment for browser environments
+if (typeof window !== 'undefined') {
+  (window as any).RichTextEditor = RichTextEditor;
+}
+
+export { RichTextEditor };
@@ -0,0 +1,179 @@
+/**
+ * Schedule Send Menu Module
+ * "Send later" menu next to the Send button of the compose modal: a few
+ * presets (tomorrow morning, tomorrow afternoon, next Monday morning) and a
+ * custom date and time.
+ */
+
+import { uiThemeManager } from './ui-theme-manager.js';
+
+// Hour of the "morning" and "afternoon" presets
+const MORNING_HOUR = 8;
+const AFTERNOON_HOUR = 13;
+
+interface SchedulePreset {
+  label: string;
+  sendAt: Date;
+}
+
+/**
+ * A day at a given hour, counted from today
+ */
+function atHour(daysFromToday: number, hour: number): Date {
+  const date = new Date();
+  date.setDate(date.getDate() + daysFromToday);
+  date.setHours(hour, 0, 0, 0);
+  return date;
+}
+
+/**
+ * Format a date for a datetime-local input (local time, minutes)
+ */
+function toLocalInputValue(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Presets offered when the menu opens
+ */
+function getPresets(): SchedulePreset[] {
+  const daysUntilMonday = ((8 - new Date().getDay()) % 7) || 7;
+  return [
+    { label: 'Tomorrow morning', sendAt: atHour(1, MORNING_HOUR) },
+    { label: 'Tomorrow afternoon', sendAt: atHour(1, AFTERNOON_HOUR) },
+    { label: 'Monday morning', sendAt: atHour(daysUntilMonday, MORNING_HOUR) }
+  ];
+}
+
+/**
+ * Schedule Send Menu - Picks the time to send the message being composed
+ */
+class ScheduleSendMenu {
+  private onSchedule: (sendAt: Date) => void;
+  private button: HTMLElement | null = null;
+  private menu: HTMLElement | null = null;
+  private presetList: HTMLElement | null = null;
+  private customInput: HTMLInputElement | null = null;
+  private initialized: boolean = false;
+
+  /**
+   * @param onSchedule - Schedules the message for the chosen time
+   */
+  constructor(onSchedule: (sendAt: Date) => void) {
+    this.onSchedule = onSchedule;
+  }
+
+  /**
+   * Wire the Send later button and its menu
+   */
+  initialize(): void {
+    if (this.initialized) {
+      return;
+    }
+
+    this.button = document.getElementById('schedule-send-btn');
+    this.menu = document.getElementById('schedule-send-menu');
+    this.presetList = document.getElementById('schedule-send-presets');
+    this.customInput = document.getElementById('schedule-send-at') as HTMLInputElement | null;
+    if (!this.button || !this.menu) {
+      console.warn('ScheduleSendMenu: Send later button not found');
+      return;
+    }
+
+    this.button.addEventListener('click', (event: MouseEvent) => {
+      event.stopPropagation();
+      if (this.menu?.hidden) {
+        this.open();
+      } else {
+        this.close();
+      }
+    });
+    document.getElementById('schedule-send-confirm')?.addEventListener('click', () => this.scheduleCustom());
+    this.customInput?.addEventListener('keydown', (event: KeyboardEvent) => {
+      if (event.key === 'Enter') {
+        // Enter must not submit the compose form (send now)
+        event.preventDefault();
+        this.scheduleCustom();
+      }
+    });
+    this.menu.addEventListener('keydown', (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        // Close the menu only, not the compose modal
+        event.stopPropagation();
+        this.close();
+        this.button?.focus();
+      }
+    });
+    document.addEventListener('click', (event: MouseEvent) => {
+      if (this.menu && !this.menu.hidden && !this.menu.contains(event.target as Node)) {
+        this.close();
+      }
+    });
+
+    this.initialized = true;
+  }
+
+  /**
+   * Open the menu with presets for the current time
+   */
+  open(): void {
+    if (!this.menu) return;
+
+    if (this.presetList) {
+      this.presetList.innerHTML = '';
+      getPresets().forEach(preset => {
+        const option = document.createElement('button');
+        option.type = 'button';
+        option.className = 'schedule-send-preset';
+
+        const label = document.createElement('span');
+        label.textContent = preset.label;
+        const time = document.createElement('span');
+        time.className = 'schedule-send-preset-time';
+        time.textContent = preset.sendAt.toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+        option.appendChild(label);
+        option.appendChild(time);
+        option.addEventListener('click', () => this.schedule(preset.sendAt));
+        this.presetList!.appendChild(option);
+      });
+    }
+
+    if (this.customInput) {
+      const inOneHour = new Date(Date.now() + 60 * 60 * 1000);
+      this.customInput.min = toLocalInputValue(new Date());
+      this.customInput.value = toLocalInputValue(inOneHour);
+    }
+
+    this.menu.hidden = false;
+    this.button?.setAttribute('aria-expanded', 'true');
+  }
+
+  /**
+   * Close the menu
+   */
+  close(): void {
+    if (!this.menu) return;
+    this.menu.hidden = true;
+    this.button?.setAttribute('aria-expanded', 'false');
+  }
+
+  private scheduleCustom(): void {
+    const value = this.customInput?.value;
+    const sendAt = value ? new Date(value) : null;
+    if (!sendAt || isNaN(sendAt.getTime()) || sendAt.getTime() <= Date.now()) {
+      uiThemeManager.showNotification('Please choose a time in the future', 'warning');
+      this.customInput?.focus();
+      return;
+    }
+    this.schedule(sendAt);
+  }
+
+  private schedule(sendAt: Date): void {
+    this.close();
+    this.onSchedule(sendAt);
+  }
+}
+
+export { ScheduleSendMenu };
@@ -0,0 +1,107 @@
+/**
+ * Send Check Dialog Module
+ * Lists the warnings of the send checks (see send-checks) before a message is
+ * sent or scheduled. The user goes back to the message, which is the default
+ * button, or sends anyway.
+ */
+
+import type { SendWarning } from '../email/send-checks.js';
+
+/**
+ * Send Check Dialog - Warnings before sending
+ */
+class SendCheckDialog {
+  private modal: HTMLElement | null = null;
+  private list: HTMLElement | null = null;
+  private confirmButton: HTMLButtonElement | null = null;
+  // Settles the pending confirmation (true to send anyway)
+  private resolve: ((send: boolean) => void) | null = null;
+  private initialized: boolean = false;
+
+  /**
+   * Wire the modal and its buttons
+   */
+  initialize(): void {
+    if (this.initialized) {
+      return;
+    }
+
+    this.modal = document.getElementById('send-check-modal');
+    this.list = document.getElementById('send-check-warnings');
+    this.confirmButton = document.getElementById('confirm-send-check') as HTMLButtonElement | null;
+
+    document.getElementById('close-send-check')?.addEventListener('click', () => this.finish(false));
+    document.getElementById('cancel-send-check')?.addEventListener('click', () => this.finish(false));
+    this.confirmButton?.addEventListener('click', () => this.finish(true));
+    this.modal?.addEventListener('click', (event: Event) => {
+      if (event.target === this.modal) {
+        this.finish(false);
+      }
+    });
+    this.modal?.addEventListener('keydown', (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        // Back to the compose modal below, which stays open
+        event.stopPropagation();
+        this.finish(false);
+      }
+    });
+
+    this.initialized = true;
+  }
+
+  /**
+   * Show the warnings and ask whether to send anyway
+   * @param warnings - Findings of the send checks
+   * @param action - Label of the confirm button, e.g. "Send anyway"
+   * @returns True to send, false to go back to the message
+   */
+  confirm(warnings: SendWarning[], action: string = 'Send anyway'): Promise<boolean> {
+    this.initialize();
+    this.finish(false);
+    if (!this.modal) {
+      return Promise.resolve(true);
+    }
+
+    if (this.list) {
+      this.list.innerHTML = '';
+      warnings.forEach(warning => {
+        const item = document.createElement('li');
+        item.className = 'send-check-warning';
+        const title = document.createElement('strong');
+        title.textContent = warning.label;
+        const message = document.createElement('span');
+        message.textContent = warning.message;
+        item.append(title, message);
+        this.list!.appendChild(item);
+      });
+    }
+    if (this.confirmButton) {
+      this.confirmButton.textContent = action;
+    }
+    this.modal.style.display = 'block';
+    this.modal.classList.add('show');
+    setTimeout(() => {
+      this.modal?.classList.add('active');
+      document.getElementById('cancel-send-check')?.focus();
+    }, 10);
+
+    return new Promise(resolve => {
+      this.resolve = resolve;
+    });
+  }
+
+  private finish(send: boolean): void {
+    const resolve = this.resolve;
+    this.resolve = null;
+    if (!resolve) return;
+
+    resolve(send);
+    if (!this.modal) return;
+    this.modal.classList.remove('active', 'show');
+    setTimeout(() => {
+      if (this.modal) this.modal.style.display = 'none';
+    }, 300);
+  }
+}
+
+export { SendCheckDialog };
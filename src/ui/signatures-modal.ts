@@ -0,0 +1,313 @@
+/**
+ * Signatures Modal Module
+ * Settings dialog for compose signatures: create, edit and delete named
+ * signatures (formatted HTML with an optional plain-text variant), choose the
+ * default signature of each account, where signatures go in replies and
+ * forwards, and import the signatures of Gmail accounts.
+ * Opened from the "Manage signatures" button of the settings modal.
+ */
+
+import type { EmailSignature, MailAccount, SignaturePlacement } from '../../types/config';
+import type { SignatureManager } from '../email/signature-manager.js';
+import { cleanHtmlFragment, plainTextToHtml } from './rich-text-editor.js';
+import { uiThemeManager } from './ui-theme-manager.js';
+
+/**
+ * Signatures Modal - Signature settings
+ */
+class SignaturesModal {
+  private signatureManager: SignatureManager;
+  private modal: HTMLElement | null = null;
+  private listElement: HTMLElement | null = null;
+  private nameInput: HTMLInputElement | null = null;
+  private htmlInput: HTMLElement | null = null;
+  private textInput: HTMLTextAreaElement | null = null;
+  private placementSelect: HTMLSelectElement | null = null;
+  private defaultsElement: HTMLElement | null = null;
+  // Signature being edited, null for a new one
+  private editingId: string | null = null;
+  private initialized: boolean = false;
+
+  /**
+   * @param signatureManager - Signatures and their defaults
+   */
+  constructor(signatureManager: SignatureManager) {
+    this.signatureManager = signatureManager;
+  }
+
+  /**
+   * Wire the Manage signatures button, the modal and its form
+   */
+  initialize(): void {
+    if (this.initialized) {
+      return;
+    }
+
+    this.modal = document.getElementById('signatures-modal');
+    this.listElement = document.getElementById('signature-list');
+    this.nameInput = document.getElementById('signature-name') as HTMLInputElement | null;
+    this.htmlInput = document.getElementById('signature-html-input');
+    this.textInput = document.getElementById('signature-text-input') as HTMLTextAreaElement | null;
+    this.placementSelect = document.getElementById('signature-placement') as HTMLSelectElement | null;
+    this.defaultsElement = document.getElementById('signature-defaults');
+
+    document.getElementById('manage-signatures-btn')?.addEventListener('click', () => this.show());
+    document.getElementById('close-signatures')?.addEventListener('click', () => this.hide());
+    this.modal?.addEventListener('click', (event: Event) => {
+      if (event.target === this.modal) {
+        this.hide();
+      }
+    });
+    this.modal?.addEventListener('keydown', (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        // Close this dialog only, not the settings modal below it
+        event.stopPropagation();
+        this.hide();
+      }
+    });
+
+    document.getElementById('new-signature-btn')?.addEventListener('click', () => this.edit(null));
+    document.getElementById('delete-signature-btn')?.addEventListener('click', () => this.deleteEditing());
+    document.getElementById('signature-form')?.addEventListener('submit', (event: Event) => {
+      event.preventDefault();
+      this.saveEditing();
+    });
+    this.htmlInput?.addEventListener('paste', (event: ClipboardEvent) => {
+      const html = event.clipboardData?.getData('text/html');
+      const text = event.clipboardData?.getData('text/plain');
+      if (html || text) {
+        event.preventDefault();
+        document.execCommand('insertHTML', false, html ? cleanHtmlFragment(html) : plainTextToHtml(text || ''));
+      }
+    });
+    this.placementSelect?.addEventListener('change', () => this.savePlacement());
+
+    window.addEventListener('signaturesChanged', () => {
+      if (this.isOpen()) this.render();
+    });
+    window.addEventListener('accountsChanged', () => {
+      if (this.isOpen()) this.renderDefaults();
+    });
+
+    this.initialized = true;
+  }
+
+  /**
+   * Open the modal with the current signatures
+   */
+  async show(): Promise<void> {
+    if (!this.modal) return;
+    this.modal.style.display = 'block';
+    this.modal.classList.add('show');
+    setTimeout(() => this.modal?.classList.add('active'), 10);
+    try {
+      await this.signatureManager.reload();
+    } catch (error) {
+      console.error('SignaturesModal: Failed to load signatures:', error);
+      uiThemeManager.showNotification('Failed to load signatures', 'error');
+    }
+    this.render();
+    this.edit(this.signatureManager.getSettings().signatures[0] || null);
+  }
+
+  /**
+   * Close the modal
+   */
+  hide(): void {
+    if (!this.modal) return;
+    this.modal.classList.remove('active', 'show');
+    setTimeout(() => {
+      if (this.modal) this.modal.style.display = 'none';
+    }, 300);
+  }
+
+  private isOpen(): boolean {
+    return !!this.modal?.classList.contains('show');
+  }
+
+  private render(): void {
+    const settings = this.signatureManager.getSettings();
+    if (this.placementSelect) {
+      this.placementSelect.value = settings.placement;
+    }
+    this.renderList(settings.signatures);
+    this.renderDefaults();
+  }
+
+  private renderList(signatures: EmailSignature[]): void {
+    if (!this.listElement) return;
+
+    this.listElement.innerHTML = '';
+    if (signatures.length === 0) {
+      const empty = document.createElement('div');
+      empty.className = 'signatures-empty';
+      empty.textContent = 'No signatures';
+      this.listElement.appendChild(empty);
+      return;
+    }
+
+    signatures.forEach(signature => {
+      const item = document.createElement('button');
+      item.type = 'button';
+      item.className = 'signature-item';
+      item.classList.toggle('active', signature.id === this.editingId);
+      item.textContent = signature.name;
+      if (signature.importedFrom?.startsWith('gmail:')) {
+        item.title = 'Imported from Gmail';
+      }
+      item.addEventListener('click', () => this.edit(signature));
+      this.listElement!.appendChild(item);
+    });
+  }
+
+  /**
+   * One row per account: its default signature, and an import button for Gmail accounts
+   */
+  private renderDefaults(): void {
+    if (!this.defaultsElement) return;
+
+    const { signatures, defaults } = this.signatureManager.getSettings();
+    const accounts: MailAccount[] = (window as any).mailAccounts || [];
+    this.defaultsElement.innerHTML = '';
+    if (accounts.length === 0) {
+      const empty = document.createElement('div');
+      empty.className = 'signatures-empty';
+      empty.textContent = 'Add an account to choose its default signature';
+      this.defaultsElement.appendChild(empty);
+      return;
+    }
+
+    accounts.forEach(account => {
+      const row = document.createElement('div');
+      row.className = 'signature-default-row';
+
+      const label = document.createElement('label');
+      label.textContent = account.email || account.displayName || account.type;
+      label.htmlFor = `signature-default-${account.id}`;
+
+      const select = document.createElement('select');
+      select.id = `signature-default-${account.id}`;
+      const none = document.createElement('option');
+      none.value = '';
+      none.textContent = 'No signature';
+      select.appendChild(none);
+      signatures.forEach(signature => {
+        const option = document.createElement('option');
+        option.value = signature.id;
+        option.textContent = signature.name;
+        select.appendChild(option);
+      });
+      select.value = defaults[account.id] || '';
+      select.addEventListener('change', () => this.saveDefault(account.id, select.value || null));
+
+      row.appendChild(label);
+      row.appendChild(select);
+
+      if (account.type === 'gmail') {
+        const importButton = document.createElement('button');
+        importButton.type = 'button';
+        importButton.className = 'btn-secondary';
+        importButton.innerHTML = '<i class="fab fa-google"></i> Import from Gmail';
+        importButton.addEventListener('click', () => this.importFromGmail(account, importButton));
+        row.appendChild(importButton);
+      }
+
+      this.defaultsElement!.appendChild(row);
+    });
+  }
+
+  /**
+   * Fill the form with a signature
+   * @param signature - Signature to edit, or null for a new one
+   */
+  private edit(signature: EmailSignature | null): void {
+    this.editingId = signature?.id || null;
+    if (this.nameInput) this.nameInput.value = signature?.name || '';
+    if (this.htmlInput) this.htmlInput.innerHTML = cleanHtmlFragment(signature?.html || '');
+    if (this.textInput) this.textInput.value = signature?.text || '';
+
+    const deleteButton = document.getElementById('delete-signature-btn');
+    if (deleteButton) deleteButton.hidden = !signature;
+    this.renderList(this.signatureManager.getSettings().signatures);
+    this.nameInput?.focus();
+  }
+
+  private async saveEditing(): Promise<void> {
+    const name = this.nameInput?.value.trim() || '';
+    if (!name) {
+      uiThemeManager.showNotification('Please name the signature', 'warning');
+      return;
+    }
+
+    const existing = this.signatureManager.getSettings().signatures.find(signature => signature.id === this.editingId);
+    try {
+      const saved = await this.signatureManager.saveSignature({
+        id: this.editingId || undefined,
+        name,
+        html: cleanHtmlFragment(this.htmlInput?.innerHTML || ''),
+        text: this.textInput?.value || '',
+        importedFrom: existing?.importedFrom
+      });
+      this.editingId = saved.id;
+      this.render();
+      uiThemeManager.showNotification('Signature saved', 'success');
+    } catch (error) {
+      console.error('SignaturesModal: Failed to save signature:', error);
+      uiThemeManager.showNotification(`Failed to save signature: ${(error as Error).message}`, 'error');
+    }
+  }
+
+  private async deleteEditing(): Promise<void> {
+    const signature = this.signatureManager.getSettings().signatures.find(candidate => candidate.id === this.editingId);
+    if (!signature || !confirm(`Delete the signature "${signature.name}"?`)) {
+      return;
+    }
+    try {
+      await this.signatureManager.deleteSignature(signature.id);
+      this.render();
+      this.edit(this.signatureManager.getSettings().signatures[0] || null);
+    } catch (error) {
+      console.error('SignaturesModal: Failed to delete signature:', error);
+      uiThemeManager.showNotification(`Failed to delete signature: ${(error as Error).message}`, 'error');
+    }
+  }
+
+  private async saveDefault(key: string, signatureId: string | null): Promise<void> {
+    try {
+      await this.signatureManager.setDefault(key, signatureId);
+    } catch (error) {
+      console.error('SignaturesModal: Failed to set default signature:', error);
+      uiThemeManager.showNotification(`Failed to set default signature: ${(error as Error).message}`, 'error');
+    }
+  }
+
+  private async savePlacement(): Promise<void> {
+    try {
+      await this.signatureManager.setPlacement((this.placementSelect?.value || 'above-quote') as SignaturePlacement);
+    } catch (error) {
+      console.error('SignaturesModal: Failed to set signature placement:', error);
+      uiThemeManager.showNotification(`Failed to set signature placement: ${(error as Error).message}`, 'error');
+    }
+  }
+
+  private async importFromGmail(account: MailAccount, button: HTMLButtonElement): Promise<void> {
+    button.disabled = true;
+    try {
+      const imported = await this.signatureManager.importFromGmail(account.id);
+      this.render();
+      uiThemeManager.showNotification(imported > 0 ? `Imported ${imported} signature(s) from Gmail` : 'No Gmail signature found', imported > 0 ? 'success' : 'info');
+    } catch (error) {
+      console.error('SignaturesModal: Failed to import Gmail signatures:', error);
+      uiThemeManager.showNotification(`Failed to import Gmail signatures: ${(error as Error).message}`, 'error');
+    } finally {
+      button.disabled = false;
+    }
+  }
+}
+
+// Global assignment for browser environments
+if (typeof window !== 'undefined') {
+  (window as any).SignaturesModal = SignaturesModal;
+}
+
+export { SignaturesModal };
@@ -0,0 +1,280 @@
+/**
+ * Templates Modal Module
+ * Dialog for message templates: create, edit and delete templates (name,
+ * category, optional subject and formatted body with placeholders), and
+ * import or export them as a JSON file.
+ * Opened from the "Manage templates" button of the settings modal and from the
+ * Templates selector of the compose toolbar.
+ */
+
+import type { EmailTemplate } from '../../types/config';
+import { TEMPLATE_VARIABLES, type TemplateManager } from '../email/template-manager.js';
+import { cleanHtmlFragment, plainTextToHtml } from './rich-text-editor.js';
+import { uiThemeManager } from './ui-theme-manager.js';
+
+/**
+ * Templates Modal - Template library
+ */
+class TemplatesModal {
+  private templateManager: TemplateManager;
+  private modal: HTMLElement | null = null;
+  private listElement: HTMLElement | null = null;
+  private nameInput: HTMLInputElement | null = null;
+  private categoryInput: HTMLInputElement | null = null;
+  private subjectInput: HTMLInputElement | null = null;
+  private htmlInput: HTMLElement | null = null;
+  // Template being edited, null for a new one
+  private editingId: string | null = null;
+  private initialized: boolean = false;
+
+  /**
+   * @param templateManager - Templates
+   */
+  constructor(templateManager: TemplateManager) {
+    this.templateManager = templateManager;
+  }
+
+  /**
+   * Wire the Manage templates button, the modal and its form
+   */
+  initialize(): void {
+    if (this.initialized) {
+      return;
+    }
+
+    this.modal = document.getElementById('templates-modal');
+    this.listElement = document.getElementById('template-list');
+    this.nameInput = document.getElementById('template-name') as HTMLInputElement | null;
+    this.categoryInput = document.getElementById('template-category') as HTMLInputElement | null;
+    this.subjectInput = document.getElementById('template-subject') as HTMLInputElement | null;
+    this.htmlInput = document.getElementById('template-html-input');
+
+    document.getElementById('manage-templates-btn')?.addEventListener('click', () => this.show());
+    document.getElementById('close-templates')?.addEventListener('click', () => this.hide());
+    this.modal?.addEventListener('click', (event: Event) => {
+      if (event.target === this.modal) {
+        this.hide();
+      }
+    });
+    this.modal?.addEventListener('keydown', (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        // Close this dialog only, not the modal below it
+        event.stopPropagation();
+        this.hide();
+      }
+    });
+
+    document.getElementById('new-template-btn')?.addEventListener('click', () => this.edit(null));
+    document.getElementById('delete-template-btn')?.addEventListener('click', () => this.deleteEditing());
+    document.getElementById('import-templates-btn')?.addEventListener('click', () => this.importTemplates());
+    document.getElementById('export-templates-btn')?.addEventListener('click', () => this.exportTemplates());
+    document.getElementById('template-form')?.addEventListener('submit', (event: Event) => {
+      event.preventDefault();
+      this.saveEditing();
+    });
+    this.htmlInput?.addEventListener('paste', (event: ClipboardEvent) => {
+      const html = event.clipboardData?.getData('text/html');
+      const text = event.clipboardData?.getData('text/plain');
+      if (html || text) {
+        event.preventDefault();
+        document.execCommand('insertHTML', false, html ? cleanHtmlFragment(html) : plainTextToHtml(text || ''));
+      }
+    });
+    this.renderVariables();
+
+    window.addEventListener('templatesChanged', () => {
+      if (this.isOpen()) this.renderList();
+    });
+
+    this.initialized = true;
+  }
+
+  /**
+   * Open the modal with the current templates
+   */
+  async show(): Promise<void> {
+    if (!this.modal) return;
+    this.modal.style.display = 'block';
+    this.modal.classList.add('show');
+    setTimeout(() => this.modal?.classList.add('active'), 10);
+    try {
+      await this.templateManager.reload();
+    } catch (error) {
+      console.error('TemplatesModal: Failed to load templates:', error);
+      uiThemeManager.showNotification('Failed to load templates', 'error');
+    }
+    this.edit(this.templateManager.getTemplates()[0] || null);
+  }
+
+  /**
+   * Close the modal
+   */
+  hide(): void {
+    if (!this.modal) return;
+    this.modal.classList.remove('active', 'show');
+    setTimeout(() => {
+      if (this.modal) this.modal.style.display = 'none';
+    }, 300);
+  }
+
+  private isOpen(): boolean {
+    return !!this.modal?.classList.contains('show');
+  }
+
+  /**
+   * List the templates under their categories, and offer the categories in the form
+   */
+  private renderList(): void {
+    if (!this.listElement) return;
+
+    const templates = this.templateManager.getTemplates();
+    this.listElement.innerHTML = '';
+    if (templates.length === 0) {
+      const empty = document.createElement('div');
+      empty.className = 'templates-empty';
+      empty.textContent = 'No templates';
+      this.listElement.appendChild(empty);
+    }
+
+    let category: string | null = null;
+    templates.forEach(template => {
+      if (template.category !== category) {
+        category = template.category;
+        if (category) {
+          const heading = document.createElement('div');
+          heading.className = 'template-category';
+          heading.textContent = category;
+          this.listElement!.appendChild(heading);
+        }
+      }
+      const item = document.createElement('button');
+      item.type = 'button';
+      item.className = 'template-item';
+      item.classList.toggle('active', template.id === this.editingId);
+      item.textContent = template.name;
+      item.addEventListener('click', () => this.edit(template));
+      this.listElement!.appendChild(item);
+    });
+
+    const categories = document.getElementById('template-categories');
+    if (categories) {
+      categories.innerHTML = '';
+      new Set(templates.map(template => template.category).filter(Boolean)).forEach(name => {
+        const option = document.createElement('option');
+        option.value = name;
+        categories.appendChild(option);
+      });
+    }
+  }
+
+  /**
+   * List the placeholders below the form; clicking one inserts it into the template
+   */
+  private renderVariables(): void {
+    const container = document.getElementById('template-variables');
+    if (!container) return;
+
+    container.innerHTML = '';
+    TEMPLATE_VARIABLES.forEach(variable => {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.className = 'template-variable';
+      button.textContent = `{{${variable.name}}}`;
+      button.title = variable.description;
+      button.addEventListener('mousedown', (event: MouseEvent) => event.preventDefault());
+      button.addEventListener('click', () => {
+        if (this.htmlInput && !this.htmlInput.contains(document.activeElement)) {
+          this.htmlInput.focus();
+        }
+        document.execCommand('insertText', false, `{{${variable.name}}}`);
+      });
+      container.appendChild(button);
+    });
+  }
+
+  /**
+   * Fill the form with a template
+   * @param template - Template to edit, or null for a new one
+   */
+  private edit(template: EmailTemplate | null): void {
+    this.editingId = template?.id || null;
+    if (this.nameInput) this.nameInput.value = template?.name || '';
+    if (this.categoryInput) this.categoryInput.value = template?.category || '';
+    if (this.subjectInput) this.subjectInput.value = template?.subject || '';
+    if (this.htmlInput) this.htmlInput.innerHTML = cleanHtmlFragment(template?.html || '');
+
+    const deleteButton = document.getElementById('delete-template-btn');
+    if (deleteButton) deleteButton.hidden = !template;
+    this.renderList();
+    this.nameInput?.focus();
+  }
+
+  private async saveEditing(): Promise<void> {
+    const name = this.nameInput?.value.trim() || '';
+    if (!name) {
+      uiThemeManager.showNotification('Please name the template', 'warning');
+      return;
+    }
+
+    try {
+      const saved = await this.templateManager.saveTemplate({
+        id: this.editingId || undefined,
+        name,
+        category: this.categoryInput?.value.trim() || '',
+        subject: this.subjectInput?.value.trim() || '',
+        html: cleanHtmlFragment(this.htmlInput?.innerHTML || '')
+      });
+      this.editingId = saved.id;
+      this.renderList();
+      uiThemeManager.showNotification('Template saved', 'success');
+    } catch (error) {
+      console.error('TemplatesModal: Failed to save template:', error);
+      uiThemeManager.showNotification(`Failed to save template: ${(error as Error).message}`, 'error');
+    }
+  }
+
+  private async deleteEditing(): Promise<void> {
+    const template = this.templateManager.getTemplates().find(candidate => candidate.id === this.editingId);
+    if (!template || !confirm(`Delete the template "${template.name}"?`)) {
+      return;
+    }
+    try {
+      await this.templateManager.deleteTemplate(template.id);
+      this.edit(this.templateManager.getTemplates()[0] || null);
+    } catch (error) {
+      console.error('TemplatesModal: Failed to delete template:', error);
+      uiThemeManager.showNotification(`Failed to delete template: ${(error as Error).message}`, 'error');
+    }
+  }
+
+  private async importTemplates(): Promise<void> {
+    try {
+      const imported = await this.templateManager.importTemplates();
+      if (imported === null) return;
+      this.edit(this.templateManager.getTemplates()[0] || null);
+      uiThemeManager.showNotification(imported > 0 ? `Imported ${imported} template(s)` : 'No templates found in the file', imported > 0 ? 'success' : 'info');
+    } catch (error) {
+      console.error('TemplatesModal: Failed to import templates:', error);
+      uiThemeManager.showNotification(`Failed to import templates: ${(error as Error).message}`, 'error');
+    }
+  }
+
+  private async exportTemplates(): Promise<void> {
+    try {
+      const exported = await this.templateManager.exportTemplates();
+      if (exported !== null) {
+        uiThemeManager.showNotification(`Exported ${exported} template(s)`, 'success');
+      }
+    } catch (error) {
+      console.error('TemplatesModal: Failed to export templates:', error);
+      uiThemeManager.showNotification(`Failed to export templates: ${(error as Error).message}`, 'error');
+    }
+  }
+}
+
+// Global assignment for browser environments
+if (typeof window !== 'undefined') {
+  (window as any).TemplatesModal = TemplatesModal;
+}
+
+export { TemplatesModal };
@@ -3,8 +3,18 @@
  * Handles all UI state management, theme switching, modal controls, loading states, and notifications
  */
 
+import type { NotificationAction } from '../../types/ui';
+
 export type Theme = 'light' | 'dark';
 
+/**
+ * Options of a toast
+ */
+export interface NotificationOptions {
+    duration?: number;
+    actions?: NotificationAction[];
+}
+
 interface DOMElements {
     composeModal?: HTMLElement | null;
     settingsModal?: HTMLElement | null;
@@ -18,7 +28,7 @@ interface DOMElements {
     toInput?: HTMLInputElement | null;
     ccInput?: HTMLInputElement | null;
     subjectInput?: HTMLInputElement | null;
-    bodyInput?: HTMLTextAreaElement | null;
+    bodyInput?: HTMLElement | null;
 }
 
 export class UIThemeManager {
@@ -90,26 +100,56 @@ export class UIThemeManager {
         }
     }
 
-    showNotification(message: string, type: 'success' | 'error' | 'warning' | 'info'): void {
+    /**
+     * Show a toast
+     * @param message - Notification text
+     * @param type - Notification type
+     * @param options - duration: time shown in ms (default 3 seconds); actions: buttons in the toast
+     * @returns Function that dismisses the toast early
+     */
+    showNotification(message: string, type: 'success' | 'error' | 'warning' | 'info', options: NotificationOptions = {}): () => void {
         const toastContainer = document.getElementById('toast-container');
         if (!toastContainer) {
             console.error('Toast container not found');
-            return;
+            return () => undefined;
         }
 
         const toast = document.createElement('div');
         toast.className = `toast toast-${type}`;
-        toast.textContent = message;
+        toast.setAttribute('role', type === 'error' ? 'alert' : 'status');
+
+        const text = document.createElement('span');
+        text.className = 'toast-message';
+        text.textContent = message;
+        toast.appendChild(text);
+
+        let dismissed = false;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const dismiss = () => {
+            if (dismissed) return;
+            dismissed = true;
+            clearTimeout(timer);
+            toast.classList.add('fade-out');
+            setTimeout(() => toast.remove(), 300);
+        };
+
+        (options.actions || []).forEach(action => {
+            const button = document.createElement('button');
+            button.type = 'button';
+            button.className = `toast-action toast-action-${action.style || 'primary'}`;
+            button.textContent = action.label;
+            button.addEventListener('click', () => {
+                dismiss();
+                action.action();
+            });
+            toast.appendChild(button);
+        });
 
         toastContainer.appendChild(toast);
 
-        // Auto-remove after 3 seconds
-        setTimeout(() => {
-            toast.classList.add('fade-out');
-            setTimeout(() => {
-                toastContainer.removeChild(toast);
-            }, 300);
-        }, 3000);
+        // Auto-remove after 3 seconds unless a duration was given
+        timer = setTimeout(dismiss, options.duration ?? 3000);
+        return dismiss;
     }
 
     showLoading(show: boolean): void {
@@ -0,0 +1,208 @@
+/**
+ * Address Parser Module
+ * Parses and formats RFC 5322 address lists ("Name <a@b>, c@d") for the
+ * recipient fields of the compose modal and the send paths. Quoted display
+ * names, comments, groups ("Team: a@b, c@d;") and semicolon separated lists
+ * (as copied from Outlook) are understood.
+ */
+
+import type { EmailAddress } from '../../types/email';
+
+// Characters that require a display name to be quoted (RFC 5322 "specials")
+const SPECIALS = /[()<>\[\]:;@\\,."]/;
+
+// Pragmatic address check: local part, @, domain with a dot
+const ADDRESS_PATTERN = /^[^\s@<>(),;:"]+@[^\s@<>(),;:"]+\.[^\s@<>(),;:"]+$/;
+
+/**
+ * Check whether a string looks like a deliverable email address
+ * @param address - Address without display name
+ * @returns True for addresses like "name@example.com"
+ */
+export function isValidAddress(address: string): boolean {
+    return ADDRESS_PATTERN.test(address);
+}
+
+/**
+ * Split an address list at top-level separators (commas, semicolons and group
+ * markers), keeping quoted strings, comments and angle addresses together.
+ * An unquoted display name with a comma ("Müller, Hans <h@example.com>", as
+ * pasted from many clients) is kept with its angle address.
+ * @param text - Address list
+ * @returns Address segments
+ */
+function splitAddressList(text: string): string[] {
+    const segments: string[] = [];
+    // Indexes of the segments that ended at a comma
+    const endedAtComma = new Set<number>();
+    let current = '';
+    let inQuote = false;
+    let inAngle = false;
+    let commentDepth = 0;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuote) {
+            current += char;
+            if (char === '\\' && i + 1 < text.length) {
+                current += text[++i];
+            } else if (char === '"') {
+                inQuote = false;
+            }
+            continue;
+        }
+        if (commentDepth > 0) {
+            current += char;
+            if (char === '\\' && i + 1 < text.length) {
+                current += text[++i];
+            } else if (char === '(') {
+                commentDepth++;
+            } else if (char === ')') {
+                commentDepth--;
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            inQuote = true;
+        } else if (char === '(') {
+            commentDepth = 1;
+        } else if (char === '<') {
+            inAngle = true;
+        } else if (char === '>') {
+            inAngle = false;
+        } else if (!inAngle && (char === ',' || char === ';' || char === '\n')) {
+            if (char === ',') endedAtComma.add(segments.length);
+            segments.push(current);
+            current = '';
+            continue;
+        } else if (!inAngle && char === ':') {
+            // "Group name:" starts a group; its name is not an address
+            current = '';
+            continue;
+        }
+        current += char;
+    }
+    segments.push(current);
+
+    const merged: string[] = [];
+    for (let i = 0; i < segments.length; i++) {
+        // Bare names ending at commas, then "Name <address>": one recipient
+        let end = i;
+        while (endedAtComma.has(end) && isNameOnly(segments[end]) && end + 1 < segments.length) {
+            end++;
+        }
+        if (end > i && /^[^@<]*<[^>]*@/.test(segments[end])) {
+            merged.push(segments.slice(i, end + 1).join(','));
+            i = end;
+        } else {
+            merged.push(segments[i]);
+        }
+    }
+    return merged.map(segment => segment.trim()).filter(Boolean);
+}
+
+/**
+ * Check whether a segment is a bare display name (no address, no angle brackets)
+ * @param segment - Address segment
+ * @returns True for e.g. "Müller"
+ */
+function isNameOnly(segment: string): boolean {
+    const text = segment.replace(/\((?:[^()\\]|\\.)*\)/g, ' ').trim();
+    return !!text && !/[@<>]/.test(text);
+}
+
+/**
+ * Unquote a display name and drop its comments
+ * @param text - Raw display name
+ * @returns Display name
+ */
+function cleanDisplayName(text: string): string {
+    let name = text.replace(/\((?:[^()\\]|\\.)*\)/g, ' ').trim();
+    if (name.startsWith('"') && name.endsWith('"') && name.length > 1) {
+        name = name.slice(1, -1).replace(/\\(.)/g, '$1');
+    } else {
+        name = name.replace(/"/g, '');
+    }
+    return name.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Parse one address segment ("Name <a@b>", "a@b (Name)", "a@b" or a typed "Name a@b")
+ * @param segment - Address segment
+ * @returns Address, or null for an empty segment
+ */
+function parseAddress(segment: string): EmailAddress | null {
+    const angle = segment.match(/^(.*)<([^>]*)>?\s*(?:\((.*)\))?$/s);
+    if (angle) {
+        const email = angle[2].trim();
+        const name = cleanDisplayName(angle[1]) || (angle[3] ? cleanDisplayName(angle[3]) : '');
+        return email ? { name: name || undefined, email } : null;
+    }
+
+    const comment = segment.match(/\(((?:[^()\\]|\\.)*)\)/);
+    const withoutComments = segment.replace(/\((?:[^()\\]|\\.)*\)/g, ' ').trim();
+    const words = withoutComments.split(/\s+/).filter(Boolean);
+    const addressIndex = words.findIndex(word => word.includes('@'));
+    if (addressIndex < 0) {
+        return withoutComments ? { email: cleanDisplayName(withoutComments) } : null;
+    }
+
+    const email = words[addressIndex].replace(/^"|"$/g, '');
+    const typedName = cleanDisplayName(words.filter((_word, index) => index !== addressIndex).join(' '));
+    const name = typedName || (comment ? cleanDisplayName(comment[1]) : '');
+    return { name: name || undefined, email };
+}
+
+/**
+ * Parse an address list into separate recipients
+ * @param text - e.g. "\"Doe, Jane\" <jane@example.com>, bob@example.com; Team: c@example.com;"
+ * @returns Recipients in order, without duplicates (compared case-insensitively)
+ */
+export function parseAddressList(text: string): EmailAddress[] {
+    const seen = new Set<string>();
+    const addresses: EmailAddress[] = [];
+    splitAddressList(text || '').forEach(segment => {
+        const address = parseAddress(segment);
+        if (address && !seen.has(address.email.toLowerCase())) {
+            seen.add(address.email.toLowerCase());
+            addresses.push(address);
+        }
+    });
+    return addresses;
+}
+
+/**
+ * Normalize the address fields of loaded messages; older caches and some
+ * providers hold them as address list strings, which are parsed
+ * @param value - Address, addresses or address list text
+ * @returns Addresses with an email
+ */
+export function toAddresses(value: EmailAddress | EmailAddress[] | string | null | undefined): EmailAddress[] {
+    if (!value) return [];
+    if (typeof value === 'string') return parseAddressList(value);
+    return (Array.isArray(value) ? value : [value]).filter(address => address?.email);
+}
+
+/**
+ * Format an address for a header, quoting the display name when needed
+ * @param address - Address with optional display name
+ * @returns e.g. "\"Doe, Jane\" <jane@example.com>" or "bob@example.com"
+ */
+export function formatAddress(address: EmailAddress): string {
+    const name = address.name?.trim();
+    if (!name || name.toLowerCase() === address.email.toLowerCase()) {
+        return address.email;
+    }
+    const displayName = SPECIALS.test(name) ? `"${name.replace(/(["\\])/g, '\\$1')}"` : name;
+    return `${displayName} <${address.email}>`;
+}
+
+/**
+ * Format a list of addresses as a comma separated header value
+ * @param addresses - Addresses
+ * @returns Address list
+ */
+export function formatAddressList(addresses: EmailAddress[]): string {
+    return addresses.map(formatAddress).join(', ');
+}
@@ -55,10 +55,10 @@ class AttachmentManagerSingleton {
         }
         
         try {
-            // Always request Google auth token from main process
+            // The main process resolves the account's token; older cached attachments have no account
             const ipcRenderer = (window as any).require('electron').ipcRenderer;
-            const googleAuth = await ipcRenderer.invoke('get-google-auth');
-            if (!googleAuth) {
+            const googleAuth = attachment.accountId ? null : await ipcRenderer.invoke('get-google-auth');
+            if (!attachment.accountId && !googleAuth) {
                 console.warn('Google authentication not available for Gmail attachment');
                 throw new Error('Google authentication is required to download Gmail attachments. Please sign in to your Google account first.');
             }
@@ -67,6 +67,7 @@ class AttachmentManagerSingleton {
             const result = await ipcRenderer.invoke('fetch-gmail-attachment', {
                 messageId: attachment.messageId,
                 attachmentId: attachment.attachmentId,
+                accountId: attachment.accountId,
                 auth: googleAuth
             });
             
@@ -308,10 +309,10 @@ class AttachmentHandler {
             // Check if we need to fetch content lazily for Gmail attachments
             if (!attachment.content && attachment.attachmentId && attachment.messageId) {
                 try {
-                    // Get Google auth token
+                    // Get Google auth token (resolved by the main process when the account is known)
                     const ipcRenderer = (window as any).require('electron').ipcRenderer;
-                    const googleAuth = await ipcRenderer.invoke('get-google-auth');
-                    if (!googleAuth) {
+                    const googleAuth = attachment.accountId ? null : await ipcRenderer.invoke('get-google-auth');
+                    if (!attachment.accountId && !googleAuth) {
                         throw new Error('Please sign in to your Google account to preview attachments.');
                     }
                     
@@ -319,6 +320,7 @@ class AttachmentHandler {
                     const result = await ipcRenderer.invoke('fetch-gmail-attachment', {
                         messageId: attachment.messageId,
                         attachmentId: attachment.attachmentId,
+                        accountId: attachment.accountId,
                         auth: googleAuth
                     });
                     
@@ -0,0 +1,18 @@
+/**
+ * IPC Renderer Module
+ * Access to Electron's ipcRenderer from renderer modules (the windows run
+ * with nodeIntegration, so it is reached through window.require)
+ */
+
+import type { IpcRenderer } from 'electron';
+
+/**
+ * Get the IPC renderer
+ * @returns ipcRenderer, or null outside Electron
+ */
+export function getIpcRenderer(): IpcRenderer | null {
+    if (typeof window !== 'undefined' && (window as any).require) {
+        return (window as any).require('electron').ipcRenderer;
+    }
+    return null;
+}
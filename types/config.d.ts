@@ -144,6 +144,14 @@ export interface AppConfig {
     animationsEnabled: boolean;
     compactMode: boolean;
     showPreviewPane: boolean;
+    // Time a sent message is held so it can be undone
+    undoSendSeconds: number;
+    // Where replies are written relative to the quoted message
+    replyPosition: 'top' | 'bottom';
+    // Domains of the organisation, for the external recipients send check
+    organisationDomains: string[];
+    // To and Cc recipients above which the send checks suggest Bcc
+    maxVisibleRecipients: number;
   };
 }
 
@@ -209,6 +217,87 @@ export interface MicrosoftAuthToken {
   };
 }
 
+/**
+ * Mail account provider
+ */
+export type MailAccountType = 'gmail' | 'outlook' | 'imap';
+
+/**
+ * Mail account as exposed to the renderer (no credentials)
+ */
+export interface MailAccount {
+  id: string;
+  type: MailAccountType;
+  email: string;
+  displayName?: string;
+}
+
+/**
+ * Mail account as stored by the main process, including its credentials
+ */
+export interface StoredMailAccount extends MailAccount {
+  credentials: GoogleAuthToken | MicrosoftAuthToken | EmailConfig | null;
+  addedAt: string;
+}
+
+export type SendIdentitySource = 'account' | 'gmail' | 'custom';
+
+/**
+ * Address mail is sent as: the account's own address, a Gmail send-as alias,
+ * or a custom identity of an IMAP account (userData/identities.json)
+ */
+export interface SendIdentity {
+  // The account id for the account's own address
+  id: string;
+  accountId: string;
+  email: string;
+  displayName?: string;
+  // Reply-To of messages sent as this identity
+  replyTo?: string;
+  source: SendIdentitySource;
+}
+
+/**
+ * Compose signature
+ */
+export interface EmailSignature {
+  id: string;
+  name: string;
+  html: string;
+  // Plain-text variant; generated from html when empty
+  text: string;
+  // Set for imported signatures, e.g. "gmail:me@example.com" or "account:<id>"
+  importedFrom?: string;
+}
+
+export type SignaturePlacement = 'above-quote' | 'below-quote';
+
+/**
+ * Signatures and their defaults, stored by the main process (userData/signatures.json)
+ */
+export interface SignatureSettings {
+  signatures: EmailSignature[];
+  // Default signature id per account id or sending address
+  defaults: Record<string, string>;
+  // Where the signature goes in replies and forwards
+  placement: SignaturePlacement;
+}
+
+/**
+ * Reusable message, stored by the main process (userData/templates.json).
+ * Placeholders such as {{sender.firstName}} are filled in when it is inserted.
+ */
+export interface EmailTemplate {
+  id: string;
+  name: string;
+  // Groups templates in the picker, e.g. "Billing"; empty for none
+  category: string;
+  // Subject for messages without one; empty keeps the subject
+  subject: string;
+  html: string;
+  updatedAt: string;
+}
+
 /**
  * Search configuration interfaces
  */
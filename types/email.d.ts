@@ -31,7 +31,10 @@ export interface Email {
   unread?: boolean;
   labels?: string[];
   folder?: string;
+  uid?: number;
   source?: EmailSource;
+  // Id of the MailAccount the message was fetched from
+  accountId?: string;
   headers?: Record<string, any>;
   
   // Attachments
@@ -69,11 +72,24 @@ export interface Attachment {
   encoding?: string;
   attachmentId?: string;
   messageId?: string;
+  // Account the message belongs to (needed to fetch lazily loaded content)
+  accountId?: string;
 }
 
 // Use Attachment as the canonical type for all attachments
 export type EmailAttachment = Attachment;
 
+/**
+ * File attached to an outgoing message
+ */
+export interface OutgoingAttachment {
+  filename: string;
+  contentType: string;
+  size: number;
+  // base64 encoded file content
+  content: string;
+}
+
 /**
  * Attachment handling types
  */
@@ -143,6 +159,21 @@ export interface EmailConversation {
   hasAttachments: boolean;
 }
 
+/**
+ * Mailbox folders and Gmail labels
+ */
+export type MailFolderRole = 'inbox' | 'sent' | 'drafts' | 'trash' | 'spam' | 'archive' | 'starred' | 'important' | 'all';
+
+export interface MailFolder {
+  id: string; // Gmail label id or IMAP mailbox path
+  name: string;
+  type: 'system' | 'user';
+  role?: MailFolderRole;
+  unreadCount: number;
+  totalCount: number;
+  depth: number; // Nesting level for IMAP mailboxes and "Parent/Child" Gmail labels
+}
+
 /**
  * Email source tracking
  */
@@ -179,6 +210,21 @@ export interface EmailAddress {
   email: string;
 }
 
+/**
+ * Correspondent in the contacts index, ranked for recipient suggestions
+ */
+export interface Contact {
+  email: string;
+  name?: string;
+  // Messages sent to and received from this address
+  sentCount: number;
+  receivedCount: number;
+  // Time of the most recent message with this address (ms since epoch)
+  lastContacted: number;
+  // Frecency: message weights decayed by age, comparable between contacts
+  score: number;
+}
+
 /**
  * Email actions and operations
  */
@@ -233,17 +279,111 @@ export interface EmailSendResult {
   };
 }
 
+/**
+ * Message being replied to, captured when a reply is started
+ */
+export interface ReplyContext {
+  accountId?: string;
+  source?: EmailSource;
+  // Message-ID of the parent
+  messageId: string;
+  // Message-IDs the parent refers to, oldest first
+  references: string[];
+  threadId?: string;
+  providerMessageId: string;
+}
+
+/**
+ * Contents of the compose modal
+ */
+export interface ComposeState {
+  // Sending account
+  accountId?: string;
+  // Identity of the sending account; its own address when not set
+  identityId?: string;
+  to: string;
+  cc: string;
+  bcc: string;
+  subject: string;
+  html: string;
+  text: string;
+  attachments: OutgoingAttachment[];
+  replyContext?: ReplyContext | null;
+}
+
 /**
  * Email drafts
+ * Drafts are stored locally (userData/drafts.json) and copied to the server of
+ * Gmail (drafts API) and IMAP (Drafts mailbox) accounts.
+ */
+export interface EmailDraft extends ComposeState {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  // Server copy: the Gmail draft id, or the IMAP mailbox the draft was appended to
+  remoteId?: string;
+  remoteAccountId?: string;
+  syncedAt?: string;
+  syncError?: string;
+}
+
+/**
+ * Message handed to the main process for sending from a stored account
+ * (send-* IPC handlers and the outbox)
+ */
+export interface SendRequest {
+  accountId: string;
+  // Identity of the account to send as; its own address when not set
+  identityId?: string;
+  to: string;
+  cc?: string;
+  bcc?: string;
+  subject: string;
+  // Plain-text body; the text alternative of html when html is set
+  body: string;
+  html?: string;
+  inReplyTo?: string;
+  references?: string[];
+  // Gmail thread of the parent (Gmail accounts)
+  threadId?: string;
+  // Graph id of the parent (Outlook accounts)
+  replyToMessageId?: string;
+  attachments?: OutgoingAttachment[];
+}
+
+export type ScheduledMessageStatus = 'scheduled' | 'sending' | 'failed';
+
+// 'scheduled': Send later; 'undo-send': Send, held for the undo window
+export type ScheduledMessageKind = 'scheduled' | 'undo-send';
+
+// 'offline': no connection; 'transient': rate limit or server error; 'permanent': needs the user
+export type SendErrorKind = 'offline' | 'transient' | 'permanent';
+
+/**
+ * Message in the outbox, sent by the main process at sendAt
  */
-export interface EmailDraft extends EmailComposition {
-  id?: string;
-  createdAt: Date;
-  modifiedAt: Date;
-  autoSaved: boolean;
-  version: number;
+export interface ScheduledMessage {
+  id: string;
+  request: SendRequest;
+  // Compose modal state to edit the message again (attachments are in request)
+  compose: Omit<ComposeState, 'attachments'>;
+  sendAt: string;
+  kind?: ScheduledMessageKind;
+  status: ScheduledMessageStatus;
+  // Failed send attempts (not counting the ones without a connection); the next one is at nextAttemptAt
+  attempts: number;
+  nextAttemptAt?: string;
+  lastError?: string;
+  lastErrorKind?: SendErrorKind;
+  createdAt: string;
+  updatedAt: string;
 }
 
+/**
+ * Message to schedule; messages without an id are created
+ */
+export type ScheduledMessageInput = Pick<ScheduledMessage, 'request' | 'compose' | 'sendAt' | 'kind'> & { id?: string };
+
 /**
  * Email threading
  */
@@ -9,6 +9,7 @@ export default defineConfig({
     rollupOptions: {
       input: {
         renderer: resolve(__dirname, 'dist/core/renderer.js'), // Updated path to match TypeScript output
+        'compose-window': resolve(__dirname, 'dist/core/compose-window.js'),
       },
       output: {
         entryFileNames: '[name].js',